@@ -0,0 +1,113 @@
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import yahooFinance from 'yahoo-finance2';
+import { 
+  rateLimitRequest, 
+  setCorsHeaders, 
+  setCacheHeaders, 
+  handleError, 
+  createSuccessResponse, 
+  validateRequiredParams,
+  isValidSymbol,
+  toExchangeDate
+} from './utils';
+
+/**
+ * 배당/분할 이벤트 조회 API 핸들러
+ * 종목의 배당락일별 주당 배당금과 주식 분할 내역 제공
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+): Promise<void> {
+  // OPTIONS 요청 처리 (CORS)
+  if (req.method === 'OPTIONS') {
+    setCorsHeaders(res);
+    res.status(200).end();
+    return;
+  }
+  
+  // GET 요청만 허용
+  if (req.method !== 'GET') {
+    res.status(405).json({ success: false, error: '허용되지 않는 메소드입니다.' });
+    return;
+  }
+  
+  try {
+    // CORS 및 캐시 헤더 설정 (과거 이벤트는 더 오래 캐싱)
+    setCorsHeaders(res);
+    setCacheHeaders(res, 3600 * 24); // 24시간 캐싱
+    
+    // Rate Limiting 적용
+    const isAllowed = await rateLimitRequest(req);
+    if (!isAllowed) {
+      res.status(429).json({ success: false, error: '요청 한도를 초과했습니다. 잠시 후 다시 시도해주세요.' });
+      return;
+    }
+    
+    // 필수 매개변수 검증
+    const validationError = validateRequiredParams(req, ['symbol']);
+    if (validationError) {
+      res.status(400).json({ success: false, error: validationError });
+      return;
+    }
+    
+    // 매개변수 추출
+    const symbol = String(req.query.symbol);
+    const period1 = req.query.period1 ? String(req.query.period1) : undefined;
+    const period2 = req.query.period2 ? String(req.query.period2) : undefined;
+    
+    // 종목 티커가 유효한지 검증
+    if (!isValidSymbol(symbol)) {
+      res.status(400).json({ success: false, error: '잘못된 종목 티커 형식' });
+      return;
+    }
+    
+    console.log(`Yahoo Finance 배당/분할 요청: 종목=${symbol}, 시작=${period1 || 'default'}, 종료=${period2 || 'default'}`);
+    
+    // 옵션 객체 생성 (이벤트만 필요하므로 월봉으로 조회)
+    const options: any = { interval: '1mo', events: 'div|split', return: 'array' };
+    
+    // 선택적 매개변수 추가
+    if (period1) options.period1 = period1;
+    if (period2) options.period2 = period2;
+    
+    // Yahoo Finance API를 통해 이벤트 조회
+    const result: any = await yahooFinance.chart(symbol, options);
+    const meta = result.meta;
+    const timezone: string = meta.exchangeTimezoneName || 'UTC';
+    const gmtOffset: number = meta.gmtoffset ?? 0;
+    
+    // 배당 (배당락일, 분할 조정된 주당 배당금)
+    const dividends = (result.events?.dividends ?? [])
+      .map((item: any) => ({
+        date: toExchangeDate(item.date, timezone, gmtOffset),
+        amount: item.amount
+      }))
+      .sort((a: any, b: any) => a.date.localeCompare(b.date));
+    
+    // 분할 (numerator:denominator, 예: 4:1 분할은 4와 1)
+    const splits = (result.events?.splits ?? [])
+      .map((item: any) => ({
+        date: toExchangeDate(item.date, timezone, gmtOffset),
+        numerator: item.numerator,
+        denominator: item.denominator
+      }))
+      .sort((a: any, b: any) => a.date.localeCompare(b.date));
+    
+    // 결과 반환
+    res.status(200).json(createSuccessResponse({
+      symbol,
+      currency: meta.currency || 'USD',
+      dividends,
+      splits
+    }));
+    
+  } catch (error) {
+    // 오류 처리 - 특정 종목이 존재하지 않는 경우 404 오류 반환
+    if (error instanceof Error && error.message.includes('Not Found')) {
+      handleError(res, '해당 종목을 찾을 수 없습니다. 유효한 티커인지 확인해주세요.', 404);
+    } else {
+      handleError(res, error);
+    }
+  }
+}
@@ -6,7 +6,10 @@ import {
   setCacheHeaders, 
   handleError, 
   createSuccessResponse, 
-  validateRequiredParams
+  validateRequiredParams,
+  isValidSymbol,
+  toExchangeDate,
+  toExchangeTime
 } from './utils';
 
 /**
@@ -56,7 +59,7 @@ export default async function handler(
     const interval = String(req.query.interval || '1d');
     
     // 종목 티커가 유효한지 검증
-    if (!/^[A-Za-z0-9.^-]{1,30}$/.test(symbol)) {
+    if (!isValidSymbol(symbol)) {
       res.status(400).json({ success: false, error: '잘못된 종목 티커 형식' });
       return;
     }
@@ -73,32 +76,50 @@ export default async function handler(
     
     console.log(`Yahoo Finance 과거 데이터 요청: 종목=${symbol}, 간격=${interval}, 시작=${period1 || 'default'}, 종료=${period2 || 'default'}`);
     
-    // 옵션 객체 생성
-    const options: any = { interval };
+    // 옵션 객체 생성 (통화와 거래소 정보를 함께 받기 위해 chart 모듈 사용)
+    const options: any = { interval, return: 'array' };
     
     // 선택적 매개변수 추가
     if (period1) options.period1 = period1;
     if (period2) options.period2 = period2;
     
     // Yahoo Finance API를 통해 과거 데이터 조회
-    const result = await yahooFinance.historical(symbol, options);
+    const result: any = await yahooFinance.chart(symbol, options);
+    const meta = result.meta;
+    const timezone: string = meta.exchangeTimezoneName || 'UTC';
+    const gmtOffset: number = meta.gmtoffset ?? 0;
     
-    // 결과 포맷팅 (일부 필드 이름 변경 및 정리)
-    const formattedData = result.map((item: any) => ({
-      date: item.date.toISOString().split('T')[0], // YYYY-MM-DD 형식으로
-      open: item.open,
-      high: item.high,
-      low: item.low,
-      close: item.close,
-      adjClose: item.adjClose,
-      volume: item.volume
-    }));
+    // 정규장 거래 시간 (거래소 현지 시각)
+    const regular = meta.currentTradingPeriod?.regular;
+    const tradingHours = regular
+      ? {
+          open: toExchangeTime(regular.start, timezone, gmtOffset),
+          close: toExchangeTime(regular.end, timezone, gmtOffset)
+        }
+      : null;
+    
+    // 결과 포맷팅 (거래가 없는 봉 제외, 날짜는 거래소 현지 날짜)
+    const formattedData = result.quotes
+      .filter((item: any) => item.close !== null && item.close !== undefined)
+      .map((item: any) => ({
+        date: toExchangeDate(item.date, timezone, gmtOffset), // YYYY-MM-DD 형식으로
+        open: item.open,
+        high: item.high,
+        low: item.low,
+        close: item.close,
+        adjClose: item.adjclose ?? item.close,
+        volume: item.volume ?? 0
+      }));
     
     // 결과 반환
     res.status(200).json(createSuccessResponse({
       symbol,
       interval,
-      currency: 'USD', // Yahoo Finance는 기본적으로 USD 반환
+      currency: meta.currency || 'USD',
+      exchange: meta.fullExchangeName || meta.exchangeName || '',
+      exchangeTimezone: timezone,
+      gmtOffset,
+      tradingHours,
       data: formattedData,
       dataCount: formattedData.length,
       firstDate: formattedData.length > 0 ? formattedData[0].date : null,
@@ -6,7 +6,8 @@ import {
   setCacheHeaders, 
   handleError, 
   createSuccessResponse, 
-  validateRequiredParams
+  validateRequiredParams,
+  isValidSymbol
 } from './utils';
 
 /**
@@ -64,7 +65,7 @@ export default async function handler(
     
     // 종목 티커가 유효한지 검증
     for (const symbol of symbols) {
-      if (!/^[A-Za-z0-9.^-]{1,30}$/.test(symbol)) {
+      if (!isValidSymbol(symbol)) {
         res.status(400).json({ success: false, error: `잘못된 종목 티커 형식: ${symbol}` });
         return;
       }
@@ -99,6 +99,14 @@ export function validateRequiredParams(req: VercelRequest, params: string[]): st
   return null;
 }
 
+/**
+ * 종목 티커 형식 검증
+ * 영문/숫자와 거래소 접미사(.), 지수(^), 환율·선물(=), 하이픈 허용 (예: 005930.KS, ^GSPC, KRW=X, GC=F)
+ */
+export function isValidSymbol(symbol: string): boolean {
+  return /^[A-Za-z0-9.^=-]{1,30}$/.test(symbol);
+}
+
 /**
  * CORS 헤더 설정
  */
@@ -114,4 +122,38 @@ export function setCorsHeaders(res: VercelResponse): void {
  */
 export function setCacheHeaders(res: VercelResponse, cacheTime = 300): void {
   res.setHeader('Cache-Control', `s-maxage=${cacheTime}, stale-while-revalidate=60`);
-} 
\ No newline at end of file
+}
+
+/**
+ * 거래소 현지 날짜 문자열 생성 (YYYY-MM-DD)
+ * UTC 기준으로 자르면 UTC보다 앞선 시간대(예: 한국 거래소)의 봉이 전날로 밀리므로 거래소 시간대로 변환
+ */
+export function toExchangeDate(date: Date, timeZone: string, gmtOffset = 0): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(date);
+  } catch {
+    // 알 수 없는 시간대는 UTC 기준 시차로 보정
+    return new Date(date.getTime() + gmtOffset * 1000).toISOString().split('T')[0];
+  }
+}
+
+/**
+ * 거래소 현지 시각 문자열 생성 (HH:mm)
+ */
+export function toExchangeTime(date: Date, timeZone: string, gmtOffset = 0): string {
+  try {
+    return new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(date);
+  } catch {
+    return new Date(date.getTime() + gmtOffset * 1000).toISOString().slice(11, 16);
+  }
+}
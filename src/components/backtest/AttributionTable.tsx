@@ -0,0 +1,79 @@
+/**
+ * 종목별 성과 기여 테이블 컴포넌트
+ * 포트폴리오 백테스트에서 각 종목의 거래 성과와 전체 수익에 대한 기여도를 표시
+ */
+
+import React from 'react';
+import {
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { SymbolAttribution } from '../../types/backtest';
+import { formatCurrency, formatPercent } from '../../utils/formatters';
+
+interface AttributionTableProps {
+  attribution: SymbolAttribution[];
+  currency: string; // 손익 합산 통화
+}
+
+const AttributionTable: React.FC<AttributionTableProps> = ({ attribution, currency }) => {
+  const headerBg = useColorModeValue('gray.50', 'gray.800');
+
+  if (attribution.length === 0) {
+    return <Text color="gray.500">종목별 성과가 없습니다.</Text>;
+  }
+
+  // 기여도 높은 순으로 표시
+  const sorted = [...attribution].sort((a, b) => b.contribution - a.contribution);
+
+  return (
+    <Box overflowX="auto">
+      <Table size="sm">
+        <Thead bg={headerBg}>
+          <Tr>
+            <Th>종목</Th>
+            <Th isNumeric>거래 수</Th>
+            <Th isNumeric>승률</Th>
+            <Th isNumeric>실현 손익</Th>
+            <Th isNumeric>평가 손익</Th>
+            <Th isNumeric>기여도</Th>
+            <Th isNumeric>평균 수익률</Th>
+            <Th isNumeric>보유 비율</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {sorted.map((item) => (
+            <Tr key={item.symbol}>
+              <Td>
+                {item.symbol}
+                {item.currency && item.currency !== currency && (
+                  <Text as="span" ml={1} fontSize="xs" color="gray.500">({item.currency})</Text>
+                )}
+              </Td>
+              <Td isNumeric>{item.totalTrades}</Td>
+              <Td isNumeric>{formatPercent(item.winRate)}</Td>
+              <Td isNumeric color={item.realizedPnl >= 0 ? 'green.500' : 'red.500'}>
+                {formatCurrency(item.realizedPnl, currency)}
+              </Td>
+              <Td isNumeric>{formatCurrency(item.unrealizedPnl, currency)}</Td>
+              <Td isNumeric color={item.contribution >= 0 ? 'green.500' : 'red.500'}>
+                {formatPercent(item.contribution, 'always')}
+              </Td>
+              <Td isNumeric>{formatPercent(item.averageReturnPercent, 'always')}</Td>
+              <Td isNumeric>{formatPercent(item.exposureTime)}</Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+};
+
+export default AttributionTable;
@@ -0,0 +1,789 @@
+/**
+ * 백테스트 실행 페이지 컴포넌트
+ * 저장된 전략을 선택한 종목/기간으로 실행하고 결과를 시각화
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import {
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Box,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  Button,
+  ButtonGroup,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  IconButton,
+  Input,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Tab,
+  TabList,
+  TabPanel,
+  TabPanels,
+  Tabs,
+  Tag,
+  TagCloseButton,
+  TagLabel,
+  Text,
+  useColorModeValue,
+  useToast,
+  VStack,
+} from '@chakra-ui/react';
+import { ArrowBackIcon, DownloadIcon, TriangleUpIcon } from '@chakra-ui/icons';
+
+import StockSearch from '../search/StockSearch';
+import MetricsSummary from './MetricsSummary';
+import TradeTable from './TradeTable';
+import AttributionTable from './AttributionTable';
+import RebalanceTable from './RebalanceTable';
+import SavedBacktestList from './SavedBacktestList';
+import MonteCarloPanel from './MonteCarloPanel';
+import JobProgress from './JobProgress';
+import EquityCurveChart from '../visualization/EquityCurveChart';
+import DrawdownChart from '../visualization/DrawdownChart';
+import MonthlyReturnsHeatmap from '../visualization/MonthlyReturnsHeatmap';
+import strategyService from '../../services/firebase/strategy-service';
+import backtestService from '../../services/firebase/backtest-service';
+import stockService from '../../services/yahoo-finance/stock-service';
+import currencyService from '../../services/yahoo-finance/currency-service';
+import { usePreferencesStore } from '../../store/preferences';
+import { Strategy } from '../../types/strategy';
+import { StockSearchItem } from '../../types/stock';
+import {
+  BacktestResult,
+  BacktestRunInput,
+  BenchmarkResult,
+  EquityPoint,
+  PerformanceMetrics,
+  PortfolioRanking,
+  RebalanceRecord,
+  SavedBacktestDetail,
+  SymbolAttribution,
+} from '../../types/backtest';
+import { getAllocationSymbols } from '../../utils/backtest/allocation-engine';
+import { useBacktestJob } from '../../hooks/useBacktestJob';
+import { formatCurrency, toDateString } from '../../utils/formatters';
+import { COST_MODEL_PRESETS, NO_COST_MODEL, describeCostModel } from '../../constants/cost-model';
+import { PRICE_MODE_OPTIONS, requiresCorporateEvents } from '../../constants/price-mode';
+import { attachCorporateEvents } from '../../utils/backtest/price-mode';
+import { convertEquity } from '../../utils/fx';
+
+/**
+ * 백테스트 데이터 간격 옵션
+ */
+const INTERVAL_OPTIONS = [
+  { value: '1d', label: '일봉' },
+  { value: '1wk', label: '주봉' },
+  { value: '1mo', label: '월봉' },
+];
+
+/**
+ * 포트폴리오 매수 우선순위 옵션
+ */
+const PORTFOLIO_RANKING_OPTIONS: { value: PortfolioRanking; label: string }[] = [
+  { value: 'symbolOrder', label: '입력 순서' },
+  { value: 'momentum', label: '모멘텀 (최근 20봉 수익률)' },
+  { value: 'lowVolatility', label: '저변동성 (최근 20봉)' },
+  { value: 'tradingValue', label: '거래대금 (최근 20봉 평균)' },
+];
+
+/**
+ * 백테스트 실행 결과 묶음
+ */
+interface BacktestRun {
+  input: BacktestRunInput;
+  result: BacktestResult;
+  metrics: PerformanceMetrics;
+  benchmark: BenchmarkResult | null;
+  attribution: SymbolAttribution[] | null; // 포트폴리오 백테스트의 종목별 성과 기여
+  rebalances: RebalanceRecord[] | null;    // 자산 배분 백테스트의 리밸런싱 기록 (저장되지 않음)
+  savedId: string | null;  // 저장된 백테스트 ID (저장 전이면 null)
+}
+
+/**
+ * 저장된 백테스트를 화면 표시용 실행 결과로 변환
+ */
+const toBacktestRun = (saved: SavedBacktestDetail): BacktestRun => {
+  const { input, equity, trades } = saved;
+
+  return {
+    input,
+    result: {
+      symbol: input.symbols[0],
+      interval: input.interval,
+      currency: saved.currency,
+      startDate: equity[0]?.date ?? null,
+      endDate: equity[equity.length - 1]?.date ?? null,
+      initialCapital: saved.metrics.initialCapital,
+      finalEquity: saved.metrics.finalEquity,
+      trades,
+      equity,
+      openPositions: [],
+      warmupBars: 0,
+    },
+    metrics: saved.metrics,
+    benchmark:
+      saved.benchmarkSymbol && saved.benchmarkMetrics
+        ? {
+            symbol: saved.benchmarkSymbol,
+            equity: saved.benchmarkEquity,
+            metrics: saved.benchmarkMetrics,
+          }
+        : null,
+    attribution: saved.attribution ?? null,
+    rebalances: null,
+    savedId: saved.id,
+  };
+};
+
+/**
+ * 기준 통화로 환산한 자산 곡선
+ */
+interface BaseCurrencyView {
+  currency: string;
+  equity: EquityPoint[];
+  benchmark?: EquityPoint[];
+}
+
+/**
+ * 기본 시작일 (3년 전)
+ */
+const getDefaultStartDate = (): string => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 3);
+  return toDateString(date);
+};
+
+const BacktestPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+
+  // 사용자 ID (실제로는 인증 서비스에서 가져와야 함)
+  // 임시로 고정값 사용
+  const userId = 'current-user-id';
+
+  // 전략 상태
+  const [strategy, setStrategy] = useState<Strategy | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 실행 설정
+  const [symbols, setSymbols] = useState<StockSearchItem[]>([]);
+  const [ranking, setRanking] = useState<PortfolioRanking>('symbolOrder');
+  const [costPreset, setCostPreset] = useState<string>('strategy'); // strategy: 전략의 비용 설정 사용
+  const [priceModeId, setPriceModeId] = useState<string>(PRICE_MODE_OPTIONS[0].id);
+  const [startDate, setStartDate] = useState<string>(getDefaultStartDate());
+  const [endDate, setEndDate] = useState<string>(toDateString(new Date()));
+  const [interval, setInterval] = useState<string>('1d');
+
+  // 실행 결과
+  const [running, setRunning] = useState<boolean>(false);
+  const job = useBacktestJob();
+  const [run, setRun] = useState<BacktestRun | null>(null);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [savedListKey, setSavedListKey] = useState<number>(0);
+
+  // 기준 통화 환산
+  const baseCurrency = usePreferencesStore(state => state.defaultCurrency);
+  const [baseView, setBaseView] = useState<BaseCurrencyView | null>(null);
+  const [showBaseCurrency, setShowBaseCurrency] = useState<boolean>(false);
+
+  const cardBg = useColorModeValue('white', 'gray.700');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  /**
+   * 전략 불러오기
+   */
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchStrategy = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await strategyService.getStrategy(id);
+        if (!data) {
+          setError('전략을 찾을 수 없습니다.');
+          return;
+        }
+
+        setStrategy(data);
+      } catch (err) {
+        console.error('전략 불러오기 오류:', err);
+        setError('전략을 불러오는 중 오류가 발생했습니다.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStrategy();
+  }, [id]);
+
+  /**
+   * 결과 통화가 기준 통화와 다르면 자산 곡선을 기준 통화로 환산
+   * 환율을 불러오지 못하면 현지 통화로만 표시
+   */
+  useEffect(() => {
+    setBaseView(null);
+    if (!run) return;
+
+    const { result, benchmark } = run;
+    const periodStart = result.startDate;
+    const periodEnd = result.endDate;
+    if (!result.currency || result.currency === baseCurrency || !periodStart || !periodEnd) return;
+
+    let cancelled = false;
+
+    const convert = async () => {
+      try {
+        const series = await currencyService.getFxSeries(result.currency, baseCurrency, periodStart, periodEnd);
+        if (cancelled) return;
+
+        setBaseView({
+          currency: baseCurrency,
+          equity: convertEquity(result.equity, series),
+          ...(benchmark ? { benchmark: convertEquity(benchmark.equity, series) } : {}),
+        });
+      } catch (err) {
+        console.error('기준 통화 환산 오류:', err);
+      }
+    };
+
+    convert();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [run, baseCurrency]);
+
+  // 자산 배분 전략은 배분 설정의 종목으로 실행
+  const isAllocationStrategy = strategy?.kind === 'allocation' && !!strategy.allocation;
+  const runSymbols = isAllocationStrategy && strategy?.allocation
+    ? getAllocationSymbols(strategy.allocation)
+    : symbols.map((item) => item.symbol);
+
+  /**
+   * 종목 추가 핸들러 (이미 선택된 종목은 무시)
+   */
+  const handleAddSymbol = (item: StockSearchItem) => {
+    setSymbols((prev) =>
+      prev.some((s) => s.symbol === item.symbol) ? prev : [...prev, item]
+    );
+  };
+
+  /**
+   * 종목 제거 핸들러
+   */
+  const handleRemoveSymbol = (symbolToRemove: string) => {
+    setSymbols((prev) => prev.filter((s) => s.symbol !== symbolToRemove));
+  };
+
+  /**
+   * 백테스트 실행 핸들러
+   * 자산 배분 전략은 배분 대상 종목으로 리밸런싱 백테스트,
+   * 신호 기반 전략은 종목이 하나면 단일 종목 백테스트, 둘 이상이면 공유 자본 포트폴리오 백테스트
+   * 계산은 백테스트 워커에서 실행하며 실행 중 취소 가능
+   */
+  const handleRun = async () => {
+    if (!strategy || runSymbols.length === 0) return;
+
+    if (startDate >= endDate) {
+      toast({
+        title: '기간을 확인하세요.',
+        description: '시작일은 종료일보다 이전이어야 합니다.',
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    try {
+      setRunning(true);
+
+      // 실제 거래 가격/총수익 기준이면 배당/분할 이벤트를 봉에 연결
+      const priceOption = PRICE_MODE_OPTIONS.find((option) => option.id === priceModeId) ?? PRICE_MODE_OPTIONS[0];
+      const datasets = await Promise.all(
+        runSymbols.map(async (symbol) => {
+          const data = await stockService.getHistoricalData(symbol, interval, startDate, endDate);
+          if (!requiresCorporateEvents(priceOption)) return data;
+
+          const events = await stockService.getCorporateEvents(symbol, startDate, endDate);
+          return attachCorporateEvents(data, events);
+        })
+      );
+
+      const emptySymbols = datasets.filter((d) => d.data.length === 0).map((d) => d.symbol);
+      if (emptySymbols.length > 0) {
+        throw new Error(`선택한 기간에 가격 데이터가 없습니다: ${emptySymbols.join(', ')}`);
+      }
+
+      // 통화가 섞여 있으면 신호와 체결은 현지 통화로 계산하고 현금 흐름과 자산 평가만 기준 통화로 환산
+      const currencies = Array.from(new Set(datasets.map((d) => d.currency)));
+      const fx = currencies.length > 1
+        ? {
+            baseCurrency,
+            series: await Promise.all(
+              currencies
+                .filter((currency) => currency !== baseCurrency)
+                .map((currency) => currencyService.getFxSeries(currency, baseCurrency, startDate, endDate))
+            ),
+          }
+        : undefined;
+      const localCurrencies = Object.fromEntries(
+        datasets.filter((d) => d.currency !== baseCurrency).map((d) => [d.symbol, d.currency])
+      );
+
+      const isPortfolio = !isAllocationStrategy && datasets.length > 1;
+      const costModel = COST_MODEL_PRESETS.find((preset) => preset.id === costPreset)?.model;
+      const options = {
+        ...(isPortfolio ? { ranking } : {}),
+        ...(costModel ? { costModel } : {}),
+        ...(requiresCorporateEvents(priceOption) ? { priceMode: priceOption.priceMode } : {}),
+        ...(priceOption.dividendMode ? { dividendMode: priceOption.dividendMode } : {}),
+      };
+
+      // 계산은 워커에서 실행 (취소하면 null)
+      const output = await job.run({ kind: 'backtest', strategy, datasets, options, ...(fx ? { fx } : {}) });
+      if (!output) {
+        toast({
+          title: '백테스트를 취소했습니다.',
+          status: 'info',
+          duration: 3000,
+          isClosable: true,
+        });
+        return;
+      }
+
+      setRun({
+        input: {
+          strategy: {
+            name: strategy.name,
+            buyRules: strategy.buyRules,
+            sellRules: strategy.sellRules,
+            moneyManagement: strategy.moneyManagement,
+            ...(strategy.costModel ? { costModel: strategy.costModel } : {}),
+            ...(isAllocationStrategy ? { kind: strategy.kind, allocation: strategy.allocation } : {}),
+          },
+          symbols: datasets.map((d) => d.symbol),
+          startDate,
+          endDate,
+          interval,
+          options: Object.keys(options).length > 0 ? options : undefined,
+          ...(fx ? { baseCurrency: fx.baseCurrency, localCurrencies } : {}),
+        },
+        ...output,
+        savedId: null,
+      });
+    } catch (err) {
+      console.error('백테스트 실행 오류:', err);
+
+      toast({
+        title: '백테스트 실행 실패',
+        description: err instanceof Error ? err.message : '백테스트를 실행하는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  /**
+   * 백테스트 결과 저장 핸들러
+   */
+  const handleSave = async () => {
+    if (!strategy || !run || run.savedId) return;
+
+    try {
+      setSaving(true);
+
+      const savedId = await backtestService.saveBacktest({
+        userId,
+        strategyId: strategy.id,
+        input: run.input,
+        result: run.result,
+        metrics: run.metrics,
+        benchmark: run.benchmark,
+        attribution: run.attribution,
+      });
+
+      setRun({ ...run, savedId });
+      setSavedListKey((prev) => prev + 1);
+
+      toast({
+        title: '백테스트 저장 완료',
+        description: '백테스트 결과가 저장되었습니다.',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (err) {
+      console.error('백테스트 저장 오류:', err);
+
+      toast({
+        title: '오류 발생',
+        description: '백테스트 결과를 저장하는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /**
+   * 저장된 백테스트 불러오기 핸들러
+   */
+  const handleLoadSaved = async (backtestId: string) => {
+    try {
+      const saved = await backtestService.getBacktest(backtestId);
+      if (!saved) {
+        throw new Error('저장된 백테스트를 찾을 수 없습니다.');
+      }
+
+      setRun(toBacktestRun(saved));
+    } catch (err) {
+      console.error('백테스트 불러오기 오류:', err);
+
+      toast({
+        title: '오류 발생',
+        description: '저장된 백테스트를 불러오는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  // 포트폴리오 거래 내역의 종목별 통화
+  const currencyBySymbol = run?.attribution
+    ? Object.fromEntries(run.attribution.map((item) => [item.symbol, item.currency]))
+    : undefined;
+  const hasMixedCurrency = run?.attribution
+    ? new Set(run.attribution.map((item) => item.currency)).size > 1
+    : false;
+  const convertedSymbols = run?.input.localCurrencies
+    ? Object.entries(run.input.localCurrencies).map(([symbol, currency]) => `${symbol} (${currency})`)
+    : [];
+
+  // 기준 통화 환산 결과가 있으면 자산 곡선을 현지/기준 통화 중 선택해 표시
+  const chartView = showBaseCurrency && baseView && run
+    ? baseView
+    : run
+      ? { currency: run.result.currency, equity: run.result.equity, benchmark: run.benchmark?.equity }
+      : null;
+
+  // 로딩 중 표시
+  if (loading) {
+    return (
+      <Flex justifyContent="center" alignItems="center" height="400px">
+        <Spinner size="xl" color="blue.500" />
+      </Flex>
+    );
+  }
+
+  // 오류 표시
+  if (error || !strategy) {
+    return (
+      <Alert status="error" variant="solid" borderRadius="md">
+        <AlertIcon />
+        <AlertTitle mr={2}>오류 발생</AlertTitle>
+        <AlertDescription>{error || '전략을 찾을 수 없습니다.'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Box>
+      {/* 상단 네비게이션 */}
+      <Breadcrumb mb={5} fontSize="sm">
+        <BreadcrumbItem>
+          <BreadcrumbLink as={Link} to="/">홈</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbItem>
+          <BreadcrumbLink as={Link} to="/strategy">전략</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbItem isCurrentPage>
+          <BreadcrumbLink>백테스트</BreadcrumbLink>
+        </BreadcrumbItem>
+      </Breadcrumb>
+
+      <Flex alignItems="center" mb={6}>
+        <IconButton
+          aria-label="뒤로 가기"
+          icon={<ArrowBackIcon />}
+          mr={4}
+          onClick={() => navigate('/strategy')}
+        />
+        <Box>
+          <Heading size="lg">{strategy.name} 백테스트</Heading>
+          {strategy.description && (
+            <Text color="gray.600" fontSize="sm">{strategy.description}</Text>
+          )}
+        </Box>
+      </Flex>
+
+      {/* 실행 설정 */}
+      <Box p={6} mb={8} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" boxShadow="sm">
+        <VStack spacing={4} align="stretch">
+          {isAllocationStrategy ? (
+            <Box>
+              <Text fontSize="sm" mb={2}>
+                자산 배분 전략은 배분 설정의 종목으로 실행합니다. 모멘텀 점수는 12개월 이상의 데이터가 필요하므로
+                그 전까지는 현금으로 보유합니다.
+              </Text>
+              <Flex alignItems="center" gap={2} wrap="wrap">
+                {runSymbols.map((symbol) => (
+                  <Tag key={symbol} colorScheme="purple">{symbol}</Tag>
+                ))}
+              </Flex>
+            </Box>
+          ) : (
+            <>
+              <StockSearch label="백테스트 종목 (여러 종목 선택 시 포트폴리오 백테스트)" onSelect={handleAddSymbol} />
+
+              {symbols.length > 0 && (
+                <Flex alignItems="center" gap={2} wrap="wrap">
+                  <Text fontSize="sm">선택된 종목:</Text>
+                  {symbols.map((item) => (
+                    <Tag key={item.symbol} colorScheme="blue" title={item.name}>
+                      <TagLabel>{item.symbol}</TagLabel>
+                      <TagCloseButton onClick={() => handleRemoveSymbol(item.symbol)} />
+                    </Tag>
+                  ))}
+                </Flex>
+              )}
+
+              {symbols.length > 1 && (
+                <FormControl maxW={{ base: 'full', md: 'sm' }}>
+                  <FormLabel>동시 매수 신호 우선순위</FormLabel>
+                  <Select value={ranking} onChange={(e) => setRanking(e.target.value as PortfolioRanking)}>
+                    {PORTFOLIO_RANKING_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+            </>
+          )}
+
+          <SimpleGrid columns={{ base: 1, md: 2, lg: 5 }} spacing={4}>
+            <FormControl>
+              <FormLabel>시작일</FormLabel>
+              <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </FormControl>
+            <FormControl>
+              <FormLabel>종료일</FormLabel>
+              <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </FormControl>
+            <FormControl>
+              <FormLabel>데이터 간격</FormLabel>
+              <Select value={interval} onChange={(e) => setInterval(e.target.value)}>
+                {INTERVAL_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl>
+              <FormLabel>거래 비용</FormLabel>
+              <Select value={costPreset} onChange={(e) => setCostPreset(e.target.value)}>
+                <option value="strategy">
+                  전략 설정 ({describeCostModel(strategy.costModel ?? NO_COST_MODEL)})
+                </option>
+                {COST_MODEL_PRESETS.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.label}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl>
+              <FormLabel>가격 기준</FormLabel>
+              <Select value={priceModeId} onChange={(e) => setPriceModeId(e.target.value)}>
+                {PRICE_MODE_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </Select>
+              <FormHelperText>
+                {PRICE_MODE_OPTIONS.find((option) => option.id === priceModeId)?.description}
+              </FormHelperText>
+            </FormControl>
+          </SimpleGrid>
+
+          <Flex justifyContent="flex-end">
+            <Button
+              colorScheme="purple"
+              leftIcon={<TriangleUpIcon transform="rotate(90deg)" />}
+              onClick={handleRun}
+              isLoading={running}
+              loadingText="실행 중"
+              isDisabled={runSymbols.length === 0}
+            >
+              백테스트 실행
+            </Button>
+          </Flex>
+
+          {job.running && <JobProgress progress={job.progress} onCancel={job.cancel} />}
+        </VStack>
+      </Box>
+
+      {/* 실행 결과 */}
+      {run && (
+        <VStack spacing={8} align="stretch">
+          <Box>
+            <Flex justifyContent="space-between" alignItems="center" mb={4}>
+              <Heading size="md">
+                {run.input.symbols.join(', ')} 성과 요약 ({run.result.startDate} ~ {run.result.endDate})
+              </Heading>
+              <Button
+                leftIcon={<DownloadIcon />}
+                size="sm"
+                onClick={handleSave}
+                isLoading={saving}
+                isDisabled={run.savedId !== null}
+              >
+                {run.savedId ? '저장됨' : '결과 저장'}
+              </Button>
+            </Flex>
+            {run.input.baseCurrency && (
+              <Alert status="info" borderRadius="md" mb={4}>
+                <AlertIcon />
+                <AlertDescription>
+                  통화가 서로 다른 종목이 포함되어 있어 {convertedSymbols.join(', ')}의 현금 흐름과 평가금액을
+                  일별 환율로 기준 통화({run.input.baseCurrency})로 환산해 합산했습니다.
+                  매매 신호와 거래 내역의 가격은 현지 통화 기준입니다.
+                </AlertDescription>
+              </Alert>
+            )}
+            {hasMixedCurrency && !run.input.baseCurrency && (
+              <Alert status="warning" borderRadius="md" mb={4}>
+                <AlertIcon />
+                <AlertDescription>
+                  통화가 서로 다른 종목이 포함되어 있습니다. 환산 없이 현지 통화 금액으로 합산됩니다.
+                </AlertDescription>
+              </Alert>
+            )}
+            <MetricsSummary
+              metrics={run.metrics}
+              benchmark={run.benchmark?.metrics}
+              currency={run.result.currency}
+            />
+            {!!run.result.dividendIncome && (
+              <Text fontSize="sm" color="gray.500" mt={2}>
+                현금 배당 수령액 {formatCurrency(run.result.dividendIncome, run.result.currency)}
+              </Text>
+            )}
+            {baseView && baseView.equity.length > 0 && (
+              <Text fontSize="sm" color="gray.500" mt={2}>
+                최종 자산 {formatCurrency(run.result.finalEquity, run.result.currency)}
+                {' '}≈ {formatCurrency(baseView.equity[baseView.equity.length - 1].equity, baseView.currency)} (기준 통화 환산)
+              </Text>
+            )}
+          </Box>
+
+          <Box p={6} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" boxShadow="sm">
+            <Flex justifyContent="space-between" alignItems="center" mb={4}>
+              <Heading size="md">자산 곡선</Heading>
+              {baseView && (
+                <ButtonGroup size="xs" isAttached variant="outline">
+                  <Button
+                    isActive={!showBaseCurrency}
+                    onClick={() => setShowBaseCurrency(false)}
+                  >
+                    현지 통화 ({run.result.currency})
+                  </Button>
+                  <Button
+                    isActive={showBaseCurrency}
+                    onClick={() => setShowBaseCurrency(true)}
+                  >
+                    기준 통화 ({baseView.currency})
+                  </Button>
+                </ButtonGroup>
+              )}
+            </Flex>
+            {chartView && (
+              <EquityCurveChart
+                equity={chartView.equity}
+                benchmark={chartView.benchmark}
+                currency={chartView.currency}
+              />
+            )}
+            <Heading size="sm" mt={6} mb={2}>낙폭</Heading>
+            <DrawdownChart equity={run.result.equity} initialCapital={run.result.initialCapital} />
+          </Box>
+
+          <Box bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" boxShadow="sm">
+            <Tabs>
+              <TabList>
+                <Tab>거래 내역 ({run.result.trades.length})</Tab>
+                <Tab>월별 수익률</Tab>
+                {run.attribution && <Tab>종목별 기여</Tab>}
+                {run.rebalances && <Tab>리밸런싱 ({run.rebalances.length})</Tab>}
+                <Tab>몬테카를로</Tab>
+              </TabList>
+              <TabPanels>
+                <TabPanel>
+                  <TradeTable
+                    trades={run.result.trades}
+                    currency={run.result.currency}
+                    currencyBySymbol={currencyBySymbol}
+                  />
+                </TabPanel>
+                <TabPanel>
+                  <MonthlyReturnsHeatmap equity={run.result.equity} initialCapital={run.result.initialCapital} />
+                </TabPanel>
+                {run.attribution && (
+                  <TabPanel>
+                    <AttributionTable attribution={run.attribution} currency={run.result.currency} />
+                  </TabPanel>
+                )}
+                {run.rebalances && (
+                  <TabPanel>
+                    <RebalanceTable rebalances={run.rebalances} currency={run.result.currency} />
+                  </TabPanel>
+                )}
+                <TabPanel>
+                  <MonteCarloPanel result={run.result} />
+                </TabPanel>
+              </TabPanels>
+            </Tabs>
+          </Box>
+        </VStack>
+      )}
+
+      {/* 저장된 백테스트 */}
+      <Box mt={8} p={6} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" boxShadow="sm">
+        <Heading size="md" mb={4}>저장된 백테스트</Heading>
+        <SavedBacktestList
+          userId={userId}
+          strategyId={strategy.id}
+          refreshKey={savedListKey}
+          onLoad={handleLoadSaved}
+        />
+      </Box>
+    </Box>
+  );
+};
+
+export default BacktestPage;
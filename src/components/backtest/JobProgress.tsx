@@ -0,0 +1,47 @@
+/**
+ * 작업 진행 상황 컴포넌트
+ * 워커에서 실행 중인 백테스트 작업의 진행률과 취소 버튼을 표시
+ */
+
+import React from 'react';
+import { Box, Button, Flex, Progress, Text } from '@chakra-ui/react';
+import { BacktestJobProgress } from '../../types/backtest-worker';
+
+interface JobProgressProps {
+  progress: BacktestJobProgress | null;
+  unitLabel?: string;    // 진행 단위 (예: 조합 평가), 없으면 진행률(%)만 표시
+  onCancel: () => void;
+}
+
+const JobProgress: React.FC<JobProgressProps> = ({ progress, unitLabel, onCancel }) => {
+  // 진행 상황을 알 수 없거나 한 번에 계산하는 작업은 진행 중 표시만
+  const isIndeterminate = !progress || progress.total <= 1;
+  const label =
+    !progress || progress.total <= 1
+      ? '계산 중...'
+      : unitLabel
+        ? `${progress.completed.toLocaleString()} / ${progress.total.toLocaleString()} ${unitLabel} (${Math.floor(progress.percent)}%)`
+        : `${Math.floor(progress.percent)}%`;
+
+  return (
+    <Flex alignItems="center" gap={4}>
+      <Box flex={1}>
+        <Progress
+          value={progress?.percent ?? 0}
+          isIndeterminate={isIndeterminate}
+          size="sm"
+          colorScheme="purple"
+          borderRadius="md"
+        />
+        <Text fontSize="xs" color="gray.500" mt={1}>
+          {label}
+        </Text>
+      </Box>
+      <Button size="sm" variant="outline" colorScheme="red" onClick={onCancel}>
+        취소
+      </Button>
+    </Flex>
+  );
+};
+
+export default JobProgress;
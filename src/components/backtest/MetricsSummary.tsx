@@ -0,0 +1,112 @@
+/**
+ * 성과 지표 요약 컴포넌트
+ * 전략과 벤치마크의 핵심 성과 지표를 나란히 표시
+ */
+
+import React from 'react';
+import {
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+} from '@chakra-ui/react';
+import { PerformanceMetrics } from '../../types/backtest';
+import { formatCurrency, formatPercent, formatRatio } from '../../utils/formatters';
+
+interface MetricsSummaryProps {
+  metrics: PerformanceMetrics;
+  benchmark?: PerformanceMetrics;
+  currency: string;
+}
+
+const MetricsSummary: React.FC<MetricsSummaryProps> = ({ metrics, benchmark, currency }) => {
+  // 표시할 지표 목록 (벤치마크 값이 의미 있는 항목만 helpText로 비교)
+  const items: { label: string; value: string; benchmarkValue?: string; color?: string }[] = [
+    {
+      label: '최종 자산',
+      value: formatCurrency(metrics.finalEquity, currency),
+      benchmarkValue: benchmark && formatCurrency(benchmark.finalEquity, currency),
+    },
+    {
+      label: '총 수익률',
+      value: formatPercent(metrics.totalReturn, 'always'),
+      benchmarkValue: benchmark && formatPercent(benchmark.totalReturn, 'always'),
+      color: metrics.totalReturn >= 0 ? 'green.500' : 'red.500',
+    },
+    {
+      label: 'CAGR',
+      value: formatPercent(metrics.cagr, 'always'),
+      benchmarkValue: benchmark && formatPercent(benchmark.cagr, 'always'),
+    },
+    {
+      label: '최대 낙폭 (MDD)',
+      value: formatPercent(metrics.maxDrawdown),
+      benchmarkValue: benchmark && formatPercent(benchmark.maxDrawdown),
+      color: 'red.500',
+    },
+    {
+      label: 'MDD 지속 기간',
+      value: `${metrics.maxDrawdownDurationDays}일`,
+      benchmarkValue: benchmark && `${benchmark.maxDrawdownDurationDays}일`,
+    },
+    {
+      label: '변동성 (연)',
+      value: formatPercent(metrics.volatility),
+      benchmarkValue: benchmark && formatPercent(benchmark.volatility),
+    },
+    {
+      label: '샤프 지수',
+      value: formatRatio(metrics.sharpeRatio),
+      benchmarkValue: benchmark && formatRatio(benchmark.sharpeRatio),
+    },
+    {
+      label: '소르티노 지수',
+      value: formatRatio(metrics.sortinoRatio),
+      benchmarkValue: benchmark && formatRatio(benchmark.sortinoRatio),
+    },
+    {
+      label: '칼마 지수',
+      value: formatRatio(metrics.calmarRatio),
+      benchmarkValue: benchmark && formatRatio(benchmark.calmarRatio),
+    },
+    { label: '거래 횟수', value: String(metrics.totalTrades) },
+    { label: '승률', value: formatPercent(metrics.winRate) },
+    { label: '손익비 (Profit Factor)', value: formatRatio(metrics.profitFactor) },
+    { label: '평균 수익', value: formatPercent(metrics.averageWinPercent, 'always') },
+    { label: '평균 손실', value: formatPercent(metrics.averageLossPercent, 'always') },
+    { label: '기대값 (거래당)', value: formatCurrency(metrics.expectancy, currency) },
+    { label: '투자 기간 비율', value: formatPercent(metrics.exposureTime) },
+  ];
+
+  // 거래 비용 (비용이 발생한 항목만 표시)
+  const costItems: [string, number | undefined][] = [
+    ['수수료', metrics.totalCommission],
+    ['거래세', metrics.totalTax],
+    ['슬리피지 (체결가 반영)', metrics.totalSlippage],
+  ];
+  costItems.forEach(([label, value]) => {
+    if (value && value > 0) {
+      items.push({ label, value: formatCurrency(value, currency), color: 'orange.500' });
+    }
+  });
+
+
+  return (
+    <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+      {items.map((item) => (
+        <Stat key={item.label} p={3} borderWidth="1px" borderRadius="md">
+          <StatLabel>{item.label}</StatLabel>
+          <StatNumber fontSize="lg" color={item.color}>
+            {item.value}
+          </StatNumber>
+          {item.benchmarkValue && (
+            <StatHelpText mb={0}>보유: {item.benchmarkValue}</StatHelpText>
+          )}
+        </Stat>
+      ))}
+    </SimpleGrid>
+  );
+};
+
+export default MetricsSummary;
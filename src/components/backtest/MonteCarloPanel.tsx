@@ -0,0 +1,273 @@
+/**
+ * 몬테카를로 분석 패널 컴포넌트
+ * 백테스트 결과의 거래 또는 봉별 수익률을 무작위로 다시 구성해 결과의 분포와 파산 확률을 표시
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  NumberInput,
+  NumberInputField,
+  Select,
+  SimpleGrid,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast,
+  VStack,
+} from '@chakra-ui/react';
+import JobProgress from './JobProgress';
+import MonteCarloFanChart from '../visualization/MonteCarloFanChart';
+import { BacktestResult } from '../../types/backtest';
+import { MonteCarloMethod, MonteCarloResult, MonteCarloSettings } from '../../types/monte-carlo';
+import {
+  DEFAULT_MONTE_CARLO_SETTINGS,
+  MAX_MONTE_CARLO_SIMULATIONS,
+  MONTE_CARLO_METHOD_DESCRIPTIONS,
+  MONTE_CARLO_METHOD_LABELS,
+} from '../../constants/monte-carlo';
+import { useBacktestJob } from '../../hooks/useBacktestJob';
+import { formatCurrency, formatPercent } from '../../utils/formatters';
+
+interface MonteCarloPanelProps {
+  result: BacktestResult;
+}
+
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ result }) => {
+  const toast = useToast();
+
+  const [settings, setSettings] = useState<MonteCarloSettings>(DEFAULT_MONTE_CARLO_SETTINGS);
+  const job = useBacktestJob();
+  const [analysis, setAnalysis] = useState<MonteCarloResult | null>(null);
+
+  // 다른 백테스트 결과로 바뀌면 이전 분석 결과 제거
+  useEffect(() => {
+    setAnalysis(null);
+  }, [result]);
+
+  /**
+   * 설정 변경 핸들러
+   */
+  const handleSettingChange = <K extends keyof MonteCarloSettings>(field: K, value: MonteCarloSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [field]: value }));
+  };
+
+  /**
+   * 몬테카를로 분석 실행 핸들러 (백테스트 워커에서 실행, 취소하면 이전 결과 유지)
+   */
+  const handleRun = async () => {
+    try {
+      const monteCarlo = await job.run({
+        kind: 'monteCarlo',
+        result: { trades: result.trades, equity: result.equity, initialCapital: result.initialCapital },
+        settings,
+      });
+      if (monteCarlo) setAnalysis(monteCarlo);
+    } catch (err) {
+      console.error('몬테카를로 분석 오류:', err);
+
+      toast({
+        title: '몬테카를로 분석 실패',
+        description: err instanceof Error ? err.message : '분석 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  const currency = result.currency;
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <SimpleGrid columns={{ base: 1, md: 4 }} spacing={4}>
+        <FormControl>
+          <FormLabel>시뮬레이션 방식</FormLabel>
+          <Select
+            value={settings.method}
+            onChange={(e) => handleSettingChange('method', e.target.value as MonteCarloMethod)}
+          >
+            {Object.entries(MONTE_CARLO_METHOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </Select>
+          <FormHelperText>{MONTE_CARLO_METHOD_DESCRIPTIONS[settings.method]}</FormHelperText>
+        </FormControl>
+        <FormControl>
+          <FormLabel>시뮬레이션 횟수</FormLabel>
+          <NumberInput
+            value={settings.simulations}
+            min={100}
+            max={MAX_MONTE_CARLO_SIMULATIONS}
+            step={100}
+            onChange={(_, value) => handleSettingChange('simulations', Number.isFinite(value) ? value : 100)}
+          >
+            <NumberInputField />
+          </NumberInput>
+          <FormHelperText>최대 {MAX_MONTE_CARLO_SIMULATIONS.toLocaleString()}회</FormHelperText>
+        </FormControl>
+        <FormControl>
+          <FormLabel>파산 기준 손실 (%)</FormLabel>
+          <NumberInput
+            value={settings.ruinThreshold}
+            min={1}
+            max={100}
+            onChange={(_, value) => handleSettingChange('ruinThreshold', Number.isFinite(value) ? value : 50)}
+          >
+            <NumberInputField />
+          </NumberInput>
+          <FormHelperText>초기 자본 대비 이 이상 손실하면 파산으로 집계</FormHelperText>
+        </FormControl>
+        <FormControl>
+          <FormLabel>시드</FormLabel>
+          <NumberInput
+            value={settings.seed}
+            min={1}
+            onChange={(_, value) => handleSettingChange('seed', Number.isFinite(value) ? value : 1)}
+          >
+            <NumberInputField />
+          </NumberInput>
+          <FormHelperText>같은 시드는 같은 결과를 재현합니다.</FormHelperText>
+        </FormControl>
+      </SimpleGrid>
+
+      <Flex justifyContent="flex-end">
+        <Button colorScheme="purple" onClick={handleRun} isLoading={job.running} loadingText="분석 중">
+          몬테카를로 분석
+        </Button>
+      </Flex>
+
+      {job.running && <JobProgress progress={job.progress} unitLabel="시뮬레이션" onCancel={job.cancel} />}
+
+      {analysis && (
+        <>
+          <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+            <Stat p={3} borderWidth="1px" borderRadius="md">
+              <StatLabel>최종 자산 중앙값</StatLabel>
+              <StatNumber fontSize="lg">{formatCurrency(analysis.finalEquity.p50, currency)}</StatNumber>
+              <StatHelpText mb={0}>
+                90% 구간 {formatCurrency(analysis.finalEquity.p5, currency)} ~{' '}
+                {formatCurrency(analysis.finalEquity.p95, currency)}
+              </StatHelpText>
+            </Stat>
+            <Stat p={3} borderWidth="1px" borderRadius="md">
+              <StatLabel>최대 낙폭 중앙값</StatLabel>
+              <StatNumber fontSize="lg" color="red.500">
+                {formatPercent(analysis.maxDrawdown.p50)}
+              </StatNumber>
+              <StatHelpText mb={0}>하위 5% {formatPercent(analysis.maxDrawdown.p5)}</StatHelpText>
+            </Stat>
+            <Stat p={3} borderWidth="1px" borderRadius="md">
+              <StatLabel>파산 확률</StatLabel>
+              <StatNumber fontSize="lg" color={analysis.riskOfRuin > 0 ? 'red.500' : undefined}>
+                {formatPercent(analysis.riskOfRuin)}
+              </StatNumber>
+              <StatHelpText mb={0}>손실 {analysis.settings.ruinThreshold}% 도달 기준</StatHelpText>
+            </Stat>
+            <Stat p={3} borderWidth="1px" borderRadius="md">
+              <StatLabel>손실 확률</StatLabel>
+              <StatNumber fontSize="lg">{formatPercent(analysis.probabilityOfLoss)}</StatNumber>
+              <StatHelpText mb={0}>최종 자산 &lt; 초기 자본</StatHelpText>
+            </Stat>
+          </SimpleGrid>
+
+          <Box>
+            <Heading size="sm" mb={2}>시뮬레이션 자산 분포</Heading>
+            <MonteCarloFanChart
+              fan={analysis.fan}
+              currency={currency}
+              stepLabel={analysis.settings.method === 'dailyBootstrap' ? '봉' : '거래'}
+            />
+          </Box>
+
+          <SimpleGrid columns={{ base: 1, lg: 2 }} spacing={6}>
+            <Box overflowX="auto">
+              <Heading size="sm" mb={2}>백분위</Heading>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>항목</Th>
+                    <Th isNumeric>5%</Th>
+                    <Th isNumeric>25%</Th>
+                    <Th isNumeric>50%</Th>
+                    <Th isNumeric>75%</Th>
+                    <Th isNumeric>95%</Th>
+                    <Th isNumeric>원래 결과</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  <Tr>
+                    <Td>최종 자산</Td>
+                    {(['p5', 'p25', 'p50', 'p75', 'p95'] as const).map((key) => (
+                      <Td key={key} isNumeric>{formatCurrency(analysis.finalEquity[key], currency)}</Td>
+                    ))}
+                    <Td isNumeric>{formatCurrency(analysis.original.finalEquity, currency)}</Td>
+                  </Tr>
+                  <Tr>
+                    <Td>총 수익률</Td>
+                    {(['p5', 'p25', 'p50', 'p75', 'p95'] as const).map((key) => (
+                      <Td key={key} isNumeric>{formatPercent(analysis.totalReturn[key], 'always')}</Td>
+                    ))}
+                    <Td isNumeric>
+                      {formatPercent((analysis.original.finalEquity / analysis.initialCapital - 1) * 100, 'always')}
+                    </Td>
+                  </Tr>
+                  <Tr>
+                    <Td>최대 낙폭</Td>
+                    {(['p5', 'p25', 'p50', 'p75', 'p95'] as const).map((key) => (
+                      <Td key={key} isNumeric>{formatPercent(analysis.maxDrawdown[key])}</Td>
+                    ))}
+                    <Td isNumeric>{formatPercent(analysis.original.maxDrawdown)}</Td>
+                  </Tr>
+                </Tbody>
+              </Table>
+            </Box>
+            <Box overflowX="auto">
+              <Heading size="sm" mb={2}>손실 수준별 도달 확률</Heading>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>초기 자본 대비 손실</Th>
+                    <Th isNumeric>확률</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {analysis.ruinLevels.map((level) => (
+                    <Tr key={level.threshold}>
+                      <Td>-{level.threshold}%</Td>
+                      <Td isNumeric>{formatPercent(level.probability)}</Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          </SimpleGrid>
+
+          <Text fontSize="sm" color="gray.500">
+            {analysis.settings.simulations.toLocaleString()}회 시뮬레이션, 회당{' '}
+            {analysis.steps.toLocaleString()}
+            {analysis.settings.method === 'dailyBootstrap' ? '봉' : '건의 거래'} 기준
+          </Text>
+        </>
+      )}
+    </VStack>
+  );
+};
+
+export default MonteCarloPanel;
@@ -0,0 +1,861 @@
+/**
+ * 파라미터 최적화 페이지 컴포넌트
+ * 전략의 조건 파라미터 조합을 그리드/무작위 탐색으로 백테스트하고 목표 지표 순으로 비교
+ * 워크 포워드 모드에서는 구간별로 최적화한 파라미터를 다음 구간에 적용해 검증
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import {
+  Alert,
+  AlertIcon,
+  AlertTitle,
+  AlertDescription,
+  Box,
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  Button,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  IconButton,
+  Input,
+  NumberInput,
+  NumberInputField,
+  Select,
+  SimpleGrid,
+  Spinner,
+  Stat,
+  StatHelpText,
+  StatLabel,
+  StatNumber,
+  Tag,
+  TagCloseButton,
+  TagLabel,
+  Text,
+  useColorModeValue,
+  useToast,
+  VStack,
+} from '@chakra-ui/react';
+import { ArrowBackIcon, TriangleUpIcon } from '@chakra-ui/icons';
+
+import StockSearch from '../search/StockSearch';
+import OptimizationParameterTable from './OptimizationParameterTable';
+import OptimizationResultTable from './OptimizationResultTable';
+import JobProgress from './JobProgress';
+import WalkForwardWindowTable from './WalkForwardWindowTable';
+import ParameterHeatmap from '../visualization/ParameterHeatmap';
+import EquityCurveChart from '../visualization/EquityCurveChart';
+import strategyService from '../../services/firebase/strategy-service';
+import stockService from '../../services/yahoo-finance/stock-service';
+import { Strategy } from '../../types/strategy';
+import { StockSearchItem } from '../../types/stock';
+import {
+  OptimizationMethod,
+  OptimizationObjective,
+  OptimizationParameter,
+  OptimizationResult,
+  OptimizationSettings,
+  OptimizationTrial,
+  WalkForwardMode,
+  WalkForwardResult,
+  WalkForwardSettings,
+  WalkForwardWindow,
+} from '../../types/optimization';
+import {
+  DEFAULT_OPTIMIZATION_SETTINGS,
+  DEFAULT_WALK_FORWARD_SETTINGS,
+  MAX_OPTIMIZATION_COMBINATIONS,
+  OPTIMIZATION_METHOD_LABELS,
+  OPTIMIZATION_OBJECTIVE_LABELS,
+  WALK_FORWARD_MODE_LABELS,
+  formatObjectiveValue,
+} from '../../constants/optimization';
+import {
+  applyParameterValues,
+  buildHeatmap,
+  countCombinations,
+  getOptimizableParameters,
+} from '../../utils/backtest/optimizer';
+import { attachCorporateEvents } from '../../utils/backtest/price-mode';
+import { PRICE_MODE_OPTIONS, requiresCorporateEvents } from '../../constants/price-mode';
+import { useBacktestJob } from '../../hooks/useBacktestJob';
+import { formatPercent, toDateString } from '../../utils/formatters';
+
+/**
+ * 분석 방식
+ * optimization: 전체 기간 최적화, walkForward: 구간별 최적화 후 다음 구간 검증
+ */
+type AnalysisMode = 'optimization' | 'walkForward';
+
+/**
+ * 분석 방식 옵션
+ */
+const ANALYSIS_MODE_OPTIONS: { value: AnalysisMode; label: string }[] = [
+  { value: 'optimization', label: '전체 기간 최적화' },
+  { value: 'walkForward', label: '워크 포워드 분석' },
+];
+
+/**
+ * 데이터 간격 옵션
+ */
+const INTERVAL_OPTIONS = [
+  { value: '1d', label: '일봉' },
+  { value: '1wk', label: '주봉' },
+  { value: '1mo', label: '월봉' },
+];
+
+/**
+ * 기본 시작일 (3년 전)
+ */
+const getDefaultStartDate = (): string => {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - 3);
+  return toDateString(date);
+};
+
+const OptimizationPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+
+  // 전략 상태
+  const [strategy, setStrategy] = useState<Strategy | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // 최적화 대상 파라미터
+  const [parameters, setParameters] = useState<OptimizationParameter[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+
+  // 실행 설정
+  const [symbols, setSymbols] = useState<StockSearchItem[]>([]);
+  const [startDate, setStartDate] = useState<string>(getDefaultStartDate());
+  const [endDate, setEndDate] = useState<string>(toDateString(new Date()));
+  const [interval, setInterval] = useState<string>('1d');
+  const [priceModeId, setPriceModeId] = useState<string>(PRICE_MODE_OPTIONS[0].id);
+  const [settings, setSettings] = useState<OptimizationSettings>(DEFAULT_OPTIMIZATION_SETTINGS);
+  const [mode, setMode] = useState<AnalysisMode>('optimization');
+  const [walkForwardSettings, setWalkForwardSettings] = useState<WalkForwardSettings>(
+    DEFAULT_WALK_FORWARD_SETTINGS
+  );
+
+  // 실행 결과
+  const [running, setRunning] = useState<boolean>(false);
+  const job = useBacktestJob();
+  const [partialBest, setPartialBest] = useState<OptimizationTrial | null>(null);
+  const [completedWindows, setCompletedWindows] = useState<WalkForwardWindow[]>([]);
+  const [result, setResult] = useState<OptimizationResult | null>(null);
+  const [walkForwardResult, setWalkForwardResult] = useState<WalkForwardResult | null>(null);
+  const [heatmapAxes, setHeatmapAxes] = useState<{ x: string; y: string } | null>(null);
+  const [applying, setApplying] = useState<boolean>(false);
+
+  const cardBg = useColorModeValue('white', 'gray.700');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  /**
+   * 전략 불러오기
+   */
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchStrategy = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await strategyService.getStrategy(id);
+        if (!data) {
+          setError('전략을 찾을 수 없습니다.');
+          return;
+        }
+
+        setStrategy(data);
+        setParameters(getOptimizableParameters(data));
+      } catch (err) {
+        console.error('전략 불러오기 오류:', err);
+        setError('전략을 불러오는 중 오류가 발생했습니다.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStrategy();
+  }, [id]);
+
+  const selectedParameters = useMemo(
+    () => parameters.filter((parameter) => selectedKeys.includes(parameter.key)),
+    [parameters, selectedKeys]
+  );
+  const totalCombinations = selectedParameters.length > 0 ? countCombinations(selectedParameters) : 0;
+  const exceedsLimit = settings.method === 'grid' && totalCombinations > settings.maxCombinations;
+
+  const heatmap = useMemo(
+    () => (result && heatmapAxes ? buildHeatmap(result, heatmapAxes.x, heatmapAxes.y) : null),
+    [result, heatmapAxes]
+  );
+
+  /**
+   * 파라미터 선택 전환 핸들러
+   */
+  const handleToggleParameter = (key: string) => {
+    setSelectedKeys((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  /**
+   * 탐색 범위 변경 핸들러 (지표 정의 범위 안으로 제한)
+   */
+  const handleRangeChange = (key: string, field: 'min' | 'max' | 'step', value: number) => {
+    setParameters((prev) =>
+      prev.map((parameter) => {
+        if (parameter.key !== key) return parameter;
+
+        const clamped = field === 'step'
+          ? Math.max(0, value)
+          : Math.min(parameter.bounds.max, Math.max(parameter.bounds.min, value));
+        return { ...parameter, [field]: clamped };
+      })
+    );
+  };
+
+  /**
+   * 최적화 설정 변경 핸들러
+   */
+  const handleSettingChange = <K extends keyof OptimizationSettings>(field: K, value: OptimizationSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [field]: value }));
+  };
+
+  /**
+   * 워크 포워드 설정 변경 핸들러
+   */
+  const handleWalkForwardSettingChange = <K extends keyof WalkForwardSettings>(
+    field: K,
+    value: WalkForwardSettings[K]
+  ) => {
+    setWalkForwardSettings((prev) => ({ ...prev, [field]: value }));
+  };
+
+  /**
+   * 종목 추가 핸들러 (이미 선택된 종목은 무시)
+   */
+  const handleAddSymbol = (item: StockSearchItem) => {
+    setSymbols((prev) =>
+      prev.some((s) => s.symbol === item.symbol) ? prev : [...prev, item]
+    );
+  };
+
+  /**
+   * 종목 제거 핸들러
+   */
+  const handleRemoveSymbol = (symbolToRemove: string) => {
+    setSymbols((prev) => prev.filter((s) => s.symbol !== symbolToRemove));
+  };
+
+  /**
+   * 최적화 실행 핸들러
+   * 가격 데이터는 한 번만 조회하고 조합마다 같은 데이터로 백테스트
+   * 워크 포워드 모드에서는 같은 데이터를 구간별로 잘라 최적화와 검증을 반복
+   * 계산은 백테스트 워커에서 실행하며, 평가한 조합/완료한 구간을 중간 결과로 받아 표시
+   */
+  const handleRun = async () => {
+    if (!strategy || symbols.length === 0 || selectedParameters.length === 0) return;
+
+    if (startDate >= endDate) {
+      toast({
+        title: '기간을 확인하세요.',
+        description: '시작일은 종료일보다 이전이어야 합니다.',
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    try {
+      setRunning(true);
+      setResult(null);
+      setWalkForwardResult(null);
+      setPartialBest(null);
+      setCompletedWindows([]);
+
+      // 실제 거래 가격/총수익 기준이면 배당/분할 이벤트를 봉에 연결
+      const priceOption = PRICE_MODE_OPTIONS.find((option) => option.id === priceModeId) ?? PRICE_MODE_OPTIONS[0];
+      const datasets = await Promise.all(
+        symbols.map(async (item) => {
+          const data = await stockService.getHistoricalData(item.symbol, interval, startDate, endDate);
+          if (!requiresCorporateEvents(priceOption)) return data;
+
+          const events = await stockService.getCorporateEvents(item.symbol, startDate, endDate);
+          return attachCorporateEvents(data, events);
+        })
+      );
+      const options = {
+        ...(requiresCorporateEvents(priceOption) ? { priceMode: priceOption.priceMode } : {}),
+        ...(priceOption.dividendMode ? { dividendMode: priceOption.dividendMode } : {}),
+      };
+
+      const emptySymbols = datasets.filter((d) => d.data.length === 0).map((d) => d.symbol);
+      if (emptySymbols.length > 0) {
+        throw new Error(`선택한 기간에 가격 데이터가 없습니다: ${emptySymbols.join(', ')}`);
+      }
+
+      if (mode === 'walkForward') {
+        const analysis = await job.run(
+          {
+            kind: 'walkForward',
+            strategy,
+            datasets,
+            parameters: selectedParameters,
+            settings,
+            walkForwardSettings,
+            options,
+          },
+          (window) => setCompletedWindows((prev) => [...prev, window])
+        );
+        if (analysis) setWalkForwardResult(analysis);
+        else notifyCancelled();
+        return;
+      }
+
+      const optimization = await job.run(
+        { kind: 'optimization', strategy, datasets, parameters: selectedParameters, settings, options },
+        (trial) => {
+          const { score } = trial;
+          if (!trial.feasible || score === null) return;
+          setPartialBest((prev) => (prev && (prev.score ?? -Infinity) >= score ? prev : trial));
+        }
+      );
+      if (!optimization) {
+        notifyCancelled();
+        return;
+      }
+
+      setResult(optimization);
+      setHeatmapAxes(
+        selectedParameters.length >= 2
+          ? { x: selectedParameters[0].key, y: selectedParameters[1].key }
+          : null
+      );
+    } catch (err) {
+      console.error('최적화 실행 오류:', err);
+
+      toast({
+        title: '최적화 실행 실패',
+        description: err instanceof Error ? err.message : '최적화를 실행하는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  /**
+   * 취소 알림
+   */
+  const notifyCancelled = () => {
+    toast({
+      title: '분석을 취소했습니다.',
+      status: 'info',
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+
+  /**
+   * 조합 적용 핸들러
+   * 선택한 파라미터 값을 전략의 매매 규칙에 반영하여 저장
+   */
+  const handleApply = async (trial: OptimizationTrial) => {
+    if (!strategy || !id || !result) return;
+
+    try {
+      setApplying(true);
+
+      const updated = applyParameterValues(strategy, result.parameters, trial.values);
+      await strategyService.updateStrategy(id, {
+        buyRules: updated.buyRules,
+        sellRules: updated.sellRules,
+      });
+
+      setStrategy(updated);
+      setParameters((prev) =>
+        prev.map((parameter) =>
+          parameter.key in trial.values ? { ...parameter, value: trial.values[parameter.key] } : parameter
+        )
+      );
+
+      toast({
+        title: '파라미터 적용 완료',
+        description: '선택한 조합을 전략에 저장했습니다.',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (err) {
+      console.error('파라미터 적용 오류:', err);
+
+      toast({
+        title: '파라미터 적용 실패',
+        description: '전략을 저장하는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  // 로딩 중 표시
+  if (loading) {
+    return (
+      <Flex justifyContent="center" alignItems="center" height="400px">
+        <Spinner size="xl" color="blue.500" />
+      </Flex>
+    );
+  }
+
+  // 오류 표시
+  if (error || !strategy) {
+    return (
+      <Alert status="error" variant="solid" borderRadius="md">
+        <AlertIcon />
+        <AlertTitle mr={2}>오류 발생</AlertTitle>
+        <AlertDescription>{error || '전략을 찾을 수 없습니다.'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const parameterLabel = (key: string): string =>
+    parameters.find((parameter) => parameter.key === key)?.label ?? key;
+
+  return (
+    <Box>
+      {/* 상단 네비게이션 */}
+      <Breadcrumb mb={5} fontSize="sm">
+        <BreadcrumbItem>
+          <BreadcrumbLink as={Link} to="/">홈</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbItem>
+          <BreadcrumbLink as={Link} to="/strategy">전략</BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbItem isCurrentPage>
+          <BreadcrumbLink>파라미터 최적화</BreadcrumbLink>
+        </BreadcrumbItem>
+      </Breadcrumb>
+
+      <Flex alignItems="center" mb={6}>
+        <IconButton
+          aria-label="뒤로 가기"
+          icon={<ArrowBackIcon />}
+          mr={4}
+          onClick={() => navigate('/strategy')}
+        />
+        <Box>
+          <Heading size="lg">{strategy.name} 파라미터 최적화</Heading>
+          <Text color="gray.600" fontSize="sm">
+            과거 데이터에 맞춘 최적값은 미래 성과를 보장하지 않습니다. 주변 값에서도 성과가 안정적인지 함께 확인하세요.
+          </Text>
+        </Box>
+      </Flex>
+
+      {strategy.kind === 'allocation' ? (
+        <Alert status="info" borderRadius="md">
+          <AlertIcon />
+          <AlertDescription>자산 배분 전략은 파라미터 최적화를 지원하지 않습니다.</AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          {/* 최적화 설정 */}
+          <Box p={6} mb={8} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg" boxShadow="sm">
+            <VStack spacing={6} align="stretch">
+              <Box>
+                <Heading size="sm" mb={3}>최적화 파라미터</Heading>
+                <OptimizationParameterTable
+                  parameters={parameters}
+                  selectedKeys={selectedKeys}
+                  onToggle={handleToggleParameter}
+                  onRangeChange={handleRangeChange}
+                />
+              </Box>
+
+              <Box>
+                <StockSearch label="종목 (여러 종목 선택 시 포트폴리오 백테스트로 평가)" onSelect={handleAddSymbol} />
+                {symbols.length > 0 && (
+                  <Flex alignItems="center" gap={2} wrap="wrap" mt={2}>
+                    <Text fontSize="sm">선택된 종목:</Text>
+                    {symbols.map((item) => (
+                      <Tag key={item.symbol} colorScheme="blue" title={item.name}>
+                        <TagLabel>{item.symbol}</TagLabel>
+                        <TagCloseButton onClick={() => handleRemoveSymbol(item.symbol)} />
+                      </Tag>
+                    ))}
+                  </Flex>
+                )}
+              </Box>
+
+              <SimpleGrid columns={{ base: 1, md: 2, lg: 4 }} spacing={4}>
+                <FormControl>
+                  <FormLabel>시작일</FormLabel>
+                  <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+                </FormControl>
+                <FormControl>
+                  <FormLabel>종료일</FormLabel>
+                  <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </FormControl>
+                <FormControl>
+                  <FormLabel>데이터 간격</FormLabel>
+                  <Select value={interval} onChange={(e) => setInterval(e.target.value)}>
+                    {INTERVAL_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl>
+                  <FormLabel>가격 기준</FormLabel>
+                  <Select value={priceModeId} onChange={(e) => setPriceModeId(e.target.value)}>
+                    {PRICE_MODE_OPTIONS.map((option) => (
+                      <option key={option.id} value={option.id}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+              </SimpleGrid>
+
+              <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+                <FormControl>
+                  <FormLabel>분석 방식</FormLabel>
+                  <Select value={mode} onChange={(e) => setMode(e.target.value as AnalysisMode)}>
+                    {ANALYSIS_MODE_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+                {mode === 'walkForward' && (
+                  <>
+                    <FormControl>
+                      <FormLabel>구간 방식</FormLabel>
+                      <Select
+                        value={walkForwardSettings.mode}
+                        onChange={(e) => handleWalkForwardSettingChange('mode', e.target.value as WalkForwardMode)}
+                      >
+                        {Object.entries(WALK_FORWARD_MODE_LABELS).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </Select>
+                    </FormControl>
+                    <Box />
+                    <FormControl>
+                      <FormLabel>학습 구간 (개월)</FormLabel>
+                      <NumberInput
+                        value={walkForwardSettings.inSampleMonths}
+                        min={1}
+                        max={120}
+                        onChange={(_, value) =>
+                          handleWalkForwardSettingChange('inSampleMonths', Number.isFinite(value) ? value : 1)
+                        }
+                      >
+                        <NumberInputField />
+                      </NumberInput>
+                      <FormHelperText>파라미터를 최적화하는 기간</FormHelperText>
+                    </FormControl>
+                    <FormControl>
+                      <FormLabel>검증 구간 (개월)</FormLabel>
+                      <NumberInput
+                        value={walkForwardSettings.outOfSampleMonths}
+                        min={1}
+                        max={60}
+                        onChange={(_, value) =>
+                          handleWalkForwardSettingChange('outOfSampleMonths', Number.isFinite(value) ? value : 1)
+                        }
+                      >
+                        <NumberInputField />
+                      </NumberInput>
+                      <FormHelperText>최적 파라미터를 적용해 성과를 측정하는 기간</FormHelperText>
+                    </FormControl>
+                  </>
+                )}
+              </SimpleGrid>
+
+              <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+                <FormControl>
+                  <FormLabel>탐색 방식</FormLabel>
+                  <Select
+                    value={settings.method}
+                    onChange={(e) => handleSettingChange('method', e.target.value as OptimizationMethod)}
+                  >
+                    {Object.entries(OPTIMIZATION_METHOD_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl>
+                  <FormLabel>목표 지표</FormLabel>
+                  <Select
+                    value={settings.objective}
+                    onChange={(e) => handleSettingChange('objective', e.target.value as OptimizationObjective)}
+                  >
+                    {Object.entries(OPTIMIZATION_OBJECTIVE_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>
+                        {label}
+                      </option>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl>
+                  <FormLabel>최대 조합 수</FormLabel>
+                  <NumberInput
+                    value={settings.maxCombinations}
+                    min={1}
+                    max={MAX_OPTIMIZATION_COMBINATIONS}
+                    onChange={(_, value) =>
+                      handleSettingChange('maxCombinations', Number.isFinite(value) ? value : 1)
+                    }
+                  >
+                    <NumberInputField />
+                  </NumberInput>
+                  <FormHelperText>최대 {MAX_OPTIMIZATION_COMBINATIONS.toLocaleString()}개</FormHelperText>
+                </FormControl>
+                <FormControl>
+                  <FormLabel>허용 최대 낙폭 (%)</FormLabel>
+                  <NumberInput
+                    value={settings.maxDrawdownLimit ?? 0}
+                    min={0}
+                    max={100}
+                    onChange={(_, value) =>
+                      handleSettingChange('maxDrawdownLimit', Number.isFinite(value) ? value : 0)
+                    }
+                  >
+                    <NumberInputField />
+                  </NumberInput>
+                  <FormHelperText>초과하는 조합은 순위에서 제외 (0이면 제한 없음)</FormHelperText>
+                </FormControl>
+                <FormControl>
+                  <FormLabel>최소 거래 횟수</FormLabel>
+                  <NumberInput
+                    value={settings.minTrades ?? 0}
+                    min={0}
+                    onChange={(_, value) =>
+                      handleSettingChange('minTrades', Number.isFinite(value) ? value : 0)
+                    }
+                  >
+                    <NumberInputField />
+                  </NumberInput>
+                </FormControl>
+                {settings.method === 'random' && (
+                  <FormControl>
+                    <FormLabel>시드</FormLabel>
+                    <NumberInput
+                      value={settings.seed ?? 1}
+                      min={1}
+                      onChange={(_, value) => handleSettingChange('seed', Number.isFinite(value) ? value : 1)}
+                    >
+                      <NumberInputField />
+                    </NumberInput>
+                    <FormHelperText>같은 시드는 같은 조합을 선택합니다.</FormHelperText>
+                  </FormControl>
+                )}
+              </SimpleGrid>
+
+              <Flex justifyContent="space-between" alignItems="center" gap={4} wrap="wrap">
+                <Text fontSize="sm" color={exceedsLimit ? 'red.500' : 'gray.600'}>
+                  전체 조합 {totalCombinations.toLocaleString()}개
+                  {settings.method === 'random' && totalCombinations > settings.maxCombinations &&
+                    ` 중 ${settings.maxCombinations.toLocaleString()}개 무작위 평가`}
+                  {mode === 'walkForward' && ' (구간마다 평가)'}
+                  {exceedsLimit && ' - 최대 조합 수를 초과합니다. 범위를 좁히거나 무작위 탐색을 사용하세요.'}
+                </Text>
+                <Button
+                  colorScheme="purple"
+                  leftIcon={<TriangleUpIcon transform="rotate(90deg)" />}
+                  onClick={handleRun}
+                  isLoading={running}
+                  loadingText="실행 중"
+                  isDisabled={symbols.length === 0 || selectedParameters.length === 0 || exceedsLimit}
+                >
+                  {mode === 'walkForward' ? '워크 포워드 실행' : '최적화 실행'}
+                </Button>
+              </Flex>
+
+              {job.running && (
+                <Box>
+                  <JobProgress progress={job.progress} unitLabel="조합 평가" onCancel={job.cancel} />
+                  {partialBest && (
+                    <Text fontSize="sm" color="gray.600" mt={2}>
+                      현재 최고 {OPTIMIZATION_OBJECTIVE_LABELS[settings.objective]}:{' '}
+                      {formatObjectiveValue(settings.objective, partialBest.score)} (
+                      {selectedParameters
+                        .map((parameter) => `${parameter.name} ${partialBest.values[parameter.key]}`)
+                        .join(', ')}
+                      )
+                    </Text>
+                  )}
+                  {completedWindows.length > 0 && (
+                    <Text fontSize="sm" color="gray.600" mt={2}>
+                      {completedWindows.length}개 구간 완료 · 최근 검증 수익률{' '}
+                      {formatPercent(
+                        completedWindows[completedWindows.length - 1].outOfSampleMetrics.totalReturn,
+                        'always'
+                      )}
+                    </Text>
+                  )}
+                </Box>
+              )}
+            </VStack>
+          </Box>
+
+          {/* 워크 포워드 결과 */}
+          {walkForwardResult && (
+            <VStack spacing={8} align="stretch">
+              <Box>
+                <Heading size="md" mb={4}>워크 포워드 요약</Heading>
+                <SimpleGrid columns={{ base: 2, md: 5 }} spacing={4}>
+                  <Stat p={3} borderWidth="1px" borderRadius="md">
+                    <StatLabel>워크 포워드 효율</StatLabel>
+                    <StatNumber fontSize="lg">
+                      {walkForwardResult.efficiency === null ? '-' : formatPercent(walkForwardResult.efficiency)}
+                    </StatNumber>
+                    <StatHelpText mb={0}>검증 평균 CAGR / 학습 평균 CAGR</StatHelpText>
+                  </Stat>
+                  <Stat p={3} borderWidth="1px" borderRadius="md">
+                    <StatLabel>검증 총 수익률</StatLabel>
+                    <StatNumber
+                      fontSize="lg"
+                      color={walkForwardResult.metrics.totalReturn >= 0 ? 'green.500' : 'red.500'}
+                    >
+                      {formatPercent(walkForwardResult.metrics.totalReturn, 'always')}
+                    </StatNumber>
+                  </Stat>
+                  <Stat p={3} borderWidth="1px" borderRadius="md">
+                    <StatLabel>검증 CAGR</StatLabel>
+                    <StatNumber fontSize="lg">{formatPercent(walkForwardResult.metrics.cagr, 'always')}</StatNumber>
+                  </Stat>
+                  <Stat p={3} borderWidth="1px" borderRadius="md">
+                    <StatLabel>검증 최대 낙폭 (MDD)</StatLabel>
+                    <StatNumber fontSize="lg" color="red.500">
+                      {formatPercent(walkForwardResult.metrics.maxDrawdown)}
+                    </StatNumber>
+                  </Stat>
+                  <Stat p={3} borderWidth="1px" borderRadius="md">
+                    <StatLabel>수익 구간</StatLabel>
+                    <StatNumber fontSize="lg">
+                      {walkForwardResult.profitableWindows} / {walkForwardResult.windows.length}
+                    </StatNumber>
+                    <StatHelpText mb={0}>검증 거래 {walkForwardResult.metrics.totalTrades}회</StatHelpText>
+                  </Stat>
+                </SimpleGrid>
+              </Box>
+
+              <Box>
+                <Heading size="md" mb={4}>검증 구간 자산 곡선</Heading>
+                <EquityCurveChart equity={walkForwardResult.equity} currency={walkForwardResult.currency} />
+              </Box>
+
+              <Box>
+                <Heading size="md" mb={4}>구간별 결과</Heading>
+                <WalkForwardWindowTable result={walkForwardResult} />
+              </Box>
+            </VStack>
+          )}
+
+          {/* 최적화 결과 */}
+          {result && (
+            <VStack spacing={8} align="stretch">
+              <Box>
+                <Heading size="md" mb={4}>최적 조합</Heading>
+                {result.best ? (
+                  <SimpleGrid columns={{ base: 2, md: 4 }} spacing={4}>
+                    <Stat p={3} borderWidth="1px" borderRadius="md">
+                      <StatLabel>{OPTIMIZATION_OBJECTIVE_LABELS[result.settings.objective]}</StatLabel>
+                      <StatNumber fontSize="lg">
+                        {formatObjectiveValue(result.settings.objective, result.best.score)}
+                      </StatNumber>
+                      <StatHelpText mb={0}>{result.trials.length}개 조합 중 1위</StatHelpText>
+                    </Stat>
+                    <Stat p={3} borderWidth="1px" borderRadius="md">
+                      <StatLabel>CAGR</StatLabel>
+                      <StatNumber fontSize="lg">{formatPercent(result.best.metrics.cagr, 'always')}</StatNumber>
+                    </Stat>
+                    <Stat p={3} borderWidth="1px" borderRadius="md">
+                      <StatLabel>최대 낙폭 (MDD)</StatLabel>
+                      <StatNumber fontSize="lg" color="red.500">
+                        {formatPercent(result.best.metrics.maxDrawdown)}
+                      </StatNumber>
+                    </Stat>
+                    <Stat p={3} borderWidth="1px" borderRadius="md">
+                      <StatLabel>파라미터</StatLabel>
+                      <Text fontSize="sm">
+                        {result.parameters
+                          .map((parameter) => `${parameter.name} ${result.best?.values[parameter.key]}`)
+                          .join(', ')}
+                      </Text>
+                    </Stat>
+                  </SimpleGrid>
+                ) : (
+                  <Alert status="warning" borderRadius="md">
+                    <AlertIcon />
+                    <AlertDescription>제약 조건을 충족한 조합이 없습니다. 허용 낙폭이나 최소 거래 횟수를 조정하세요.</AlertDescription>
+                  </Alert>
+                )}
+              </Box>
+
+              {heatmap && heatmapAxes && (
+                <Box>
+                  <Flex justifyContent="space-between" alignItems="center" mb={4} gap={4} wrap="wrap">
+                    <Heading size="md">파라미터 히트맵</Heading>
+                    {result.parameters.length > 2 && (
+                      <Flex gap={2}>
+                        {(['x', 'y'] as const).map((axis) => (
+                          <Select
+                            key={axis}
+                            size="sm"
+                            maxW="260px"
+                            value={heatmapAxes[axis]}
+                            onChange={(e) => setHeatmapAxes({ ...heatmapAxes, [axis]: e.target.value })}
+                          >
+                            {result.parameters.map((parameter) => (
+                              <option key={parameter.key} value={parameter.key}>
+                                {axis === 'x' ? '가로' : '세로'}: {parameter.label}
+                              </option>
+                            ))}
+                          </Select>
+                        ))}
+                      </Flex>
+                    )}
+                  </Flex>
+                  <ParameterHeatmap
+                    heatmap={heatmap}
+                    xLabel={parameterLabel(heatmapAxes.x)}
+                    yLabel={parameterLabel(heatmapAxes.y)}
+                    objectiveLabel={OPTIMIZATION_OBJECTIVE_LABELS[result.settings.objective]}
+                  />
+                </Box>
+              )}
+
+              <Box>
+                <Heading size="md" mb={4}>조합별 결과</Heading>
+                <OptimizationResultTable result={result} onApply={applying ? undefined : handleApply} />
+              </Box>
+            </VStack>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default OptimizationPage;
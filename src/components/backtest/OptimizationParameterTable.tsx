@@ -0,0 +1,96 @@
+/**
+ * 최적화 파라미터 선택 테이블 컴포넌트
+ * 최적화할 조건 파라미터를 선택하고 탐색 범위(min/max/step)를 지정
+ */
+
+import React from 'react';
+import {
+  Box,
+  Checkbox,
+  NumberInput,
+  NumberInputField,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { OptimizationParameter } from '../../types/optimization';
+import { getParameterValues } from '../../utils/backtest/optimizer';
+
+interface OptimizationParameterTableProps {
+  parameters: OptimizationParameter[];
+  selectedKeys: string[];
+  onToggle: (key: string) => void;
+  onRangeChange: (key: string, field: 'min' | 'max' | 'step', value: number) => void;
+}
+
+const OptimizationParameterTable: React.FC<OptimizationParameterTableProps> = ({
+  parameters,
+  selectedKeys,
+  onToggle,
+  onRangeChange,
+}) => {
+  const headerBg = useColorModeValue('gray.50', 'gray.800');
+
+  if (parameters.length === 0) {
+    return <Text color="gray.500">전략에 최적화할 수 있는 숫자 파라미터가 없습니다.</Text>;
+  }
+
+  return (
+    <Box overflowX="auto">
+      <Table size="sm">
+        <Thead bg={headerBg}>
+          <Tr>
+            <Th>최적화</Th>
+            <Th>파라미터</Th>
+            <Th isNumeric>현재 값</Th>
+            <Th isNumeric>최소</Th>
+            <Th isNumeric>최대</Th>
+            <Th isNumeric>간격</Th>
+            <Th isNumeric>값 개수</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {parameters.map((parameter) => {
+            const isSelected = selectedKeys.includes(parameter.key);
+
+            return (
+              <Tr key={parameter.key}>
+                <Td>
+                  <Checkbox isChecked={isSelected} onChange={() => onToggle(parameter.key)} />
+                </Td>
+                <Td>{parameter.label}</Td>
+                <Td isNumeric>{parameter.value}</Td>
+                {(['min', 'max', 'step'] as const).map((field) => (
+                  <Td key={field} isNumeric>
+                    <NumberInput
+                      size="sm"
+                      maxW="90px"
+                      ml="auto"
+                      value={parameter[field]}
+                      min={field === 'step' ? 0 : parameter.bounds.min}
+                      max={field === 'step' ? parameter.bounds.max - parameter.bounds.min : parameter.bounds.max}
+                      isDisabled={!isSelected}
+                      onChange={(_, value) => {
+                        if (Number.isFinite(value)) onRangeChange(parameter.key, field, value);
+                      }}
+                    >
+                      <NumberInputField />
+                    </NumberInput>
+                  </Td>
+                ))}
+                <Td isNumeric>{isSelected ? getParameterValues(parameter).length : '-'}</Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+};
+
+export default OptimizationParameterTable;
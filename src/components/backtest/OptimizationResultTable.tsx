@@ -0,0 +1,91 @@
+/**
+ * 최적화 결과 테이블 컴포넌트
+ * 조합별 파라미터 값과 목표 지표, 주요 성과 지표를 순위순으로 표시
+ */
+
+import React from 'react';
+import {
+  Box,
+  Button,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { OptimizationResult, OptimizationTrial } from '../../types/optimization';
+import { OPTIMIZATION_OBJECTIVE_LABELS, formatObjectiveValue } from '../../constants/optimization';
+import { formatPercent, formatRatio } from '../../utils/formatters';
+
+// 표시할 최대 조합 수
+const MAX_ROWS = 50;
+
+interface OptimizationResultTableProps {
+  result: OptimizationResult;
+  onApply?: (trial: OptimizationTrial) => void;
+}
+
+const OptimizationResultTable: React.FC<OptimizationResultTableProps> = ({ result, onApply }) => {
+  const headerBg = useColorModeValue('gray.50', 'gray.800');
+  const { objective } = result.settings;
+  const rows = result.trials.slice(0, MAX_ROWS);
+
+  if (rows.length === 0) {
+    return <Text color="gray.500">평가한 조합이 없습니다.</Text>;
+  }
+
+  return (
+    <Box overflowX="auto" maxH="600px" overflowY="auto">
+      <Table size="sm">
+        <Thead bg={headerBg} position="sticky" top={0} zIndex={1}>
+          <Tr>
+            <Th isNumeric>순위</Th>
+            {result.parameters.map((parameter) => (
+              <Th key={parameter.key} isNumeric title={parameter.label} textTransform="none">
+                {parameter.label}
+              </Th>
+            ))}
+            <Th isNumeric>{OPTIMIZATION_OBJECTIVE_LABELS[objective]}</Th>
+            <Th isNumeric>CAGR</Th>
+            <Th isNumeric>MDD</Th>
+            <Th isNumeric>샤프</Th>
+            <Th isNumeric>거래 수</Th>
+            {onApply && <Th />}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {rows.map((trial, index) => (
+            <Tr key={index} color={trial.feasible ? undefined : 'gray.400'}>
+              <Td isNumeric>{trial.rank ?? '-'}</Td>
+              {result.parameters.map((parameter) => (
+                <Td key={parameter.key} isNumeric>{trial.values[parameter.key]}</Td>
+              ))}
+              <Td isNumeric fontWeight="bold">{formatObjectiveValue(objective, trial.score)}</Td>
+              <Td isNumeric>{formatPercent(trial.metrics.cagr, 'always')}</Td>
+              <Td isNumeric>{formatPercent(trial.metrics.maxDrawdown)}</Td>
+              <Td isNumeric>{formatRatio(trial.metrics.sharpeRatio)}</Td>
+              <Td isNumeric>{trial.metrics.totalTrades}</Td>
+              {onApply && (
+                <Td>
+                  <Button size="xs" onClick={() => onApply(trial)}>
+                    적용
+                  </Button>
+                </Td>
+              )}
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+      {result.trials.length > MAX_ROWS && (
+        <Text fontSize="sm" color="gray.500" mt={2}>
+          상위 {MAX_ROWS}개 조합만 표시합니다 (전체 {result.trials.length}개 평가).
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export default OptimizationResultTable;
@@ -0,0 +1,81 @@
+/**
+ * 리밸런싱 내역 테이블 컴포넌트
+ * 자산 배분 백테스트의 리밸런싱별 국면, 목표 비중, 매매 금액, 거래 비용을 표시
+ */
+
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { RebalanceRecord } from '../../types/backtest';
+import { formatCurrency, formatNumber } from '../../utils/formatters';
+
+/**
+ * 국면 표시
+ */
+const REGIME_LABELS: Record<RebalanceRecord['regime'], { label: string; color: string }> = {
+  static: { label: '고정 비중', color: 'gray' },
+  offensive: { label: '공격', color: 'green' },
+  defensive: { label: '수비', color: 'orange' },
+};
+
+interface RebalanceTableProps {
+  rebalances: RebalanceRecord[];
+  currency: string;
+}
+
+const RebalanceTable: React.FC<RebalanceTableProps> = ({ rebalances, currency }) => {
+  const headerBg = useColorModeValue('gray.50', 'gray.800');
+
+  if (rebalances.length === 0) {
+    return <Text color="gray.500">리밸런싱 내역이 없습니다.</Text>;
+  }
+
+  return (
+    <Box overflowX="auto" maxH="600px" overflowY="auto">
+      <Table size="sm">
+        <Thead bg={headerBg} position="sticky" top={0}>
+          <Tr>
+            <Th>체결일</Th>
+            <Th>국면</Th>
+            <Th>목표 비중</Th>
+            <Th isNumeric>매매 금액</Th>
+            <Th isNumeric>거래 비용</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {/* 최신순 표시 */}
+          {[...rebalances].reverse().map((record) => (
+            <Tr key={record.date}>
+              <Td whiteSpace="nowrap">{record.date}</Td>
+              <Td>
+                <Badge colorScheme={REGIME_LABELS[record.regime].color}>
+                  {REGIME_LABELS[record.regime].label}
+                </Badge>
+              </Td>
+              <Td>
+                {Object.entries(record.weights)
+                  .sort(([, a], [, b]) => b - a)
+                  .map(([symbol, weight]) => `${symbol} ${formatNumber(weight, 1)}%`)
+                  .join(', ') || '현금'}
+              </Td>
+              <Td isNumeric>{formatCurrency(record.turnover, currency)}</Td>
+              <Td isNumeric>{formatCurrency(record.cost, currency)}</Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+};
+
+export default RebalanceTable;
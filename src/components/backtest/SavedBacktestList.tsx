@@ -0,0 +1,205 @@
+/**
+ * 저장된 백테스트 목록 컴포넌트
+ * 전략별로 저장된 백테스트 실행 결과를 표시하고 불러오기/삭제 기능 제공
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  Flex,
+  IconButton,
+  Spinner,
+  Table,
+  TableContainer,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useToast,
+} from '@chakra-ui/react';
+import { DeleteIcon, ViewIcon } from '@chakra-ui/icons';
+import { DocumentSnapshot } from 'firebase/firestore';
+
+import backtestService from '../../services/firebase/backtest-service';
+import { BacktestListItem } from '../../types/backtest';
+import { formatPercent } from '../../utils/formatters';
+
+// 페이지 크기
+const PAGE_SIZE = 10;
+
+/**
+ * 저장된 백테스트 목록 Props
+ */
+interface SavedBacktestListProps {
+  userId: string;
+  strategyId: string;
+  refreshKey?: number;            // 값이 바뀌면 목록을 새로 불러옴
+  onLoad: (backtestId: string) => void;
+}
+
+const SavedBacktestList: React.FC<SavedBacktestListProps> = ({
+  userId,
+  strategyId,
+  refreshKey = 0,
+  onLoad,
+}) => {
+  const toast = useToast();
+
+  const [backtests, setBacktests] = useState<BacktestListItem[]>([]);
+  const [lastDoc, setLastDoc] = useState<DocumentSnapshot | undefined>(undefined);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  /**
+   * 저장된 백테스트 목록 불러오기
+   * @param refresh 목록 초기화 여부
+   */
+  const fetchBacktests = async (refresh: boolean = false) => {
+    try {
+      setLoading(true);
+
+      const result = await backtestService.getBacktests(
+        userId,
+        strategyId,
+        refresh ? undefined : lastDoc,
+        PAGE_SIZE
+      );
+
+      if (refresh) {
+        setBacktests(result.backtests);
+      } else {
+        setBacktests((prev) => [...prev, ...result.backtests]);
+      }
+
+      setLastDoc(result.lastDoc);
+      setHasMore(result.backtests.length === PAGE_SIZE);
+    } catch (err) {
+      console.error('백테스트 목록 조회 오류:', err);
+
+      toast({
+        title: '오류 발생',
+        description: '저장된 백테스트를 불러오는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBacktests(true);
+  }, [userId, strategyId, refreshKey]);
+
+  /**
+   * 백테스트 삭제 핸들러
+   */
+  const handleDelete = async (backtestId: string) => {
+    try {
+      await backtestService.deleteBacktest(backtestId);
+      setBacktests((prev) => prev.filter((b) => b.id !== backtestId));
+
+      toast({
+        title: '백테스트 삭제 완료',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (err) {
+      console.error('백테스트 삭제 오류:', err);
+
+      toast({
+        title: '오류 발생',
+        description: '백테스트를 삭제하는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  if (loading && backtests.length === 0) {
+    return (
+      <Flex justifyContent="center" py={6}>
+        <Spinner color="blue.500" />
+      </Flex>
+    );
+  }
+
+  if (backtests.length === 0) {
+    return (
+      <Text fontSize="sm" color="gray.500" textAlign="center" py={6}>
+        저장된 백테스트가 없습니다.
+      </Text>
+    );
+  }
+
+  return (
+    <Box>
+      <TableContainer>
+        <Table size="sm">
+          <Thead>
+            <Tr>
+              <Th>저장일</Th>
+              <Th>종목</Th>
+              <Th>기간</Th>
+              <Th>통화</Th>
+              <Th isNumeric>총 수익률</Th>
+              <Th isNumeric>최대 낙폭</Th>
+              <Th />
+            </Tr>
+          </Thead>
+          <Tbody>
+            {backtests.map((backtest) => (
+              <Tr key={backtest.id}>
+                <Td>{new Date(backtest.createdAt).toLocaleString('ko-KR')}</Td>
+                <Td>{backtest.symbols.join(', ')}</Td>
+                <Td>
+                  {backtest.startDate} ~ {backtest.endDate} ({backtest.interval})
+                </Td>
+                <Td>{backtest.fxConverted ? `${backtest.currency} (환산)` : backtest.currency}</Td>
+                <Td isNumeric color={backtest.metrics.totalReturn >= 0 ? 'green.500' : 'red.500'}>
+                  {formatPercent(backtest.metrics.totalReturn, 'always')}
+                </Td>
+                <Td isNumeric>{formatPercent(backtest.metrics.maxDrawdown)}</Td>
+                <Td>
+                  <Flex justifyContent="flex-end" gap={1}>
+                    <IconButton
+                      aria-label="불러오기"
+                      icon={<ViewIcon />}
+                      size="xs"
+                      variant="ghost"
+                      onClick={() => onLoad(backtest.id)}
+                    />
+                    <IconButton
+                      aria-label="삭제"
+                      icon={<DeleteIcon />}
+                      size="xs"
+                      variant="ghost"
+                      colorScheme="red"
+                      onClick={() => handleDelete(backtest.id)}
+                    />
+                  </Flex>
+                </Td>
+              </Tr>
+            ))}
+          </Tbody>
+        </Table>
+      </TableContainer>
+
+      {hasMore && (
+        <Flex justifyContent="center" mt={4}>
+          <Button size="sm" onClick={() => fetchBacktests()} isLoading={loading}>
+            더 보기
+          </Button>
+        </Flex>
+      )}
+    </Box>
+  );
+};
+
+export default SavedBacktestList;
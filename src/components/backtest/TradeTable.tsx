@@ -0,0 +1,186 @@
+/**
+ * 거래 내역 테이블 컴포넌트
+ * 백테스트 거래 목록을 열 기준으로 정렬하여 표시
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Table,
+  Thead,
+  Tbody,
+  Tr,
+  Th,
+  Td,
+  Text,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { TriangleDownIcon, TriangleUpIcon } from '@chakra-ui/icons';
+import { BacktestTrade, ExitReason } from '../../types/backtest';
+import { formatCurrency, formatNumber, formatPercent } from '../../utils/formatters';
+
+/**
+ * 정렬 가능한 열
+ */
+type SortKey = keyof Pick<
+  BacktestTrade,
+  | 'symbol' | 'entryDate' | 'exitDate' | 'entryPrice' | 'exitPrice' | 'quantity'
+  | 'commission' | 'tax' | 'slippage' | 'pnl' | 'returnPercent' | 'barsHeld' | 'exitReason'
+>;
+
+/**
+ * 거래 비용 열 (비용이 발생한 거래가 있을 때만 표시)
+ */
+const COST_KEYS: SortKey[] = ['commission', 'tax', 'slippage'];
+
+/**
+ * 열 정의
+ */
+const COLUMNS: { key: SortKey; label: string; isNumeric?: boolean }[] = [
+  { key: 'symbol', label: '종목' },
+  { key: 'entryDate', label: '진입일' },
+  { key: 'exitDate', label: '청산일' },
+  { key: 'entryPrice', label: '진입가', isNumeric: true },
+  { key: 'exitPrice', label: '청산가', isNumeric: true },
+  { key: 'quantity', label: '수량', isNumeric: true },
+  { key: 'commission', label: '수수료', isNumeric: true },
+  { key: 'tax', label: '거래세', isNumeric: true },
+  { key: 'slippage', label: '슬리피지', isNumeric: true },
+  { key: 'pnl', label: '손익', isNumeric: true },
+  { key: 'returnPercent', label: '수익률', isNumeric: true },
+  { key: 'barsHeld', label: '보유 봉', isNumeric: true },
+  { key: 'exitReason', label: '청산 사유' },
+];
+
+/**
+ * 청산 사유 표시 정보
+ */
+const EXIT_REASON_LABELS: Record<ExitReason, { label: string; color: string }> = {
+  SIGNAL: { label: '매도 신호', color: 'blue' },
+  STOP_LOSS: { label: '손절', color: 'red' },
+  TAKE_PROFIT: { label: '익절', color: 'green' },
+  TRAILING_STOP: { label: '트레일링', color: 'orange' },
+  REBALANCE: { label: '리밸런싱', color: 'purple' },
+  END_OF_DATA: { label: '기간 종료', color: 'gray' },
+};
+
+interface TradeTableProps {
+  trades: BacktestTrade[];
+  currency: string;
+  currencyBySymbol?: Record<string, string>; // 포트폴리오 백테스트의 종목별 거래 통화
+}
+
+const TradeTable: React.FC<TradeTableProps> = ({ trades, currency, currencyBySymbol }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('entryDate');
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc');
+  const headerBg = useColorModeValue('gray.50', 'gray.800');
+  
+  const sortedTrades = useMemo(() => {
+    const direction = sortOrder === 'asc' ? 1 : -1;
+    
+    return [...trades].sort((a, b) => {
+      // 비용 정보가 없는 거래(이전 결과)는 0으로 간주
+      const x = a[sortKey] ?? 0;
+      const y = b[sortKey] ?? 0;
+      if (typeof x === 'number' && typeof y === 'number') {
+        return (x - y) * direction;
+      }
+      return String(x).localeCompare(String(y)) * direction;
+    });
+  }, [trades, sortKey, sortOrder]);
+  
+  /**
+   * 정렬 열 변경 핸들러 (같은 열을 다시 누르면 정렬 방향 전환)
+   */
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortOrder('asc');
+    }
+  };
+  
+  // 여러 종목의 거래가 섞여 있을 때만 종목 열 표시
+  const showSymbol = useMemo(() => new Set(trades.map((t) => t.symbol)).size > 1, [trades]);
+
+  // 비용이 발생한 항목만 비용 열 표시
+  const visibleCostKeys = useMemo(
+    () => COST_KEYS.filter((key) => trades.some((t) => ((t[key] as number | undefined) ?? 0) > 0)),
+    [trades]
+  );
+
+  const columns = COLUMNS.filter((column) => {
+    if (column.key === 'symbol') return showSymbol;
+    if (COST_KEYS.includes(column.key)) return visibleCostKeys.includes(column.key);
+    return true;
+  });
+  
+  if (trades.length === 0) {
+    return <Text color="gray.500">거래 내역이 없습니다.</Text>;
+  }
+  
+  return (
+    <Box overflowX="auto" maxH="480px" overflowY="auto">
+      <Table size="sm">
+        <Thead position="sticky" top={0} bg={headerBg} zIndex={1}>
+          <Tr>
+            {columns.map((column) => (
+              <Th
+                key={column.key}
+                isNumeric={column.isNumeric}
+                cursor="pointer"
+                onClick={() => handleSort(column.key)}
+                whiteSpace="nowrap"
+              >
+                {column.label}
+                {sortKey === column.key &&
+                  (sortOrder === 'asc' ? (
+                    <TriangleUpIcon ml={1} boxSize={2} />
+                  ) : (
+                    <TriangleDownIcon ml={1} boxSize={2} />
+                  ))}
+              </Th>
+            ))}
+          </Tr>
+        </Thead>
+        <Tbody>
+          {sortedTrades.map((trade) => {
+            const tradeCurrency = currencyBySymbol?.[trade.symbol] ?? currency;
+            
+            return (
+              <Tr key={trade.id}>
+                {showSymbol && <Td>{trade.symbol}</Td>}
+                <Td>{trade.entryDate}</Td>
+                <Td>{trade.exitDate}</Td>
+                <Td isNumeric>{formatCurrency(trade.entryPrice, tradeCurrency)}</Td>
+                <Td isNumeric>{formatCurrency(trade.exitPrice, tradeCurrency)}</Td>
+                <Td isNumeric>{formatNumber(trade.quantity, Number.isInteger(trade.quantity) ? 0 : 4)}</Td>
+                {visibleCostKeys.map((key) => (
+                  <Td key={key} isNumeric color="orange.500">
+                    {formatCurrency((trade[key] as number | undefined) ?? 0, tradeCurrency)}
+                  </Td>
+                ))}
+                <Td isNumeric color={trade.pnl >= 0 ? 'green.500' : 'red.500'}>
+                  {formatCurrency(trade.pnl, tradeCurrency)}
+                </Td>
+                <Td isNumeric color={trade.returnPercent >= 0 ? 'green.500' : 'red.500'}>
+                  {formatPercent(trade.returnPercent, 'always')}
+                </Td>
+                <Td isNumeric>{trade.barsHeld}</Td>
+                <Td>
+                  <Badge colorScheme={EXIT_REASON_LABELS[trade.exitReason].color}>
+                    {EXIT_REASON_LABELS[trade.exitReason].label}
+                  </Badge>
+                </Td>
+              </Tr>
+            );
+          })}
+        </Tbody>
+      </Table>
+    </Box>
+  );
+};
+
+export default TradeTable;
@@ -0,0 +1,90 @@
+/**
+ * 워크 포워드 구간 테이블 컴포넌트
+ * 구간별 학습/검증 기간, 학습 구간 최적 조합, 학습/검증 성과와 효율을 표시
+ */
+
+import React from 'react';
+import {
+  Box,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+} from '@chakra-ui/react';
+import { WalkForwardResult } from '../../types/optimization';
+import { formatPercent, formatRatio } from '../../utils/formatters';
+
+interface WalkForwardWindowTableProps {
+  result: WalkForwardResult;
+}
+
+const WalkForwardWindowTable: React.FC<WalkForwardWindowTableProps> = ({ result }) => {
+  const headerBg = useColorModeValue('gray.50', 'gray.800');
+
+  return (
+    <Box overflowX="auto">
+      <Table size="sm">
+        <Thead bg={headerBg}>
+          <Tr>
+            <Th isNumeric>구간</Th>
+            <Th>학습 기간</Th>
+            <Th>검증 기간</Th>
+            {result.parameters.map((parameter) => (
+              <Th key={parameter.key} isNumeric title={parameter.label} textTransform="none">
+                {parameter.name}
+              </Th>
+            ))}
+            <Th isNumeric>학습 CAGR</Th>
+            <Th isNumeric>검증 수익률</Th>
+            <Th isNumeric>검증 CAGR</Th>
+            <Th isNumeric>검증 MDD</Th>
+            <Th isNumeric>검증 샤프</Th>
+            <Th isNumeric>검증 거래 수</Th>
+            <Th isNumeric>효율</Th>
+          </Tr>
+        </Thead>
+        <Tbody>
+          {result.windows.map((window) => (
+            <Tr key={window.index}>
+              <Td isNumeric>{window.index + 1}</Td>
+              <Td whiteSpace="nowrap">
+                {window.inSampleStart} ~ {window.inSampleEnd}
+              </Td>
+              <Td whiteSpace="nowrap">
+                {window.outOfSampleStart} ~ {window.outOfSampleEnd}
+              </Td>
+              {result.parameters.map((parameter) => (
+                <Td key={parameter.key} isNumeric color={window.bestValues ? undefined : 'gray.400'}>
+                  {window.bestValues?.[parameter.key] ?? parameter.value}
+                </Td>
+              ))}
+              <Td isNumeric>{formatPercent(window.inSampleMetrics.cagr, 'always')}</Td>
+              <Td
+                isNumeric
+                color={window.outOfSampleMetrics.totalReturn >= 0 ? 'green.500' : 'red.500'}
+              >
+                {formatPercent(window.outOfSampleMetrics.totalReturn, 'always')}
+              </Td>
+              <Td isNumeric>{formatPercent(window.outOfSampleMetrics.cagr, 'always')}</Td>
+              <Td isNumeric>{formatPercent(window.outOfSampleMetrics.maxDrawdown)}</Td>
+              <Td isNumeric>{formatRatio(window.outOfSampleMetrics.sharpeRatio)}</Td>
+              <Td isNumeric>{window.outOfSampleMetrics.totalTrades}</Td>
+              <Td isNumeric>{window.efficiency === null ? '-' : formatPercent(window.efficiency)}</Td>
+            </Tr>
+          ))}
+        </Tbody>
+      </Table>
+      {result.windows.some((window) => !window.bestValues) && (
+        <Text fontSize="sm" color="gray.500" mt={2}>
+          회색 값은 학습 구간에서 제약 조건을 충족한 조합이 없어 현재 파라미터로 검증한 구간입니다.
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export default WalkForwardWindowTable;
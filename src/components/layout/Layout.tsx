@@ -7,6 +7,10 @@ import StockDetail from '../search/StockDetail';
 import { useFirebaseStore } from '../../store/firebase';
 import StrategyList from '../strategy/StrategyList';
 import StrategyBuilder from '../strategy/StrategyBuilder';
+import StrategyView from '../strategy/StrategyView';
+import BacktestPage from '../backtest/BacktestPage';
+import OptimizationPage from '../backtest/OptimizationPage';
+import SettingsPage from '../settings/SettingsPage';
 
 /**
  * 애플리케이션의 메인 레이아웃 컴포넌트
@@ -63,7 +67,7 @@ function Layout(): React.ReactElement {
                 </Flex>
               </Box>
             } />
-            <Route path="/settings" element={<FirebaseSetup />} />
+            <Route path="/settings" element={<SettingsPage />} />
             <Route path="/search" element={<SearchPage />} />
             <Route path="/stock/:symbol" element={<StockDetail />} />
             
@@ -71,6 +75,9 @@ function Layout(): React.ReactElement {
             <Route path="/strategy" element={<StrategyList />} />
             <Route path="/strategy/create" element={<StrategyBuilder />} />
             <Route path="/strategy/edit/:id" element={<StrategyBuilder />} />
+            <Route path="/strategy/view/:id" element={<StrategyView />} />
+            <Route path="/strategy/:id/backtest" element={<BacktestPage />} />
+            <Route path="/strategy/:id/optimize" element={<OptimizationPage />} />
             
             <Route path="*" element={
               <Box py={10} textAlign="center">
@@ -17,6 +17,8 @@ import {
 } from '@chakra-ui/react';
 import { StockSearchItem, StockQuote } from '../../types/stock';
 import stockService from '../../services/yahoo-finance/stock-service';
+import currencyService from '../../services/yahoo-finance/currency-service';
+import { usePreferencesStore } from '../../store/preferences';
 
 interface StockCardProps {
   stock: StockSearchItem;
@@ -60,6 +62,8 @@ const StockCard: React.FC<StockCardProps> = ({ stock, showPrice = false }) => {
   const [quoteData, setQuoteData] = useState<StockQuote | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(showPrice);
   const [error, setError] = useState<string | null>(null);
+  const [baseRate, setBaseRate] = useState<number | null>(null);
+  const baseCurrency = usePreferencesStore(state => state.defaultCurrency);
   
   // 색상 설정
   const cardBg = useColorModeValue('white', 'gray.700');
@@ -89,6 +93,30 @@ const StockCard: React.FC<StockCardProps> = ({ stock, showPrice = false }) => {
     fetchQuote();
   }, [stock.symbol, showPrice]);
   
+  // 현지 통화가 기준 통화와 다르면 현재 환율 로드 (실패하면 현지 통화로만 표시)
+  useEffect(() => {
+    setBaseRate(null);
+    const quoteCurrency = quoteData?.currency;
+    if (!quoteCurrency || quoteCurrency === baseCurrency) return;
+    
+    let cancelled = false;
+    
+    const fetchRate = async () => {
+      try {
+        const rate = await currencyService.getLatestRate(quoteCurrency, baseCurrency);
+        if (!cancelled) setBaseRate(rate);
+      } catch (err) {
+        console.error('환율 조회 오류:', err);
+      }
+    };
+    
+    fetchRate();
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [quoteData?.currency, baseCurrency]);
+  
   // 환율 포맷 함수
   const formatCurrency = (value: number, currency = 'USD'): string => {
     return new Intl.NumberFormat('ko-KR', {
@@ -156,26 +184,33 @@ const StockCard: React.FC<StockCardProps> = ({ stock, showPrice = false }) => {
             ) : error ? (
               <Text fontSize="sm" color="red.500">{error}</Text>
             ) : quoteData ? (
-              <Flex align="center">
-                <Text fontSize="lg" fontWeight="bold">
-                  {formatCurrency(quoteData.price.regularMarketPrice, quoteData.currency)}
-                </Text>
-                <HStack ml={2} spacing={1}>
-                  <Text 
-                    fontSize="sm" 
-                    color={getPriceChangeColor(quoteData.price.regularMarketChange)}
-                  >
-                    {quoteData.price.regularMarketChange > 0 ? '+' : ''}
-                    {formatCurrency(quoteData.price.regularMarketChange, quoteData.currency)}
+              <Box>
+                <Flex align="center">
+                  <Text fontSize="lg" fontWeight="bold">
+                    {formatCurrency(quoteData.price.regularMarketPrice, quoteData.currency)}
                   </Text>
-                  <Text 
-                    fontSize="sm" 
-                    color={getPriceChangeColor(quoteData.price.regularMarketChangePercent)}
-                  >
-                    ({formatPercent(quoteData.price.regularMarketChangePercent)})
+                  <HStack ml={2} spacing={1}>
+                    <Text 
+                      fontSize="sm" 
+                      color={getPriceChangeColor(quoteData.price.regularMarketChange)}
+                    >
+                      {quoteData.price.regularMarketChange > 0 ? '+' : ''}
+                      {formatCurrency(quoteData.price.regularMarketChange, quoteData.currency)}
+                    </Text>
+                    <Text 
+                      fontSize="sm" 
+                      color={getPriceChangeColor(quoteData.price.regularMarketChangePercent)}
+                    >
+                      ({formatPercent(quoteData.price.regularMarketChangePercent)})
+                    </Text>
+                  </HStack>
+                </Flex>
+                {baseRate !== null && (
+                  <Text fontSize="sm" color={subTextColor}>
+                    ≈ {formatCurrency(quoteData.price.regularMarketPrice * baseRate, baseCurrency)}
                   </Text>
-                </HStack>
-              </Flex>
+                )}
+              </Box>
             ) : null}
           </Box>
         )}
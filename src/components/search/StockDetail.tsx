@@ -220,9 +220,11 @@ const StockDetail: React.FC = () => {
           minute: '2-digit' 
         });
       }
+      // 봉 날짜는 거래소 현지 날짜이므로 브라우저 시간대로 바꾸지 않고 그대로 표시
       return new Date(item.date).toLocaleDateString('ko-KR', { 
         month: 'short', 
-        day: 'numeric' 
+        day: 'numeric',
+        timeZone: 'UTC'
       });
     }) || [],
     datasets: [
@@ -259,7 +261,7 @@ const StockDetail: React.FC = () => {
         callbacks: {
           label: (context) => {
             const value = context.raw as number;
-            return `${formatCurrency(value, quote?.currency || 'USD')}`;
+            return `${formatCurrency(value, historicalData?.currency || quote?.currency || 'USD')}`;
           },
         },
       },
@@ -444,6 +446,20 @@ const StockDetail: React.FC = () => {
             </Flex>
           )}
         </Box>
+        
+        {/* 거래소 정보 */}
+        {historicalData && (
+          <Text fontSize="xs" color="gray.500" mt={3}>
+            {[
+              historicalData.exchange,
+              historicalData.currency,
+              historicalData.exchangeTimezone,
+              historicalData.tradingHours
+                ? `정규장 ${historicalData.tradingHours.open}~${historicalData.tradingHours.close} (현지 시각)`
+                : null,
+            ].filter(Boolean).join(' · ')}
+          </Text>
+        )}
       </Box>
       
       {/* 상세 정보 탭 */}
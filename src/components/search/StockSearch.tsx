@@ -48,13 +48,22 @@ function useDebounce<T>(value: T, delay: number): T {
   return debouncedValue;
 }
 
-const StockSearch: React.FC = () => {
+/**
+ * 주식 검색 컴포넌트 Props
+ */
+interface StockSearchProps {
+  onSelect?: (stock: StockSearchItem) => void; // 지정하면 상세 화면 대신 선택 콜백 호출
+  label?: string;
+}
+
+const StockSearch: React.FC<StockSearchProps> = ({ onSelect, label = '종목 검색' }) => {
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [searchResults, setSearchResults] = useState<StockSearchItem[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isInputFocused, setIsInputFocused] = useState<boolean>(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const selectedTermRef = useRef<string | null>(null); // 선택 후 입력창에 채운 검색어 (재검색 방지)
   const navigate = useNavigate();
   
   // 색상 설정
@@ -96,6 +105,7 @@ const StockSearch: React.FC = () => {
   
   // 검색어 변경 시 검색 실행
   useEffect(() => {
+    if (debouncedSearchTerm === selectedTermRef.current) return;
     performSearch(debouncedSearchTerm);
   }, [debouncedSearchTerm, performSearch]);
   
@@ -113,13 +123,21 @@ const StockSearch: React.FC = () => {
    * 종목 클릭 핸들러
    */
   const handleStockSelect = (stock: StockSearchItem) => {
+    if (onSelect) {
+      onSelect(stock);
+      selectedTermRef.current = stock.symbol;
+      setSearchTerm(stock.symbol);
+      setSearchResults([]);
+      return;
+    }
+    
     navigate(`/stock/${stock.symbol}`);
   };
   
   return (
     <Box w="100%">
       <FormControl>
-        <FormLabel fontSize="lg" fontWeight="bold">종목 검색</FormLabel>
+        <FormLabel fontSize="lg" fontWeight="bold">{label}</FormLabel>
         <InputGroup size="lg">
           <InputLeftElement pointerEvents="none">
             <SearchIcon color="gray.400" />
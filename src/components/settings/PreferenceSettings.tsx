@@ -0,0 +1,64 @@
+/**
+ * 표시 설정 컴포넌트
+ * 다른 통화 금액을 환산해 함께 표시할 기준 통화 선택
+ */
+
+import React from 'react';
+import {
+  Box,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  Heading,
+  Select,
+  Text,
+  useColorModeValue,
+  VStack,
+} from '@chakra-ui/react';
+import { usePreferencesStore } from '../../store/preferences';
+import { BASE_CURRENCY_OPTIONS } from '../../constants/currency';
+
+const PreferenceSettings: React.FC = () => {
+  const cardBg = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const defaultCurrency = usePreferencesStore(state => state.defaultCurrency);
+  const setDefaultCurrency = usePreferencesStore(state => state.setDefaultCurrency);
+
+  return (
+    <Box
+      borderWidth={1}
+      borderRadius="lg"
+      p={6}
+      bg={cardBg}
+      borderColor={borderColor}
+      boxShadow="sm"
+      width="100%"
+    >
+      <VStack spacing={5} align="stretch">
+        <Box>
+          <Heading size="md" mb={2}>표시 설정</Heading>
+          <Text color="gray.600" fontSize="sm">
+            여러 통화의 종목을 함께 볼 때 사용할 기준 통화를 선택하세요.
+          </Text>
+        </Box>
+
+        <FormControl maxW={{ base: 'full', md: 'sm' }}>
+          <FormLabel>기준 통화</FormLabel>
+          <Select value={defaultCurrency} onChange={(e) => setDefaultCurrency(e.target.value)}>
+            {BASE_CURRENCY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+          <FormHelperText>
+            종목 시세와 백테스트 자산을 현지 통화와 함께 기준 통화로 환산해 표시합니다.
+          </FormHelperText>
+        </FormControl>
+      </VStack>
+    </Box>
+  );
+};
+
+export default PreferenceSettings;
@@ -0,0 +1,240 @@
+/**
+ * 과거 주가 캐시 설정 컴포넌트
+ * IndexedDB에 저장된 종목+간격별 봉 데이터 현황을 표시하고 항목별/전체 삭제 기능 제공
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Alert,
+  AlertIcon,
+  Box,
+  Button,
+  Flex,
+  Heading,
+  IconButton,
+  Spinner,
+  Stat,
+  StatLabel,
+  StatNumber,
+  SimpleGrid,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useColorModeValue,
+  useToast,
+  VStack,
+} from '@chakra-ui/react';
+import { DeleteIcon, RepeatIcon } from '@chakra-ui/icons';
+import priceCacheService from '../../services/yahoo-finance/price-cache';
+import { PriceCacheStats } from '../../types/stock';
+import { formatBytes } from '../../utils/formatters';
+
+const PriceCacheSettings: React.FC = () => {
+  const toast = useToast();
+  const cardBg = useColorModeValue('white', 'gray.800');
+  const borderColor = useColorModeValue('gray.200', 'gray.700');
+
+  const [stats, setStats] = useState<PriceCacheStats | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [clearing, setClearing] = useState(false);
+
+  const available = priceCacheService.isAvailable();
+
+  /**
+   * 캐시 현황 불러오기
+   */
+  const loadStats = useCallback(async () => {
+    setLoading(true);
+    try {
+      setStats(await priceCacheService.getStats());
+    } catch (err) {
+      toast({
+        title: '캐시 현황 조회 실패',
+        description: err instanceof Error ? err.message : '캐시 현황을 불러오지 못했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    if (available) loadStats();
+  }, [available, loadStats]);
+
+  /**
+   * 항목 삭제 핸들러
+   */
+  const handleRemove = async (key: string) => {
+    try {
+      await priceCacheService.removeEntry(key);
+      await loadStats();
+    } catch (err) {
+      toast({
+        title: '캐시 삭제 실패',
+        description: err instanceof Error ? err.message : '캐시를 삭제하지 못했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  /**
+   * 전체 삭제 핸들러
+   */
+  const handleClear = async () => {
+    if (!window.confirm('저장된 과거 주가 캐시를 모두 삭제하시겠습니까?')) return;
+
+    setClearing(true);
+    try {
+      await priceCacheService.clear();
+      await loadStats();
+
+      toast({
+        title: '캐시 삭제 완료',
+        description: '다음 조회부터 과거 주가를 다시 내려받습니다.',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (err) {
+      toast({
+        title: '캐시 삭제 실패',
+        description: err instanceof Error ? err.message : '캐시를 비우지 못했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setClearing(false);
+    }
+  };
+
+  return (
+    <Box
+      borderWidth={1}
+      borderRadius="lg"
+      p={6}
+      bg={cardBg}
+      borderColor={borderColor}
+      boxShadow="sm"
+      width="100%"
+    >
+      <VStack spacing={5} align="stretch">
+        <Flex alignItems="center" justifyContent="space-between" gap={4} wrap="wrap">
+          <Box>
+            <Heading size="md" mb={2}>과거 주가 캐시</Heading>
+            <Text color="gray.600" fontSize="sm">
+              조회한 과거 주가를 브라우저에 저장하고, 저장되지 않은 기간만 새로 내려받습니다.
+            </Text>
+          </Box>
+          <Flex gap={2}>
+            <Button
+              size="sm"
+              leftIcon={<RepeatIcon />}
+              onClick={loadStats}
+              isLoading={loading}
+              isDisabled={!available}
+            >
+              새로고침
+            </Button>
+            <Button
+              size="sm"
+              colorScheme="red"
+              variant="outline"
+              leftIcon={<DeleteIcon />}
+              onClick={handleClear}
+              isLoading={clearing}
+              isDisabled={!available || !stats || stats.entries.length === 0}
+            >
+              전체 삭제
+            </Button>
+          </Flex>
+        </Flex>
+
+        {!available ? (
+          <Alert status="warning" borderRadius="md">
+            <AlertIcon />
+            이 브라우저는 IndexedDB를 지원하지 않아 과거 주가를 매번 새로 내려받습니다.
+          </Alert>
+        ) : !stats ? (
+          <Flex justifyContent="center" py={6}>
+            <Spinner />
+          </Flex>
+        ) : (
+          <>
+            <SimpleGrid columns={{ base: 1, md: 3 }} spacing={4}>
+              <Stat p={3} borderWidth="1px" borderRadius="md">
+                <StatLabel>저장된 종목</StatLabel>
+                <StatNumber fontSize="lg">{stats.entries.length.toLocaleString()}</StatNumber>
+              </Stat>
+              <Stat p={3} borderWidth="1px" borderRadius="md">
+                <StatLabel>저장된 봉</StatLabel>
+                <StatNumber fontSize="lg">{stats.totalBars.toLocaleString()}</StatNumber>
+              </Stat>
+              <Stat p={3} borderWidth="1px" borderRadius="md">
+                <StatLabel>사용 용량 (추정)</StatLabel>
+                <StatNumber fontSize="lg">{formatBytes(stats.totalBytes)}</StatNumber>
+              </Stat>
+            </SimpleGrid>
+
+            {stats.entries.length === 0 ? (
+              <Text color="gray.500" fontSize="sm" textAlign="center" py={4}>
+                저장된 과거 주가가 없습니다.
+              </Text>
+            ) : (
+              <Box overflowX="auto">
+                <Table size="sm">
+                  <Thead>
+                    <Tr>
+                      <Th>종목</Th>
+                      <Th>간격</Th>
+                      <Th>기간</Th>
+                      <Th isNumeric>봉 수</Th>
+                      <Th isNumeric>용량</Th>
+                      <Th>갱신</Th>
+                      <Th />
+                    </Tr>
+                  </Thead>
+                  <Tbody>
+                    {stats.entries.map((entry) => (
+                      <Tr key={entry.key}>
+                        <Td fontWeight="medium">{entry.symbol}</Td>
+                        <Td>{entry.interval}</Td>
+                        <Td>
+                          {entry.firstDate ?? '-'} ~ {entry.lastDate ?? '-'}
+                        </Td>
+                        <Td isNumeric>{entry.bars.toLocaleString()}</Td>
+                        <Td isNumeric>{formatBytes(entry.bytes)}</Td>
+                        <Td>{new Date(entry.updatedAt).toLocaleString()}</Td>
+                        <Td>
+                          <IconButton
+                            aria-label={`${entry.symbol} 캐시 삭제`}
+                            icon={<DeleteIcon />}
+                            size="xs"
+                            variant="ghost"
+                            colorScheme="red"
+                            onClick={() => handleRemove(entry.key)}
+                          />
+                        </Td>
+                      </Tr>
+                    ))}
+                  </Tbody>
+                </Table>
+              </Box>
+            )}
+          </>
+        )}
+      </VStack>
+    </Box>
+  );
+};
+
+export default PriceCacheSettings;
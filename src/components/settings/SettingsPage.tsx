@@ -0,0 +1,24 @@
+/**
+ * 설정 페이지 컴포넌트
+ * Firebase 연결 설정, 기준 통화 등 표시 설정, 과거 주가 캐시 관리를 표시
+ */
+
+import React from 'react';
+import { VStack } from '@chakra-ui/react';
+import FirebaseSetup from '../auth/FirebaseSetup';
+import PreferenceSettings from './PreferenceSettings';
+import PriceCacheSettings from './PriceCacheSettings';
+
+const SettingsPage: React.FC = () => {
+  return (
+    <VStack spacing={8} align="stretch">
+      <FirebaseSetup />
+      <VStack spacing={8} align="stretch" width="100%" maxWidth="900px" mx="auto">
+        <PreferenceSettings />
+        <PriceCacheSettings />
+      </VStack>
+    </VStack>
+  );
+};
+
+export default SettingsPage;
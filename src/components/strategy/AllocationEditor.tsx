@@ -0,0 +1,376 @@
+/**
+ * 자산 배분 설정 컴포넌트
+ * 고정 비중 또는 모멘텀 기반 자산 배분과 리밸런싱 주기, 현금 비중을 설정하는 UI
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Flex,
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  HStack,
+  IconButton,
+  Input,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  Select,
+  SimpleGrid,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { AddIcon, DeleteIcon } from '@chakra-ui/icons';
+
+import {
+  AllocationMode,
+  AssetAllocation,
+  MomentumScoreMethod,
+  PeriodUnit,
+} from '../../types/strategy';
+import {
+  ALLOCATION_MODE_LABELS,
+  MOMENTUM_SCORE_LABELS,
+  PERIOD_UNIT_LABELS,
+} from '../../constants/asset-allocation';
+
+/**
+ * 자산 배분 설정 Props
+ */
+interface AllocationEditorProps {
+  allocation: AssetAllocation;
+  onChange: (allocation: AssetAllocation) => void;
+}
+
+/**
+ * 종목 코드 정규화 (공백 제거, 대문자)
+ */
+const normalizeSymbol = (symbol: string): string => symbol.trim().toUpperCase();
+
+/**
+ * 쉼표/공백으로 구분한 종목 목록 파싱
+ */
+const parseSymbolList = (text: string): string[] =>
+  Array.from(new Set(text.split(/[\s,]+/).map(normalizeSymbol).filter(Boolean)));
+
+/**
+ * 종목 목록 입력 Props
+ */
+interface SymbolListInputProps {
+  label: string;
+  helperText: string;
+  symbols: string[];
+  onChange: (symbols: string[]) => void;
+}
+
+/**
+ * 종목 목록 입력 컴포넌트
+ * 입력 중에는 원문을 유지하고 포커스를 잃을 때 목록으로 반영
+ */
+const SymbolListInput: React.FC<SymbolListInputProps> = ({ label, helperText, symbols, onChange }) => {
+  const [text, setText] = useState<string>(symbols.join(', '));
+
+  useEffect(() => {
+    setText(symbols.join(', '));
+  }, [symbols]);
+
+  return (
+    <FormControl>
+      <FormLabel fontSize="sm">{label}</FormLabel>
+      <Input
+        size="sm"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange(parseSymbolList(text))}
+        placeholder="예: SPY, QQQ, 069500.KS"
+      />
+      <FormHelperText>{helperText}</FormHelperText>
+    </FormControl>
+  );
+};
+
+/**
+ * 숫자 입력 컴포넌트 Props
+ */
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  helperText?: string;
+  onChange: (value: number) => void;
+}
+
+/**
+ * 숫자 입력 컴포넌트
+ */
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, step = 1, helperText, onChange }) => (
+  <FormControl>
+    <FormLabel fontSize="sm">{label}</FormLabel>
+    <NumberInput
+      size="sm"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(_, next) => onChange(Number.isFinite(next) ? next : min)}
+    >
+      <NumberInputField />
+      <NumberInputStepper>
+        <NumberIncrementStepper />
+        <NumberDecrementStepper />
+      </NumberInputStepper>
+    </NumberInput>
+    {helperText && <FormHelperText>{helperText}</FormHelperText>}
+  </FormControl>
+);
+
+const AllocationEditor: React.FC<AllocationEditorProps> = ({ allocation, onChange }) => {
+  const totalWeight = allocation.assets.reduce((sum, asset) => sum + asset.weight, 0);
+
+  /**
+   * 설정 항목 변경 핸들러
+   */
+  const handleFieldChange = <K extends keyof AssetAllocation>(field: K, value: AssetAllocation[K]) => {
+    onChange({ ...allocation, [field]: value });
+  };
+
+  /**
+   * 고정 비중 자산 변경 핸들러
+   */
+  const handleAssetChange = (index: number, field: 'symbol' | 'weight', value: string | number) => {
+    onChange({
+      ...allocation,
+      assets: allocation.assets.map((asset, i) =>
+        i === index
+          ? { ...asset, [field]: field === 'symbol' ? normalizeSymbol(String(value)) : value }
+          : asset
+      ),
+    });
+  };
+
+  /**
+   * 고정 비중 자산 추가 핸들러 (남은 비중을 새 자산에 배정)
+   */
+  const handleAddAsset = () => {
+    handleFieldChange('assets', [
+      ...allocation.assets,
+      { symbol: '', weight: Math.max(0, 100 - totalWeight) },
+    ]);
+  };
+
+  /**
+   * 고정 비중 자산 삭제 핸들러
+   */
+  const handleRemoveAsset = (index: number) => {
+    handleFieldChange('assets', allocation.assets.filter((_, i) => i !== index));
+  };
+
+  /**
+   * 현금 대체 종목 변경 핸들러 (비우면 설정 제거)
+   */
+  const handleCashSymbolChange = (value: string) => {
+    const symbol = normalizeSymbol(value);
+    const next = { ...allocation };
+
+    if (symbol) {
+      next.cashSymbol = symbol;
+    } else {
+      delete next.cashSymbol;
+    }
+    onChange(next);
+  };
+
+  return (
+    <VStack spacing={6} align="stretch">
+      <FormControl>
+        <FormLabel>배분 방식</FormLabel>
+        <Select
+          value={allocation.mode}
+          onChange={(e) => handleFieldChange('mode', e.target.value as AllocationMode)}
+        >
+          {Object.entries(ALLOCATION_MODE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </Select>
+      </FormControl>
+
+      {allocation.mode === 'static' ? (
+        <Box>
+          <Text fontWeight="bold" mb={2}>자산별 목표 비중</Text>
+          <VStack spacing={2} align="stretch">
+            {allocation.assets.map((asset, index) => (
+              <HStack key={index} spacing={2}>
+                <Input
+                  size="sm"
+                  value={asset.symbol}
+                  onChange={(e) => handleAssetChange(index, 'symbol', e.target.value)}
+                  placeholder="종목 코드"
+                />
+                <NumberInput
+                  size="sm"
+                  maxW="140px"
+                  value={asset.weight}
+                  min={0}
+                  max={100}
+                  step={0.5}
+                  onChange={(_, value) => handleAssetChange(index, 'weight', Number.isFinite(value) ? value : 0)}
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+                <Text fontSize="sm">%</Text>
+                <IconButton
+                  aria-label="자산 삭제"
+                  icon={<DeleteIcon />}
+                  size="sm"
+                  variant="ghost"
+                  colorScheme="red"
+                  onClick={() => handleRemoveAsset(index)}
+                />
+              </HStack>
+            ))}
+          </VStack>
+          <Flex justifyContent="space-between" alignItems="center" mt={3}>
+            <Button leftIcon={<AddIcon />} size="sm" onClick={handleAddAsset}>
+              자산 추가
+            </Button>
+            <Text fontSize="sm" color={totalWeight > 100 ? 'red.500' : 'gray.600'}>
+              합계 {totalWeight}% (나머지 {Math.max(0, 100 - totalWeight)}%는 현금)
+            </Text>
+          </Flex>
+        </Box>
+      ) : (
+        <VStack spacing={4} align="stretch">
+          <SymbolListInput
+            label="카나리아 자산"
+            helperText="하나라도 모멘텀 점수가 음수이면 수비 자산으로 전환합니다. 비워 두면 항상 공격 자산을 보유합니다."
+            symbols={allocation.canary}
+            onChange={(symbols) => handleFieldChange('canary', symbols)}
+          />
+          <SymbolListInput
+            label="공격 자산"
+            helperText="선택 점수 상위 종목을 동일 비중으로 보유합니다."
+            symbols={allocation.offensive}
+            onChange={(symbols) => handleFieldChange('offensive', symbols)}
+          />
+          <SymbolListInput
+            label="수비 자산"
+            helperText="비워 두면 수비 국면에서 현금을 보유합니다."
+            symbols={allocation.defensive}
+            onChange={(symbols) => handleFieldChange('defensive', symbols)}
+          />
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            <NumberField
+              label="공격 자산 보유 수"
+              value={allocation.offensiveTopN}
+              min={1}
+              max={50}
+              onChange={(value) => handleFieldChange('offensiveTopN', value)}
+            />
+            <NumberField
+              label="수비 자산 보유 수"
+              value={allocation.defensiveTopN}
+              min={1}
+              max={50}
+              onChange={(value) => handleFieldChange('defensiveTopN', value)}
+            />
+            <FormControl>
+              <FormLabel fontSize="sm">카나리아 점수</FormLabel>
+              <Select
+                size="sm"
+                value={allocation.canaryScore}
+                onChange={(e) => handleFieldChange('canaryScore', e.target.value as MomentumScoreMethod)}
+              >
+                {Object.entries(MOMENTUM_SCORE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl>
+              <FormLabel fontSize="sm">선택 점수</FormLabel>
+              <Select
+                size="sm"
+                value={allocation.selectionScore}
+                onChange={(e) => handleFieldChange('selectionScore', e.target.value as MomentumScoreMethod)}
+              >
+                {Object.entries(MOMENTUM_SCORE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </FormControl>
+          </SimpleGrid>
+
+          <FormControl>
+            <FormLabel fontSize="sm">현금 대체 종목</FormLabel>
+            <Input
+              size="sm"
+              value={allocation.cashSymbol ?? ''}
+              onChange={(e) => handleCashSymbolChange(e.target.value)}
+              placeholder="예: BIL (선택)"
+            />
+            <FormHelperText>
+              수비 국면에서 이 종목보다 점수가 낮은 수비 자산은 이 종목으로 대체합니다.
+            </FormHelperText>
+          </FormControl>
+        </VStack>
+      )}
+
+      <Box>
+        <Text fontWeight="bold" mb={2}>리밸런싱</Text>
+        <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+          <NumberField
+            label="주기"
+            value={allocation.rebalanceInterval}
+            min={1}
+            max={120}
+            onChange={(value) => handleFieldChange('rebalanceInterval', value)}
+          />
+          <FormControl>
+            <FormLabel fontSize="sm">기간 단위</FormLabel>
+            <Select
+              size="sm"
+              value={allocation.rebalancePeriod}
+              onChange={(e) => handleFieldChange('rebalancePeriod', e.target.value as PeriodUnit)}
+            >
+              {Object.entries(PERIOD_UNIT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+            <FormHelperText>
+              {allocation.rebalanceInterval}{PERIOD_UNIT_LABELS[allocation.rebalancePeriod]}마다 기간 마지막 봉 종가로 비중을 계산합니다.
+            </FormHelperText>
+          </FormControl>
+          <NumberField
+            label="현금 비중 (%)"
+            value={allocation.cashBuffer ?? 0}
+            min={0}
+            max={100}
+            step={1}
+            helperText="투자하지 않고 남겨 둘 현금 비율"
+            onChange={(value) => handleFieldChange('cashBuffer', value)}
+          />
+        </SimpleGrid>
+      </Box>
+    </VStack>
+  );
+};
+
+export default AllocationEditor;
@@ -0,0 +1,71 @@
+/**
+ * 자산 배분 설정 표시 컴포넌트 (읽기 전용)
+ */
+
+import React from 'react';
+import { Badge, Box, Flex, Tag, Text, VStack } from '@chakra-ui/react';
+
+import { AssetAllocation } from '../../types/strategy';
+import {
+  ALLOCATION_MODE_LABELS,
+  MOMENTUM_SCORE_LABELS,
+  PERIOD_UNIT_LABELS,
+} from '../../constants/asset-allocation';
+
+interface AllocationViewProps {
+  allocation: AssetAllocation;
+}
+
+/**
+ * 종목 목록 표시
+ */
+const SymbolTags: React.FC<{ label: string; symbols: string[] }> = ({ label, symbols }) => (
+  <Box>
+    <Text fontSize="sm" fontWeight="bold" mb={1}>{label}</Text>
+    {symbols.length > 0 ? (
+      <Flex flexWrap="wrap" gap={1}>
+        {symbols.map((symbol) => (
+          <Tag key={symbol} size="sm" colorScheme="blue">{symbol}</Tag>
+        ))}
+      </Flex>
+    ) : (
+      <Text fontSize="sm" color="gray.500">없음 (현금)</Text>
+    )}
+  </Box>
+);
+
+const AllocationView: React.FC<AllocationViewProps> = ({ allocation }) => {
+  return (
+    <VStack spacing={3} align="stretch">
+      <Flex gap={2} alignItems="center" flexWrap="wrap">
+        <Badge colorScheme="purple">{ALLOCATION_MODE_LABELS[allocation.mode]}</Badge>
+        <Text fontSize="sm">
+          {allocation.rebalanceInterval}{PERIOD_UNIT_LABELS[allocation.rebalancePeriod]}마다 리밸런싱
+          {allocation.cashBuffer ? ` · 현금 ${allocation.cashBuffer}%` : ''}
+        </Text>
+      </Flex>
+
+      {allocation.mode === 'static' ? (
+        <Flex flexWrap="wrap" gap={2}>
+          {allocation.assets.map((asset) => (
+            <Tag key={asset.symbol} colorScheme="blue">
+              {asset.symbol} {asset.weight}%
+            </Tag>
+          ))}
+        </Flex>
+      ) : (
+        <>
+          <SymbolTags label="카나리아 자산" symbols={allocation.canary} />
+          <SymbolTags label={`공격 자산 (상위 ${allocation.offensiveTopN}개)`} symbols={allocation.offensive} />
+          <SymbolTags label={`수비 자산 (상위 ${allocation.defensiveTopN}개)`} symbols={allocation.defensive} />
+          <Text fontSize="sm" color="gray.600">
+            카나리아 점수: {MOMENTUM_SCORE_LABELS[allocation.canaryScore]}, 선택 점수: {MOMENTUM_SCORE_LABELS[allocation.selectionScore]}
+            {allocation.cashSymbol ? `, 현금 대체: ${allocation.cashSymbol}` : ''}
+          </Text>
+        </>
+      )}
+    </VStack>
+  );
+};
+
+export default AllocationView;
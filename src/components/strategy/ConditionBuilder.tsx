@@ -35,10 +35,13 @@ import {
   IndicatorType,
   ComparisonOperator,
   LogicalOperator,
-  PriceType,
   ConditionParameter,
+  ConditionLookback,
+  LookbackMode,
   INDICATOR_DESCRIPTIONS,
+  MAX_CONDITION_BARS,
 } from '../../types/strategy';
+import { getDefaultParameters } from '../../constants/indicator-parameters';
 
 /**
  * 조건 빌더 Props
@@ -49,56 +52,6 @@ interface ConditionBuilderProps {
   onChange: (conditionGroups: ConditionGroup[], groupOperator: LogicalOperator) => void;
 }
 
-/**
- * 조건 파라미터 기본값
- */
-const getDefaultParameters = (indicatorType: IndicatorType): ConditionParameter[] => {
-  switch (indicatorType) {
-    case IndicatorType.PRICE:
-      return [
-        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
-      ];
-    case IndicatorType.VOLUME:
-      return [];
-    case IndicatorType.MA:
-      return [
-        { name: 'period', value: 20, min: 1, max: 200, step: 1 },
-        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
-      ];
-    case IndicatorType.EMA:
-      return [
-        { name: 'period', value: 12, min: 1, max: 200, step: 1 },
-        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
-      ];
-    case IndicatorType.RSI:
-      return [
-        { name: 'period', value: 14, min: 1, max: 100, step: 1 },
-      ];
-    case IndicatorType.MACD:
-      return [
-        { name: 'fastPeriod', value: 12, min: 1, max: 100, step: 1 },
-        { name: 'slowPeriod', value: 26, min: 1, max: 100, step: 1 },
-        { name: 'signalPeriod', value: 9, min: 1, max: 100, step: 1 },
-        { name: 'macdPart', value: 'macd', options: ['macd', 'signal', 'histogram'] },
-      ];
-    case IndicatorType.BOLLINGER:
-      return [
-        { name: 'period', value: 20, min: 1, max: 100, step: 1 },
-        { name: 'stdDev', value: 2, min: 0.1, max: 10, step: 0.1 },
-        { name: 'bandPart', value: 'upper', options: ['upper', 'middle', 'lower'] },
-      ];
-    case IndicatorType.STOCHASTIC:
-      return [
-        { name: 'kPeriod', value: 14, min: 1, max: 100, step: 1 },
-        { name: 'dPeriod', value: 3, min: 1, max: 100, step: 1 },
-        { name: 'slowing', value: 3, min: 1, max: 100, step: 1 },
-        { name: 'stochPart', value: 'k', options: ['k', 'd'] },
-      ];
-    default:
-      return [];
-  }
-};
-
 /**
  * 조건 파라미터 컴포넌트 Props
  */
@@ -181,6 +134,37 @@ interface ConditionItemProps {
  */
 type ComparisonTargetType = 'value' | IndicatorType;
 
+/**
+ * 구간 집계 방식 선택 옵션
+ */
+const LOOKBACK_MODE_OPTIONS: { value: LookbackMode; label: string }[] = [
+  { value: 'any', label: '최근 N봉 중 한 번이라도 충족' },
+  { value: 'all', label: '최근 N봉 모두 충족' },
+  { value: 'count', label: '최근 N봉 중 M봉 이상 충족' },
+  { value: 'highest', label: '최근 N봉 최고값과 비교' },
+  { value: 'lowest', label: '최근 N봉 최저값과 비교' },
+];
+
+/**
+ * 봉 수 입력값 정리 (정수, 범위 제한)
+ */
+const clampBars = (value: number, min: number, max = MAX_CONDITION_BARS): number =>
+  Number.isFinite(value) ? Math.min(Math.max(Math.round(value), min), max) : min;
+
+/**
+ * 비교 지표가 없어진 조건에서 우변 전용 설정 제거
+ */
+const withoutValueIndicatorOptions = (condition: StrategyCondition): StrategyCondition => {
+  const {
+    valueOffset: _valueOffset,
+    valueMultiplier: _valueMultiplier,
+    valueAddend: _valueAddend,
+    lookback,
+    ...rest
+  } = condition;
+  return lookback && lookback.side !== 'right' ? { ...rest, lookback } : rest;
+};
+
 /**
  * 단일 조건 컴포넌트
  */
@@ -193,7 +177,7 @@ const ConditionItem: React.FC<ConditionItemProps> = ({ condition, onUpdate, onDe
     const newParameters = getDefaultParameters(newType);
     
     onUpdate({
-      ...condition,
+      ...withoutValueIndicatorOptions(condition),
       type: newType,
       parameters: newParameters,
       valueType: undefined,
@@ -226,7 +210,7 @@ const ConditionItem: React.FC<ConditionItemProps> = ({ condition, onUpdate, onDe
       });
     } else {
       onUpdate({
-        ...condition,
+        ...withoutValueIndicatorOptions(condition),
         valueType: undefined,
         valueParameters: undefined,
       });
@@ -273,6 +257,63 @@ const ConditionItem: React.FC<ConditionItemProps> = ({ condition, onUpdate, onDe
     });
   };
   
+  /**
+   * 비교 지표 배수/더할 값 변경 핸들러 (기본값이면 필드 제거)
+   */
+  const handleArithmeticChange = (field: 'valueMultiplier' | 'valueAddend', value: number) => {
+    const { [field]: _previous, ...rest } = condition;
+    const defaultValue = field === 'valueMultiplier' ? 1 : 0;
+    
+    onUpdate(Number.isFinite(value) && value !== defaultValue ? { ...rest, [field]: value } : rest);
+  };
+  
+  /**
+   * 기준 봉 오프셋 변경 핸들러 (0이면 현재 봉)
+   */
+  const handleOffsetChange = (field: 'offset' | 'valueOffset', value: number) => {
+    const { [field]: _previous, ...rest } = condition;
+    const offset = clampBars(value, 0);
+    
+    onUpdate(offset > 0 ? { ...rest, [field]: offset } : rest);
+  };
+  
+  /**
+   * 구간 집계 방식 변경 핸들러
+   */
+  const handleLookbackModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { lookback: previous, ...rest } = condition;
+    const mode = e.target.value as LookbackMode | '';
+    
+    if (!mode) {
+      onUpdate(rest);
+      return;
+    }
+    
+    const lookback: ConditionLookback = { mode, period: previous?.period ?? 3 };
+    if (mode === 'count') {
+      lookback.count = Math.min(previous?.count ?? 2, lookback.period);
+    }
+    if ((mode === 'highest' || mode === 'lowest') && previous?.side && condition.valueType) {
+      lookback.side = previous.side;
+    }
+    
+    onUpdate({ ...rest, lookback });
+  };
+  
+  /**
+   * 구간 집계 설정 변경 핸들러
+   */
+  const handleLookbackChange = (changes: Partial<ConditionLookback>) => {
+    if (!condition.lookback) return;
+    
+    const lookback = { ...condition.lookback, ...changes };
+    if (lookback.count !== undefined) {
+      lookback.count = Math.min(lookback.count, lookback.period);
+    }
+    
+    onUpdate({ ...condition, lookback });
+  };
+  
   // 지표 설명 표시
   const indicatorDescription = condition.type ? INDICATOR_DESCRIPTIONS[condition.type] : '';
   
@@ -342,6 +383,8 @@ const ConditionItem: React.FC<ConditionItemProps> = ({ condition, onUpdate, onDe
             <option value="<=">{'≤'} (이하)</option>
             <option value="<">{'<'} (미만)</option>
             <option value="!=">{'≠'} (같지 않음)</option>
+            <option value="crossAbove">상향 돌파 (아래에서 위로 교차)</option>
+            <option value="crossBelow">하향 돌파 (위에서 아래로 교차)</option>
           </Select>
         </FormControl>
         
@@ -379,6 +422,40 @@ const ConditionItem: React.FC<ConditionItemProps> = ({ condition, onUpdate, onDe
                 </Box>
               ))}
             </HStack>
+            <HStack spacing={3} mt={3} alignItems="flex-end">
+              <FormControl>
+                <FormLabel fontSize="sm">배수 (×)</FormLabel>
+                <NumberInput
+                  value={condition.valueMultiplier ?? 1}
+                  step={0.01}
+                  onChange={(_, value) => handleArithmeticChange('valueMultiplier', value)}
+                  size="sm"
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">더할 값 (+)</FormLabel>
+                <NumberInput
+                  value={condition.valueAddend ?? 0}
+                  onChange={(_, value) => handleArithmeticChange('valueAddend', value)}
+                  size="sm"
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </FormControl>
+            </HStack>
+            <Text fontSize="xs" color="gray.500" mt={1}>
+              비교 지표 × 배수 + 더할 값 (예: 배수 1.03이면 이동평균보다 3% 높은 값과 비교)
+            </Text>
           </Box>
         ) : (
           // 값과 비교하는 경우
@@ -397,6 +474,114 @@ const ConditionItem: React.FC<ConditionItemProps> = ({ condition, onUpdate, onDe
             </NumberInput>
           </FormControl>
         )}
+        
+        {/* 기준 봉 오프셋 */}
+        <HStack spacing={3} alignItems="flex-end">
+          <FormControl>
+            <FormLabel fontSize="sm">기준 봉 (n봉 전)</FormLabel>
+            <NumberInput
+              value={condition.offset ?? 0}
+              min={0}
+              max={MAX_CONDITION_BARS}
+              onChange={(_, value) => handleOffsetChange('offset', value)}
+              size="sm"
+            >
+              <NumberInputField />
+              <NumberInputStepper>
+                <NumberIncrementStepper />
+                <NumberDecrementStepper />
+              </NumberInputStepper>
+            </NumberInput>
+          </FormControl>
+          {condition.valueType && (
+            <FormControl>
+              <FormLabel fontSize="sm">비교 지표 기준 봉 (n봉 전)</FormLabel>
+              <NumberInput
+                value={condition.valueOffset ?? 0}
+                min={0}
+                max={MAX_CONDITION_BARS}
+                onChange={(_, value) => handleOffsetChange('valueOffset', value)}
+                size="sm"
+              >
+                <NumberInputField />
+                <NumberInputStepper>
+                  <NumberIncrementStepper />
+                  <NumberDecrementStepper />
+                </NumberInputStepper>
+              </NumberInput>
+            </FormControl>
+          )}
+        </HStack>
+        
+        {/* 구간 집계 */}
+        <FormControl>
+          <FormLabel fontSize="sm">구간 집계</FormLabel>
+          <Select
+            value={condition.lookback?.mode ?? ''}
+            onChange={handleLookbackModeChange}
+            size="sm"
+          >
+            <option value="">사용 안 함 (현재 봉만 평가)</option>
+            {LOOKBACK_MODE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </Select>
+        </FormControl>
+        
+        {condition.lookback && (
+          <HStack spacing={3} alignItems="flex-end">
+            <FormControl>
+              <FormLabel fontSize="sm">구간 (N봉)</FormLabel>
+              <NumberInput
+                value={condition.lookback.period}
+                min={1}
+                max={MAX_CONDITION_BARS}
+                onChange={(_, value) => handleLookbackChange({ period: clampBars(value, 1) })}
+                size="sm"
+              >
+                <NumberInputField />
+                <NumberInputStepper>
+                  <NumberIncrementStepper />
+                  <NumberDecrementStepper />
+                </NumberInputStepper>
+              </NumberInput>
+            </FormControl>
+            {condition.lookback.mode === 'count' && (
+              <FormControl>
+                <FormLabel fontSize="sm">최소 충족 (M봉)</FormLabel>
+                <NumberInput
+                  value={condition.lookback.count ?? 1}
+                  min={1}
+                  max={condition.lookback.period}
+                  onChange={(_, value) => handleLookbackChange({ count: clampBars(value, 1) })}
+                  size="sm"
+                >
+                  <NumberInputField />
+                  <NumberInputStepper>
+                    <NumberIncrementStepper />
+                    <NumberDecrementStepper />
+                  </NumberInputStepper>
+                </NumberInput>
+              </FormControl>
+            )}
+            {(condition.lookback.mode === 'highest' || condition.lookback.mode === 'lowest') &&
+              condition.valueType && (
+              <FormControl>
+                <FormLabel fontSize="sm">적용 대상</FormLabel>
+                <Select
+                  value={condition.lookback.side ?? 'left'}
+                  onChange={(e) => handleLookbackChange({ side: e.target.value as 'left' | 'right' })}
+                  size="sm"
+                >
+                  <option value="left">지표</option>
+                  <option value="right">비교 지표</option>
+                </Select>
+              </FormControl>
+            )}
+          </HStack>
+        )}
       </VStack>
     </Box>
   );
@@ -0,0 +1,216 @@
+/**
+ * 거래 비용 설정 컴포넌트
+ * 시장별 프리셋 또는 직접 입력으로 수수료, 슬리피지, 시장별 매도 거래세를 설정하는 UI
+ */
+
+import React from 'react';
+import {
+  FormControl,
+  FormHelperText,
+  FormLabel,
+  NumberInput,
+  NumberInputField,
+  NumberInputStepper,
+  NumberIncrementStepper,
+  NumberDecrementStepper,
+  Select,
+  SimpleGrid,
+  VStack,
+} from '@chakra-ui/react';
+
+import { CostModel, SlippageUnit, TaxMarket } from '../../types/strategy';
+import {
+  COST_MODEL_PRESETS,
+  SLIPPAGE_UNIT_LABELS,
+  TAX_MARKET_LABELS,
+  findCostModelPreset,
+} from '../../constants/cost-model';
+
+/**
+ * 거래 비용 설정 Props
+ */
+interface CostModelEditorProps {
+  costModel: CostModel;
+  onChange: (costModel: CostModel) => void;
+}
+
+/**
+ * 비용 항목 입력 정의
+ */
+const NUMBER_FIELDS: {
+  field: 'commissionPercent' | 'commissionFixed' | 'commissionMin';
+  label: string;
+  max: number;
+  step: number;
+  helperText: string;
+}[] = [
+  { field: 'commissionPercent', label: '수수료율 (%)', max: 10, step: 0.005, helperText: '체결 금액 대비 매수/매도 수수료' },
+  { field: 'commissionFixed', label: '건당 고정 수수료', max: 1_000_000, step: 1, helperText: '주문마다 부과되는 금액 (거래 통화)' },
+  { field: 'commissionMin', label: '최소 수수료', max: 1_000_000, step: 1, helperText: '주문당 수수료가 이보다 작으면 이 금액 적용' },
+];
+
+const CostModelEditor: React.FC<CostModelEditorProps> = ({ costModel, onChange }) => {
+  const preset = findCostModelPreset(costModel);
+
+  /**
+   * 프리셋 선택 핸들러
+   */
+  const handlePresetChange = (presetId: string) => {
+    const selected = COST_MODEL_PRESETS.find((item) => item.id === presetId);
+    if (selected) {
+      onChange({ ...selected.model });
+    }
+  };
+
+  /**
+   * 비용 항목 변경 핸들러
+   */
+  const handleFieldChange = <K extends keyof CostModel>(field: K, value: CostModel[K]) => {
+    onChange({ ...costModel, [field]: value });
+  };
+
+  /**
+   * 시장별 매도 거래세 변경 핸들러
+   */
+  const handleSellTaxChange = (market: TaxMarket, value: number) => {
+    onChange({ ...costModel, sellTax: { ...costModel.sellTax, [market]: value } });
+  };
+
+  /**
+   * 호가 단위 변경 핸들러 (0 또는 빈 값이면 종목별 기본 호가 단위 사용)
+   */
+  const handleTickSizeChange = (value: number) => {
+    const next = { ...costModel };
+
+    if (Number.isFinite(value) && value > 0) {
+      next.tickSize = value;
+    } else {
+      delete next.tickSize;
+    }
+    onChange(next);
+  };
+
+  return (
+    <VStack spacing={4} align="stretch">
+      <FormControl>
+        <FormLabel>비용 프리셋</FormLabel>
+        <Select
+          value={preset?.id ?? 'custom'}
+          onChange={(e) => handlePresetChange(e.target.value)}
+        >
+          {COST_MODEL_PRESETS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+          <option value="custom" disabled>
+            직접 입력
+          </option>
+        </Select>
+        <FormHelperText>
+          {preset ? preset.description : '프리셋과 다른 값을 직접 입력했습니다.'}
+        </FormHelperText>
+      </FormControl>
+
+      <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+        {NUMBER_FIELDS.map(({ field, label, max, step, helperText }) => (
+          <FormControl key={field}>
+            <FormLabel fontSize="sm">{label}</FormLabel>
+            <NumberInput
+              size="sm"
+              value={costModel[field]}
+              min={0}
+              max={max}
+              step={step}
+              onChange={(_, value) => handleFieldChange(field, Number.isFinite(value) ? value : 0)}
+            >
+              <NumberInputField />
+              <NumberInputStepper>
+                <NumberIncrementStepper />
+                <NumberDecrementStepper />
+              </NumberInputStepper>
+            </NumberInput>
+            <FormHelperText>{helperText}</FormHelperText>
+          </FormControl>
+        ))}
+
+        {(Object.keys(TAX_MARKET_LABELS) as TaxMarket[]).map((market) => (
+          <FormControl key={`sellTax-${market}`}>
+            <FormLabel fontSize="sm">매도 거래세 - {TAX_MARKET_LABELS[market]} (%)</FormLabel>
+            <NumberInput
+              size="sm"
+              value={costModel.sellTax[market]}
+              min={0}
+              max={10}
+              step={0.01}
+              onChange={(_, value) => handleSellTaxChange(market, Number.isFinite(value) ? value : 0)}
+            >
+              <NumberInputField />
+              <NumberInputStepper>
+                <NumberIncrementStepper />
+                <NumberDecrementStepper />
+              </NumberInputStepper>
+            </NumberInput>
+            <FormHelperText>해당 시장 종목의 매도 체결 금액 대비 거래세 등 제세금</FormHelperText>
+          </FormControl>
+        ))}
+
+        <FormControl>
+          <FormLabel fontSize="sm">슬리피지</FormLabel>
+          <NumberInput
+            size="sm"
+            value={costModel.slippage}
+            min={0}
+            max={1000}
+            step={1}
+            onChange={(_, value) => handleFieldChange('slippage', Number.isFinite(value) ? value : 0)}
+          >
+            <NumberInputField />
+            <NumberInputStepper>
+              <NumberIncrementStepper />
+              <NumberDecrementStepper />
+            </NumberInputStepper>
+          </NumberInput>
+          <FormHelperText>매수는 높게, 매도는 낮게 체결된 것으로 계산</FormHelperText>
+        </FormControl>
+
+        <FormControl>
+          <FormLabel fontSize="sm">슬리피지 단위</FormLabel>
+          <Select
+            size="sm"
+            value={costModel.slippageUnit}
+            onChange={(e) => handleFieldChange('slippageUnit', e.target.value as SlippageUnit)}
+          >
+            {Object.entries(SLIPPAGE_UNIT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </Select>
+        </FormControl>
+
+        {costModel.slippageUnit === 'ticks' && (
+          <FormControl>
+            <FormLabel fontSize="sm">호가 단위</FormLabel>
+            <NumberInput
+              size="sm"
+              value={costModel.tickSize ?? 0}
+              min={0}
+              step={0.01}
+              onChange={(_, value) => handleTickSizeChange(value)}
+            >
+              <NumberInputField />
+              <NumberInputStepper>
+                <NumberIncrementStepper />
+                <NumberDecrementStepper />
+              </NumberInputStepper>
+            </NumberInput>
+            <FormHelperText>0이면 국내 종목은 가격대별 호가 단위, 그 외 0.01 적용</FormHelperText>
+          </FormControl>
+        )}
+      </SimpleGrid>
+    </VStack>
+  );
+};
+
+export default CostModelEditor;
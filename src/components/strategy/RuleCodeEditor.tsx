@@ -0,0 +1,157 @@
+/**
+ * 매매 규칙 코드 편집기 컴포넌트
+ * 텍스트 규칙 언어로 조건을 작성하고, 문법 오류는 행/열 위치와 함께 표시
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  Box,
+  Code,
+  FormControl,
+  FormLabel,
+  Text,
+  Textarea,
+  VStack,
+  useColorModeValue,
+} from '@chakra-ui/react';
+
+import { ConditionGroup, IndicatorType, LogicalOperator, TradeRule } from '../../types/strategy';
+import { RuleSyntaxError } from '../../types/rule-language';
+import { parseTradeRule, printIndicator, printTradeRule } from '../../utils/rule-language';
+import { getDefaultParameters } from '../../constants/indicator-parameters';
+
+// 지표별 기본 표기 예시 (예: MA(20), BOLLINGER(20, 2).upper)
+const INDICATOR_EXAMPLES = Object.values(IndicatorType)
+  .map((type) => printIndicator(type, getDefaultParameters(type)))
+  .join(', ');
+
+/**
+ * 코드 편집기 Props
+ */
+interface RuleCodeEditorProps {
+  label: string;
+  rule: TradeRule;
+  onChange: (conditionGroups: ConditionGroup[], groupOperator: LogicalOperator) => void;
+}
+
+/**
+ * 오류 위치 표시 (해당 행과 열 위치의 ^ 표시)
+ */
+const formatErrorPointer = (source: string, error: RuleSyntaxError): string => {
+  const lineText = source.split('\n')[error.line - 1] ?? '';
+  const width = Math.max(1, Math.min(error.end - error.start, lineText.length - error.column + 1));
+  return `${lineText}\n${' '.repeat(error.column - 1)}${'^'.repeat(width)}`;
+};
+
+const RuleCodeEditor: React.FC<RuleCodeEditorProps> = ({ label, rule, onChange }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [source, setSource] = useState<string>(() => printTradeRule(rule));
+  const [errors, setErrors] = useState<RuleSyntaxError[]>([]);
+  // 마지막으로 편집기에서 반영한 규칙의 표기 (외부 변경 여부 판단용)
+  const appliedRef = useRef<string>(printTradeRule(rule));
+
+  const pointerBg = useColorModeValue('red.50', 'red.900');
+
+  /**
+   * 조건 빌더 등 외부에서 규칙이 바뀌면 편집기 내용을 다시 표기
+   */
+  useEffect(() => {
+    const printed = printTradeRule(rule);
+    if (printed !== appliedRef.current) {
+      appliedRef.current = printed;
+      setSource(printed);
+      setErrors([]);
+    }
+  }, [rule]);
+
+  /**
+   * 규칙 입력 핸들러
+   * 문법이 올바르면 즉시 규칙에 반영하고, 오류가 있으면 마지막 올바른 규칙을 유지
+   */
+  const handleSourceChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value;
+    setSource(value);
+
+    const result = parseTradeRule(value, rule.type);
+    setErrors(result.errors);
+
+    if (result.rule) {
+      appliedRef.current = printTradeRule(result.rule);
+      onChange(result.rule.conditionGroups, result.rule.operator);
+    }
+  };
+
+  /**
+   * 오류 클릭 핸들러 (오류 위치 선택)
+   */
+  const handleErrorClick = (error: RuleSyntaxError) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(error.start, Math.max(error.end, error.start + 1));
+  };
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <FormControl isInvalid={errors.length > 0}>
+        <FormLabel>{label}</FormLabel>
+        <Textarea
+          ref={textareaRef}
+          value={source}
+          onChange={handleSourceChange}
+          fontFamily="mono"
+          fontSize="sm"
+          rows={8}
+          spellCheck={false}
+          placeholder="예: (MA(10) > MA(30) AND RSI(14) < 70) OR CLOSE > BOLLINGER(20, 2).upper"
+        />
+      </FormControl>
+
+      {errors.map((error, i) => (
+        <Alert
+          key={`${error.start}-${i}`}
+          status="error"
+          borderRadius="md"
+          alignItems="flex-start"
+          cursor="pointer"
+          onClick={() => handleErrorClick(error)}
+        >
+          <AlertIcon />
+          <Box flex="1">
+            <AlertDescription fontSize="sm">
+              {error.line}행 {error.column}열: {error.message}
+            </AlertDescription>
+            <Code
+              display="block"
+              whiteSpace="pre"
+              overflowX="auto"
+              mt={2}
+              p={2}
+              bg={pointerBg}
+              fontSize="xs"
+            >
+              {formatErrorPointer(source, error)}
+            </Code>
+          </Box>
+        </Alert>
+      ))}
+
+      <Box fontSize="xs" color="gray.500">
+        <Text>지표 (기본값): {INDICATOR_EXAMPLES}</Text>
+        <Text>
+          연산자: &gt; &gt;= = &lt;= &lt; != crossAbove crossBelow, AND, OR, 괄호는 한 단계까지
+        </Text>
+        <Text>
+          확장: CLOSE &gt; MA(50) * 1.03, RSI(14)[1] (1봉 전), HIGHEST(HIGH, 20), LOWEST(LOW, 20),
+          ANY(3, RSI(14) &lt; 30), ALL(3, ...), COUNT(5, 2, ...)
+        </Text>
+      </Box>
+    </VStack>
+  );
+};
+
+export default RuleCodeEditor;
@@ -28,6 +28,7 @@ import {
   TabPanel,
   Text,
   Textarea,
+  Select,
   useToast,
   VStack,
   HStack,
@@ -42,20 +43,37 @@ import {
   AlertIcon,
   AlertTitle,
   AlertDescription,
+  useDisclosure,
 } from '@chakra-ui/react';
-import { AddIcon, ArrowBackIcon, CheckIcon, CloseIcon } from '@chakra-ui/icons';
+import { AddIcon, ArrowBackIcon, CheckIcon, CloseIcon, CopyIcon, DownloadIcon } from '@chakra-ui/icons';
 import { nanoid } from 'nanoid';
 
 import ConditionBuilder from './ConditionBuilder';
+import AllocationEditor from './AllocationEditor';
+import CostModelEditor from './CostModelEditor';
+import RuleCodeEditor from './RuleCodeEditor';
+import TemplatePicker from './TemplatePicker';
+import StrategyImportButton from './StrategyImportButton';
 import strategyService from '../../services/firebase/strategy-service';
 import {
   Strategy,
+  AssetAllocation,
   ConditionGroup,
+  CostModel,
   LogicalOperator,
   MoneyManagement,
   TradeRule,
   SignalType,
+  StrategyKind,
+  StrategyTemplate,
 } from '../../types/strategy';
+import { StrategyDefinition } from '../../types/strategy-file';
+import { createStrategyFromTemplate } from '../../constants/strategy-templates';
+import { STRATEGY_KIND_LABELS, createDefaultAllocation } from '../../constants/asset-allocation';
+import { NO_COST_MODEL } from '../../constants/cost-model';
+import { downloadStrategyFile } from '../../utils/strategy-file';
+import { validateAssetAllocation, validateCostModel } from '../../utils/strategy-file/validation';
+import { hasCosts } from '../../utils/backtest/costs';
 
 /**
  * 전략 빌더 컴포넌트
@@ -65,6 +83,7 @@ const StrategyBuilder: React.FC = () => {
   const navigate = useNavigate();
   const toast = useToast();
   const isEditMode = !!id;
+  const { isOpen: isTemplateOpen, onOpen: onTemplateOpen, onClose: onTemplateClose } = useDisclosure();
   
   // 상태 관리
   const [loading, setLoading] = useState<boolean>(isEditMode);
@@ -78,6 +97,11 @@ const StrategyBuilder: React.FC = () => {
   const [tagInput, setTagInput] = useState<string>('');
   const [isPublic, setIsPublic] = useState<boolean>(false);
   
+  // 전략 종류 및 자산 배분 설정
+  const [kind, setKind] = useState<StrategyKind>('signal');
+  const [allocation, setAllocation] = useState<AssetAllocation>(createDefaultAllocation());
+  const isAllocation = kind === 'allocation';
+  
   // 매수/매도 규칙
   const [buyRules, setBuyRules] = useState<TradeRule>({
     id: nanoid(),
@@ -102,6 +126,9 @@ const StrategyBuilder: React.FC = () => {
     takeProfit: 20, // 20%
   });
   
+  // 거래 비용 설정
+  const [costModel, setCostModel] = useState<CostModel>(NO_COST_MODEL);
+  
   // 사용자 ID (실제로는 인증 서비스에서 가져와야 함)
   // 임시로 고정값 사용
   const userId = 'current-user-id';
@@ -140,6 +167,11 @@ const StrategyBuilder: React.FC = () => {
           
           // 자금 관리 설정
           setMoneyManagement(strategy.moneyManagement);
+          setCostModel(strategy.costModel ?? NO_COST_MODEL);
+          
+          // 전략 종류 및 자산 배분 설정
+          setKind(strategy.kind ?? 'signal');
+          setAllocation(strategy.allocation ?? createDefaultAllocation());
           
         } catch (err) {
           console.error('전략 불러오기 오류:', err);
@@ -153,6 +185,74 @@ const StrategyBuilder: React.FC = () => {
     }
   }, [id, isEditMode]);
   
+  /**
+   * 템플릿 적용 핸들러
+   * 템플릿의 규칙과 자금 관리 설정으로 현재 입력을 대체
+   */
+  const handleTemplateSelect = (template: StrategyTemplate) => {
+    const strategy = createStrategyFromTemplate(template, userId);
+    
+    setName(strategy.name);
+    setDescription(strategy.description);
+    setTags(strategy.tags || []);
+    setBuyRules(strategy.buyRules[0]);
+    setSellRules(strategy.sellRules[0]);
+    setMoneyManagement(strategy.moneyManagement);
+    setCostModel(strategy.costModel ?? NO_COST_MODEL);
+    setKind(strategy.kind ?? 'signal');
+    setAllocation(strategy.allocation ?? createDefaultAllocation());
+    
+    toast({
+      title: '템플릿 적용 완료',
+      description: `'${template.name}' 템플릿의 조건을 불러왔습니다. 필요에 맞게 수정하세요.`,
+      status: 'info',
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+  
+  /**
+   * 전략 파일 가져오기 핸들러
+   * 가져온 전략 정의로 현재 입력을 대체 (저장 전까지 반영되지 않음)
+   */
+  const handleImport = (definition: StrategyDefinition) => {
+    setName(definition.name);
+    setDescription(definition.description);
+    setTags(definition.tags || []);
+    setBuyRules(definition.buyRules[0]);
+    setSellRules(definition.sellRules[0]);
+    setMoneyManagement(definition.moneyManagement);
+    setCostModel(definition.costModel ?? NO_COST_MODEL);
+    setKind(definition.kind ?? 'signal');
+    setAllocation(definition.allocation ?? createDefaultAllocation());
+    
+    toast({
+      title: '전략 가져오기 완료',
+      description: definition.buyRules.length > 1 || definition.sellRules.length > 1
+        ? '여러 매매 규칙 중 첫 번째 규칙만 편집할 수 있습니다.'
+        : `'${definition.name}' 전략을 불러왔습니다.`,
+      status: 'info',
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+  
+  /**
+   * 전략 파일 내보내기 핸들러 (현재 입력 기준)
+   */
+  const handleExport = () => {
+    downloadStrategyFile({
+      name: name.trim() || '새 전략',
+      description,
+      buyRules: [buyRules],
+      sellRules: [sellRules],
+      moneyManagement,
+      tags: tags.length > 0 ? tags : undefined,
+      ...(hasCosts(costModel) ? { costModel } : {}),
+      ...(isAllocation ? { kind, allocation } : {}),
+    });
+  };
+  
   /**
    * 매수 규칙 업데이트 핸들러
    */
@@ -238,7 +338,19 @@ const StrategyBuilder: React.FC = () => {
       return;
     }
     
-    if (buyRules.conditionGroups.length === 0 || 
+    if (isAllocation) {
+      const allocationErrors = validateAssetAllocation(allocation);
+      if (allocationErrors.length > 0) {
+        toast({
+          title: '자산 배분 설정을 확인하세요.',
+          description: allocationErrors[0].message,
+          status: 'error',
+          duration: 3000,
+          isClosable: true,
+        });
+        return;
+      }
+    } else if (buyRules.conditionGroups.length === 0 || 
         buyRules.conditionGroups.some(g => g.conditions.length === 0)) {
       toast({
         title: '매수 조건을 설정하세요.',
@@ -250,8 +362,8 @@ const StrategyBuilder: React.FC = () => {
       return;
     }
     
-    if (sellRules.conditionGroups.length === 0 || 
-        sellRules.conditionGroups.some(g => g.conditions.length === 0)) {
+    if (!isAllocation && (sellRules.conditionGroups.length === 0 || 
+        sellRules.conditionGroups.some(g => g.conditions.length === 0))) {
       toast({
         title: '매도 조건을 설정하세요.',
         description: '최소 하나 이상의 매도 조건이 필요합니다.',
@@ -262,6 +374,18 @@ const StrategyBuilder: React.FC = () => {
       return;
     }
     
+    const costModelErrors = validateCostModel(costModel);
+    if (costModelErrors.length > 0) {
+      toast({
+        title: '거래 비용 설정을 확인하세요.',
+        description: costModelErrors[0].message,
+        status: 'error',
+        duration: 3000,
+        isClosable: true,
+      });
+      return;
+    }
+    
     try {
       setSaving(true);
       
@@ -269,11 +393,15 @@ const StrategyBuilder: React.FC = () => {
         name,
         description,
         userId,
-        buyRules: [buyRules],
-        sellRules: [sellRules],
+        // 자산 배분 전략은 매매 규칙을 사용하지 않으므로 조건 없이 저장
+        buyRules: [isAllocation ? { ...buyRules, conditionGroups: [] } : buyRules],
+        sellRules: [isAllocation ? { ...sellRules, conditionGroups: [] } : sellRules],
         moneyManagement,
         isPublic,
         tags: tags.length > 0 ? tags : undefined,
+        // 수정 시 이전 비용 설정이 남지 않도록 비용이 없어도 항상 저장
+        costModel,
+        ...(isAllocation ? { kind, allocation } : {}),
       };
       
       if (isEditMode && id) {
@@ -361,8 +489,30 @@ const StrategyBuilder: React.FC = () => {
           <Heading size="lg">
             {isEditMode ? '전략 수정' : '새 전략 만들기'}
           </Heading>
+          <HStack ml="auto" spacing={2}>
+            {!isEditMode && (
+              <Button
+                leftIcon={<CopyIcon />}
+                variant="outline"
+                colorScheme="purple"
+                onClick={onTemplateOpen}
+              >
+                템플릿에서 시작
+              </Button>
+            )}
+            <StrategyImportButton variant="outline" onImport={handleImport} />
+            <Button leftIcon={<DownloadIcon />} variant="outline" onClick={handleExport}>
+              내보내기
+            </Button>
+          </HStack>
         </Flex>
         
+        <TemplatePicker
+          isOpen={isTemplateOpen}
+          onClose={onTemplateClose}
+          onSelect={handleTemplateSelect}
+        />
+        
         {/* 기본 정보 */}
         <VStack spacing={4} align="stretch" mb={6}>
           <FormControl isRequired>
@@ -417,6 +567,22 @@ const StrategyBuilder: React.FC = () => {
             </InputGroup>
           </FormControl>
           
+          <FormControl>
+            <FormLabel>전략 종류</FormLabel>
+            <Select value={kind} onChange={(e) => setKind(e.target.value as StrategyKind)}>
+              {Object.entries(STRATEGY_KIND_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+            <Text fontSize="sm" color="gray.600" mt={1}>
+              {isAllocation
+                ? '매매 조건 없이 목표 비중에 맞춰 주기적으로 리밸런싱합니다.'
+                : '매수/매도 조건이 충족될 때 진입하고 청산합니다.'}
+            </Text>
+          </FormControl>
+          
           <FormControl display="flex" alignItems="center">
             <FormLabel htmlFor="is-public" mb="0">
               공개 전략
@@ -431,37 +597,77 @@ const StrategyBuilder: React.FC = () => {
         
         <Divider my={6} />
         
-        {/* 매수/매도 규칙 및 자금 관리 */}
-        <Tabs isFitted variant="enclosed" colorScheme="blue">
+        {/* 매수/매도 규칙(또는 자산 배분) 및 자금 관리 */}
+        <Tabs key={kind} isFitted variant="enclosed" colorScheme="blue">
           <TabList mb="1em">
-            <Tab>매수 조건</Tab>
-            <Tab>매도 조건</Tab>
+            {isAllocation ? (
+              <Tab>자산 배분</Tab>
+            ) : (
+              <>
+                <Tab>매수 조건</Tab>
+                <Tab>매도 조건</Tab>
+                <Tab>코드 편집</Tab>
+              </>
+            )}
             <Tab>자금 관리</Tab>
           </TabList>
           <TabPanels>
-            {/* 매수 조건 탭 */}
-            <TabPanel>
-              <Box mb={4}>
-                <Heading size="md" mb={4}>매수 조건 설정</Heading>
-                <ConditionBuilder
-                  conditionGroups={buyRules.conditionGroups}
-                  groupOperator={buyRules.operator}
-                  onChange={handleBuyRulesChange}
-                />
-              </Box>
-            </TabPanel>
+            {/* 자산 배분 탭 */}
+            {isAllocation && (
+              <TabPanel>
+                <Box mb={4}>
+                  <Heading size="md" mb={4}>자산 배분 설정</Heading>
+                  <AllocationEditor allocation={allocation} onChange={setAllocation} />
+                </Box>
+              </TabPanel>
+            )}
             
-            {/* 매도 조건 탭 */}
-            <TabPanel>
-              <Box mb={4}>
-                <Heading size="md" mb={4}>매도 조건 설정</Heading>
-                <ConditionBuilder
-                  conditionGroups={sellRules.conditionGroups}
-                  groupOperator={sellRules.operator}
-                  onChange={handleSellRulesChange}
-                />
-              </Box>
-            </TabPanel>
+            {!isAllocation && (
+              <>
+                {/* 매수 조건 탭 */}
+                <TabPanel>
+                  <Box mb={4}>
+                    <Heading size="md" mb={4}>매수 조건 설정</Heading>
+                    <ConditionBuilder
+                      conditionGroups={buyRules.conditionGroups}
+                      groupOperator={buyRules.operator}
+                      onChange={handleBuyRulesChange}
+                    />
+                  </Box>
+                </TabPanel>
+            
+                {/* 매도 조건 탭 */}
+                <TabPanel>
+                  <Box mb={4}>
+                    <Heading size="md" mb={4}>매도 조건 설정</Heading>
+                    <ConditionBuilder
+                      conditionGroups={sellRules.conditionGroups}
+                      groupOperator={sellRules.operator}
+                      onChange={handleSellRulesChange}
+                    />
+                  </Box>
+                </TabPanel>
+            
+                {/* 코드 편집 탭 */}
+                <TabPanel>
+                  <Box mb={4}>
+                    <Heading size="md" mb={4}>규칙 코드 편집</Heading>
+                    <VStack spacing={6} align="stretch">
+                      <RuleCodeEditor
+                        label="매수 규칙"
+                        rule={buyRules}
+                        onChange={handleBuyRulesChange}
+                      />
+                      <RuleCodeEditor
+                        label="매도 규칙"
+                        rule={sellRules}
+                        onChange={handleSellRulesChange}
+                      />
+                    </VStack>
+                  </Box>
+                </TabPanel>
+              </>
+            )}
             
             {/* 자금 관리 탭 */}
             <TabPanel>
@@ -484,107 +690,118 @@ const StrategyBuilder: React.FC = () => {
                     </NumberInput>
                   </FormControl>
                   
-                  <FormControl isRequired>
-                    <FormLabel>포지션 크기 (%)</FormLabel>
-                    <NumberInput
-                      value={moneyManagement.positionSizing}
-                      onChange={(_, value) => handleMoneyManagementChange('positionSizing', value)}
-                      min={1}
-                      max={100}
-                      step={1}
-                    >
-                      <NumberInputField />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <Text fontSize="sm" color="gray.600" mt={1}>
-                      각 종목당 투자 비율
-                    </Text>
-                  </FormControl>
+                  {!isAllocation && (
+                    <>
+                      <FormControl isRequired>
+                        <FormLabel>포지션 크기 (%)</FormLabel>
+                        <NumberInput
+                          value={moneyManagement.positionSizing}
+                          onChange={(_, value) => handleMoneyManagementChange('positionSizing', value)}
+                          min={1}
+                          max={100}
+                          step={1}
+                        >
+                          <NumberInputField />
+                          <NumberInputStepper>
+                            <NumberIncrementStepper />
+                            <NumberDecrementStepper />
+                          </NumberInputStepper>
+                        </NumberInput>
+                        <Text fontSize="sm" color="gray.600" mt={1}>
+                          각 종목당 투자 비율
+                        </Text>
+                      </FormControl>
                   
-                  <FormControl isRequired>
-                    <FormLabel>최대 포지션 수</FormLabel>
-                    <NumberInput
-                      value={moneyManagement.maxPositions}
-                      onChange={(_, value) => handleMoneyManagementChange('maxPositions', value)}
-                      min={1}
-                      max={50}
-                      step={1}
-                    >
-                      <NumberInputField />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <Text fontSize="sm" color="gray.600" mt={1}>
-                      동시에 보유할 수 있는 최대 종목 수
-                    </Text>
-                  </FormControl>
+                      <FormControl isRequired>
+                        <FormLabel>최대 포지션 수</FormLabel>
+                        <NumberInput
+                          value={moneyManagement.maxPositions}
+                          onChange={(_, value) => handleMoneyManagementChange('maxPositions', value)}
+                          min={1}
+                          max={50}
+                          step={1}
+                        >
+                          <NumberInputField />
+                          <NumberInputStepper>
+                            <NumberIncrementStepper />
+                            <NumberDecrementStepper />
+                          </NumberInputStepper>
+                        </NumberInput>
+                        <Text fontSize="sm" color="gray.600" mt={1}>
+                          동시에 보유할 수 있는 최대 종목 수
+                        </Text>
+                      </FormControl>
                   
-                  <FormControl>
-                    <FormLabel>손절 비율 (%)</FormLabel>
-                    <NumberInput
-                      value={moneyManagement.stopLoss}
-                      onChange={(_, value) => handleMoneyManagementChange('stopLoss', value)}
-                      min={0}
-                      max={100}
-                      step={0.5}
-                    >
-                      <NumberInputField />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <Text fontSize="sm" color="gray.600" mt={1}>
-                      0으로 설정 시 손절 사용 안 함
-                    </Text>
-                  </FormControl>
+                      <FormControl>
+                        <FormLabel>손절 비율 (%)</FormLabel>
+                        <NumberInput
+                          value={moneyManagement.stopLoss}
+                          onChange={(_, value) => handleMoneyManagementChange('stopLoss', value)}
+                          min={0}
+                          max={100}
+                          step={0.5}
+                        >
+                          <NumberInputField />
+                          <NumberInputStepper>
+                            <NumberIncrementStepper />
+                            <NumberDecrementStepper />
+                          </NumberInputStepper>
+                        </NumberInput>
+                        <Text fontSize="sm" color="gray.600" mt={1}>
+                          0으로 설정 시 손절 사용 안 함
+                        </Text>
+                      </FormControl>
                   
-                  <FormControl>
-                    <FormLabel>익절 비율 (%)</FormLabel>
-                    <NumberInput
-                      value={moneyManagement.takeProfit}
-                      onChange={(_, value) => handleMoneyManagementChange('takeProfit', value)}
-                      min={0}
-                      max={1000}
-                      step={1}
-                    >
-                      <NumberInputField />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <Text fontSize="sm" color="gray.600" mt={1}>
-                      0으로 설정 시 익절 사용 안 함
-                    </Text>
-                  </FormControl>
+                      <FormControl>
+                        <FormLabel>익절 비율 (%)</FormLabel>
+                        <NumberInput
+                          value={moneyManagement.takeProfit}
+                          onChange={(_, value) => handleMoneyManagementChange('takeProfit', value)}
+                          min={0}
+                          max={1000}
+                          step={1}
+                        >
+                          <NumberInputField />
+                          <NumberInputStepper>
+                            <NumberIncrementStepper />
+                            <NumberDecrementStepper />
+                          </NumberInputStepper>
+                        </NumberInput>
+                        <Text fontSize="sm" color="gray.600" mt={1}>
+                          0으로 설정 시 익절 사용 안 함
+                        </Text>
+                      </FormControl>
                   
-                  <FormControl>
-                    <FormLabel>트레일링 스탑 (%)</FormLabel>
-                    <NumberInput
-                      value={moneyManagement.trailingStop ?? 0}
-                      onChange={(_, value) => handleMoneyManagementChange('trailingStop', value)}
-                      min={0}
-                      max={100}
-                      step={0.5}
-                    >
-                      <NumberInputField />
-                      <NumberInputStepper>
-                        <NumberIncrementStepper />
-                        <NumberDecrementStepper />
-                      </NumberInputStepper>
-                    </NumberInput>
-                    <Text fontSize="sm" color="gray.600" mt={1}>
-                      0으로 설정 시 트레일링 스탑 사용 안 함
-                    </Text>
-                  </FormControl>
+                      <FormControl>
+                        <FormLabel>트레일링 스탑 (%)</FormLabel>
+                        <NumberInput
+                          value={moneyManagement.trailingStop ?? 0}
+                          onChange={(_, value) => handleMoneyManagementChange('trailingStop', value)}
+                          min={0}
+                          max={100}
+                          step={0.5}
+                        >
+                          <NumberInputField />
+                          <NumberInputStepper>
+                            <NumberIncrementStepper />
+                            <NumberDecrementStepper />
+                          </NumberInputStepper>
+                        </NumberInput>
+                        <Text fontSize="sm" color="gray.600" mt={1}>
+                          0으로 설정 시 트레일링 스탑 사용 안 함
+                        </Text>
+                      </FormControl>
+                    </>
+                  )}
                 </VStack>
               </Box>
+              
+              <Divider my={6} />
+              
+              <Box>
+                <Heading size="md" mb={4}>거래 비용</Heading>
+                <CostModelEditor costModel={costModel} onChange={setCostModel} />
+              </Box>
             </TabPanel>
           </TabPanels>
         </Tabs>
@@ -0,0 +1,112 @@
+/**
+ * 전략 파일 가져오기 버튼 컴포넌트
+ * JSON 전략 파일을 선택하여 검증하고, 오류가 있으면 위치별 오류 목록을 표시
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  Button,
+  ButtonProps,
+  Code,
+  List,
+  ListItem,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { AttachmentIcon } from '@chakra-ui/icons';
+
+import { StrategyDefinition, StrategyFileError } from '../../types/strategy-file';
+import { parseStrategyFile } from '../../utils/strategy-file';
+
+/**
+ * 전략 가져오기 버튼 Props
+ */
+interface StrategyImportButtonProps extends Omit<ButtonProps, 'onClick'> {
+  onImport: (strategy: StrategyDefinition) => void;
+}
+
+const StrategyImportButton: React.FC<StrategyImportButtonProps> = ({
+  onImport,
+  children = '가져오기',
+  ...buttonProps
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { isOpen, onOpen, onClose } = useDisclosure();
+  const [fileName, setFileName] = useState<string>('');
+  const [errors, setErrors] = useState<StrategyFileError[]>([]);
+
+  /**
+   * 파일 선택 핸들러
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // 같은 파일을 다시 선택할 수 있도록 초기화
+    e.target.value = '';
+    if (!file) return;
+
+    const content = await file.text();
+    const result = parseStrategyFile(content);
+
+    if (result.isValid && result.strategy) {
+      onImport(result.strategy);
+      return;
+    }
+
+    setFileName(file.name);
+    setErrors(result.errors);
+    onOpen();
+  };
+
+  return (
+    <>
+      <Button
+        leftIcon={<AttachmentIcon />}
+        {...buttonProps}
+        onClick={() => inputRef.current?.click()}
+      >
+        {children}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        hidden
+        onChange={handleFileChange}
+      />
+
+      {/* 검증 오류 모달 */}
+      <Modal isOpen={isOpen} onClose={onClose} size="xl" scrollBehavior="inside">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>전략 파일을 가져올 수 없습니다</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <Text fontSize="sm" mb={3}>
+              {fileName} 파일에서 {errors.length}개의 오류가 발견되었습니다.
+            </Text>
+            <List spacing={2}>
+              {errors.map((error, i) => (
+                <ListItem key={`${error.path}-${i}`} fontSize="sm">
+                  {error.path && <Code mr={2}>{error.path}</Code>}
+                  {error.message}
+                </ListItem>
+              ))}
+            </List>
+          </ModalBody>
+          <ModalFooter>
+            <Button onClick={onClose}>닫기</Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </>
+  );
+};
+
+export default StrategyImportButton;
@@ -35,12 +35,16 @@ import {
   FormLabel,
   Select,
 } from '@chakra-ui/react';
-import { SearchIcon, AddIcon, ChevronDownIcon, DeleteIcon, EditIcon, CopyIcon, LockIcon, UnlockIcon } from '@chakra-ui/icons';
+import { SearchIcon, AddIcon, ChevronDownIcon, DeleteIcon, EditIcon, CopyIcon, LockIcon, UnlockIcon, RepeatClockIcon, DownloadIcon, LinkIcon, SettingsIcon } from '@chakra-ui/icons';
 import { DocumentSnapshot } from 'firebase/firestore';
 import { useNavigate } from 'react-router-dom';
 
+import StrategyImportButton from './StrategyImportButton';
 import strategyService from '../../services/firebase/strategy-service';
 import { StrategyListItem, StrategyFilter } from '../../types/strategy';
+import { StrategyDefinition } from '../../types/strategy-file';
+import { downloadStrategyFile } from '../../utils/strategy-file';
+import { useStrategyLink } from '../../hooks/useStrategyLink';
 
 /**
  * 전략 카드 컴포넌트 Props
@@ -50,6 +54,7 @@ interface StrategyCardProps {
   onEdit: (id: string) => void;
   onDelete: (id: string) => void;
   onClone: (id: string) => void;
+  onExport: (id: string) => void;
   onVisibilityToggle: (id: string, isPublic: boolean) => void;
 }
 
@@ -62,9 +67,11 @@ const StrategyCard: React.FC<StrategyCardProps> = ({
   onEdit, 
   onDelete, 
   onClone,
+  onExport,
   onVisibilityToggle 
 }) => {
   const navigate = useNavigate();
+  const copyLink = useStrategyLink();
   
   // 날짜 포맷 함수
   const formatDate = (timestamp: number): string => {
@@ -75,9 +82,9 @@ const StrategyCard: React.FC<StrategyCardProps> = ({
     });
   };
   
-  // 전략 상세 페이지로 이동
+  // 전략 보기 페이지로 이동
   const handleClick = () => {
-    navigate(`/strategy/${strategy.id}`);
+    navigate(`/strategy/view/${strategy.id}`);
   };
   
   return (
@@ -107,12 +114,26 @@ const StrategyCard: React.FC<StrategyCardProps> = ({
             <MenuItem icon={<CopyIcon />} onClick={() => onClone(strategy.id)}>
               복제
             </MenuItem>
+            <MenuItem icon={<RepeatClockIcon />} onClick={() => navigate(`/strategy/${strategy.id}/backtest`)}>
+              백테스트
+            </MenuItem>
+            <MenuItem icon={<SettingsIcon />} onClick={() => navigate(`/strategy/${strategy.id}/optimize`)}>
+              파라미터 최적화
+            </MenuItem>
+            <MenuItem icon={<DownloadIcon />} onClick={() => onExport(strategy.id)}>
+              내보내기
+            </MenuItem>
             <MenuItem 
               icon={strategy.isPublic ? <LockIcon /> : <UnlockIcon />}
               onClick={() => onVisibilityToggle(strategy.id, !strategy.isPublic)}
             >
               {strategy.isPublic ? '비공개로 전환' : '공개로 전환'}
             </MenuItem>
+            {strategy.isPublic && (
+              <MenuItem icon={<LinkIcon />} onClick={() => copyLink(strategy.id)}>
+                링크 복사
+              </MenuItem>
+            )}
             <MenuItem icon={<DeleteIcon />} color="red.500" onClick={() => onDelete(strategy.id)}>
               삭제
             </MenuItem>
@@ -344,6 +365,66 @@ const StrategyList: React.FC = () => {
     }
   };
   
+  /**
+   * 전략 파일 내보내기
+   */
+  const handleExportStrategy = async (id: string) => {
+    try {
+      const strategy = await strategyService.getStrategy(id);
+      
+      if (!strategy) {
+        throw new Error('전략을 찾을 수 없습니다.');
+      }
+      
+      downloadStrategyFile(strategy);
+    } catch (err) {
+      console.error('전략 내보내기 오류:', err);
+      
+      toast({
+        title: '오류 발생',
+        description: '전략을 내보내는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+  
+  /**
+   * 전략 파일 가져오기
+   * 가져온 전략은 현재 사용자의 비공개 전략으로 저장
+   */
+  const handleImportStrategy = async (definition: StrategyDefinition) => {
+    try {
+      await strategyService.createStrategy({
+        ...definition,
+        userId,
+        isPublic: false,
+      });
+      
+      // 목록 새로고침
+      fetchStrategies(true);
+      
+      toast({
+        title: '전략 가져오기 완료',
+        description: `'${definition.name}' 전략을 가져왔습니다.`,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (err) {
+      console.error('전략 가져오기 오류:', err);
+      
+      toast({
+        title: '오류 발생',
+        description: '전략을 저장하는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+  
   /**
    * 전략 공개/비공개 설정 변경
    */
@@ -407,13 +488,16 @@ const StrategyList: React.FC = () => {
     <Box p={4}>
       <Flex justifyContent="space-between" alignItems="center" mb={6}>
         <Heading size="lg">내 전략 목록</Heading>
-        <Button
-          leftIcon={<AddIcon />}
-          colorScheme="blue"
-          onClick={handleCreateStrategy}
-        >
-          새 전략 만들기
-        </Button>
+        <Flex gap={2}>
+          <StrategyImportButton variant="outline" onImport={handleImportStrategy} />
+          <Button
+            leftIcon={<AddIcon />}
+            colorScheme="blue"
+            onClick={handleCreateStrategy}
+          >
+            새 전략 만들기
+          </Button>
+        </Flex>
       </Flex>
       
       {/* 검색 및 필터 영역 */}
@@ -472,6 +556,7 @@ const StrategyList: React.FC = () => {
                 onEdit={handleEditStrategy}
                 onDelete={openDeleteModal}
                 onClone={openCloneModal}
+                onExport={handleExportStrategy}
                 onVisibilityToggle={handleVisibilityToggle}
               />
             ))}
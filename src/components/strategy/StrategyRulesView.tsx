@@ -0,0 +1,140 @@
+/**
+ * 매매 규칙 읽기 전용 표시 컴포넌트
+ * 조건 그룹과 조건을 사람이 읽을 수 있는 식으로 표시
+ */
+
+import React from 'react';
+import {
+  Badge,
+  Box,
+  Code,
+  Flex,
+  Text,
+  Tooltip,
+  VStack,
+  useColorModeValue,
+} from '@chakra-ui/react';
+
+import {
+  COMPARISON_OPERATOR_LABELS,
+  ConditionParameter,
+  IndicatorType,
+  INDICATOR_DESCRIPTIONS,
+  StrategyCondition,
+  TradeRule,
+} from '../../types/strategy';
+
+/**
+ * 지표와 파라미터를 식 형태로 표시 (예: MA(50, CLOSE))
+ */
+const formatIndicator = (type: IndicatorType, parameters: ConditionParameter[] = []): string => {
+  if (parameters.length === 0) return type;
+  return `${type}(${parameters.map((p) => p.value).join(', ')})`;
+};
+
+/**
+ * 최고/최저값 집계와 n봉 전 오프셋을 반영하여 조건 한쪽을 표시 (예: HIGHEST(PRICE(HIGH), 20)[5])
+ */
+const formatOperand = (
+  expression: string,
+  side: 'left' | 'right',
+  condition: StrategyCondition
+): string => {
+  const { lookback } = condition;
+  let result = expression;
+
+  if (lookback && (lookback.mode === 'highest' || lookback.mode === 'lowest') && (lookback.side ?? 'left') === side) {
+    result = `${lookback.mode.toUpperCase()}(${result}, ${lookback.period})`;
+  }
+
+  const offset = side === 'left' ? condition.offset : condition.valueOffset;
+  return offset ? `${result}[${offset}]` : result;
+};
+
+/**
+ * 비교 지표에 배수와 더할 값을 반영하여 표시 (예: MA(50, CLOSE) × 1.03 + 100)
+ */
+const formatArithmetic = (expression: string, condition: StrategyCondition): string => {
+  const { valueMultiplier = 1, valueAddend = 0 } = condition;
+  let result = valueMultiplier !== 1 ? `${expression} × ${valueMultiplier}` : expression;
+
+  if (valueAddend > 0) result = `${result} + ${valueAddend}`;
+  if (valueAddend < 0) result = `${result} - ${Math.abs(valueAddend)}`;
+  return result;
+};
+
+/**
+ * 조건을 식 형태로 표시 (예: MA(50, CLOSE) > MA(200, CLOSE), ANY(3): RSI(14) < 30)
+ */
+const formatCondition = (condition: StrategyCondition): string => {
+  const left = formatOperand(formatIndicator(condition.type, condition.parameters), 'left', condition);
+  const right = condition.valueType
+    ? formatArithmetic(
+      formatOperand(formatIndicator(condition.valueType, condition.valueParameters), 'right', condition),
+      condition
+    )
+    : String(condition.value);
+  const expression = `${left} ${COMPARISON_OPERATOR_LABELS[condition.operator] ?? condition.operator} ${right}`;
+
+  const { lookback } = condition;
+  if (lookback?.mode === 'any' || lookback?.mode === 'all') {
+    return `${lookback.mode.toUpperCase()}(${lookback.period}): ${expression}`;
+  }
+  if (lookback?.mode === 'count') {
+    return `COUNT(${lookback.count ?? 1}/${lookback.period}): ${expression}`;
+  }
+  return expression;
+};
+
+/**
+ * 매매 규칙 표시 Props
+ */
+interface StrategyRulesViewProps {
+  rules: TradeRule[];
+}
+
+const StrategyRulesView: React.FC<StrategyRulesViewProps> = ({ rules }) => {
+  const groupBg = useColorModeValue('gray.50', 'gray.800');
+
+  if (rules.length === 0 || rules.every((rule) => rule.conditionGroups.length === 0)) {
+    return <Text fontSize="sm" color="gray.500">설정된 조건이 없습니다.</Text>;
+  }
+
+  return (
+    <VStack spacing={4} align="stretch">
+      {rules.map((rule, ruleIndex) => (
+        <Box key={rule.id}>
+          {ruleIndex > 0 && (
+            <Badge colorScheme="orange" mb={2}>또는</Badge>
+          )}
+          <VStack spacing={2} align="stretch">
+            {rule.conditionGroups.map((group, groupIndex) => (
+              <Box key={group.id}>
+                {groupIndex > 0 && (
+                  <Badge colorScheme="purple" mb={2}>{rule.operator}</Badge>
+                )}
+                <Box p={3} borderWidth="1px" borderRadius="md" bg={groupBg}>
+                  <Flex alignItems="center" mb={2}>
+                    <Text fontSize="sm" fontWeight="medium">그룹 {groupIndex + 1}</Text>
+                    <Badge ml={2} colorScheme="blue">{group.operator}</Badge>
+                  </Flex>
+                  <VStack spacing={1} align="stretch">
+                    {group.conditions.map((condition) => (
+                      <Tooltip key={condition.id} label={INDICATOR_DESCRIPTIONS[condition.type]}>
+                        <Code fontSize="sm" px={2} py={1} width="fit-content">
+                          {formatCondition(condition)}
+                        </Code>
+                      </Tooltip>
+                    ))}
+                  </VStack>
+                </Box>
+              </Box>
+            ))}
+          </VStack>
+        </Box>
+      ))}
+    </VStack>
+  );
+};
+
+export default StrategyRulesView;
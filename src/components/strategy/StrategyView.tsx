@@ -0,0 +1,268 @@
+/**
+ * 전략 보기 컴포넌트
+ * 공개 전략의 매매 규칙과 자금 관리, 거래 비용 설정을 읽기 전용으로 표시하고 내 전략으로 복제
+ */
+
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import {
+  Alert,
+  AlertDescription,
+  AlertIcon,
+  AlertTitle,
+  Badge,
+  Box,
+  Button,
+  Container,
+  Divider,
+  Flex,
+  Heading,
+  HStack,
+  IconButton,
+  SimpleGrid,
+  Spinner,
+  Stat,
+  StatLabel,
+  StatNumber,
+  Tag,
+  Text,
+  useColorModeValue,
+  useToast,
+} from '@chakra-ui/react';
+import { ArrowBackIcon, CopyIcon, LinkIcon } from '@chakra-ui/icons';
+
+import StrategyRulesView from './StrategyRulesView';
+import AllocationView from './AllocationView';
+import strategyService from '../../services/firebase/strategy-service';
+import { Strategy } from '../../types/strategy';
+import { useStrategyLink } from '../../hooks/useStrategyLink';
+import { formatNumber } from '../../utils/formatters';
+import { NO_COST_MODEL, describeCostModel } from '../../constants/cost-model';
+
+/**
+ * 비율 설정 표시 (0 또는 미설정은 사용 안 함)
+ */
+const formatOptionalPercent = (value?: number): string =>
+  value && value > 0 ? `${value}%` : '사용 안 함';
+
+const StrategyView: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const copyLink = useStrategyLink();
+
+  const [strategy, setStrategy] = useState<Strategy | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [cloning, setCloning] = useState<boolean>(false);
+
+  const cardBg = useColorModeValue('white', 'gray.700');
+  const borderColor = useColorModeValue('gray.200', 'gray.600');
+
+  // 사용자 ID (실제로는 인증 서비스에서 가져와야 함)
+  // 임시로 고정값 사용
+  const userId = 'current-user-id';
+  const isOwner = strategy?.userId === userId;
+
+  /**
+   * 전략 불러오기
+   * 공개 전략 또는 본인 전략만 표시
+   */
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchStrategy = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const data = await strategyService.getStrategy(id);
+
+        if (!data || (!data.isPublic && data.userId !== userId)) {
+          setError('전략을 찾을 수 없거나 공개되지 않은 전략입니다.');
+          return;
+        }
+
+        setStrategy(data);
+      } catch (err) {
+        console.error('전략 불러오기 오류:', err);
+        setError('전략을 불러오는 중 오류가 발생했습니다.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchStrategy();
+  }, [id]);
+
+  /**
+   * 내 전략으로 복제 핸들러
+   */
+  const handleClone = async () => {
+    if (!strategy) return;
+
+    try {
+      setCloning(true);
+
+      const newStrategyId = await strategyService.cloneStrategy(
+        strategy.id,
+        `${strategy.name} (복사본)`,
+        userId
+      );
+
+      toast({
+        title: '전략 복제 완료',
+        description: '내 전략으로 복제되었습니다. 필요에 맞게 수정하세요.',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+
+      navigate(`/strategy/edit/${newStrategyId}`);
+    } catch (err) {
+      console.error('전략 복제 오류:', err);
+
+      toast({
+        title: '오류 발생',
+        description: '전략을 복제하는 중 문제가 발생했습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setCloning(false);
+    }
+  };
+
+  // 로딩 중 표시
+  if (loading) {
+    return (
+      <Flex justifyContent="center" alignItems="center" height="400px">
+        <Spinner size="xl" color="blue.500" />
+      </Flex>
+    );
+  }
+
+  // 오류 표시
+  if (error || !strategy) {
+    return (
+      <Alert status="error" variant="solid" borderRadius="md">
+        <AlertIcon />
+        <AlertTitle mr={2}>오류 발생</AlertTitle>
+        <AlertDescription>{error || '전략을 찾을 수 없습니다.'}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const { moneyManagement } = strategy;
+
+  return (
+    <Container maxW="container.lg" py={6}>
+      <Flex alignItems="center" mb={4} flexWrap="wrap" gap={3}>
+        <IconButton
+          aria-label="뒤로 가기"
+          icon={<ArrowBackIcon />}
+          onClick={() => navigate(-1)}
+        />
+        <Heading size="lg">{strategy.name}</Heading>
+        <Badge colorScheme={strategy.isPublic ? 'green' : 'gray'}>
+          {strategy.isPublic ? '공개' : '비공개'}
+        </Badge>
+
+        <HStack ml="auto" spacing={2}>
+          {strategy.isPublic && (
+            <Button leftIcon={<LinkIcon />} variant="outline" onClick={() => copyLink(strategy.id)}>
+              링크 복사
+            </Button>
+          )}
+          {isOwner ? (
+            <Button colorScheme="blue" onClick={() => navigate(`/strategy/edit/${strategy.id}`)}>
+              편집
+            </Button>
+          ) : (
+            <Button
+              leftIcon={<CopyIcon />}
+              colorScheme="blue"
+              onClick={handleClone}
+              isLoading={cloning}
+              loadingText="복제 중"
+            >
+              내 전략으로 복제
+            </Button>
+          )}
+        </HStack>
+      </Flex>
+
+      <Text color="gray.600" mb={3}>
+        {strategy.description || '설명 없음'}
+      </Text>
+
+      <Flex flexWrap="wrap" gap={2} mb={2}>
+        {strategy.tags?.map((tag) => (
+          <Tag key={tag} size="sm" colorScheme="blue">
+            {tag}
+          </Tag>
+        ))}
+      </Flex>
+
+      <Text fontSize="xs" color="gray.500">
+        최종 수정: {new Date(strategy.updatedAt).toLocaleDateString('ko-KR')}
+      </Text>
+
+      <Divider my={6} />
+
+      {strategy.kind === 'allocation' && strategy.allocation ? (
+        <Box p={4} mb={8} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+          <Heading size="md" mb={4}>자산 배분</Heading>
+          <AllocationView allocation={strategy.allocation} />
+        </Box>
+      ) : (
+        <SimpleGrid columns={{ base: 1, md: 2 }} spacing={6} mb={8}>
+          <Box p={4} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+            <Heading size="md" mb={4}>매수 조건</Heading>
+            <StrategyRulesView rules={strategy.buyRules} />
+          </Box>
+          <Box p={4} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+            <Heading size="md" mb={4}>매도 조건</Heading>
+            <StrategyRulesView rules={strategy.sellRules} />
+          </Box>
+        </SimpleGrid>
+      )}
+
+      <Box p={4} bg={cardBg} borderWidth="1px" borderColor={borderColor} borderRadius="lg">
+        <Heading size="md" mb={4}>자금 관리</Heading>
+        <SimpleGrid columns={{ base: 2, md: 3 }} spacing={4}>
+          <Stat>
+            <StatLabel>초기 자본</StatLabel>
+            <StatNumber fontSize="lg">{formatNumber(moneyManagement.initialCapital, 0)}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>포지션 크기</StatLabel>
+            <StatNumber fontSize="lg">{moneyManagement.positionSizing}%</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>최대 포지션 수</StatLabel>
+            <StatNumber fontSize="lg">{moneyManagement.maxPositions}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>손절</StatLabel>
+            <StatNumber fontSize="lg">{formatOptionalPercent(moneyManagement.stopLoss)}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>익절</StatLabel>
+            <StatNumber fontSize="lg">{formatOptionalPercent(moneyManagement.takeProfit)}</StatNumber>
+          </Stat>
+          <Stat>
+            <StatLabel>트레일링 스탑</StatLabel>
+            <StatNumber fontSize="lg">{formatOptionalPercent(moneyManagement.trailingStop)}</StatNumber>
+          </Stat>
+        </SimpleGrid>
+        <Text fontSize="sm" color="gray.600" mt={4}>
+          거래 비용: {describeCostModel(strategy.costModel ?? NO_COST_MODEL)}
+        </Text>
+      </Box>
+    </Container>
+  );
+};
+
+export default StrategyView;
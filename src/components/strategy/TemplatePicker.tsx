@@ -0,0 +1,123 @@
+/**
+ * 전략 템플릿 선택 컴포넌트
+ * 기본 제공 템플릿 목록을 표시하고 선택한 템플릿으로 전략을 시작
+ */
+
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  Heading,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  SimpleGrid,
+  Tag,
+  Text,
+  useColorModeValue,
+} from '@chakra-ui/react';
+
+import { StrategyTemplate, StrategyTemplateCategory } from '../../types/strategy';
+import {
+  STRATEGY_TEMPLATES,
+  STRATEGY_TEMPLATE_CATEGORY_LABELS,
+} from '../../constants/strategy-templates';
+
+/**
+ * 템플릿 선택 Props
+ */
+interface TemplatePickerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelect: (template: StrategyTemplate) => void;
+}
+
+const TemplatePicker: React.FC<TemplatePickerProps> = ({ isOpen, onClose, onSelect }) => {
+  const [category, setCategory] = useState<StrategyTemplateCategory | 'all'>('all');
+  const hoverBorderColor = useColorModeValue('blue.400', 'blue.300');
+
+  const templates = STRATEGY_TEMPLATES.filter(
+    (template) => category === 'all' || template.category === category
+  );
+
+  /**
+   * 템플릿 선택 핸들러
+   */
+  const handleSelect = (template: StrategyTemplate) => {
+    onSelect(template);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="3xl" scrollBehavior="inside">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>템플릿에서 시작</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <Flex justifyContent="flex-end" mb={4}>
+            <Select
+              size="sm"
+              maxW="200px"
+              value={category}
+              onChange={(e) => setCategory(e.target.value as StrategyTemplateCategory | 'all')}
+            >
+              <option value="all">전체 분류</option>
+              {Object.entries(STRATEGY_TEMPLATE_CATEGORY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </Select>
+          </Flex>
+
+          <SimpleGrid columns={{ base: 1, md: 2 }} spacing={4}>
+            {templates.map((template) => (
+              <Box
+                key={template.id}
+                borderWidth="1px"
+                borderRadius="lg"
+                p={4}
+                cursor="pointer"
+                transition="all 0.2s"
+                _hover={{ borderColor: hoverBorderColor, boxShadow: 'md' }}
+                onClick={() => handleSelect(template)}
+              >
+                <Flex justifyContent="space-between" alignItems="center" mb={2}>
+                  <Heading size="sm">{template.name}</Heading>
+                  <Badge colorScheme="purple">
+                    {STRATEGY_TEMPLATE_CATEGORY_LABELS[template.category]}
+                  </Badge>
+                </Flex>
+                <Text fontSize="sm" color="gray.600" mb={3}>
+                  {template.description}
+                </Text>
+                <Flex flexWrap="wrap" gap={1}>
+                  {template.tags.map((tag) => (
+                    <Tag key={tag} size="sm" colorScheme="blue">
+                      {tag}
+                    </Tag>
+                  ))}
+                </Flex>
+              </Box>
+            ))}
+          </SimpleGrid>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" onClick={onClose}>
+            취소
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default TemplatePicker;
@@ -0,0 +1,94 @@
+/**
+ * 낙폭(Underwater) 차트 컴포넌트
+ * 고점 대비 자산 하락률을 시간에 따라 표시
+ */
+
+import React, { useMemo } from 'react';
+import { Box, useColorModeValue } from '@chakra-ui/react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  ChartData,
+  ChartOptions,
+} from 'chart.js';
+import { EquityPoint } from '../../types/backtest';
+import { calculateDrawdownSeries } from '../../utils/backtest/metrics';
+import { formatPercent } from '../../utils/formatters';
+
+// Chart.js 컴포넌트 등록
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Filler, Tooltip);
+
+interface DrawdownChartProps {
+  equity: EquityPoint[];
+  initialCapital: number;
+  height?: string;
+}
+
+const DrawdownChart: React.FC<DrawdownChartProps> = ({ equity, initialCapital, height = '200px' }) => {
+  const lineColor = useColorModeValue('rgba(229, 62, 62, 1)', 'rgba(252, 129, 129, 1)');
+  const fillColor = useColorModeValue('rgba(229, 62, 62, 0.2)', 'rgba(252, 129, 129, 0.2)');
+  const gridColor = useColorModeValue('rgba(0,0,0,0.05)', 'rgba(255,255,255,0.05)');
+  
+  const drawdown = useMemo(() => calculateDrawdownSeries(equity, initialCapital), [equity, initialCapital]);
+  
+  const chartData: ChartData<'line'> = {
+    labels: drawdown.map((point) => point.date),
+    datasets: [
+      {
+        label: '낙폭',
+        data: drawdown.map((point) => point.drawdown),
+        borderColor: lineColor,
+        backgroundColor: fillColor,
+        borderWidth: 1,
+        pointRadius: 0,
+        pointHitRadius: 5,
+        fill: 'origin',
+        tension: 0,
+      },
+    ],
+  };
+  
+  const chartOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: {
+      mode: 'index',
+      intersect: false,
+    },
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (context) => `낙폭: ${formatPercent(context.raw as number)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { maxRotation: 0, autoSkip: true, maxTicksLimit: 10 },
+      },
+      y: {
+        position: 'right',
+        max: 0,
+        grid: { color: gridColor },
+        ticks: { callback: (value) => `${value}%` },
+      },
+    },
+  };
+  
+  return (
+    <Box height={height} position="relative">
+      <Line data={chartData} options={chartOptions} />
+    </Box>
+  );
+};
+
+export default DrawdownChart;
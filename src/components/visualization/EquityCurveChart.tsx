@@ -0,0 +1,124 @@
+/**
+ * 자산 곡선 차트 컴포넌트
+ * 전략 자산 곡선과 매수 후 보유 벤치마크를 함께 표시
+ */
+
+import React from 'react';
+import { Box, useColorModeValue } from '@chakra-ui/react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions,
+} from 'chart.js';
+import { EquityPoint } from '../../types/backtest';
+import { formatCurrency } from '../../utils/formatters';
+
+// Chart.js 컴포넌트 등록
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface EquityCurveChartProps {
+  equity: EquityPoint[];
+  benchmark?: EquityPoint[];
+  currency: string;
+  height?: string;
+}
+
+const EquityCurveChart: React.FC<EquityCurveChartProps> = ({
+  equity,
+  benchmark,
+  currency,
+  height = '360px',
+}) => {
+  const strategyColor = useColorModeValue('rgba(49, 130, 206, 1)', 'rgba(99, 179, 237, 1)');
+  const benchmarkColor = useColorModeValue('rgba(160, 174, 192, 1)', 'rgba(113, 128, 150, 1)');
+  const gridColor = useColorModeValue('rgba(0,0,0,0.05)', 'rgba(255,255,255,0.05)');
+  
+  // 벤치마크는 날짜 기준으로 전략 자산 곡선에 맞춤
+  const benchmarkByDate = new Map(benchmark?.map((point) => [point.date, point.equity]));
+  
+  const chartData: ChartData<'line'> = {
+    labels: equity.map((point) => point.date),
+    datasets: [
+      {
+        label: '전략',
+        data: equity.map((point) => point.equity),
+        borderColor: strategyColor,
+        borderWidth: 2,
+        pointRadius: 0,
+        pointHitRadius: 5,
+        tension: 0,
+      },
+      ...(benchmark
+        ? [
+            {
+              label: '매수 후 보유',
+              data: equity.map((point) => benchmarkByDate.get(point.date) ?? null),
+              borderColor: benchmarkColor,
+              borderWidth: 1.5,
+              borderDash: [4, 4],
+              pointRadius: 0,
+              pointHitRadius: 5,
+              tension: 0,
+              spanGaps: true,
+            },
+          ]
+        : []),
+    ],
+  };
+  
+  const chartOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: {
+      mode: 'index',
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        display: true,
+        position: 'top',
+      },
+      tooltip: {
+        callbacks: {
+          label: (context) =>
+            `${context.dataset.label}: ${formatCurrency(context.raw as number, currency)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { maxRotation: 0, autoSkip: true, maxTicksLimit: 10 },
+      },
+      y: {
+        position: 'right',
+        grid: { color: gridColor },
+      },
+    },
+  };
+  
+  return (
+    <Box height={height} position="relative">
+      <Line data={chartData} options={chartOptions} />
+    </Box>
+  );
+};
+
+export default EquityCurveChart;
@@ -0,0 +1,113 @@
+/**
+ * 몬테카를로 팬 차트 컴포넌트
+ * 단계별 시뮬레이션 자산의 5~95%, 25~75% 구간과 중앙값을 표시
+ */
+
+import React from 'react';
+import { Box, useColorModeValue } from '@chakra-ui/react';
+import { Line } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Filler,
+  Tooltip,
+  Legend,
+  ChartData,
+  ChartOptions,
+} from 'chart.js';
+import { MonteCarloFanPoint } from '../../types/monte-carlo';
+import { formatCurrency } from '../../utils/formatters';
+
+// Chart.js 컴포넌트 등록
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Filler, Tooltip, Legend);
+
+interface MonteCarloFanChartProps {
+  fan: MonteCarloFanPoint[];
+  currency: string;
+  stepLabel: string;   // 가로축 단계 이름 (예: 거래, 봉)
+  height?: string;
+}
+
+const MonteCarloFanChart: React.FC<MonteCarloFanChartProps> = ({
+  fan,
+  currency,
+  stepLabel,
+  height = '360px',
+}) => {
+  const lineColor = useColorModeValue('rgba(128, 90, 213, 1)', 'rgba(183, 148, 244, 1)');
+  const outerColor = useColorModeValue('rgba(128, 90, 213, 0.12)', 'rgba(183, 148, 244, 0.12)');
+  const innerColor = useColorModeValue('rgba(128, 90, 213, 0.3)', 'rgba(183, 148, 244, 0.3)');
+  const gridColor = useColorModeValue('rgba(0,0,0,0.05)', 'rgba(255,255,255,0.05)');
+
+  // 구간 경계선은 채우기만 보이도록 선을 숨김
+  const band = {
+    borderWidth: 0,
+    pointRadius: 0,
+    pointHitRadius: 5,
+    tension: 0,
+  };
+
+  const chartData: ChartData<'line'> = {
+    labels: fan.map((point) => `${stepLabel} ${point.step}`),
+    datasets: [
+      { ...band, label: '하위 5%', data: fan.map((point) => point.p5), fill: false },
+      { ...band, label: '상위 5%', data: fan.map((point) => point.p95), backgroundColor: outerColor, fill: '-1' },
+      { ...band, label: '하위 25%', data: fan.map((point) => point.p25), fill: false },
+      { ...band, label: '상위 25%', data: fan.map((point) => point.p75), backgroundColor: innerColor, fill: '-1' },
+      {
+        label: '중앙값',
+        data: fan.map((point) => point.p50),
+        borderColor: lineColor,
+        borderWidth: 2,
+        pointRadius: 0,
+        pointHitRadius: 5,
+        tension: 0,
+        fill: false,
+      },
+    ],
+  };
+
+  const chartOptions: ChartOptions<'line'> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false,
+    interaction: {
+      mode: 'index',
+      intersect: false,
+    },
+    plugins: {
+      legend: {
+        display: true,
+        position: 'top',
+        labels: { filter: (item) => item.text === '중앙값' },
+      },
+      tooltip: {
+        callbacks: {
+          label: (context) =>
+            `${context.dataset.label}: ${formatCurrency(context.raw as number, currency)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        grid: { display: false },
+        ticks: { maxRotation: 0, autoSkip: true, maxTicksLimit: 10 },
+      },
+      y: {
+        position: 'right',
+        grid: { color: gridColor },
+      },
+    },
+  };
+
+  return (
+    <Box height={height} position="relative">
+      <Line data={chartData} options={chartOptions} />
+    </Box>
+  );
+};
+
+export default MonteCarloFanChart;
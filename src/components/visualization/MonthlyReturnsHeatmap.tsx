@@ -0,0 +1,114 @@
+/**
+ * 월별 수익률 히트맵 컴포넌트
+ * 연도(행) x 월(열) 격자에 월 수익률을 색상으로 표시
+ */
+
+import React, { useMemo } from 'react';
+import { Box, Grid, Text, Tooltip, useColorModeValue } from '@chakra-ui/react';
+import { EquityPoint } from '../../types/backtest';
+import { calculateMonthlyReturns } from '../../utils/backtest/metrics';
+import { formatPercent } from '../../utils/formatters';
+
+// 색상이 가장 진해지는 월 수익률 (%)
+const COLOR_SCALE_LIMIT = 10;
+
+const MONTH_LABELS = ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'];
+
+/**
+ * 수익률에 따른 셀 배경색
+ */
+const getCellColor = (value: number): string => {
+  const intensity = Math.min(Math.abs(value) / COLOR_SCALE_LIMIT, 1) * 0.8 + 0.1;
+  return value >= 0
+    ? `rgba(56, 161, 105, ${intensity})`
+    : `rgba(229, 62, 62, ${intensity})`;
+};
+
+interface MonthlyReturnsHeatmapProps {
+  equity: EquityPoint[];
+  initialCapital: number;
+}
+
+const MonthlyReturnsHeatmap: React.FC<MonthlyReturnsHeatmapProps> = ({ equity, initialCapital }) => {
+  const headerColor = useColorModeValue('gray.600', 'gray.300');
+  const emptyColor = useColorModeValue('gray.50', 'gray.800');
+  
+  // 연도별 월 수익률과 연 수익률 (월 수익률 복리 합산)
+  const rows = useMemo(() => {
+    const byYear = new Map<number, (number | null)[]>();
+    
+    calculateMonthlyReturns(equity, initialCapital).forEach(({ year, month, return: value }) => {
+      if (!byYear.has(year)) {
+        byYear.set(year, new Array(12).fill(null));
+      }
+      byYear.get(year)![month - 1] = value;
+    });
+    
+    return Array.from(byYear.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([year, months]) => ({
+        year,
+        months,
+        total:
+          (months.reduce<number>((acc, value) => acc * (1 + (value ?? 0) / 100), 1) - 1) * 100,
+      }));
+  }, [equity, initialCapital]);
+  
+  if (rows.length === 0) {
+    return <Text color="gray.500">표시할 데이터가 없습니다.</Text>;
+  }
+  
+  return (
+    <Box overflowX="auto">
+      <Grid templateColumns="60px repeat(12, minmax(52px, 1fr)) 70px" gap={1} minW="760px">
+        <Box />
+        {MONTH_LABELS.map((label) => (
+          <Text key={label} fontSize="xs" textAlign="center" color={headerColor}>
+            {label}
+          </Text>
+        ))}
+        <Text fontSize="xs" textAlign="center" fontWeight="bold" color={headerColor}>
+          연간
+        </Text>
+        
+        {rows.map((row) => (
+          <React.Fragment key={row.year}>
+            <Text fontSize="sm" fontWeight="medium" alignSelf="center">
+              {row.year}
+            </Text>
+            {row.months.map((value, index) =>
+              value === null ? (
+                <Box key={index} bg={emptyColor} borderRadius="sm" h="28px" />
+              ) : (
+                <Tooltip key={index} label={`${row.year}년 ${index + 1}월: ${formatPercent(value, 'always')}`}>
+                  <Box
+                    bg={getCellColor(value)}
+                    borderRadius="sm"
+                    h="28px"
+                    display="flex"
+                    alignItems="center"
+                    justifyContent="center"
+                  >
+                    <Text fontSize="xs">{value.toFixed(1)}</Text>
+                  </Box>
+                </Tooltip>
+              )
+            )}
+            <Box
+              bg={getCellColor(row.total)}
+              borderRadius="sm"
+              h="28px"
+              display="flex"
+              alignItems="center"
+              justifyContent="center"
+            >
+              <Text fontSize="xs" fontWeight="bold">{row.total.toFixed(1)}</Text>
+            </Box>
+          </React.Fragment>
+        ))}
+      </Grid>
+    </Box>
+  );
+};
+
+export default MonthlyReturnsHeatmap;
@@ -0,0 +1,94 @@
+/**
+ * 파라미터 히트맵 컴포넌트
+ * 2개 파라미터 조합(x, y)별 목표 지표 값을 색상 격자로 표시
+ */
+
+import React from 'react';
+import { Box, Grid, Text, Tooltip, useColorModeValue } from '@chakra-ui/react';
+import { OptimizationHeatmap } from '../../types/optimization';
+import { formatNumber } from '../../utils/formatters';
+
+/**
+ * 값의 상대 위치(0~1)에 따른 셀 배경색 (낮을수록 빨강, 높을수록 초록)
+ */
+const getCellColor = (ratio: number): string => {
+  const hue = Math.round(ratio * 120);
+  return `hsla(${hue}, 65%, 50%, 0.75)`;
+};
+
+interface ParameterHeatmapProps {
+  heatmap: OptimizationHeatmap;
+  xLabel: string;
+  yLabel: string;
+  objectiveLabel: string;
+}
+
+const ParameterHeatmap: React.FC<ParameterHeatmapProps> = ({ heatmap, xLabel, yLabel, objectiveLabel }) => {
+  const headerColor = useColorModeValue('gray.600', 'gray.300');
+  const emptyColor = useColorModeValue('gray.50', 'gray.800');
+
+  const scores = heatmap.cells.flat().filter((value): value is number => value !== null);
+  const minScore = Math.min(...scores);
+  const maxScore = Math.max(...scores);
+  const range = maxScore - minScore;
+
+  if (scores.length === 0) {
+    return <Text color="gray.500">제약 조건을 충족한 조합이 없습니다.</Text>;
+  }
+
+  return (
+    <Box overflowX="auto">
+      <Text fontSize="xs" color={headerColor} mb={2}>
+        가로: {xLabel} / 세로: {yLabel} / 값: {objectiveLabel}
+      </Text>
+      <Grid
+        templateColumns={`80px repeat(${heatmap.xValues.length}, minmax(44px, 1fr))`}
+        gap={1}
+        minW={`${80 + heatmap.xValues.length * 48}px`}
+      >
+        <Box />
+        {heatmap.xValues.map((x) => (
+          <Text key={x} fontSize="xs" textAlign="center" color={headerColor}>
+            {x}
+          </Text>
+        ))}
+
+        {/* 큰 값이 위쪽에 오도록 역순 표시 */}
+        {[...heatmap.yValues].reverse().map((y) => {
+          const rowIndex = heatmap.yValues.indexOf(y);
+
+          return (
+            <React.Fragment key={y}>
+              <Text fontSize="xs" color={headerColor} alignSelf="center" textAlign="right" pr={2}>
+                {y}
+              </Text>
+              {heatmap.cells[rowIndex].map((value, columnIndex) =>
+                value === null ? (
+                  <Box key={columnIndex} bg={emptyColor} borderRadius="sm" h="28px" />
+                ) : (
+                  <Tooltip
+                    key={columnIndex}
+                    label={`${xLabel} ${heatmap.xValues[columnIndex]}, ${yLabel} ${y}: ${formatNumber(value, 2)}`}
+                  >
+                    <Box
+                      bg={getCellColor(range > 0 ? (value - minScore) / range : 1)}
+                      borderRadius="sm"
+                      h="28px"
+                      display="flex"
+                      alignItems="center"
+                      justifyContent="center"
+                    >
+                      <Text fontSize="xs">{formatNumber(value, 2)}</Text>
+                    </Box>
+                  </Tooltip>
+                )
+              )}
+            </React.Fragment>
+          );
+        })}
+      </Grid>
+    </Box>
+  );
+};
+
+export default ParameterHeatmap;
@@ -0,0 +1,69 @@
+/**
+ * 자산 배분 전략 상수
+ * 배분 방식, 모멘텀 점수, 리밸런싱 주기 표시 이름과 기본 설정 제공
+ */
+
+import {
+  AllocationMode,
+  AssetAllocation,
+  MomentumScoreMethod,
+  PeriodUnit,
+  StrategyKind,
+} from '../types/strategy';
+
+/**
+ * 전략 종류 표시 이름
+ */
+export const STRATEGY_KIND_LABELS: Record<StrategyKind, string> = {
+  signal: '신호 기반 매매',
+  allocation: '자산 배분',
+};
+
+/**
+ * 배분 방식 표시 이름
+ */
+export const ALLOCATION_MODE_LABELS: Record<AllocationMode, string> = {
+  static: '고정 비중',
+  momentum: '모멘텀 (카나리아/공격/수비)',
+};
+
+/**
+ * 모멘텀 점수 표시 이름
+ */
+export const MOMENTUM_SCORE_LABELS: Record<MomentumScoreMethod, string> = {
+  weighted13612: '13612W (1·3·6·12개월 가중 수익률)',
+  sma12: 'SMA12 (현재가 / 13개월 평균)',
+  return12: '12개월 수익률',
+};
+
+/**
+ * 리밸런싱 기간 단위 표시 이름
+ */
+export const PERIOD_UNIT_LABELS: Record<PeriodUnit, string> = {
+  [PeriodUnit.DAY]: '일',
+  [PeriodUnit.WEEK]: '주',
+  [PeriodUnit.MONTH]: '개월',
+};
+
+/**
+ * 새 자산 배분 전략의 기본 설정 (주식/채권 60:40, 매월 리밸런싱)
+ */
+export function createDefaultAllocation(): AssetAllocation {
+  return {
+    mode: 'static',
+    assets: [
+      { symbol: 'SPY', weight: 60 },
+      { symbol: 'IEF', weight: 40 },
+    ],
+    canary: [],
+    offensive: [],
+    defensive: [],
+    offensiveTopN: 1,
+    defensiveTopN: 1,
+    canaryScore: 'weighted13612',
+    selectionScore: 'sma12',
+    rebalancePeriod: PeriodUnit.MONTH,
+    rebalanceInterval: 1,
+    cashBuffer: 0,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * 거래 비용 모델 상수
+ * 시장별 수수료/슬리피지/거래세 기본값 제공
+ */
+
+import { CostModel, LegacyCostModel, SellTaxRates, SlippageUnit, TaxMarket } from '../types/strategy';
+
+/**
+ * 매도 거래세 없음
+ */
+export const NO_SELL_TAX: SellTaxRates = { KRX: 0, US: 0, default: 0 };
+
+/**
+ * 시장별 매도 거래세 (2025년 기준 국내 증권거래세·농어촌특별세, 미국 SEC 수수료)
+ * 종목이 거래되는 시장의 세율을 적용하므로 국내/미국 프리셋 모두 같은 값 사용
+ */
+export const MARKET_SELL_TAX: SellTaxRates = { KRX: 0.15, US: 0.00278, default: 0 };
+
+/**
+ * 매도 거래세 시장 표시 이름
+ */
+export const TAX_MARKET_LABELS: Record<TaxMarket, string> = {
+  KRX: '국내 (KRX)',
+  US: '미국',
+  default: '기타 시장',
+};
+
+/**
+ * 비용 없음
+ */
+export const NO_COST_MODEL: CostModel = {
+  commissionPercent: 0,
+  commissionFixed: 0,
+  commissionMin: 0,
+  slippage: 0,
+  slippageUnit: 'bps',
+  sellTax: NO_SELL_TAX,
+};
+
+/**
+ * 국내 주식 비용 (온라인 수수료, 1호가 슬리피지, 시장별 매도 거래세)
+ */
+export const KRX_COST_MODEL: CostModel = {
+  commissionPercent: 0.015,
+  commissionFixed: 0,
+  commissionMin: 0,
+  slippage: 1,
+  slippageUnit: 'ticks',
+  sellTax: MARKET_SELL_TAX,
+};
+
+/**
+ * 미국 주식 비용 (해외 주식 수수료, 5bp 슬리피지, 시장별 매도 거래세)
+ */
+export const US_COST_MODEL: CostModel = {
+  commissionPercent: 0.25,
+  commissionFixed: 0,
+  commissionMin: 0,
+  slippage: 5,
+  slippageUnit: 'bps',
+  sellTax: MARKET_SELL_TAX,
+};
+
+/**
+ * 거래 비용 프리셋
+ */
+export interface CostModelPreset {
+  id: string;
+  label: string;
+  description: string;
+  model: CostModel;
+}
+
+/**
+ * 시장별 거래 비용 프리셋
+ */
+export const COST_MODEL_PRESETS: CostModelPreset[] = [
+  {
+    id: 'none',
+    label: '비용 없음',
+    description: '수수료, 슬리피지, 거래세를 적용하지 않습니다.',
+    model: NO_COST_MODEL,
+  },
+  {
+    id: 'krx',
+    label: '국내 주식 (KRX)',
+    description: '온라인 수수료 0.015%, 슬리피지 1호가, 매도 시 국내 종목 증권거래세·농어촌특별세 0.15% (2025년 기준), 미국 종목 SEC 수수료 0.00278%',
+    model: KRX_COST_MODEL,
+  },
+  {
+    id: 'us',
+    label: '미국 주식',
+    description: '수수료 0.25%, 슬리피지 5bp, 매도 시 미국 종목 SEC 수수료 0.00278%, 국내 종목 증권거래세·농어촌특별세 0.15%',
+    model: US_COST_MODEL,
+  },
+];
+
+/**
+ * 슬리피지 단위 표시 이름
+ */
+export const SLIPPAGE_UNIT_LABELS: Record<SlippageUnit, string> = {
+  bps: 'bp (0.01%)',
+  ticks: '호가 단위',
+};
+
+/**
+ * KRX 가격대별 호가 단위 (2023년 1월 개편 기준, 유가증권/코스닥 공통)
+ * [가격 상한(미만), 호가 단위]
+ */
+export const KRX_TICK_SIZES: [number, number][] = [
+  [2000, 1],
+  [5000, 5],
+  [20000, 10],
+  [50000, 50],
+  [200000, 100],
+  [500000, 500],
+  [Infinity, 1000],
+];
+
+/**
+ * 비용 모델과 일치하는 프리셋 조회
+ * @returns 일치하는 프리셋, 없으면 null (사용자 지정)
+ */
+export function findCostModelPreset(model: CostModel): CostModelPreset | null {
+  return COST_MODEL_PRESETS.find(preset =>
+    preset.model.commissionPercent === model.commissionPercent &&
+    preset.model.commissionFixed === model.commissionFixed &&
+    preset.model.commissionMin === model.commissionMin &&
+    preset.model.slippage === model.slippage &&
+    preset.model.slippageUnit === model.slippageUnit &&
+    (Object.keys(TAX_MARKET_LABELS) as TaxMarket[]).every(market =>
+      preset.model.sellTax[market] === model.sellTax[market]
+    ) &&
+    preset.model.tickSize === model.tickSize
+  ) ?? null;
+}
+
+/**
+ * 비용 모델 요약 문자열 (예: 수수료 0.015% · 슬리피지 1호가 · 거래세 국내 (KRX) 0.15%, 미국 0.00278%)
+ */
+export function describeCostModel(model: CostModel): string {
+  const parts: string[] = [];
+
+  if (model.commissionPercent > 0 || model.commissionFixed > 0) {
+    const commission = [
+      model.commissionPercent > 0 ? `${model.commissionPercent}%` : '',
+      model.commissionFixed > 0 ? `${model.commissionFixed}` : '',
+    ].filter(Boolean).join(' + ');
+    parts.push(`수수료 ${commission}`);
+  }
+  if (model.commissionMin > 0) {
+    parts.push(`최소 수수료 ${model.commissionMin}`);
+  }
+  if (model.slippage > 0) {
+    parts.push(`슬리피지 ${model.slippage}${model.slippageUnit === 'ticks' ? '호가' : 'bp'}`);
+  }
+  const taxes = (Object.keys(TAX_MARKET_LABELS) as TaxMarket[])
+    .filter(market => model.sellTax[market] > 0)
+    .map(market => `${TAX_MARKET_LABELS[market]} ${model.sellTax[market]}%`);
+  if (taxes.length > 0) {
+    parts.push(`거래세 ${taxes.join(', ')}`);
+  }
+
+  return parts.length > 0 ? parts.join(' · ') : '비용 없음';
+}
+
+/**
+ * 저장된 비용 모델을 현재 형식으로 변환
+ * 시장별 매도 거래세 도입 전 모델은 단일 거래세를 모든 시장에 적용
+ */
+export function normalizeCostModel(model: CostModel | LegacyCostModel): CostModel {
+  if (!('sellTaxPercent' in model)) return model;
+
+  const { sellTaxPercent, ...rest } = model;
+  return { ...rest, sellTax: { KRX: sellTaxPercent, US: sellTaxPercent, default: sellTaxPercent } };
+}
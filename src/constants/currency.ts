@@ -0,0 +1,15 @@
+/**
+ * 통화 상수
+ */
+
+/**
+ * 기준 통화로 선택할 수 있는 통화
+ */
+export const BASE_CURRENCY_OPTIONS: { value: string; label: string }[] = [
+  { value: 'KRW', label: '원 (KRW)' },
+  { value: 'USD', label: '미국 달러 (USD)' },
+  { value: 'EUR', label: '유로 (EUR)' },
+  { value: 'JPY', label: '엔 (JPY)' },
+  { value: 'CNY', label: '위안 (CNY)' },
+  { value: 'HKD', label: '홍콩 달러 (HKD)' },
+];
@@ -0,0 +1,117 @@
+/**
+ * 기술 지표 파라미터 상수
+ * 조건 빌더, 전략 템플릿 등에서 공통으로 사용하는 지표별 기본 파라미터
+ */
+
+import { ConditionParameter, IndicatorType, PriceType } from '../types/strategy';
+
+/**
+ * 조건 파라미터 기본값
+ */
+export const getDefaultParameters = (indicatorType: IndicatorType): ConditionParameter[] => {
+  switch (indicatorType) {
+    case IndicatorType.PRICE:
+      return [
+        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
+      ];
+    case IndicatorType.VOLUME:
+      return [
+        { name: 'period', value: 1, min: 1, max: 200, step: 1 }, // 1이면 당일 거래량, 2 이상이면 거래량 이동평균
+      ];
+    case IndicatorType.MA:
+      return [
+        { name: 'period', value: 20, min: 1, max: 200, step: 1 },
+        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
+      ];
+    case IndicatorType.EMA:
+      return [
+        { name: 'period', value: 12, min: 1, max: 200, step: 1 },
+        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
+      ];
+    case IndicatorType.RSI:
+      return [
+        { name: 'period', value: 14, min: 1, max: 100, step: 1 },
+      ];
+    case IndicatorType.MACD:
+      return [
+        { name: 'fastPeriod', value: 12, min: 1, max: 100, step: 1 },
+        { name: 'slowPeriod', value: 26, min: 1, max: 100, step: 1 },
+        { name: 'signalPeriod', value: 9, min: 1, max: 100, step: 1 },
+        { name: 'macdPart', value: 'macd', options: ['macd', 'signal', 'histogram'] },
+      ];
+    case IndicatorType.BOLLINGER:
+      return [
+        { name: 'period', value: 20, min: 1, max: 100, step: 1 },
+        { name: 'stdDev', value: 2, min: 0.1, max: 10, step: 0.1 },
+        { name: 'bandPart', value: 'upper', options: ['upper', 'middle', 'lower'] },
+      ];
+    case IndicatorType.STOCHASTIC:
+      return [
+        { name: 'kPeriod', value: 14, min: 1, max: 100, step: 1 },
+        { name: 'dPeriod', value: 3, min: 1, max: 100, step: 1 },
+        { name: 'slowing', value: 3, min: 1, max: 100, step: 1 },
+        { name: 'stochPart', value: 'k', options: ['k', 'd'] },
+      ];
+    case IndicatorType.OBV:
+      return [
+        { name: 'period', value: 1, min: 1, max: 200, step: 1 }, // 1이면 OBV, 2 이상이면 OBV 이동평균
+      ];
+    case IndicatorType.ATR:
+      return [
+        { name: 'period', value: 14, min: 1, max: 100, step: 1 },
+      ];
+    case IndicatorType.ADX:
+      return [
+        { name: 'period', value: 14, min: 1, max: 100, step: 1 },
+        { name: 'adxPart', value: 'adx', options: ['adx', 'plusDI', 'minusDI'] },
+      ];
+    case IndicatorType.CCI:
+      return [
+        { name: 'period', value: 20, min: 1, max: 200, step: 1 },
+      ];
+    case IndicatorType.WILLIAMS_R:
+      return [
+        { name: 'period', value: 14, min: 1, max: 100, step: 1 },
+      ];
+    case IndicatorType.DONCHIAN:
+      return [
+        { name: 'period', value: 20, min: 1, max: 200, step: 1 },
+        { name: 'channelPart', value: 'upper', options: ['upper', 'middle', 'lower'] },
+      ];
+    case IndicatorType.KELTNER:
+      return [
+        { name: 'period', value: 20, min: 1, max: 200, step: 1 },
+        { name: 'atrPeriod', value: 10, min: 1, max: 100, step: 1 },
+        { name: 'multiplier', value: 2, min: 0.1, max: 10, step: 0.1 },
+        { name: 'channelPart', value: 'upper', options: ['upper', 'middle', 'lower'] },
+      ];
+    case IndicatorType.VWAP:
+      return [
+        { name: 'period', value: 20, min: 1, max: 200, step: 1 },
+      ];
+    case IndicatorType.ROC:
+      return [
+        { name: 'period', value: 12, min: 1, max: 200, step: 1 },
+        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
+      ];
+    case IndicatorType.MOMENTUM:
+      return [
+        { name: 'period', value: 10, min: 1, max: 200, step: 1 },
+        { name: 'priceType', value: PriceType.CLOSE, options: Object.values(PriceType) },
+      ];
+    case IndicatorType.PSAR:
+      return [
+        { name: 'step', value: 0.02, min: 0.001, max: 0.2, step: 0.001 },
+        { name: 'maxStep', value: 0.2, min: 0.01, max: 1, step: 0.01 },
+      ];
+    case IndicatorType.ICHIMOKU:
+      return [
+        { name: 'conversionPeriod', value: 9, min: 1, max: 200, step: 1 },
+        { name: 'basePeriod', value: 26, min: 1, max: 200, step: 1 },
+        { name: 'spanBPeriod', value: 52, min: 1, max: 200, step: 1 },
+        { name: 'ichimokuPart', value: 'conversion', options: ['conversion', 'base', 'spanA', 'spanB'] },
+      ];
+    default:
+      return [];
+  }
+};
@@ -0,0 +1,43 @@
+/**
+ * 몬테카를로 분석 상수
+ */
+
+import { MonteCarloMethod, MonteCarloSettings } from '../types/monte-carlo';
+
+/**
+ * 브라우저에서 실행할 수 있는 최대 시뮬레이션 횟수
+ */
+export const MAX_MONTE_CARLO_SIMULATIONS = 10000;
+
+/**
+ * 시뮬레이션 방식 표시 이름
+ */
+export const MONTE_CARLO_METHOD_LABELS: Record<MonteCarloMethod, string> = {
+  tradeShuffle: '거래 순서 섞기',
+  tradeResample: '거래 복원 추출',
+  dailyBootstrap: '일별 수익률 부트스트랩',
+};
+
+/**
+ * 시뮬레이션 방식 설명
+ */
+export const MONTE_CARLO_METHOD_DESCRIPTIONS: Record<MonteCarloMethod, string> = {
+  tradeShuffle: '같은 거래를 다른 순서로 겪었을 때의 낙폭을 봅니다. 최종 자산은 모두 같습니다.',
+  tradeResample: '거래를 중복을 허용해 다시 뽑아 최종 자산과 낙폭의 분포를 봅니다.',
+  dailyBootstrap: '봉별 수익률을 중복을 허용해 다시 뽑아 보유 기간 중 변동까지 반영합니다.',
+};
+
+/**
+ * 도달 확률을 표시할 손실 수준 (%)
+ */
+export const MONTE_CARLO_RUIN_LEVELS = [10, 20, 30, 50];
+
+/**
+ * 기본 몬테카를로 설정
+ */
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = {
+  method: 'tradeResample',
+  simulations: 1000,
+  seed: 1,
+  ruinThreshold: 50,
+};
@@ -0,0 +1,77 @@
+/**
+ * 파라미터 최적화 상수
+ */
+
+import {
+  OptimizationMethod,
+  OptimizationObjective,
+  OptimizationSettings,
+  WalkForwardMode,
+  WalkForwardSettings,
+} from '../types/optimization';
+import { formatPercent, formatRatio } from '../utils/formatters';
+
+/**
+ * 브라우저에서 평가할 수 있는 최대 조합 수
+ */
+export const MAX_OPTIMIZATION_COMBINATIONS = 5000;
+
+/**
+ * 탐색 방식 표시 이름
+ */
+export const OPTIMIZATION_METHOD_LABELS: Record<OptimizationMethod, string> = {
+  grid: '그리드 탐색 (모든 조합)',
+  random: '무작위 탐색',
+};
+
+/**
+ * 목표 지표 표시 이름
+ */
+export const OPTIMIZATION_OBJECTIVE_LABELS: Record<OptimizationObjective, string> = {
+  sharpeRatio: '샤프 지수',
+  sortinoRatio: '소르티노 지수',
+  calmarRatio: '칼마 지수',
+  cagr: 'CAGR',
+  totalReturn: '총 수익률',
+  profitFactor: '손익비 (Profit Factor)',
+  expectancyPercent: '거래당 기대 수익률',
+};
+
+/**
+ * 기본 최적화 설정
+ */
+export const DEFAULT_OPTIMIZATION_SETTINGS: OptimizationSettings = {
+  method: 'grid',
+  objective: 'sharpeRatio',
+  maxCombinations: 500,
+  maxDrawdownLimit: 0,
+  minTrades: 1,
+  seed: 1,
+};
+
+/**
+ * 워크 포워드 구간 방식 표시 이름
+ */
+export const WALK_FORWARD_MODE_LABELS: Record<WalkForwardMode, string> = {
+  rolling: '롤링 (학습 구간 이동)',
+  anchored: '앵커드 (학습 시작일 고정)',
+};
+
+/**
+ * 기본 워크 포워드 설정
+ */
+export const DEFAULT_WALK_FORWARD_SETTINGS: WalkForwardSettings = {
+  mode: 'rolling',
+  inSampleMonths: 24,
+  outOfSampleMonths: 6,
+};
+
+/**
+ * 목표 지표 값 포맷 (수익률 지표는 %, 그 외 비율)
+ */
+export function formatObjectiveValue(objective: OptimizationObjective, value: number | null): string {
+  if (value === null) return '-';
+  return objective === 'cagr' || objective === 'totalReturn' || objective === 'expectancyPercent'
+    ? formatPercent(value, 'always')
+    : formatRatio(value);
+}
@@ -0,0 +1,55 @@
+/**
+ * 백테스트 가격 기준 상수
+ */
+
+import { DividendMode, PriceMode } from '../types/backtest';
+
+/**
+ * 가격 기준 선택 항목 (가격 기준과 배당 처리 방식 조합)
+ */
+export interface PriceModeOption {
+  id: string;
+  label: string;
+  description: string;
+  priceMode: PriceMode;
+  dividendMode?: DividendMode;
+}
+
+/**
+ * 가격 기준 선택 항목 목록 (첫 항목이 기본값)
+ */
+export const PRICE_MODE_OPTIONS: PriceModeOption[] = [
+  {
+    id: 'splitAdjusted',
+    label: '분할 조정 가격',
+    description: '주식 분할만 반영한 가격으로, 배당은 반영하지 않습니다.',
+    priceMode: 'splitAdjusted',
+  },
+  {
+    id: 'raw',
+    label: '실제 거래 가격',
+    description: '당시 실제 거래 가격으로, 분할일에는 보유 수량을 늘려 평가금액을 유지합니다.',
+    priceMode: 'raw',
+  },
+  {
+    id: 'totalReturnReinvest',
+    label: '총수익 (배당 재투자)',
+    description: '배당락일 종가로 배당금을 재투자한 것으로 보고 가격에 반영합니다.',
+    priceMode: 'totalReturn',
+    dividendMode: 'reinvest',
+  },
+  {
+    id: 'totalReturnCash',
+    label: '총수익 (배당 현금 지급)',
+    description: '배당락일에 보유 수량만큼 배당금을 현금으로 받습니다.',
+    priceMode: 'totalReturn',
+    dividendMode: 'cash',
+  },
+];
+
+/**
+ * 배당/분할 이벤트가 필요한 가격 기준인지 확인
+ */
+export function requiresCorporateEvents(option: Pick<PriceModeOption, 'priceMode'>): boolean {
+  return option.priceMode !== 'splitAdjusted';
+}
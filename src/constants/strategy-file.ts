@@ -0,0 +1,12 @@
+/**
+ * 전략 파일 형식 상수
+ */
+
+// 파일 형식 식별자
+export const STRATEGY_FILE_FORMAT = 'core-quant-strategy' as const;
+
+// 현재 파일 형식 버전 (형식 변경 시 증가하고 마이그레이션 추가)
+export const STRATEGY_FILE_VERSION = 2 as const;
+
+// 파일 확장자
+export const STRATEGY_FILE_EXTENSION = '.strategy.json';
@@ -0,0 +1,360 @@
+/**
+ * 전략 템플릿 상수
+ * 검증된 퀀트 전략의 기본 매수/매도 규칙과 자금 관리 설정 제공
+ */
+
+import { nanoid } from 'nanoid';
+
+import {
+  AssetAllocation,
+  ComparisonOperator,
+  ConditionGroup,
+  ConditionParameter,
+  IndicatorType,
+  LogicalOperator,
+  MoneyManagement,
+  PeriodUnit,
+  SignalType,
+  Strategy,
+  StrategyCondition,
+  StrategyTemplate,
+  StrategyTemplateCategory,
+  TradeRule,
+} from '../types/strategy';
+import { getDefaultParameters } from './indicator-parameters';
+import { createDefaultAllocation } from './asset-allocation';
+import { US_COST_MODEL } from './cost-model';
+
+/**
+ * 템플릿 분류 표시 이름
+ */
+export const STRATEGY_TEMPLATE_CATEGORY_LABELS: Record<StrategyTemplateCategory, string> = {
+  mean_reversion: '평균 회귀',
+  trend_following: '추세 추종',
+  factor_investing: '팩터 투자',
+  volatility_breakout: '변동성 돌파',
+  asset_allocation: '자산 배분',
+};
+
+/**
+ * 지표 참조 (지표 타입 + 기본값을 덮어쓸 파라미터)
+ */
+interface IndicatorRef {
+  type: IndicatorType;
+  parameters?: Record<string, number | string>;
+}
+
+/**
+ * 기본 파라미터에 템플릿 값을 적용
+ * min/max/step 등 기본 파라미터 정의를 유지하여 조건 빌더에서 그대로 수정 가능
+ */
+function createParameters(ref: IndicatorRef): ConditionParameter[] {
+  return getDefaultParameters(ref.type).map(parameter =>
+    ref.parameters && ref.parameters[parameter.name] !== undefined
+      ? { ...parameter, value: ref.parameters[parameter.name] }
+      : parameter
+  );
+}
+
+/**
+ * 조건 생성 (비교 대상은 고정값 또는 다른 지표)
+ */
+function condition(
+  left: IndicatorRef,
+  operator: ComparisonOperator,
+  right: number | IndicatorRef
+): StrategyCondition {
+  const base = {
+    id: nanoid(),
+    type: left.type,
+    parameters: createParameters(left),
+    operator,
+  };
+
+  if (typeof right === 'number') {
+    return { ...base, value: right };
+  }
+
+  return {
+    ...base,
+    value: 0,
+    valueType: right.type,
+    valueParameters: createParameters(right),
+  };
+}
+
+/**
+ * 조건 그룹 생성
+ */
+function group(operator: LogicalOperator, ...conditions: StrategyCondition[]): ConditionGroup {
+  return { id: nanoid(), conditions, operator };
+}
+
+/**
+ * 매매 규칙 생성
+ */
+function rule(type: SignalType, ...conditionGroups: ConditionGroup[]): TradeRule {
+  return { id: nanoid(), type, conditionGroups, operator: 'AND' };
+}
+
+// 자주 쓰는 지표 참조
+const close: IndicatorRef = { type: IndicatorType.PRICE };
+const ma = (period: number): IndicatorRef => ({ type: IndicatorType.MA, parameters: { period } });
+const rsi = (period: number): IndicatorRef => ({ type: IndicatorType.RSI, parameters: { period } });
+const bollinger = (bandPart: string, period = 20, stdDev = 2): IndicatorRef => ({
+  type: IndicatorType.BOLLINGER,
+  parameters: { period, stdDev, bandPart },
+});
+const stochastic = (stochPart: string): IndicatorRef => ({
+  type: IndicatorType.STOCHASTIC,
+  parameters: { stochPart },
+});
+const macd = (macdPart: string): IndicatorRef => ({
+  type: IndicatorType.MACD,
+  parameters: { macdPart },
+});
+
+/**
+ * 단일 종목 전액 투자 자금 관리 설정
+ */
+function singlePosition(overrides: Partial<MoneyManagement> = {}): MoneyManagement {
+  return {
+    initialCapital: 10000000,
+    positionSizing: 100,
+    maxPositions: 1,
+    stopLoss: 0,
+    takeProfit: 0,
+    trailingStop: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * 자산 배분 전략 구성 (매매 규칙 없이 목표 비중으로 리밸런싱, 미국 ETF 거래 비용 적용)
+ */
+function allocationStrategy(
+  allocation: Partial<AssetAllocation>
+): ReturnType<StrategyTemplate['createRules']> {
+  return {
+    kind: 'allocation',
+    buyRules: [rule(SignalType.BUY)],
+    sellRules: [rule(SignalType.SELL)],
+    moneyManagement: singlePosition(),
+    allocation: { ...createDefaultAllocation(), ...allocation },
+    costModel: { ...US_COST_MODEL },
+  };
+}
+
+/**
+ * 기본 제공 전략 템플릿 목록
+ */
+export const STRATEGY_TEMPLATES: StrategyTemplate[] = [
+  {
+    id: 'rsi-bollinger-reversion',
+    version: 1,
+    name: 'RSI + 볼린저 밴드 평균 회귀',
+    description:
+      'RSI(14)가 30 미만이고 종가가 볼린저 밴드 하단을 하회하면 매수, RSI(14)가 70을 넘거나 종가가 중심선을 회복하면 매도합니다.',
+    category: 'mean_reversion',
+    tags: ['평균 회귀', 'RSI', '볼린저 밴드'],
+    createRules: () => ({
+      buyRules: [
+        rule(SignalType.BUY, group('AND',
+          condition(rsi(14), '<', 30),
+          condition(close, '<', bollinger('lower')),
+        )),
+      ],
+      sellRules: [
+        rule(SignalType.SELL, group('OR',
+          condition(rsi(14), '>', 70),
+          condition(close, '>', bollinger('middle')),
+        )),
+      ],
+      moneyManagement: singlePosition({ stopLoss: 7 }),
+    }),
+  },
+  {
+    id: 'stochastic-oversold',
+    version: 1,
+    name: '스토캐스틱 과매도 반등',
+    description:
+      '스토캐스틱 %K가 20 미만의 과매도 구간에서 %D를 상회하면 매수하고, %K가 80을 넘으면 매도합니다.',
+    category: 'mean_reversion',
+    tags: ['평균 회귀', '스토캐스틱'],
+    createRules: () => ({
+      buyRules: [
+        rule(SignalType.BUY, group('AND',
+          condition(stochastic('k'), '<', 20),
+          condition(stochastic('k'), '>', stochastic('d')),
+        )),
+      ],
+      sellRules: [
+        rule(SignalType.SELL, group('AND',
+          condition(stochastic('k'), '>', 80),
+        )),
+      ],
+      moneyManagement: singlePosition({ stopLoss: 5 }),
+    }),
+  },
+  {
+    id: 'golden-cross',
+    version: 1,
+    name: '이동평균 골든 크로스',
+    description:
+      '50일 이동평균이 200일 이동평균 위에 있고 MACD가 시그널선을 상회하면 매수, 50일 이동평균이 200일 이동평균 아래로 내려가면 매도합니다.',
+    category: 'trend_following',
+    tags: ['추세 추종', '이동평균', 'MACD'],
+    createRules: () => ({
+      buyRules: [
+        rule(SignalType.BUY, group('AND',
+          condition(ma(50), '>', ma(200)),
+          condition(macd('macd'), '>', macd('signal')),
+        )),
+      ],
+      sellRules: [
+        rule(SignalType.SELL, group('AND',
+          condition(ma(50), '<', ma(200)),
+        )),
+      ],
+      moneyManagement: singlePosition({ trailingStop: 15 }),
+    }),
+  },
+  {
+    id: 'absolute-momentum',
+    version: 1,
+    name: '절대 모멘텀',
+    description:
+      '시계열 모멘텀 팩터를 단일 종목에 적용합니다. 종가가 200일 이동평균 위에 있고 RSI(14)가 50을 넘으면 매수, 종가가 200일 이동평균 아래로 내려가면 매도합니다.',
+    category: 'factor_investing',
+    tags: ['팩터 투자', '모멘텀'],
+    createRules: () => ({
+      buyRules: [
+        rule(SignalType.BUY, group('AND',
+          condition(close, '>', ma(200)),
+          condition(rsi(14), '>', 50),
+        )),
+      ],
+      sellRules: [
+        rule(SignalType.SELL, group('AND',
+          condition(close, '<', ma(200)),
+        )),
+      ],
+      moneyManagement: singlePosition(),
+    }),
+  },
+  {
+    id: 'bollinger-breakout',
+    version: 1,
+    name: '볼린저 밴드 변동성 돌파',
+    description:
+      '종가가 볼린저 밴드 상단을 돌파하면 변동성 확대 구간으로 보고 매수, 종가가 중심선 아래로 내려가면 매도합니다.',
+    category: 'volatility_breakout',
+    tags: ['변동성 돌파', '볼린저 밴드'],
+    createRules: () => ({
+      buyRules: [
+        rule(SignalType.BUY, group('AND',
+          condition(close, '>', bollinger('upper')),
+        )),
+      ],
+      sellRules: [
+        rule(SignalType.SELL, group('AND',
+          condition(close, '<', bollinger('middle')),
+        )),
+      ],
+      moneyManagement: singlePosition({ stopLoss: 5 }),
+    }),
+  },
+  {
+    id: 'all-weather',
+    version: 1,
+    name: '올웨더 포트폴리오',
+    description:
+      '미국 주식 30%, 장기 국채 40%, 중기 국채 15%, 금 7.5%, 원자재 7.5%의 고정 비중을 분기마다 리밸런싱합니다.',
+    category: 'asset_allocation',
+    tags: ['자산 배분', '올웨더', '리밸런싱'],
+    createRules: () => allocationStrategy({
+      mode: 'static',
+      assets: [
+        { symbol: 'SPY', weight: 30 },
+        { symbol: 'TLT', weight: 40 },
+        { symbol: 'IEF', weight: 15 },
+        { symbol: 'GLD', weight: 7.5 },
+        { symbol: 'DBC', weight: 7.5 },
+      ],
+      rebalancePeriod: PeriodUnit.MONTH,
+      rebalanceInterval: 3,
+    }),
+  },
+  {
+    id: 'baa-aggressive',
+    version: 1,
+    name: 'BAA 공격형 (Bold Asset Allocation)',
+    description:
+      '카나리아 자산(SPY, VWO, VEA, BND)의 13612W 모멘텀이 모두 양수이면 공격 자산 중 SMA12 상위 1개, 하나라도 음수이면 수비 자산 중 상위 3개를 보유하고 BIL보다 약한 수비 자산은 BIL로 대체합니다. 매월 리밸런싱합니다.',
+    category: 'asset_allocation',
+    tags: ['자산 배분', 'BAA', '듀얼 모멘텀'],
+    createRules: () => allocationStrategy({
+      mode: 'momentum',
+      assets: [],
+      canary: ['SPY', 'VWO', 'VEA', 'BND'],
+      offensive: ['QQQ', 'VWO', 'VEA', 'BND'],
+      defensive: ['TIP', 'DBC', 'BIL', 'IEF', 'TLT', 'LQD', 'BND'],
+      offensiveTopN: 1,
+      defensiveTopN: 3,
+      canaryScore: 'weighted13612',
+      selectionScore: 'sma12',
+      cashSymbol: 'BIL',
+      rebalancePeriod: PeriodUnit.MONTH,
+      rebalanceInterval: 1,
+    }),
+  },
+  {
+    id: 'vaa-aggressive',
+    version: 1,
+    name: 'VAA 공격형 (Vigilant Asset Allocation)',
+    description:
+      '공격 자산(SPY, EFA, EEM, AGG)의 13612W 모멘텀이 모두 양수이면 그중 최상위 1개, 하나라도 음수이면 수비 자산(LQD, IEF, SHY) 중 최상위 1개를 보유합니다. 매월 리밸런싱합니다.',
+    category: 'asset_allocation',
+    tags: ['자산 배분', 'VAA', '모멘텀'],
+    createRules: () => allocationStrategy({
+      mode: 'momentum',
+      assets: [],
+      canary: ['SPY', 'EFA', 'EEM', 'AGG'],
+      offensive: ['SPY', 'EFA', 'EEM', 'AGG'],
+      defensive: ['LQD', 'IEF', 'SHY'],
+      offensiveTopN: 1,
+      defensiveTopN: 1,
+      canaryScore: 'weighted13612',
+      selectionScore: 'weighted13612',
+      rebalancePeriod: PeriodUnit.MONTH,
+      rebalanceInterval: 1,
+    }),
+  },
+];
+
+/**
+ * 템플릿 ID로 템플릿 조회
+ */
+export function getStrategyTemplate(templateId: string): StrategyTemplate | undefined {
+  return STRATEGY_TEMPLATES.find(template => template.id === templateId);
+}
+
+/**
+ * 템플릿으로 새 전략 생성
+ * @param template 전략 템플릿
+ * @param userId 사용자 ID
+ * @returns 저장 가능한 전략 정보 (ID, 생성/수정 시간 제외)
+ */
+export function createStrategyFromTemplate(
+  template: StrategyTemplate,
+  userId: string
+): Omit<Strategy, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    name: template.name,
+    description: template.description,
+    userId,
+    ...template.createRules(),
+    isPublic: false,
+    tags: [...template.tags],
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * 백테스트 작업 실행 훅
+ * 백테스트 워커에서 작업을 실행하고 진행 상황과 취소를 관리
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  BacktestJob,
+  BacktestJobKind,
+  BacktestJobPartials,
+  BacktestJobProgress,
+  BacktestJobResults,
+} from '../types/backtest-worker';
+import { runBacktestJob } from '../utils/backtest/worker-client';
+import { JobCancelledError } from '../utils/backtest/job-control';
+
+/**
+ * 백테스트 작업 훅 반환값
+ */
+export interface BacktestJobState {
+  running: boolean;
+  progress: BacktestJobProgress | null;
+  /**
+   * 작업 실행 (취소되면 null 반환, 실패하면 오류 발생)
+   */
+  run: <K extends BacktestJobKind>(
+    job: Extract<BacktestJob, { kind: K }>,
+    onPartial?: (partial: BacktestJobPartials[K]) => void
+  ) => Promise<BacktestJobResults[K] | null>;
+  cancel: () => void;
+}
+
+/**
+ * 백테스트 작업 훅
+ * 한 번에 하나의 작업만 실행하며, 화면을 벗어나면 실행 중인 작업을 취소
+ */
+export function useBacktestJob(): BacktestJobState {
+  const [running, setRunning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<BacktestJobProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = useCallback(async <K extends BacktestJobKind>(
+    job: Extract<BacktestJob, { kind: K }>,
+    onPartial?: (partial: BacktestJobPartials[K]) => void
+  ): Promise<BacktestJobResults[K] | null> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    try {
+      setRunning(true);
+      setProgress(null);
+
+      return await runBacktestJob(job, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        onPartial,
+      });
+    } catch (error) {
+      if (error instanceof JobCancelledError) return null;
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  return { running, progress, run, cancel };
+}
@@ -0,0 +1,46 @@
+/**
+ * 공개 전략 공유 링크 훅
+ * 읽기 전용 전략 보기 페이지 주소를 만들고 클립보드에 복사
+ */
+
+import { useCallback } from 'react';
+import { useToast } from '@chakra-ui/react';
+
+/**
+ * 전략 보기 페이지 주소 생성
+ */
+export function getStrategyViewUrl(strategyId: string): string {
+  return `${window.location.origin}/strategy/view/${strategyId}`;
+}
+
+/**
+ * 전략 링크 복사 훅
+ * @returns 전략 ID를 받아 링크를 복사하는 함수
+ */
+export function useStrategyLink(): (strategyId: string) => Promise<void> {
+  const toast = useToast();
+
+  return useCallback(async (strategyId: string) => {
+    try {
+      await navigator.clipboard.writeText(getStrategyViewUrl(strategyId));
+
+      toast({
+        title: '링크 복사 완료',
+        description: '전략 보기 링크가 클립보드에 복사되었습니다.',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+    } catch (error) {
+      console.error('링크 복사 오류:', error);
+
+      toast({
+        title: '링크 복사 실패',
+        description: '클립보드에 접근할 수 없습니다.',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  }, [toast]);
+}
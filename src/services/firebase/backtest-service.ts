@@ -0,0 +1,381 @@
+/**
+ * 백테스트 결과 관리 서비스
+ * Firebase Firestore와 연동하여 백테스트 실행 결과 저장/조회/삭제 기능 제공
+ */
+
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  writeBatch,
+  DocumentSnapshot,
+  QueryConstraint,
+  Firestore,
+  WriteBatch,
+} from 'firebase/firestore';
+import { nanoid } from 'nanoid';
+import { getFirebaseFirestore } from '../../config/firebase';
+import {
+  BacktestListItem,
+  BacktestResult,
+  BacktestRunInput,
+  BacktestTrade,
+  BenchmarkResult,
+  EquityPoint,
+  PerformanceMetrics,
+  SavedBacktest,
+  SavedBacktestDetail,
+  SymbolAttribution,
+} from '../../types/backtest';
+
+/**
+ * 청크 하나에 저장할 최대 자산 곡선 봉 수
+ * 열 단위로 저장하므로 2,000봉 기준 약 150KB로 문서 크기 제한(1MB)보다 충분히 작음
+ */
+const EQUITY_CHUNK_SIZE = 2000;
+
+/**
+ * 청크 하나에 저장할 최대 거래 수
+ */
+const TRADE_CHUNK_SIZE = 1000;
+
+/**
+ * 배치 하나에 담을 최대 쓰기 수 (Firestore 제한 500)
+ */
+const MAX_BATCH_WRITES = 450;
+
+/**
+ * 청크 데이터 종류
+ */
+type ChunkKind = 'equity' | 'benchmark' | 'trades';
+
+/**
+ * 열 단위로 압축한 자산 곡선
+ * 봉마다 필드 이름이 반복되지 않아 객체 배열보다 문서 크기가 작음
+ */
+interface EquityColumns {
+  dates: string[];
+  equity: number[];
+  cash: number[];
+  positionValue: number[];
+  exposure: number[];
+  openPositions: number[];
+}
+
+/**
+ * 청크 문서 (backtests/{id}/chunks/{chunkId})
+ */
+interface BacktestChunk {
+  kind: ChunkKind;
+  index: number;
+  equity?: EquityColumns;
+  trades?: BacktestTrade[];
+}
+
+/**
+ * 백테스트 저장 요청
+ */
+export interface SaveBacktestParams {
+  userId: string;
+  strategyId: string;
+  input: BacktestRunInput;
+  result: BacktestResult;
+  metrics: PerformanceMetrics;
+  benchmark?: BenchmarkResult | null;
+  attribution?: SymbolAttribution[] | null; // 포트폴리오 백테스트의 종목별 성과 기여
+}
+
+/**
+ * 배열을 지정한 크기로 분할
+ */
+function splitIntoChunks<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * 자산 곡선을 열 단위로 변환
+ */
+function toEquityColumns(points: EquityPoint[]): EquityColumns {
+  return {
+    dates: points.map(p => p.date),
+    equity: points.map(p => p.equity),
+    cash: points.map(p => p.cash),
+    positionValue: points.map(p => p.positionValue),
+    exposure: points.map(p => p.exposure),
+    openPositions: points.map(p => p.openPositions),
+  };
+}
+
+/**
+ * 열 단위 자산 곡선을 봉별 객체로 복원
+ */
+function fromEquityColumns(columns: EquityColumns): EquityPoint[] {
+  return columns.dates.map((date, i) => ({
+    date,
+    equity: columns.equity[i],
+    cash: columns.cash[i],
+    positionValue: columns.positionValue[i],
+    exposure: columns.exposure[i],
+    openPositions: columns.openPositions[i],
+  }));
+}
+
+/**
+ * Firestore에 저장할 수 없는 undefined 필드 제거
+ */
+function stripUndefined<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * 백테스트 결과 관리 서비스 클래스
+ * 백테스트 저장, 조회, 삭제 기능 제공
+ */
+class BacktestService {
+  private readonly collectionName = 'backtests';
+  private readonly chunkCollectionName = 'chunks';
+
+  /**
+   * Firestore 인스턴스 가져오기
+   * @returns Firestore 인스턴스
+   * @throws Firestore가 초기화되지 않은 경우 에러
+   */
+  private getDb(): Firestore {
+    const db = getFirebaseFirestore();
+    if (!db) {
+      throw new Error('Firestore가 초기화되지 않았습니다. Firebase 설정을 확인하세요.');
+    }
+    return db;
+  }
+
+  /**
+   * 여러 배치로 나누어 쓰기 실행
+   * @param db Firestore 인스턴스
+   * @param operations 배치에 쓰기 작업을 추가하는 함수 목록
+   */
+  private async commitInBatches(
+    db: Firestore,
+    operations: ((batch: WriteBatch) => void)[]
+  ): Promise<void> {
+    for (const group of splitIntoChunks(operations, MAX_BATCH_WRITES)) {
+      const batch = writeBatch(db);
+      group.forEach(operation => operation(batch));
+      await batch.commit();
+    }
+  }
+
+  /**
+   * 백테스트 결과 저장
+   * 청크 문서를 먼저 저장한 뒤 요약 문서를 저장하여 목록에는 완전히 저장된 결과만 표시
+   * @param params 실행 입력과 결과
+   * @returns 저장된 백테스트 ID
+   */
+  async saveBacktest(params: SaveBacktestParams): Promise<string> {
+    try {
+      const db = this.getDb();
+      const backtestId = nanoid();
+      const { result, benchmark } = params;
+
+      const chunks: BacktestChunk[] = [
+        ...splitIntoChunks(result.equity, EQUITY_CHUNK_SIZE).map((points, index) => ({
+          kind: 'equity' as const,
+          index,
+          equity: toEquityColumns(points),
+        })),
+        ...splitIntoChunks(benchmark?.equity ?? [], EQUITY_CHUNK_SIZE).map((points, index) => ({
+          kind: 'benchmark' as const,
+          index,
+          equity: toEquityColumns(points),
+        })),
+        ...splitIntoChunks(result.trades, TRADE_CHUNK_SIZE).map((trades, index) => ({
+          kind: 'trades' as const,
+          index,
+          trades,
+        })),
+      ];
+
+      const backtest: SavedBacktest = {
+        id: backtestId,
+        userId: params.userId,
+        strategyId: params.strategyId,
+        strategyName: params.input.strategy.name,
+        input: params.input,
+        currency: result.currency,
+        metrics: params.metrics,
+        benchmarkSymbol: benchmark?.symbol ?? null,
+        benchmarkMetrics: benchmark?.metrics ?? null,
+        attribution: params.attribution ?? undefined,
+        equityLength: result.equity.length,
+        tradeCount: result.trades.length,
+        chunkCount: chunks.length,
+        createdAt: Date.now(),
+      };
+
+      const docRef = doc(db, this.collectionName, backtestId);
+
+      // 청크 저장
+      await this.commitInBatches(
+        db,
+        chunks.map(chunk => (batch: WriteBatch) => {
+          const chunkRef = doc(docRef, this.chunkCollectionName, `${chunk.kind}-${chunk.index}`);
+          batch.set(chunkRef, stripUndefined(chunk));
+        })
+      );
+
+      // 요약 문서 저장
+      await setDoc(docRef, stripUndefined(backtest));
+
+      return backtestId;
+    } catch (error) {
+      console.error('백테스트 저장 오류:', error);
+      throw new Error('백테스트 결과를 저장하는 중 오류가 발생했습니다.');
+    }
+  }
+
+  /**
+   * 백테스트 조회 (청크 데이터 포함)
+   * @param backtestId 조회할 백테스트 ID
+   * @returns 자산 곡선과 거래 내역을 포함한 백테스트 정보
+   */
+  async getBacktest(backtestId: string): Promise<SavedBacktestDetail | null> {
+    try {
+      const db = this.getDb();
+      const docRef = doc(db, this.collectionName, backtestId);
+      const docSnap = await getDoc(docRef);
+
+      if (!docSnap.exists()) {
+        return null;
+      }
+
+      const backtest = docSnap.data() as SavedBacktest;
+      const chunkSnapshot = await getDocs(collection(docRef, this.chunkCollectionName));
+
+      if (chunkSnapshot.size !== backtest.chunkCount) {
+        throw new Error('백테스트 데이터 일부가 누락되었습니다.');
+      }
+
+      const chunks = chunkSnapshot.docs
+        .map(chunkDoc => chunkDoc.data() as BacktestChunk)
+        .sort((a, b) => a.index - b.index);
+
+      const collectEquity = (kind: ChunkKind): EquityPoint[] =>
+        chunks
+          .filter(chunk => chunk.kind === kind && chunk.equity)
+          .flatMap(chunk => fromEquityColumns(chunk.equity as EquityColumns));
+
+      return {
+        ...backtest,
+        equity: collectEquity('equity'),
+        benchmarkEquity: collectEquity('benchmark'),
+        trades: chunks
+          .filter(chunk => chunk.kind === 'trades')
+          .flatMap(chunk => chunk.trades ?? []),
+      };
+    } catch (error) {
+      console.error('백테스트 조회 오류:', error);
+      throw new Error('백테스트 결과를 조회하는 중 오류가 발생했습니다.');
+    }
+  }
+
+  /**
+   * 전략별 백테스트 목록 조회
+   * @param userId 사용자 ID
+   * @param strategyId 전략 ID
+   * @param lastDoc 페이지네이션 마지막 문서
+   * @param pageSize 페이지 크기
+   * @returns 최신순 백테스트 목록
+   */
+  async getBacktests(
+    userId: string,
+    strategyId: string,
+    lastDoc?: DocumentSnapshot,
+    pageSize = 10
+  ): Promise<{ backtests: BacktestListItem[], lastDoc: DocumentSnapshot | undefined }> {
+    try {
+      const db = this.getDb();
+      const constraints: QueryConstraint[] = [
+        where('userId', '==', userId),
+        where('strategyId', '==', strategyId),
+        orderBy('createdAt', 'desc'),
+      ];
+
+      // 페이지네이션
+      constraints.push(limit(pageSize));
+      if (lastDoc) {
+        constraints.push(startAfter(lastDoc));
+      }
+
+      const q = query(collection(db, this.collectionName), ...constraints);
+      const querySnapshot = await getDocs(q);
+
+      const backtests: BacktestListItem[] = [];
+      let newLastDoc: DocumentSnapshot | undefined = undefined;
+
+      querySnapshot.forEach((doc) => {
+        const backtestData = doc.data() as SavedBacktest;
+
+        // 목록용 간소화된 정보만 추출
+        backtests.push({
+          id: backtestData.id,
+          strategyId: backtestData.strategyId,
+          strategyName: backtestData.strategyName,
+          symbols: backtestData.input.symbols,
+          startDate: backtestData.input.startDate,
+          endDate: backtestData.input.endDate,
+          interval: backtestData.input.interval,
+          currency: backtestData.currency,
+          fxConverted: !!backtestData.input.baseCurrency,
+          metrics: backtestData.metrics,
+          createdAt: backtestData.createdAt,
+        });
+        newLastDoc = doc;
+      });
+
+      return {
+        backtests,
+        lastDoc: newLastDoc
+      };
+    } catch (error) {
+      console.error('백테스트 목록 조회 오류:', error);
+      throw new Error('백테스트 목록을 조회하는 중 오류가 발생했습니다.');
+    }
+  }
+
+  /**
+   * 백테스트 삭제 (청크 문서 포함)
+   * @param backtestId 삭제할 백테스트 ID
+   */
+  async deleteBacktest(backtestId: string): Promise<void> {
+    try {
+      const db = this.getDb();
+      const docRef = doc(db, this.collectionName, backtestId);
+      const chunkSnapshot = await getDocs(collection(docRef, this.chunkCollectionName));
+
+      await this.commitInBatches(
+        db,
+        chunkSnapshot.docs.map(chunkDoc => (batch: WriteBatch) => batch.delete(chunkDoc.ref))
+      );
+
+      await deleteDoc(docRef);
+    } catch (error) {
+      console.error('백테스트 삭제 오류:', error);
+      throw new Error('백테스트 결과를 삭제하는 중 오류가 발생했습니다.');
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성 및 내보내기
+const backtestService = new BacktestService();
+export default backtestService;
@@ -26,6 +26,7 @@ import {
 import { nanoid } from 'nanoid';
 import { getFirebaseFirestore } from '../../config/firebase';
 import { Strategy, StrategyListItem, StrategyFilter } from '../../types/strategy';
+import { normalizeCostModel } from '../../constants/cost-model';
 
 /**
  * 전략 관리 서비스 클래스
@@ -88,7 +89,11 @@ class StrategyService {
       const docSnap = await getDoc(docRef);
       
       if (docSnap.exists()) {
-        return docSnap.data() as Strategy;
+        // 시장별 매도 거래세 도입 전에 저장된 비용 모델은 현재 형식으로 변환
+        const strategy = docSnap.data() as Strategy;
+        return strategy.costModel
+          ? { ...strategy, costModel: normalizeCostModel(strategy.costModel) }
+          : strategy;
       } else {
         return null;
       }
@@ -239,9 +244,10 @@ class StrategyService {
    * 전략 복제
    * @param strategyId 복제할 전략 ID
    * @param newName 새 전략 이름
+   * @param userId 복제한 전략의 소유자 ID (다른 사용자의 공개 전략을 복제하는 경우, 비공개로 생성)
    * @returns 복제된 전략 ID
    */
-  async cloneStrategy(strategyId: string, newName: string): Promise<string> {
+  async cloneStrategy(strategyId: string, newName: string, userId?: string): Promise<string> {
     try {
       const strategy = await this.getStrategy(strategyId);
       
@@ -253,6 +259,7 @@ class StrategyService {
       const newStrategy: Omit<Strategy, 'id' | 'createdAt' | 'updatedAt'> = {
         ...strategy,
         name: newName || `${strategy.name} (복사본)`,
+        ...(userId ? { userId, isPublic: false } : {}),
       };
       
       // ID, 생성 시간, 수정 시간 제외
@@ -0,0 +1,99 @@
+/**
+ * 환율 서비스
+ * Yahoo Finance 환율 심볼(예: KRW=X)을 과거 데이터/시세 경로로 조회해 통화쌍 환율 제공
+ */
+
+import stockService from './stock-service';
+import { FxSeries } from '../../types/currency';
+import { invertFxSeries } from '../../utils/fx';
+import { toDateString } from '../../utils/formatters';
+
+// 첫 거래일 이전 환율을 확보하기 위해 시작일보다 앞당겨 조회하는 일수 (연휴 대비)
+const FX_LOOKBACK_DAYS = 10;
+
+/**
+ * 통화쌍 조회 방법 (Yahoo Finance 심볼과 환산 방향)
+ */
+interface FxPairSource {
+  symbol: string;
+  inverted: boolean; // 심볼 시세가 to → from 환율이면 true
+}
+
+/**
+ * 환율 서비스 클래스
+ */
+class CurrencyService {
+  /**
+   * 통화쌍 조회 방법 결정
+   * 달러 기준 환율은 `KRW=X`(1달러당 원)처럼 상대 통화만 쓰는 심볼을 사용하고,
+   * 그 외 통화쌍은 `EURKRW=X` 형식 사용
+   */
+  private getPairSource(from: string, to: string): FxPairSource {
+    if (from === 'USD') return { symbol: `${to}=X`, inverted: false };
+    if (to === 'USD') return { symbol: `${from}=X`, inverted: true };
+    return { symbol: `${from}${to}=X`, inverted: false };
+  }
+
+  /**
+   * 과거 환율 시계열 조회
+   * @param from 환산 전 통화
+   * @param to 환산 후 통화
+   * @param startDate 시작일 (YYYY-MM-DD, 이전 환율을 위해 며칠 앞당겨 조회)
+   * @param endDate 종료일 (YYYY-MM-DD)
+   * @returns 1 from 통화당 to 통화 환율 (일봉 종가 기준)
+   */
+  async getFxSeries(from: string, to: string, startDate: string, endDate: string): Promise<FxSeries> {
+    if (from === to) {
+      return { from, to, symbol: null, points: [] };
+    }
+
+    const { symbol, inverted } = this.getPairSource(from, to);
+    const lookback = new Date(startDate);
+    lookback.setDate(lookback.getDate() - FX_LOOKBACK_DAYS);
+
+    try {
+      const history = await stockService.getHistoricalData(symbol, '1d', toDateString(lookback), endDate);
+      const series: FxSeries = {
+        from: inverted ? to : from,
+        to: inverted ? from : to,
+        symbol,
+        points: history.data
+          .filter(bar => bar.close > 0)
+          .map(bar => ({ date: bar.date, rate: bar.close })),
+      };
+
+      return inverted ? invertFxSeries(series) : series;
+    } catch (error) {
+      console.error('환율 조회 오류:', error);
+      throw new Error(`${from} → ${to} 환율을 불러오는 중 오류가 발생했습니다.`);
+    }
+  }
+
+  /**
+   * 현재 환율 조회
+   * @param from 환산 전 통화
+   * @param to 환산 후 통화
+   * @returns 1 from 통화당 to 통화 환율
+   */
+  async getLatestRate(from: string, to: string): Promise<number> {
+    if (from === to) return 1;
+
+    const { symbol, inverted } = this.getPairSource(from, to);
+
+    try {
+      const quote = await stockService.getStockQuote(symbol);
+      const rate = quote.price.regularMarketPrice;
+      if (!(rate > 0)) {
+        throw new Error(`잘못된 환율 값: ${rate}`);
+      }
+      return inverted ? 1 / rate : rate;
+    } catch (error) {
+      console.error('현재 환율 조회 오류:', error);
+      throw new Error(`${from} → ${to} 환율을 불러오는 중 오류가 발생했습니다.`);
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성 및 내보내기
+const currencyService = new CurrencyService();
+export default currencyService;
@@ -73,12 +73,26 @@ export interface HistoricalDataResponse {
   symbol: string;
   interval: string;
   currency: string;
+  exchange: string;
+  exchangeTimezone: string;
+  gmtOffset: number;
+  tradingHours: { open: string; close: string } | null;
   data: HistoricalDataItem[];
   dataCount: number;
   firstDate: string | null;
   lastDate: string | null;
 }
 
+/**
+ * 배당/분할 이벤트 응답 타입
+ */
+export interface EventsResponse {
+  symbol: string;
+  currency: string;
+  dividends: { date: string; amount: number }[];
+  splits: { date: string; numerator: number; denominator: number }[];
+}
+
 /**
  * API 응답 공통 타입
  */
@@ -89,6 +103,20 @@ interface ApiResponse<T> {
   timestamp: number;
 }
 
+/**
+ * 날짜 객체를 쿼리용 문자열로 변환
+ */
+const formatDate = (date?: string | Date): string | undefined => {
+  if (!date) return undefined;
+  
+  if (date instanceof Date) {
+    // ISO 문자열로 변환 후 날짜 부분만 추출
+    return date.toISOString().split('T')[0];
+  }
+  
+  return date;
+};
+
 /**
  * Yahoo Finance API 서비스 클래스
  */
@@ -181,18 +209,6 @@ class YahooFinanceService {
     period1?: string | Date, 
     period2?: string | Date
   ): Promise<HistoricalDataResponse> {
-    // 날짜 객체를 문자열로 변환
-    const formatDate = (date?: string | Date): string | undefined => {
-      if (!date) return undefined;
-      
-      if (date instanceof Date) {
-        // ISO 문자열로 변환 후 날짜 부분만 추출
-        return date.toISOString().split('T')[0];
-      }
-      
-      return date;
-    };
-    
     return this.callApi<HistoricalDataResponse>('history', {
       symbol,
       interval,
@@ -200,6 +216,22 @@ class YahooFinanceService {
       period2: formatDate(period2)
     });
   }
+  
+  /**
+   * 배당/분할 이벤트 조회
+   * 배당락일별 주당 배당금과 주식 분할 내역 조회
+   */
+  async getEvents(
+    symbol: string, 
+    period1?: string | Date, 
+    period2?: string | Date
+  ): Promise<EventsResponse> {
+    return this.callApi<EventsResponse>('events', {
+      symbol,
+      period1: formatDate(period1),
+      period2: formatDate(period2)
+    });
+  }
 }
 
 // 싱글톤 인스턴스 생성 및 내보내기
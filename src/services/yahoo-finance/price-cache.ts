@@ -0,0 +1,443 @@
+/**
+ * 과거 주가 데이터 캐시 서비스
+ * 종목+간격별 봉 데이터를 IndexedDB에 저장하고, 요청 기간 중 저장되지 않은 구간만 조회해 채움
+ */
+
+import {
+  HistoricalData,
+  HistoricalDataItem,
+  MarketMetadata,
+  PriceCacheEntrySummary,
+  PriceCacheStats,
+} from '../../types/stock';
+import { toDateString } from '../../utils/formatters';
+
+// IndexedDB 데이터베이스와 저장소 이름
+const DB_NAME = 'core-quant-cache';
+// 2: 거래소 정보 저장, 거래소 현지 날짜 기준으로 봉 날짜 변경 (이전 버전 데이터는 삭제)
+const DB_VERSION = 2;
+const STORE_NAME = 'bars';
+
+// 부족한 구간만 조회해 채울 수 있는 간격 (주봉/월봉은 구간 경계에서 봉이 잘리므로 전체 기간을 다시 조회)
+const INCREMENTAL_INTERVALS = ['1d'];
+
+// 하루 밀리초
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 저장된 봉과 새로 조회한 봉을 같은 가격으로 볼 상대 오차
+const PRICE_TOLERANCE = 1e-6;
+
+/**
+ * 날짜 구간 (시작일 포함, 종료일 미포함, YYYY-MM-DD)
+ */
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * 구간 조회 함수 (캐시에 없는 구간을 API에서 조회)
+ */
+export type HistoricalDataFetcher = (start: string, end: string) => Promise<HistoricalData>;
+
+/**
+ * 저장 항목 (종목+간격별 봉 데이터와 조회한 구간)
+ */
+interface PriceCacheEntry {
+  key: string;
+  symbol: string;
+  interval: string;
+  metadata: MarketMetadata;
+  data: HistoricalDataItem[];   // 날짜 오름차순
+  ranges: DateRange[];          // 조회를 마친 구간 (겹치지 않게 병합, 오름차순)
+  updatedAt: number;
+}
+
+/**
+ * 구간 목록 병합 (겹치거나 맞닿은 구간을 합침)
+ */
+export function mergeRanges(ranges: DateRange[]): DateRange[] {
+  const sorted = ranges.filter(range => range.start < range.end).sort((a, b) => a.start.localeCompare(b.start));
+  const merged: DateRange[] = [];
+
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = range.end > last.end ? range.end : last.end;
+    } else {
+      merged.push({ ...range });
+    }
+  });
+
+  return merged;
+}
+
+/**
+ * 요청 구간 중 조회를 마친 구간에 포함되지 않은 부분
+ */
+export function getMissingRanges(request: DateRange, covered: DateRange[]): DateRange[] {
+  const missing: DateRange[] = [];
+  let cursor = request.start;
+
+  mergeRanges(covered).forEach(range => {
+    if (range.end <= cursor || range.start >= request.end) return;
+    if (range.start > cursor) {
+      missing.push({ start: cursor, end: range.start });
+    }
+    cursor = range.end > cursor ? range.end : cursor;
+  });
+
+  if (cursor < request.end) {
+    missing.push({ start: cursor, end: request.end });
+  }
+  return missing;
+}
+
+/**
+ * 봉 데이터 병합 (같은 날짜는 새로 조회한 봉으로 대체)
+ */
+function mergeBars(existing: HistoricalDataItem[], incoming: HistoricalDataItem[]): HistoricalDataItem[] {
+  const byDate = new Map(existing.map(bar => [bar.date, bar]));
+  incoming.forEach(bar => byDate.set(bar.date, bar));
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * 날짜가 조회를 마친 구간에 포함되는지 확인
+ */
+function isCovered(date: string, ranges: DateRange[]): boolean {
+  return ranges.some(range => date >= range.start && date < range.end);
+}
+
+/**
+ * 날짜 문자열에 일수를 더함 (YYYY-MM-DD)
+ */
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(date) + days * DAY_MS));
+}
+
+/**
+ * 부족한 구간 앞뒤로 이미 저장된 봉을 하나씩 포함시킨 조회 구간
+ * 겹치는 봉을 저장된 봉과 비교해 그 사이 분할/배당으로 수정 주가가 바뀌었는지 확인하는 데 사용
+ */
+function withOverlap(range: DateRange, cached: HistoricalDataItem[]): DateRange {
+  const before = cached.filter(bar => bar.date < range.start).pop();
+  const after = cached.find(bar => bar.date >= range.end);
+
+  return {
+    start: before ? before.date : range.start,
+    end: after ? addDays(after.date, 1) : range.end,
+  };
+}
+
+/**
+ * 두 값이 부동소수점 오차 범위 안에서 같은지 확인
+ */
+function isSamePrice(a: number, b: number): boolean {
+  return Math.abs(a - b) <= Math.max(Math.abs(a), Math.abs(b)) * PRICE_TOLERANCE;
+}
+
+/**
+ * 새로 조회한 봉과 같은 날짜의 저장된 봉이 모두 일치하는지 확인
+ * 분할/배당 이후에는 과거 봉의 종가(분할 반영)와 수정 종가(배당 반영)가 다시 계산되므로 일치하지 않음
+ */
+function matchesCachedBars(cached: HistoricalDataItem[], incoming: HistoricalDataItem[]): boolean {
+  const byDate = new Map(cached.map(bar => [bar.date, bar]));
+
+  return incoming.every(bar => {
+    const stored = byDate.get(bar.date);
+    return !stored || (isSamePrice(stored.close, bar.close) && isSamePrice(stored.adjClose, bar.adjClose));
+  });
+}
+
+/**
+ * 봉이 확정된 마지막 거래일 다음 날 (거래소 현지 날짜, 조회를 마친 구간의 끝으로 사용)
+ * 정규장이 끝나기 전이면 오늘 봉은 아직 바뀔 수 있으므로 오늘을 제외 (거래 시간을 모르면 항상 제외)
+ */
+function getCompletedEnd(metadata: MarketMetadata, now: Date): string {
+  let date: string;
+  let time: string;
+
+  try {
+    date = new Intl.DateTimeFormat('en-CA', {
+      timeZone: metadata.exchangeTimezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(now);
+    time = new Intl.DateTimeFormat('en-GB', {
+      timeZone: metadata.exchangeTimezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(now);
+  } catch {
+    // 알 수 없는 시간대는 UTC 기준 시차로 보정
+    const local = new Date(now.getTime() + metadata.gmtOffset * 1000).toISOString();
+    date = local.slice(0, 10);
+    time = local.slice(11, 16);
+  }
+
+  const sessionClosed = metadata.tradingHours !== null && time >= metadata.tradingHours.close;
+  return sessionClosed ? addDays(date, 1) : date;
+}
+
+/**
+ * IndexedDB 요청을 Promise로 변환
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 과거 주가 캐시 서비스 클래스
+ */
+class PriceCacheService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  /**
+   * 브라우저가 IndexedDB를 지원하는지 확인
+   */
+  isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * 데이터베이스 열기 (처음 한 번만 열고 재사용)
+   */
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          // 저장 형식이 바뀌면 이전 데이터를 버리고 저장소를 새로 생성
+          if (request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.deleteObjectStore(STORE_NAME);
+          }
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        // 실패한 경우 다음 호출에서 다시 시도
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * 저장소 요청 실행
+   */
+  private async runRequest<T>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const db = await this.openDatabase();
+    const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    return promisifyRequest(action(store));
+  }
+
+  /**
+   * 캐시 키 생성
+   */
+  private getKey(symbol: string, interval: string): string {
+    return `${symbol.toUpperCase()}|${interval}`;
+  }
+
+  /**
+   * 과거 주가 데이터 조회
+   * 캐시에 없는 구간만 조회 함수로 가져와 저장하고, 요청 기간의 봉만 반환
+   * 새로 조회한 구간과 겹치는 저장된 봉이 달라졌으면(분할/배당 반영) 전체 기간을 다시 조회
+   * 정규장이 끝나지 않은 거래일 이후 구간은 봉이 확정되지 않았으므로 조회를 마친 구간으로 기록하지 않음
+   * @param symbol 티커 심볼
+   * @param interval 데이터 간격
+   * @param start 시작일 (포함)
+   * @param end 종료일 (미포함)
+   * @param fetcher 캐시에 없는 구간 조회 함수
+   * @returns 요청 기간의 과거 주가 데이터
+   */
+  async getHistoricalData(
+    symbol: string,
+    interval: string,
+    start: string,
+    end: string,
+    fetcher: HistoricalDataFetcher
+  ): Promise<HistoricalData> {
+    if (!this.isAvailable() || start >= end) {
+      return fetcher(start, end);
+    }
+
+    const key = this.getKey(symbol, interval);
+    let entry: PriceCacheEntry | null = null;
+
+    try {
+      entry = (await this.runRequest<PriceCacheEntry | undefined>('readonly', store => store.get(key))) ?? null;
+    } catch (error) {
+      console.error('주가 캐시 읽기 오류:', error);
+      return fetcher(start, end);
+    }
+
+    const request: DateRange = { start, end };
+    const missing = getMissingRanges(request, entry?.ranges ?? []);
+
+    if (entry && missing.length === 0) {
+      return this.toHistoricalData(entry, start, end);
+    }
+
+    // 일봉은 부족한 구간만(앞뒤의 저장된 봉과 겹치게), 그 외 간격은 기존 구간을 포함한 전체 기간을 다시 조회
+    const fullRange = mergeRanges([request, ...(entry?.ranges ?? [])]).reduce((span, range) => ({
+      start: range.start < span.start ? range.start : span.start,
+      end: range.end > span.end ? range.end : span.end,
+    }));
+    const cached = entry ? entry.data.filter(bar => isCovered(bar.date, entry.ranges)) : [];
+    let incremental = INCREMENTAL_INTERVALS.includes(interval) && entry !== null;
+    let fetchRanges = incremental ? missing.map(range => withOverlap(range, cached)) : [fullRange];
+    let responses = await this.fetchRanges(fetcher, fetchRanges);
+
+    // 그 사이 분할/배당으로 저장된 봉의 가격이 바뀌었으면 저장된 봉을 버리고 전체 기간을 다시 조회
+    if (incremental && !responses.every(response => matchesCachedBars(cached, response.data))) {
+      incremental = false;
+      fetchRanges = [fullRange];
+      responses = await this.fetchRanges(fetcher, fetchRanges);
+    }
+
+    const data = responses.reduce(
+      (bars, response) => mergeBars(bars, response.data),
+      incremental ? entry?.data ?? [] : []
+    );
+
+    // 거래소 정보는 가장 최근 응답 기준 (조회할 구간은 항상 하나 이상)
+    const latest = responses[responses.length - 1];
+    const metadata: MarketMetadata = {
+      currency: latest.currency,
+      exchange: latest.exchange,
+      exchangeTimezone: latest.exchangeTimezone,
+      gmtOffset: latest.gmtOffset,
+      tradingHours: latest.tradingHours,
+    };
+
+    const completedEnd = getCompletedEnd(metadata, new Date());
+    const fetchedRanges = fetchRanges.map(range => ({
+      start: range.start,
+      end: range.end < completedEnd ? range.end : completedEnd,
+    }));
+    const updated: PriceCacheEntry = {
+      key,
+      symbol: symbol.toUpperCase(),
+      interval,
+      metadata,
+      data,
+      ranges: mergeRanges([...(incremental ? entry?.ranges ?? [] : []), ...fetchedRanges]),
+      updatedAt: Date.now(),
+    };
+
+    try {
+      await this.runRequest('readwrite', store => store.put(updated));
+    } catch (error) {
+      // 저장 공간 부족 등으로 저장하지 못해도 조회 결과는 반환
+      console.error('주가 캐시 저장 오류:', error);
+    }
+
+    return this.toHistoricalData(updated, start, end);
+  }
+
+  /**
+   * 구간별로 차례대로 조회
+   */
+  private async fetchRanges(fetcher: HistoricalDataFetcher, ranges: DateRange[]): Promise<HistoricalData[]> {
+    const responses: HistoricalData[] = [];
+    for (const range of ranges) {
+      responses.push(await fetcher(range.start, range.end));
+    }
+    return responses;
+  }
+
+  /**
+   * 저장 항목에서 요청 기간의 봉만 잘라 응답 형식으로 변환
+   */
+  private toHistoricalData(entry: PriceCacheEntry, start: string, end: string): HistoricalData {
+    const data = entry.data.filter(bar => bar.date >= start && bar.date < end);
+
+    return {
+      symbol: entry.symbol,
+      interval: entry.interval,
+      ...entry.metadata,
+      data,
+      dataCount: data.length,
+      firstDate: data[0]?.date ?? null,
+      lastDate: data[data.length - 1]?.date ?? null,
+    };
+  }
+
+  /**
+   * 캐시 현황 조회
+   * @returns 종목+간격별 저장 현황과 전체 크기 (크기는 JSON 길이 기준 추정치)
+   */
+  async getStats(): Promise<PriceCacheStats> {
+    if (!this.isAvailable()) {
+      return { entries: [], totalBars: 0, totalBytes: 0 };
+    }
+
+    try {
+      const entries = await this.runRequest<PriceCacheEntry[]>('readonly', store => store.getAll());
+      const summaries: PriceCacheEntrySummary[] = entries
+        .map(entry => ({
+          key: entry.key,
+          symbol: entry.symbol,
+          interval: entry.interval,
+          bars: entry.data.length,
+          firstDate: entry.data[0]?.date ?? null,
+          lastDate: entry.data[entry.data.length - 1]?.date ?? null,
+          bytes: JSON.stringify(entry).length,
+          updatedAt: entry.updatedAt,
+        }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+
+      return {
+        entries: summaries,
+        totalBars: summaries.reduce((sum, entry) => sum + entry.bars, 0),
+        totalBytes: summaries.reduce((sum, entry) => sum + entry.bytes, 0),
+      };
+    } catch (error) {
+      console.error('주가 캐시 현황 조회 오류:', error);
+      throw new Error('주가 캐시 현황을 불러오는 중 오류가 발생했습니다.');
+    }
+  }
+
+  /**
+   * 종목+간격 캐시 삭제
+   * @param key 캐시 키
+   */
+  async removeEntry(key: string): Promise<void> {
+    try {
+      await this.runRequest('readwrite', store => store.delete(key));
+    } catch (error) {
+      console.error('주가 캐시 삭제 오류:', error);
+      throw new Error('주가 캐시를 삭제하는 중 오류가 발생했습니다.');
+    }
+  }
+
+  /**
+   * 전체 캐시 삭제
+   */
+  async clear(): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await this.runRequest('readwrite', store => store.clear());
+    } catch (error) {
+      console.error('주가 캐시 전체 삭제 오류:', error);
+      throw new Error('주가 캐시를 비우는 중 오류가 발생했습니다.');
+    }
+  }
+}
+
+// 싱글톤 인스턴스 생성 및 내보내기
+const priceCacheService = new PriceCacheService();
+export default priceCacheService;
@@ -4,13 +4,17 @@
  */
 
 import yahooFinanceService from '.';
+import priceCacheService from './price-cache';
 import { 
   StockSearchItem, 
   StockSearchResults, 
   StockQuote, 
   HistoricalData,
-  HistoricalDataItem 
+  HistoricalDataItem,
+  MarketMetadata,
+  CorporateEvents
 } from '../../types/stock';
+import { toDateString } from '../../utils/formatters';
 
 /**
  * 검색 결과 캐시 타입
@@ -120,7 +124,48 @@ const MOCK_QUOTES: Record<string, StockQuote> = {
     currency: 'USD',
     exchange: 'NASDAQ',
     lastUpdated: new Date().toISOString(),
+  },
+  'KRW=X': {
+    symbol: 'KRW=X',
+    price: {
+      regularMarketPrice: 1380.5,
+      regularMarketChange: 2.3,
+      regularMarketChangePercent: 0.17,
+      regularMarketPreviousClose: 1378.2,
+      regularMarketOpen: 1379.1,
+      regularMarketDayHigh: 1383.4,
+      regularMarketDayLow: 1376.8,
+    },
+    marketState: 'REGULAR',
+    shortName: 'USD/KRW',
+    longName: 'USD/KRW',
+    currency: 'KRW',
+    exchange: 'CCY',
+    lastUpdated: new Date().toISOString(),
+  }
+};
+
+/**
+ * 모의 거래소 정보 (한국 거래소 종목은 원화/서울 시간대, 그 외는 미국 거래소 기준)
+ */
+const getMockMarketMetadata = (symbol: string): MarketMetadata => {
+  if (/\.(KS|KQ)$/i.test(symbol)) {
+    return {
+      currency: 'KRW',
+      exchange: symbol.toUpperCase().endsWith('.KQ') ? 'KOSDAQ' : 'KSE',
+      exchangeTimezone: 'Asia/Seoul',
+      gmtOffset: 9 * 3600,
+      tradingHours: { open: '09:00', close: '15:30' },
+    };
   }
+
+  return {
+    currency: MOCK_QUOTES[symbol]?.currency || 'USD',
+    exchange: MOCK_QUOTES[symbol]?.exchange || 'NASDAQ',
+    exchangeTimezone: 'America/New_York',
+    gmtOffset: -5 * 3600,
+    tradingHours: { open: '09:30', close: '16:00' },
+  };
 };
 
 /**
@@ -160,7 +205,7 @@ const generateMockHistoricalData = (symbol: string, days: number): HistoricalDat
   return {
     symbol,
     interval: '1d',
-    currency: MOCK_QUOTES[symbol]?.currency || 'USD',
+    ...getMockMarketMetadata(symbol),
     data,
     dataCount: data.length,
     firstDate: data[0]?.date || null,
@@ -401,6 +446,7 @@ class StockService {
   
   /**
    * 과거 주가 데이터 조회
+   * 시작일과 종료일이 모두 있으면 IndexedDB 캐시를 거쳐 부족한 구간만 조회
    * @param symbol 티커 심볼
    * @param interval 데이터 간격
    * @param period1 시작일
@@ -430,6 +476,20 @@ class StockService {
         return generateMockHistoricalData(symbol, days > 0 ? days : 30);
       }
       
+      // 기간이 정해진 요청은 IndexedDB 캐시에 없는 구간만 API로 조회
+      if (period1 && period2) {
+        const start = period1 instanceof Date ? toDateString(period1) : period1;
+        const end = period2 instanceof Date ? toDateString(period2) : period2;
+
+        return await priceCacheService.getHistoricalData(
+          symbol,
+          interval,
+          start,
+          end,
+          (rangeStart, rangeEnd) => yahooFinanceService.getHistoricalData(symbol, interval, rangeStart, rangeEnd)
+        );
+      }
+
       // 실제 API 호출
       return await yahooFinanceService.getHistoricalData(
         symbol,
@@ -443,6 +503,40 @@ class StockService {
     }
   }
   
+  /**
+   * 배당/분할 이벤트 조회
+   * @param symbol 티커 심볼
+   * @param period1 시작일
+   * @param period2 종료일
+   * @returns 배당락일별 주당 배당금과 분할 내역 (날짜 오름차순)
+   */
+  async getCorporateEvents(
+    symbol: string,
+    period1?: Date | string,
+    period2?: Date | string
+  ): Promise<CorporateEvents> {
+    if (!symbol) {
+      throw new Error('종목 심볼이 필요합니다.');
+    }
+    
+    try {
+      // 개발 환경에서는 모의 과거 데이터에 맞춰 이벤트 없음
+      if (this.isDevelopment) {
+        return { symbol, dividends: [], splits: [] };
+      }
+      
+      const response = await yahooFinanceService.getEvents(symbol, period1, period2);
+      return {
+        symbol: response.symbol,
+        dividends: response.dividends,
+        splits: response.splits,
+      };
+    } catch (error) {
+      console.error('배당/분할 조회 오류:', error);
+      throw new Error('배당/분할 이벤트 조회 중 오류가 발생했습니다.');
+    }
+  }
+  
   /**
    * 캐시 클리어
    * @param type 클리어할 캐시 유형 ('search', 'quote', 'all')
@@ -0,0 +1,40 @@
+/**
+ * 사용자 설정 스토어
+ * 기준 통화 등 화면 표시 설정 관리
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { UserPreferences } from '../types/firebase';
+
+/**
+ * 사용자 설정 스토어 상태 타입
+ */
+export interface PreferencesStore {
+  defaultCurrency: UserPreferences['defaultCurrency']; // 기준 통화 (환산 표시 기준)
+
+  // 액션들
+  setDefaultCurrency: (currency: UserPreferences['defaultCurrency']) => void;
+}
+
+/**
+ * 사용자 설정 스토어
+ * localStorage에 영구 저장
+ */
+export const usePreferencesStore = create<PreferencesStore>()(
+  persist(
+    (set) => ({
+      defaultCurrency: 'KRW',
+
+      /**
+       * 기준 통화 변경
+       */
+      setDefaultCurrency: (currency: UserPreferences['defaultCurrency']) => {
+        set({ defaultCurrency: currency });
+      },
+    }),
+    {
+      name: 'core-quant-preferences', // localStorage 키
+    }
+  )
+);
@@ -0,0 +1,125 @@
+/**
+ * 백테스트 워커 메시지 프로토콜 타입 정의
+ * 화면(메인 스레드)과 백테스트 워커 사이에 주고받는 작업과 메시지
+ */
+
+import { HistoricalData } from './stock';
+import { Strategy } from './strategy';
+import {
+  BacktestResult,
+  BenchmarkResult,
+  PerformanceMetrics,
+  PortfolioBacktestOptions,
+  RebalanceRecord,
+  SymbolAttribution,
+} from './backtest';
+import {
+  OptimizationParameter,
+  OptimizationResult,
+  OptimizationSettings,
+  OptimizationTrial,
+  WalkForwardResult,
+  WalkForwardSettings,
+  WalkForwardWindow,
+} from './optimization';
+import { MonteCarloResult, MonteCarloSettings } from './monte-carlo';
+import { FxConversion } from './currency';
+
+/**
+ * 워커에서 실행하는 작업
+ * backtest: 단일/포트폴리오/자산 배분 백테스트, optimization: 파라미터 최적화,
+ * walkForward: 워크 포워드 분석, monteCarlo: 몬테카를로 분석
+ */
+export type BacktestJob =
+  | {
+      kind: 'backtest';
+      strategy: Pick<Strategy, 'kind' | 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel' | 'allocation'>;
+      datasets: HistoricalData[];
+      options: PortfolioBacktestOptions;
+      fx?: FxConversion;  // 통화가 다른 종목을 기준 통화로 합산할 때의 환율
+    }
+  | {
+      kind: 'optimization';
+      strategy: Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel'>;
+      datasets: HistoricalData[];
+      parameters: OptimizationParameter[];
+      settings: OptimizationSettings;
+      options: PortfolioBacktestOptions;
+    }
+  | {
+      kind: 'walkForward';
+      strategy: Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel'>;
+      datasets: HistoricalData[];
+      parameters: OptimizationParameter[];
+      settings: OptimizationSettings;
+      walkForwardSettings: WalkForwardSettings;
+      options: PortfolioBacktestOptions;
+    }
+  | {
+      kind: 'monteCarlo';
+      result: Pick<BacktestResult, 'trades' | 'equity' | 'initialCapital'>;
+      settings: MonteCarloSettings;
+    };
+
+/**
+ * 작업 종류
+ */
+export type BacktestJobKind = BacktestJob['kind'];
+
+/**
+ * 백테스트 작업 결과 (백테스트 결과와 성과 지표, 방식별 부가 결과)
+ */
+export interface BacktestJobOutput {
+  result: BacktestResult;
+  metrics: PerformanceMetrics;
+  benchmark: BenchmarkResult | null;          // 단일 종목 백테스트의 매수 후 보유 비교
+  attribution: SymbolAttribution[] | null;    // 포트폴리오/자산 배분 백테스트의 종목별 기여
+  rebalances: RebalanceRecord[] | null;       // 자산 배분 백테스트의 리밸런싱 내역
+}
+
+/**
+ * 작업 종류별 최종 결과
+ */
+export interface BacktestJobResults {
+  backtest: BacktestJobOutput;
+  optimization: OptimizationResult;
+  walkForward: WalkForwardResult;
+  monteCarlo: MonteCarloResult;
+}
+
+/**
+ * 작업 종류별 중간 결과
+ * optimization: 평가를 마친 조합, walkForward: 검증을 마친 구간
+ */
+export interface BacktestJobPartials {
+  backtest: never;
+  optimization: OptimizationTrial;
+  walkForward: WalkForwardWindow;
+  monteCarlo: never;
+}
+
+/**
+ * 작업 진행 상황
+ */
+export interface BacktestJobProgress {
+  completed: number;
+  total: number;
+  percent: number;   // 진행률 (0~100)
+}
+
+/**
+ * 화면 → 워커 메시지
+ */
+export type BacktestWorkerRequest =
+  | { type: 'start'; jobId: string; job: BacktestJob }
+  | { type: 'cancel'; jobId: string };
+
+/**
+ * 워커 → 화면 메시지
+ */
+export type BacktestWorkerResponse =
+  | { type: 'progress'; jobId: string; progress: BacktestJobProgress }
+  | { type: 'partial'; jobId: string; partial: BacktestJobPartials[BacktestJobKind] }
+  | { type: 'result'; jobId: string; result: BacktestJobResults[BacktestJobKind] }
+  | { type: 'cancelled'; jobId: string }
+  | { type: 'error'; jobId: string; message: string };
@@ -0,0 +1,325 @@
+/**
+ * 백테스트 관련 타입 정의
+ */
+
+import { CostModel, SignalType, Strategy } from './strategy';
+
+/**
+ * 조건 평가 상태
+ * true/false: 조건 충족 여부, null: 지표 미정의(워밍업) 구간으로 판단 불가
+ */
+export type ConditionState = boolean | null;
+
+/**
+ * 매매 신호 시계열 (HistoricalData 봉과 같은 길이로 정렬됨)
+ */
+export interface SignalSeries {
+  dates: string[];
+  buy: ConditionState[];            // 봉별 매수 규칙 평가 결과
+  sell: ConditionState[];           // 봉별 매도 규칙 평가 결과
+  signals: (SignalType | null)[];   // 봉별 최종 신호 (매수/매도가 동시에 충족되면 null)
+  undefinedBars: boolean[];         // 매수 또는 매도 규칙이 미정의인 봉 여부
+  warmupBars: number;               // 매수/매도 규칙이 모두 정의되기 전까지의 봉 수
+}
+
+/**
+ * 포지션 청산 사유
+ */
+export type ExitReason =
+  | 'SIGNAL'          // 매도 신호
+  | 'STOP_LOSS'       // 손절
+  | 'TAKE_PROFIT'     // 익절
+  | 'TRAILING_STOP'   // 트레일링 스탑
+  | 'REBALANCE'       // 자산 배분 리밸런싱에 따른 비중 축소
+  | 'END_OF_DATA';    // 백테스트 종료 시 강제 청산
+
+/**
+ * 체결 가격 기준
+ * nextOpen: 신호 발생 다음 봉 시가 체결 (기본값), close: 신호 발생 봉 종가 체결
+ */
+export type FillPrice = 'nextOpen' | 'close';
+
+/**
+ * 가격 기준
+ * raw: 실제 거래 가격 (분할일에 보유 수량 조정), splitAdjusted: 분할 조정 가격 (기본값),
+ * totalReturn: 분할 조정 가격에 배당 반영 (재투자 또는 현금 지급)
+ */
+export type PriceMode = 'raw' | 'splitAdjusted' | 'totalReturn';
+
+/**
+ * 총수익 가격 기준의 배당 처리 방식
+ * reinvest: 배당락일 종가로 재투자한 것으로 보고 가격에 반영 (기본값), cash: 보유 수량만큼 현금으로 지급
+ */
+export type DividendMode = 'reinvest' | 'cash';
+
+/**
+ * 보유 중인 포지션 (단일 진입 단위)
+ */
+export interface OpenPosition {
+  id: string;
+  symbol: string;
+  entryDate: string;
+  entryIndex: number;
+  entryPrice: number;
+  quantity: number;
+  highestPrice: number; // 진입 이후 최고가 (트레일링 스탑 기준)
+  entryCommission: number; // 진입 수수료 (청산 시 거래 손익에 반영)
+  entrySlippage: number;   // 진입 슬리피지 비용 (진입가에 이미 반영된 금액)
+  entryCostBase?: number;  // 기준 통화로 환산한 진입 비용 (수수료 포함, 환산 백테스트에서만 사용)
+}
+
+/**
+ * 완료된 거래
+ */
+export interface BacktestTrade {
+  id: string;
+  symbol: string;
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  quantity: number;
+  pnl: number;            // 손익 금액
+  returnPercent: number;  // 수익률 (%)
+  barsHeld: number;       // 보유 봉 수
+  exitReason: ExitReason;
+  commission?: number;    // 진입/청산 수수료 합계 (손익에 반영)
+  tax?: number;           // 매도 거래세 (손익에 반영)
+  slippage?: number;      // 진입/청산 슬리피지 비용 (체결가에 반영)
+  fxRate?: number;        // 청산일 기준 통화 환율 (기준 통화로 환산한 백테스트에서만 설정)
+  basePnl?: number;       // 환율 변동을 포함한 기준 통화 손익 (fxRate와 함께 설정)
+}
+
+/**
+ * 봉별 자산 현황
+ */
+export interface EquityPoint {
+  date: string;
+  equity: number;         // 총 자산 (현금 + 평가금액)
+  cash: number;           // 현금
+  positionValue: number;  // 보유 포지션 평가금액
+  exposure: number;       // 투자 비중 (0~1)
+  openPositions: number;  // 보유 포지션 수
+}
+
+/**
+ * 백테스트 실행 옵션
+ */
+export interface BacktestOptions {
+  fillPrice?: FillPrice;
+  allowFractionalShares?: boolean; // 소수점 수량 허용 여부 (기본값 false)
+  closeAtEnd?: boolean;            // 종료 시 보유 포지션 청산 여부 (기본값 true)
+  costModel?: CostModel;           // 실행별 거래 비용 모델 (미설정 시 전략의 비용 모델)
+  startDate?: string;              // 매매 시작일 (이전 봉은 지표 계산에만 사용, 미설정 시 첫 봉부터)
+  priceMode?: PriceMode;           // 가격 기준 (기본값 splitAdjusted, 배당/분할 정보가 봉에 있어야 반영)
+  dividendMode?: DividendMode;     // 총수익 가격 기준의 배당 처리 방식 (기본값 reinvest)
+}
+
+/**
+ * 포트폴리오 백테스트에서 같은 날 발생한 매수 신호의 우선순위 기준
+ * symbolOrder: 입력한 종목 순서, momentum: 최근 N봉 수익률이 높은 순,
+ * lowVolatility: 최근 N봉 변동성이 낮은 순, tradingValue: 최근 N봉 평균 거래대금이 큰 순
+ */
+export type PortfolioRanking = 'symbolOrder' | 'momentum' | 'lowVolatility' | 'tradingValue';
+
+/**
+ * 포트폴리오(다종목) 백테스트 실행 옵션
+ */
+export interface PortfolioBacktestOptions extends BacktestOptions {
+  ranking?: PortfolioRanking;  // 매수 신호 우선순위 기준 (기본값 symbolOrder)
+  rankingPeriod?: number;      // 우선순위 계산 구간 봉 수 (기본값 20)
+}
+
+/**
+ * 백테스트 결과
+ */
+export interface BacktestResult {
+  symbol: string;
+  interval: string;
+  currency: string;
+  startDate: string | null;
+  endDate: string | null;
+  initialCapital: number;
+  finalEquity: number;
+  trades: BacktestTrade[];
+  equity: EquityPoint[];
+  openPositions: OpenPosition[]; // closeAtEnd가 false인 경우 미청산 포지션
+  warmupBars: number;
+  dividendIncome?: number;       // 현금으로 받은 배당금 합계 (현금 배당 방식에서만)
+}
+
+/**
+ * 포트폴리오 백테스트의 종목별 성과 기여
+ */
+export interface SymbolAttribution {
+  symbol: string;
+  currency: string;             // 종목 거래 통화 (손익 금액은 백테스트 결과 통화)
+  bars: number;                 // 백테스트에 사용된 봉 수
+  totalTrades: number;
+  winningTrades: number;
+  winRate: number;              // 승률 (%)
+  realizedPnl: number;          // 실현 손익 금액
+  unrealizedPnl: number;        // 미청산 포지션 평가 손익 금액
+  contribution: number;         // 초기 자본 대비 손익 기여 (%)
+  averageReturnPercent: number; // 거래당 평균 수익률 (%)
+  exposureTime: number;         // 전체 기간 중 보유 기간 비율 (%)
+}
+
+/**
+ * 포트폴리오(다종목) 백테스트 결과
+ * 자산 곡선은 모든 종목의 거래일을 합친 통합 달력 기준
+ */
+export interface PortfolioBacktestResult extends BacktestResult {
+  symbols: string[];
+  attribution: SymbolAttribution[];
+  skippedSignals: number;       // 포지션 수 제한이나 현금 부족으로 체결하지 못한 매수 신호 수
+}
+
+/**
+ * 자산 배분 리밸런싱 기록
+ */
+export interface RebalanceRecord {
+  date: string;                     // 체결일
+  regime: 'static' | 'offensive' | 'defensive'; // 고정 비중 또는 모멘텀 국면
+  weights: Record<string, number>;  // 목표 비중 (%)
+  turnover: number;                 // 매매 금액 합계
+  cost: number;                     // 거래 비용 (수수료 + 거래세)
+}
+
+/**
+ * 자산 배분 백테스트 결과
+ */
+export interface AllocationBacktestResult extends PortfolioBacktestResult {
+  rebalances: RebalanceRecord[];
+  totalCost: number;                // 전체 거래 비용 (수수료 + 거래세, 미청산 포지션 진입 수수료 포함)
+}
+
+/**
+ * 백테스트 성과 지표
+ * 비율 값은 모두 퍼센트(%) 단위, 계산할 수 없는 값은 null (Firestore 저장을 위해 Infinity/NaN 미사용)
+ */
+export interface PerformanceMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturn: number;                 // 총 수익률 (%)
+  cagr: number;                        // 연평균 성장률 (%)
+  volatility: number;                  // 연환산 변동성 (%)
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  calmarRatio: number | null;
+  maxDrawdown: number;                 // 최대 낙폭 (%, 음수)
+  maxDrawdownDuration: number;         // 최대 낙폭 지속 기간 (봉 수)
+  maxDrawdownDurationDays: number;     // 최대 낙폭 지속 기간 (일)
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  winRate: number;                     // 승률 (%)
+  profitFactor: number | null;         // 총이익 / 총손실 (손실 거래가 없으면 null)
+  averageWin: number;                  // 평균 수익 금액
+  averageLoss: number;                 // 평균 손실 금액 (음수)
+  averageWinPercent: number;           // 평균 수익률 (%)
+  averageLossPercent: number;          // 평균 손실률 (%, 음수)
+  expectancy: number;                  // 거래당 기대 손익 금액
+  expectancyPercent: number;           // 거래당 기대 수익률 (%)
+  exposureTime: number;                // 포지션 보유 기간 비율 (%)
+  averageBarsHeld: number;
+  totalCommission?: number;            // 완료된 거래의 수수료 합계
+  totalTax?: number;                   // 완료된 거래의 거래세 합계
+  totalSlippage?: number;              // 완료된 거래의 슬리피지 비용 합계
+}
+
+/**
+ * 성과 지표 계산 옵션
+ */
+export interface MetricsOptions {
+  riskFreeRate?: number;   // 연 무위험 수익률 (%, 기본값 0)
+  periodsPerYear?: number; // 연환산 기간 수 (미지정 시 interval로 추정)
+}
+
+/**
+ * 벤치마크(매수 후 보유) 결과
+ */
+export interface BenchmarkResult {
+  symbol: string;
+  equity: EquityPoint[];
+  metrics: PerformanceMetrics;
+}
+
+/**
+ * 낙폭 시계열 항목
+ */
+export interface DrawdownPoint {
+  date: string;
+  drawdown: number; // 고점 대비 낙폭 (%, 0 이하)
+}
+
+/**
+ * 월별 수익률 항목
+ */
+export interface MonthlyReturn {
+  year: number;
+  month: number;   // 1~12
+  return: number;  // 월 수익률 (%)
+}
+
+/**
+ * 저장된 백테스트의 실행 입력
+ * 전략은 이후 수정되어도 결과를 재현할 수 있도록 실행 시점의 스냅샷으로 저장
+ */
+export interface BacktestRunInput {
+  strategy: Pick<Strategy, 'name' | 'buyRules' | 'sellRules' | 'moneyManagement' | 'kind' | 'allocation' | 'costModel'>;
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  interval: string;
+  options?: PortfolioBacktestOptions;
+  baseCurrency?: string;                    // 통화가 다른 종목을 환율로 합산한 기준 통화
+  localCurrencies?: Record<string, string>; // 기준 통화로 환산한 종목별 현지 통화
+}
+
+/**
+ * 저장된 백테스트 문서 (Firestore `backtests` 컬렉션)
+ * 자산 곡선과 거래 내역은 문서 크기 제한으로 하위 컬렉션에 청크 단위로 분할 저장
+ */
+export interface SavedBacktest {
+  id: string;
+  userId: string;
+  strategyId: string;
+  strategyName: string;
+  input: BacktestRunInput;
+  currency: string;
+  metrics: PerformanceMetrics;
+  benchmarkSymbol: string | null;
+  benchmarkMetrics: PerformanceMetrics | null;
+  attribution?: SymbolAttribution[]; // 포트폴리오 백테스트의 종목별 성과 기여
+  equityLength: number;   // 자산 곡선 봉 수
+  tradeCount: number;     // 거래 수
+  chunkCount: number;     // 하위 컬렉션 청크 문서 수
+  createdAt: number;
+}
+
+/**
+ * 백테스트 목록 항목 (청크 데이터를 제외한 요약 정보)
+ */
+export interface BacktestListItem {
+  id: string;
+  strategyId: string;
+  strategyName: string;
+  symbols: string[];
+  startDate: string;
+  endDate: string;
+  interval: string;
+  currency: string;
+  fxConverted: boolean;  // 통화가 다른 종목을 기준 통화로 환산해 합산한 백테스트
+  metrics: PerformanceMetrics;
+  createdAt: number;
+}
+
+/**
+ * 청크를 모두 불러온 저장된 백테스트
+ */
+export interface SavedBacktestDetail extends SavedBacktest {
+  equity: EquityPoint[];
+  trades: BacktestTrade[];
+  benchmarkEquity: EquityPoint[];
+}
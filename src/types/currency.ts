@@ -0,0 +1,30 @@
+/**
+ * 환율 관련 타입 정의
+ */
+
+/**
+ * 일자별 환율 (1 from 통화 = rate to 통화)
+ */
+export interface FxRatePoint {
+  date: string;
+  rate: number;
+}
+
+/**
+ * 통화쌍 환율 시계열
+ */
+export interface FxSeries {
+  from: string;          // 환산 전 통화 (예: USD)
+  to: string;            // 환산 후 통화 (예: KRW)
+  symbol: string | null; // 조회한 Yahoo Finance 환율 심볼 (같은 통화면 null)
+  points: FxRatePoint[]; // 날짜 오름차순
+}
+
+/**
+ * 여러 통화 종목을 하나의 현금 계좌로 합산하기 위한 환산 설정
+ * 신호와 체결 가격은 현지 통화로 계산하고 현금 흐름과 자산 평가만 기준 통화로 환산
+ */
+export interface FxConversion {
+  baseCurrency: string;  // 현금/자산 평가 통화
+  series: FxSeries[];    // 현지 통화 → 기준 통화 환율 (기준 통화와 다른 통화마다 하나)
+}
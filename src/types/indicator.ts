@@ -0,0 +1,39 @@
+/**
+ * 기술 지표 계산 관련 타입 정의
+ */
+
+import { IndicatorType } from './strategy';
+
+/**
+ * 지표 값 타입
+ * 워밍업 구간 등 값을 계산할 수 없는 봉은 null
+ */
+export type IndicatorValue = number | null;
+
+/**
+ * 지표 시계열 타입 (HistoricalDataItem 배열과 같은 길이로 정렬됨)
+ */
+export type IndicatorSeries = IndicatorValue[];
+
+/**
+ * 지표 계산 결과 타입
+ */
+export interface IndicatorResult {
+  type: IndicatorType;
+  outputs: Record<string, IndicatorSeries>; // 모든 출력 (예: MACD의 macd/signal/histogram)
+  output: string;                           // 파라미터로 선택된 출력 이름
+  values: IndicatorSeries;                  // 선택된 출력의 시계열
+}
+
+/**
+ * 다중 출력 지표의 출력 이름
+ */
+export const INDICATOR_OUTPUTS: Partial<Record<IndicatorType, string[]>> = {
+  [IndicatorType.MACD]: ['macd', 'signal', 'histogram'],
+  [IndicatorType.BOLLINGER]: ['upper', 'middle', 'lower'],
+  [IndicatorType.STOCHASTIC]: ['k', 'd'],
+  [IndicatorType.ADX]: ['adx', 'plusDI', 'minusDI'],
+  [IndicatorType.DONCHIAN]: ['upper', 'middle', 'lower'],
+  [IndicatorType.KELTNER]: ['upper', 'middle', 'lower'],
+  [IndicatorType.ICHIMOKU]: ['conversion', 'base', 'spanA', 'spanB'],
+};
@@ -0,0 +1,65 @@
+/**
+ * 몬테카를로 분석 관련 타입 정의
+ */
+
+/**
+ * 시뮬레이션 방식
+ * tradeShuffle: 거래 순서를 무작위로 섞음 (최종 자산은 같고 낙폭 분포만 달라짐)
+ * tradeResample: 거래를 중복 허용으로 다시 뽑음
+ * dailyBootstrap: 봉별 수익률을 중복 허용으로 다시 뽑음
+ */
+export type MonteCarloMethod = 'tradeShuffle' | 'tradeResample' | 'dailyBootstrap';
+
+/**
+ * 몬테카를로 분석 설정
+ */
+export interface MonteCarloSettings {
+  method: MonteCarloMethod;
+  simulations: number;         // 시뮬레이션 횟수
+  seed: number;                // 난수 시드 (같은 시드면 같은 결과)
+  ruinThreshold: number;       // 파산으로 볼 손실 (%, 양수, 초기 자본 대비)
+}
+
+/**
+ * 분포의 백분위 요약
+ */
+export interface MonteCarloDistribution {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  mean: number;
+}
+
+/**
+ * 팬 차트의 한 지점 (단계별 자산 백분위)
+ */
+export interface MonteCarloFanPoint extends Omit<MonteCarloDistribution, 'mean'> {
+  step: number;                // 거래 또는 봉 순번 (0은 시작 시점)
+}
+
+/**
+ * 손실 수준별 도달 확률
+ */
+export interface MonteCarloRuinLevel {
+  threshold: number;           // 손실 수준 (%, 양수)
+  probability: number;         // 자산이 한 번이라도 이 수준 이하로 내려간 시뮬레이션 비율 (%)
+}
+
+/**
+ * 몬테카를로 분석 결과
+ */
+export interface MonteCarloResult {
+  settings: MonteCarloSettings;
+  initialCapital: number;
+  steps: number;                          // 시뮬레이션 한 번의 단계 수 (거래 수 또는 봉 수)
+  finalEquity: MonteCarloDistribution;
+  totalReturn: MonteCarloDistribution;    // 총 수익률 (%)
+  maxDrawdown: MonteCarloDistribution;    // 최대 낙폭 (%, 음수, p5가 가장 나쁜 쪽)
+  original: { finalEquity: number; maxDrawdown: number };  // 원래 백테스트 결과
+  riskOfRuin: number;                     // 파산 확률 (%, 설정한 손실 수준 기준)
+  ruinLevels: MonteCarloRuinLevel[];
+  probabilityOfLoss: number;              // 최종 자산이 초기 자본보다 작은 시뮬레이션 비율 (%)
+  fan: MonteCarloFanPoint[];
+}
@@ -0,0 +1,135 @@
+/**
+ * 파라미터 최적화 관련 타입 정의
+ */
+
+import { SignalType } from './strategy';
+import { BacktestTrade, EquityPoint, PerformanceMetrics } from './backtest';
+
+/**
+ * 최적화 대상 파라미터
+ * 매매 규칙 안의 조건 파라미터 하나를 가리키며 탐색 범위를 가짐
+ */
+export interface OptimizationParameter {
+  key: string;                            // 고유 키 (조건 ID, 대상, 파라미터 이름 조합)
+  label: string;                          // 표시 이름 (예: 매수 1-1 MA(20).period)
+  ruleType: SignalType;
+  conditionId: string;
+  target: 'parameters' | 'valueParameters'; // 조건 지표 또는 비교 지표의 파라미터
+  name: string;                           // 파라미터 이름
+  value: number;                          // 현재 전략의 값
+  min: number;
+  max: number;
+  step: number;
+  bounds: { min: number; max: number };   // 지표 정의상 허용 범위
+}
+
+/**
+ * 최적화 탐색 방식
+ * grid: 모든 조합 탐색, random: 조합 중 무작위 표본 탐색
+ */
+export type OptimizationMethod = 'grid' | 'random';
+
+/**
+ * 최적화 목표 지표 (클수록 좋은 지표)
+ */
+export type OptimizationObjective =
+  | 'sharpeRatio'
+  | 'sortinoRatio'
+  | 'calmarRatio'
+  | 'cagr'
+  | 'totalReturn'
+  | 'profitFactor'
+  | 'expectancyPercent';
+
+/**
+ * 최적화 설정
+ */
+export interface OptimizationSettings {
+  method: OptimizationMethod;
+  objective: OptimizationObjective;
+  maxCombinations: number;      // 평가할 최대 조합 수 (grid는 초과 시 실행 불가, random은 표본 수)
+  maxDrawdownLimit?: number;    // 허용 최대 낙폭 (%, 양수, 초과하는 조합은 순위에서 제외, 0 또는 미설정은 제한 없음)
+  minTrades?: number;           // 최소 거래 횟수 (미달 조합은 순위에서 제외, 0 또는 미설정은 제한 없음)
+  seed?: number;                // 무작위 탐색 시드 (같은 시드면 같은 표본)
+}
+
+/**
+ * 조합 하나의 평가 결과
+ */
+export interface OptimizationTrial {
+  values: Record<string, number>;  // 파라미터 키별 값
+  metrics: PerformanceMetrics;
+  score: number | null;            // 목표 지표 값 (계산할 수 없으면 null)
+  feasible: boolean;               // 제약 조건 충족 여부
+  rank: number | null;             // 제약 조건을 충족한 조합 중 순위 (1부터)
+}
+
+/**
+ * 최적화 결과
+ */
+export interface OptimizationResult {
+  parameters: OptimizationParameter[];
+  settings: OptimizationSettings;
+  totalCombinations: number;       // 전체 조합 수
+  trials: OptimizationTrial[];     // 순위순 정렬 (제약 충족 조합 먼저)
+  best: OptimizationTrial | null;  // 제약 조건을 충족한 최고 점수 조합
+}
+
+/**
+ * 2개 파라미터 히트맵 데이터
+ * 다른 파라미터가 있으면 셀마다 가장 높은 점수를 표시
+ */
+export interface OptimizationHeatmap {
+  xKey: string;
+  yKey: string;
+  xValues: number[];
+  yValues: number[];
+  cells: (number | null)[][];      // [y][x] 목표 지표 값 (평가하지 않았거나 제약 미충족이면 null)
+}
+
+/**
+ * 워크 포워드 구간 방식
+ * rolling: 학습 구간 길이를 고정하고 검증 구간만큼 이동, anchored: 학습 구간 시작일을 고정하고 끝만 늘림
+ */
+export type WalkForwardMode = 'rolling' | 'anchored';
+
+/**
+ * 워크 포워드 분석 설정
+ */
+export interface WalkForwardSettings {
+  mode: WalkForwardMode;
+  inSampleMonths: number;      // 학습(최적화) 구간 길이 (개월)
+  outOfSampleMonths: number;   // 검증 구간 길이 (개월)
+}
+
+/**
+ * 워크 포워드 구간 하나의 결과
+ * 날짜 범위는 시작일 포함, 종료일 미포함
+ */
+export interface WalkForwardWindow {
+  index: number;
+  inSampleStart: string;
+  inSampleEnd: string;
+  outOfSampleStart: string;
+  outOfSampleEnd: string;
+  bestValues: Record<string, number> | null;   // 학습 구간 최적 조합 (제약 충족 조합이 없으면 null, 현재 값으로 검증)
+  inSampleMetrics: PerformanceMetrics;
+  outOfSampleMetrics: PerformanceMetrics;
+  efficiency: number | null;                   // 효율 (%, 검증 CAGR / 학습 CAGR, 학습 CAGR이 0 이하면 null)
+}
+
+/**
+ * 워크 포워드 분석 결과
+ */
+export interface WalkForwardResult {
+  parameters: OptimizationParameter[];
+  settings: WalkForwardSettings;
+  optimizationSettings: OptimizationSettings;
+  windows: WalkForwardWindow[];
+  currency: string;
+  equity: EquityPoint[];          // 검증 구간 자산 곡선을 이어 붙인 곡선 (복리 연결)
+  trades: BacktestTrade[];        // 검증 구간 거래 (금액은 연결된 자산 기준으로 환산)
+  metrics: PerformanceMetrics;    // 연결된 검증 곡선의 성과 지표
+  efficiency: number | null;      // 워크 포워드 효율 (%, 검증 평균 CAGR / 학습 평균 CAGR)
+  profitableWindows: number;      // 검증 수익률이 양수인 구간 수
+}
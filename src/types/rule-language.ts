@@ -0,0 +1,53 @@
+/**
+ * 텍스트 매매 규칙 언어 관련 타입 정의
+ * 예: (MA(10) > MA(30) AND RSI(14) < 70) OR CLOSE > BOLLINGER(20, 2).upper
+ */
+
+import { TradeRule } from './strategy';
+
+/**
+ * 토큰 종류
+ */
+export type RuleTokenType =
+  | 'identifier'  // 지표 이름, 키워드 (AND, OR, ANY, HIGHEST 등)
+  | 'number'
+  | 'comparison'  // >, >=, =, <=, <, !=
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'comma'
+  | 'dot'
+  | 'star'
+  | 'plus'
+  | 'minus'
+  | 'eof';
+
+/**
+ * 토큰
+ */
+export interface RuleToken {
+  type: RuleTokenType;
+  text: string;
+  start: number;  // 원문에서의 시작 위치 (0부터)
+  end: number;    // 원문에서의 끝 위치 (포함하지 않음)
+}
+
+/**
+ * 규칙 문법 오류
+ */
+export interface RuleSyntaxError {
+  message: string;
+  start: number;  // 오류 시작 위치 (0부터)
+  end: number;    // 오류 끝 위치 (포함하지 않음)
+  line: number;   // 행 번호 (1부터)
+  column: number; // 열 번호 (1부터)
+}
+
+/**
+ * 규칙 파싱 결과
+ */
+export interface RuleParseResult {
+  rule: TradeRule | null;
+  errors: RuleSyntaxError[];
+}
@@ -45,15 +45,70 @@ export interface HistoricalDataItem {
   close: number;
   adjClose: number;
   volume: number;
+  dividend?: number;  // 이 봉이 배당락일이면 주당 배당금
+  split?: number;     // 이 봉이 분할일이면 분할 비율 (예: 4:1 분할은 4)
 }
 
-// 과거 주가 데이터 응답 타입
-export interface HistoricalData {
+// 정규장 거래 시간 (거래소 현지 시각, HH:mm)
+export interface TradingHours {
+  open: string;
+  close: string;
+}
+
+// 종목의 거래 통화와 거래소 정보
+export interface MarketMetadata {
+  currency: string;                   // 거래 통화 (예: USD, KRW)
+  exchange: string;                   // 거래소 이름
+  exchangeTimezone: string;           // 거래소 시간대 (IANA, 예: Asia/Seoul)
+  gmtOffset: number;                  // UTC 기준 시차 (초)
+  tradingHours: TradingHours | null;  // 정규장 거래 시간 (알 수 없으면 null)
+}
+
+// 과거 주가 데이터 응답 타입 (봉 날짜는 거래소 현지 날짜)
+export interface HistoricalData extends MarketMetadata {
   symbol: string;
   interval: string;
-  currency: string;
   data: HistoricalDataItem[];
   dataCount: number;
   firstDate: string | null;
   lastDate: string | null;
-} 
\ No newline at end of file
+} 
+
+// 과거 주가 캐시 항목 요약 (종목+간격별)
+export interface PriceCacheEntrySummary {
+  key: string;
+  symbol: string;
+  interval: string;
+  bars: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  bytes: number;        // 저장 크기 추정치 (바이트)
+  updatedAt: number;
+}
+
+// 과거 주가 캐시 현황
+export interface PriceCacheStats {
+  entries: PriceCacheEntrySummary[];
+  totalBars: number;
+  totalBytes: number;
+}
+
+// 배당 이벤트 (배당락일, 분할 조정된 주당 배당금)
+export interface DividendEvent {
+  date: string;
+  amount: number;
+}
+
+// 주식 분할 이벤트 (numerator:denominator, 예: 4:1 분할은 4와 1)
+export interface SplitEvent {
+  date: string;
+  numerator: number;
+  denominator: number;
+}
+
+// 종목의 배당/분할 이벤트
+export interface CorporateEvents {
+  symbol: string;
+  dividends: DividendEvent[];
+  splits: SplitEvent[];
+}
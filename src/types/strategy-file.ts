@@ -0,0 +1,54 @@
+/**
+ * 전략 파일(JSON 내보내기/가져오기) 관련 타입 정의
+ */
+
+import { LegacyCostModel, Strategy } from './strategy';
+
+/**
+ * 파일로 주고받는 전략 정의
+ * 사용자/저장소에 종속된 필드(ID, 사용자 ID, 생성/수정 시간, 공개 여부)는 제외
+ */
+export type StrategyDefinition = Omit<Strategy, 'id' | 'userId' | 'createdAt' | 'updatedAt' | 'isPublic'>;
+
+/**
+ * 전략 파일 형식 (버전 1, 모든 종목에 같은 매도 거래세 적용)
+ */
+export interface StrategyFileV1 {
+  format: 'core-quant-strategy';
+  version: 1;
+  exportedAt: string;            // ISO 8601 내보낸 시각
+  strategy: Omit<StrategyDefinition, 'costModel'> & { costModel?: LegacyCostModel };
+}
+
+/**
+ * 전략 파일 형식 (버전 2, 시장별 매도 거래세)
+ */
+export interface StrategyFileV2 {
+  format: 'core-quant-strategy';
+  version: 2;
+  exportedAt: string;            // ISO 8601 내보낸 시각
+  strategy: StrategyDefinition;
+}
+
+/**
+ * 현재 버전의 전략 파일 형식
+ */
+export type StrategyFile = StrategyFileV2;
+
+/**
+ * 전략 파일 검증 오류
+ */
+export interface StrategyFileError {
+  path: string;     // 오류 위치 (예: buyRules[0].conditionGroups[1].conditions[0].type)
+  message: string;
+}
+
+/**
+ * 전략 파일 가져오기 결과
+ */
+export interface StrategyFileImportResult {
+  isValid: boolean;
+  errors: StrategyFileError[];
+  strategy: StrategyDefinition | null; // 검증에 성공한 경우 새 ID가 부여된 전략 정의
+  sourceVersion: number | null;        // 원본 파일 형식 버전
+}
@@ -4,8 +4,38 @@
 
 /**
  * 비교 연산자 타입
+ * crossAbove/crossBelow는 직전 봉과 현재 봉을 비교하여 교차가 발생한 봉에서만 충족
  */
-export type ComparisonOperator = '>' | '>=' | '=' | '<=' | '<' | '!=';
+export type ComparisonOperator =
+  | '>'
+  | '>='
+  | '='
+  | '<='
+  | '<'
+  | '!='
+  | 'crossAbove'   // 상향 돌파 (직전 봉 좌변 ≤ 우변, 현재 봉 좌변 > 우변)
+  | 'crossBelow';  // 하향 돌파 (직전 봉 좌변 ≥ 우변, 현재 봉 좌변 < 우변)
+
+/**
+ * 비교 연산자 목록
+ */
+export const COMPARISON_OPERATORS: ComparisonOperator[] = [
+  '>', '>=', '=', '<=', '<', '!=', 'crossAbove', 'crossBelow',
+];
+
+/**
+ * 비교 연산자 표시 이름
+ */
+export const COMPARISON_OPERATOR_LABELS: Record<ComparisonOperator, string> = {
+  '>': '>',
+  '>=': '≥',
+  '=': '=',
+  '<=': '≤',
+  '<': '<',
+  '!=': '≠',
+  crossAbove: '상향 돌파',
+  crossBelow: '하향 돌파',
+};
 
 /**
  * 논리 연산자 타입
@@ -26,6 +56,16 @@ export enum IndicatorType {
   STOCHASTIC = 'STOCHASTIC', // 스토캐스틱
   OBV = 'OBV',               // OBV (On-Balance Volume)
   ATR = 'ATR',               // 평균진폭(Average True Range)
+  ADX = 'ADX',               // ADX/DMI (평균방향지수, +DI/-DI)
+  CCI = 'CCI',               // 상품채널지수
+  WILLIAMS_R = 'WILLIAMS_R', // 윌리엄스 %R
+  DONCHIAN = 'DONCHIAN',     // 돈치안 채널
+  KELTNER = 'KELTNER',       // 켈트너 채널
+  VWAP = 'VWAP',             // 거래량가중평균가격 (기간 이동)
+  ROC = 'ROC',               // 변화율 (%)
+  MOMENTUM = 'MOMENTUM',     // 모멘텀 (가격 차이)
+  PSAR = 'PSAR',             // 파라볼릭 SAR
+  ICHIMOKU = 'ICHIMOKU',     // 일목균형표
 }
 
 /**
@@ -60,6 +100,23 @@ export interface ConditionParameter {
   options?: string[];
 }
 
+/**
+ * 조건 구간 집계 방식
+ * any/all/count: 최근 N봉의 조건 충족 여부를 집계
+ * highest/lowest: 지표 값을 최근 N봉의 최고값/최저값으로 대체한 뒤 비교
+ */
+export type LookbackMode = 'any' | 'all' | 'count' | 'highest' | 'lowest';
+
+/**
+ * 조건 구간 집계 설정
+ */
+export interface ConditionLookback {
+  mode: LookbackMode;
+  period: number;             // 집계할 봉 수 (현재 봉 포함)
+  count?: number;             // count 모드에서 필요한 최소 충족 봉 수
+  side?: 'left' | 'right';    // highest/lowest 모드에서 적용할 쪽 (기본값 left, right는 비교 지표)
+}
+
 /**
  * 전략 조건 타입
  */
@@ -71,8 +128,18 @@ export interface StrategyCondition {
   value: number;
   valueType?: IndicatorType;  // 비교 대상이 다른 지표인 경우 (예: MA(10) > MA(20))
   valueParameters?: ConditionParameter[]; // 비교 대상의 파라미터
+  offset?: number;            // 지표를 n봉 전 값으로 비교 (기본값 0: 현재 봉)
+  valueOffset?: number;       // 비교 지표를 n봉 전 값으로 비교 (기본값 0: 현재 봉)
+  valueMultiplier?: number;   // 비교 지표에 곱할 배수 (예: 종가 > MA(50) × 1.03, 기본값 1)
+  valueAddend?: number;       // 배수 적용 후 비교 지표에 더할 값 (기본값 0)
+  lookback?: ConditionLookback; // 최근 N봉 구간 집계
 }
 
+/**
+ * 조건 오프셋/집계 구간 최대 봉 수
+ */
+export const MAX_CONDITION_BARS = 500;
+
 /**
  * 조건 그룹 타입
  */
@@ -112,6 +179,91 @@ export interface MoneyManagement {
   trailingStop?: number;      // 트레일링 스탑 (%)
 }
 
+/**
+ * 슬리피지 단위
+ * bps: 체결 가격 대비 만분율, ticks: 호가 단위 수
+ */
+export type SlippageUnit = 'bps' | 'ticks';
+
+/**
+ * 매도 거래세 적용 시장
+ * KRX: 한국 거래소 (.KS, .KQ), US: 미국 거래소 (접미사 없는 심볼), default: 그 외 시장
+ */
+export type TaxMarket = 'KRX' | 'US' | 'default';
+
+/**
+ * 시장별 매도 거래세 (매도 체결 금액 대비 %)
+ */
+export type SellTaxRates = Record<TaxMarket, number>;
+
+/**
+ * 거래 비용 모델
+ * 수수료는 주문마다 (고정 금액 + 체결 금액 × 비율)을 부과하며 최소 수수료보다 작으면 최소 수수료 적용
+ * 매도 거래세는 종목이 거래되는 시장의 세율 적용
+ */
+export interface CostModel {
+  commissionPercent: number;  // 체결 금액 대비 수수료 (%)
+  commissionFixed: number;    // 주문당 고정 수수료 (거래 통화 금액)
+  commissionMin: number;      // 주문당 최소 수수료 (거래 통화 금액)
+  slippage: number;           // 체결 가격을 불리한 방향으로 조정할 크기 (slippageUnit 단위)
+  slippageUnit: SlippageUnit;
+  tickSize?: number;          // 호가 단위 (미설정 시 KRX 종목은 가격대별 호가 단위, 그 외 0.01)
+  sellTax: SellTaxRates;      // 시장별 매도 체결 금액 대비 거래세 등 제세금 (%)
+}
+
+/**
+ * 시장별 매도 거래세 도입 전 비용 모델 (저장된 전략 호환용, 모든 종목에 같은 거래세 적용)
+ */
+export type LegacyCostModel = Omit<CostModel, 'sellTax'> & { sellTaxPercent: number };
+
+/**
+ * 전략 종류
+ * signal: 매수/매도 조건으로 진입·청산하는 신호 기반 전략 (기본값)
+ * allocation: 목표 비중에 맞춰 주기적으로 리밸런싱하는 자산 배분 전략
+ */
+export type StrategyKind = 'signal' | 'allocation';
+
+/**
+ * 자산 배분 방식
+ * static: 고정 비중, momentum: 카나리아 자산 모멘텀에 따라 공격/수비 자산 중 상위 종목 선택
+ */
+export type AllocationMode = 'static' | 'momentum';
+
+/**
+ * 모멘텀 점수 계산 방식 (월말 종가 기준)
+ * weighted13612: 12×1개월 + 4×3개월 + 2×6개월 + 1×12개월 수익률 (VAA/BAA 카나리아)
+ * sma12: 현재가 / 최근 13개 월말 종가 평균 - 1 (BAA 상대 모멘텀)
+ * return12: 12개월 수익률
+ */
+export type MomentumScoreMethod = 'weighted13612' | 'sma12' | 'return12';
+
+/**
+ * 고정 비중 자산
+ */
+export interface AllocationAsset {
+  symbol: string;
+  weight: number;             // 목표 비중 (%)
+}
+
+/**
+ * 자산 배분 설정
+ */
+export interface AssetAllocation {
+  mode: AllocationMode;
+  assets: AllocationAsset[];  // static 모드의 자산별 목표 비중
+  canary: string[];           // momentum 모드의 카나리아 자산 (하나라도 점수가 음수이면 수비 전환)
+  offensive: string[];        // 공격 자산
+  defensive: string[];        // 수비 자산
+  offensiveTopN: number;      // 공격 시 보유할 상위 종목 수 (동일 비중)
+  defensiveTopN: number;      // 수비 시 보유할 상위 종목 수 (동일 비중)
+  canaryScore: MomentumScoreMethod;
+  selectionScore: MomentumScoreMethod; // 공격/수비 자산 순위 점수
+  cashSymbol?: string;        // 수비 자산 중 점수가 이 종목보다 낮은 자산은 이 종목으로 대체 (예: BIL)
+  rebalancePeriod: PeriodUnit;
+  rebalanceInterval: number;  // 리밸런싱 주기 (기간 단위 배수, 예: MONTH × 3 = 분기)
+  cashBuffer?: number;        // 투자하지 않고 남겨 둘 현금 비율 (%)
+}
+
 /**
  * 전략 타입
  */
@@ -127,6 +279,9 @@ export interface Strategy {
   moneyManagement: MoneyManagement;
   isPublic: boolean;
   tags?: string[];
+  kind?: StrategyKind;        // 전략 종류 (기본값 signal)
+  allocation?: AssetAllocation; // 자산 배분 전략 설정 (kind가 allocation인 경우)
+  costModel?: CostModel;      // 거래 비용 모델 (미설정 시 비용 없음)
 }
 
 /**
@@ -154,6 +309,29 @@ export interface StrategyFilter {
   sortOrder?: 'asc' | 'desc';
 }
 
+/**
+ * 전략 템플릿 분류
+ */
+export type StrategyTemplateCategory =
+  | 'mean_reversion'       // 평균 회귀
+  | 'trend_following'      // 추세 추종
+  | 'factor_investing'     // 팩터 투자
+  | 'volatility_breakout'  // 변동성 돌파
+  | 'asset_allocation';    // 자산 배분
+
+/**
+ * 전략 템플릿 타입
+ */
+export interface StrategyTemplate {
+  id: string;
+  version: number;          // 템플릿 규칙 변경 시 증가
+  name: string;
+  description: string;
+  category: StrategyTemplateCategory;
+  tags: string[];
+  createRules: () => Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'kind' | 'allocation' | 'costModel'>; // 호출할 때마다 새 ID로 규칙 생성
+}
+
 /**
  * 기술 지표 설명
  */
@@ -168,4 +346,14 @@ export const INDICATOR_DESCRIPTIONS: Record<IndicatorType, string> = {
   [IndicatorType.STOCHASTIC]: '스토캐스틱 (Stochastic)',
   [IndicatorType.OBV]: 'OBV (On-Balance Volume)',
   [IndicatorType.ATR]: '평균진폭 (Average True Range)',
+  [IndicatorType.ADX]: 'ADX/DMI (평균방향지수와 +DI/-DI 방향성 지표)',
+  [IndicatorType.CCI]: 'CCI (상품채널지수, Commodity Channel Index)',
+  [IndicatorType.WILLIAMS_R]: '윌리엄스 %R (Williams %R, -100 ~ 0)',
+  [IndicatorType.DONCHIAN]: '돈치안 채널 (Donchian Channels, 현재 봉 포함 최고/최저가)',
+  [IndicatorType.KELTNER]: '켈트너 채널 (Keltner Channels, EMA ± ATR 배수)',
+  [IndicatorType.VWAP]: '거래량가중평균가격 (VWAP, 최근 N봉 기준)',
+  [IndicatorType.ROC]: '변화율 (Rate of Change, N봉 전 대비 %)',
+  [IndicatorType.MOMENTUM]: '모멘텀 (Momentum, N봉 전 대비 가격 차이)',
+  [IndicatorType.PSAR]: '파라볼릭 SAR (Parabolic Stop and Reverse)',
+  [IndicatorType.ICHIMOKU]: '일목균형표 (Ichimoku Kinko Hyo, 선행스팬은 기준선 기간만큼 이동)',
 }; 
\ No newline at end of file
@@ -0,0 +1,635 @@
+/**
+ * 자산 배분 백테스트 엔진
+ * 목표 비중(고정 또는 모멘텀 기반)에 맞춰 주기적으로 리밸런싱하는 자산 배분 전략을 시뮬레이션
+ */
+
+import { HistoricalData, HistoricalDataItem } from '../../types/stock';
+import {
+  AssetAllocation,
+  MomentumScoreMethod,
+  PeriodUnit,
+  Strategy,
+} from '../../types/strategy';
+import {
+  AllocationBacktestResult,
+  BacktestOptions,
+  BacktestTrade,
+  EquityPoint,
+  ExitReason,
+  OpenPosition,
+  RebalanceRecord,
+} from '../../types/backtest';
+import { sanitizeBars } from './backtest-engine';
+import { buildCalendar, getUnrealizedPnl, summarizeAttribution } from './portfolio-engine';
+import {
+  applySlippage,
+  calculateCommission,
+  calculateExitFill,
+  createClosedTrade,
+  getAffordableQuantity,
+  resolveCostModel,
+} from './costs';
+import { applyCorporateActions, applyPriceMode } from './price-mode';
+import { SIMULATION_CHUNK_SIZE, Simulation, runSimulation } from './job-control';
+import { FxConversion } from '../../types/currency';
+import { resolveFxRates, resolveValuationCurrency } from '../fx';
+
+/**
+ * 기본 자산 배분 백테스트 옵션 (비용 모델은 전략 설정을 따르고, 매매 시작일은 첫 거래일)
+ */
+const DEFAULT_OPTIONS: Required<Omit<BacktestOptions, 'costModel' | 'startDate'>> = {
+  fillPrice: 'nextOpen',
+  allowFractionalShares: false,
+  closeAtEnd: true,
+  priceMode: 'splitAdjusted',
+  dividendMode: 'reinvest',
+};
+
+/**
+ * 수량이 0으로 간주되는 한계 (소수점 수량 계산 오차)
+ */
+const QUANTITY_EPSILON = 1e-9;
+
+/**
+ * 목표 배분
+ */
+export interface TargetAllocation {
+  regime: RebalanceRecord['regime'];
+  weights: Record<string, number>; // 종목별 목표 비중 (0~1, 합계가 1 미만이면 나머지는 현금)
+}
+
+/**
+ * 종목별 시뮬레이션 상태
+ */
+interface AssetState {
+  symbol: string;
+  currency: string;
+  bars: HistoricalDataItem[];
+  fxRates: number[] | null;     // 봉별 기준 통화 환율 (환산하지 않으면 null)
+  indexByDate: Map<string, number>;
+  monthEnds: number[];          // 월별 마지막 봉 인덱스 (오름차순)
+  lastIndex: number;            // 마지막으로 처리한 봉 (처리 전이면 -1)
+  position: OpenPosition | null; // 평균 단가(거래 비용 포함) 기준 보유 포지션
+  heldBars: number;             // 통합 달력 기준 보유 봉 수
+}
+
+/**
+ * 월 키 (연 × 12 + 월)
+ */
+function getMonthKey(date: string): number {
+  return Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+}
+
+/**
+ * 리밸런싱 기간 키 (같은 키의 봉은 같은 기간)
+ * 주 단위는 해당 주 월요일 날짜를 키로 사용
+ */
+export function getPeriodKey(date: string, unit: PeriodUnit): string {
+  if (unit === PeriodUnit.DAY) return date;
+  if (unit === PeriodUnit.MONTH) return date.slice(0, 7);
+
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * 자산 배분 전략에 필요한 종목 목록 (중복 제거, 입력 순서 유지)
+ */
+export function getAllocationSymbols(allocation: AssetAllocation): string[] {
+  const symbols = allocation.mode === 'static'
+    ? allocation.assets.map(asset => asset.symbol)
+    : [
+        ...allocation.canary,
+        ...allocation.offensive,
+        ...allocation.defensive,
+        ...(allocation.cashSymbol ? [allocation.cashSymbol] : []),
+      ];
+
+  return Array.from(new Set(symbols.map(symbol => symbol.trim()).filter(Boolean)));
+}
+
+/**
+ * 월별 마지막 봉 인덱스 목록
+ */
+function getMonthEndIndices(bars: HistoricalDataItem[]): number[] {
+  const indices: number[] = [];
+  bars.forEach((bar, i) => {
+    const next = bars[i + 1];
+    if (!next || getMonthKey(next.date) !== getMonthKey(bar.date)) {
+      indices.push(i);
+    }
+  });
+  return indices;
+}
+
+/**
+ * 현재 봉이 속한 달의 n개월 전 월말 종가
+ * 해당 월에 봉이 없으면 그 이전 마지막 월말 종가를 사용
+ * @returns 데이터가 없으면 null
+ */
+function getCloseMonthsAgo(state: AssetState, index: number, months: number): number | null {
+  const target = getMonthKey(state.bars[index].date) - months;
+  let low = 0;
+  let high = state.monthEnds.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (getMonthKey(state.bars[state.monthEnds[mid]].date) <= target) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return found >= 0 ? state.bars[state.monthEnds[found]].close : null;
+}
+
+/**
+ * 모멘텀 점수 계산 (현재 봉 종가와 과거 월말 종가 기준)
+ * @returns 12개월 이상의 데이터가 없으면 null
+ */
+function calculateMomentumScore(
+  state: AssetState,
+  index: number,
+  method: MomentumScoreMethod
+): number | null {
+  const current = state.bars[index].close;
+  const past = (months: number) => getCloseMonthsAgo(state, index, months);
+
+  if (method === 'return12') {
+    const p12 = past(12);
+    return p12 ? current / p12 - 1 : null;
+  }
+
+  if (method === 'sma12') {
+    const closes = [current];
+    for (let months = 1; months <= 12; months++) {
+      const close = past(months);
+      if (!close) return null;
+      closes.push(close);
+    }
+    const average = closes.reduce((sum, close) => sum + close, 0) / closes.length;
+    return current / average - 1;
+  }
+
+  const [p1, p3, p6, p12] = [1, 3, 6, 12].map(past);
+  if (!p1 || !p3 || !p6 || !p12) return null;
+
+  return 12 * (current / p1 - 1) + 4 * (current / p3 - 1) + 2 * (current / p6 - 1) + (current / p12 - 1);
+}
+
+/**
+ * 목표 비중 계산
+ *
+ * - static: 자산별 고정 비중
+ * - momentum: 카나리아 자산 중 하나라도 점수가 음수이면 수비, 아니면 공격 자산에서
+ *   선택 점수 상위 N개를 동일 비중으로 보유
+ * - 수비 시 cashSymbol보다 점수가 낮은 자산은 cashSymbol로 대체
+ *
+ * @param allocation 자산 배분 설정
+ * @param getScore 종목과 점수 방식으로 현재 모멘텀 점수 조회 (계산 불가 시 null)
+ * @returns 목표 배분, 필요한 점수를 계산할 수 없으면 null
+ */
+export function computeTargetWeights(
+  allocation: AssetAllocation,
+  getScore: (symbol: string, method: MomentumScoreMethod) => number | null
+): TargetAllocation | null {
+  if (allocation.mode === 'static') {
+    const weights: Record<string, number> = {};
+    allocation.assets.forEach(asset => {
+      weights[asset.symbol] = (weights[asset.symbol] ?? 0) + asset.weight / 100;
+    });
+    return { regime: 'static', weights };
+  }
+
+  const canaryScores = allocation.canary.map(symbol => getScore(symbol, allocation.canaryScore));
+  if (canaryScores.some(score => score === null)) return null;
+
+  const isDefensive = canaryScores.some(score => (score as number) < 0);
+  const candidates = isDefensive ? allocation.defensive : allocation.offensive;
+  const topN = Math.max(
+    1,
+    Math.min(candidates.length, Math.floor(isDefensive ? allocation.defensiveTopN : allocation.offensiveTopN))
+  );
+
+  const scored = candidates.map((symbol, order) => ({
+    symbol,
+    order,
+    score: getScore(symbol, allocation.selectionScore),
+  }));
+  if (scored.some(item => item.score === null)) return null;
+
+  let cashScore: number | null = null;
+  if (isDefensive && allocation.cashSymbol) {
+    cashScore = getScore(allocation.cashSymbol, allocation.selectionScore);
+    if (cashScore === null) return null;
+  }
+
+  const weights: Record<string, number> = {};
+  scored
+    .sort((a, b) => (b.score as number) - (a.score as number) || a.order - b.order)
+    .slice(0, topN)
+    .forEach(({ symbol, score }) => {
+      const target = cashScore !== null && (score as number) < cashScore
+        ? allocation.cashSymbol as string
+        : symbol;
+      weights[target] = (weights[target] ?? 0) + 1 / topN;
+    });
+
+  return { regime: isDefensive ? 'defensive' : 'offensive', weights };
+}
+
+/**
+ * 자산 배분 백테스트 실행
+ *
+ * - 리밸런싱 기간(일/주/월)의 마지막 봉 종가에서 목표 비중을 계산하고 rebalanceInterval 기간마다 실행
+ * - 첫 배분은 필요한 데이터(모멘텀 점수 등)가 모두 준비된 첫 기간 말에 실행하며 그 전까지는 현금 보유
+ * - 매매는 nextOpen이면 다음 봉 시가, close이면 같은 봉 종가에 체결 (매도 먼저, 매수는 비중 큰 순)
+ * - 체결일에 거래가 없는 종목(휴장 등)은 비중을 조정하지 않고 다음 리밸런싱까지 유지
+ * - cashBuffer(%)만큼은 투자하지 않고 현금으로 보유
+ * - 체결 가격에 슬리피지를 반영하고, 수수료와 매도 거래세는 현금에서 차감 (진입 수수료는 매도 수량 비율만큼 거래 손익에 반영)
+ * - 가격 기준에 따라 봉을 변환하며, 모멘텀 점수도 변환된 가격으로 계산
+ * - 환산 설정이 없으면 모든 종목의 통화가 같아야 하며, 있으면 모멘텀 점수와 체결 가격, 수수료/거래세는
+ *   현지 통화로 계산하고 현금 흐름, 목표 비중, 자산 평가만 해당 봉의 환율로 기준 통화로 환산
+ *
+ * @param strategy 실행할 전략 (allocation 설정 필요)
+ * @param datasets 배분 대상 종목별 과거 주가 데이터
+ * @param options 실행 옵션
+ * @param fx 통화가 다른 종목을 기준 통화로 합산할 때의 환율
+ * @returns 통합 자산 곡선, 비중 축소 거래 내역, 리밸런싱 기록, 종목별 성과 기여
+ */
+export function runAllocationBacktest(
+  strategy: Pick<Strategy, 'moneyManagement' | 'allocation' | 'costModel'>,
+  datasets: HistoricalData[],
+  options: BacktestOptions = {},
+  fx?: FxConversion
+): AllocationBacktestResult {
+  return runSimulation(simulateAllocationBacktest(strategy, datasets, options, fx));
+}
+
+/**
+ * 자산 배분 백테스트 시뮬레이션
+ * 통합 달력 SIMULATION_CHUNK_SIZE 봉마다 진행 단계를 내보냄 (전체 단위: 통합 달력 봉 수)
+ */
+export function* simulateAllocationBacktest(
+  strategy: Pick<Strategy, 'moneyManagement' | 'allocation' | 'costModel'>,
+  datasets: HistoricalData[],
+  options: BacktestOptions = {},
+  fx?: FxConversion
+): Simulation<AllocationBacktestResult> {
+  const allocation = strategy.allocation;
+  if (!allocation) {
+    throw new Error('자산 배분 설정이 없는 전략입니다.');
+  }
+
+  const { fillPrice, allowFractionalShares, closeAtEnd, priceMode, dividendMode } = { ...DEFAULT_OPTIONS, ...options };
+  const initialCapital = strategy.moneyManagement.initialCapital;
+  const costModel = resolveCostModel(strategy, options);
+  const investRatio = 1 - Math.min(100, Math.max(0, allocation.cashBuffer ?? 0)) / 100;
+  const rebalanceInterval = Math.max(1, Math.floor(allocation.rebalanceInterval || 1));
+  const currency = resolveValuationCurrency(datasets.map(dataset => dataset.currency), fx);
+
+  const states: AssetState[] = datasets.map(dataset => {
+    const bars = applyPriceMode(sanitizeBars(dataset.data), { priceMode, dividendMode });
+    return {
+      symbol: dataset.symbol,
+      currency: dataset.currency,
+      bars,
+      fxRates: resolveFxRates(dataset.currency, bars.map(bar => bar.date), fx),
+      indexByDate: new Map(bars.map((bar, i) => [bar.date, i])),
+      monthEnds: getMonthEndIndices(bars),
+      lastIndex: -1,
+      position: null,
+      heldBars: 0,
+    };
+  });
+  const stateBySymbol = new Map(states.map(state => [state.symbol, state]));
+
+  const missing = getAllocationSymbols(allocation).filter(symbol => !stateBySymbol.has(symbol));
+  if (missing.length > 0) {
+    throw new Error(`가격 데이터가 없는 자산이 있습니다: ${missing.join(', ')}`);
+  }
+
+  // 매매 시작일 이전 날짜는 지표 계산에만 사용
+  const calendar = buildCalendar(states.map(s => s.bars))
+    .filter(date => !options.startDate || date >= options.startDate);
+
+  let cash = initialCapital;
+  let dividendIncome = 0;
+  let totalCost = 0;
+  let tradeSequence = 0;
+  let skippedSignals = 0;
+  let firstAllocationIndex: number | null = null;
+  let periodsSinceRebalance = 0;
+  let pending: TargetAllocation | null = null;
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+  const rebalances: RebalanceRecord[] = [];
+
+  /**
+   * 현지 통화 금액을 해당 봉 환율로 기준 통화로 환산
+   */
+  const toBase = (state: AssetState, index: number, amount: number): number =>
+    state.fxRates ? amount * state.fxRates[index] : amount;
+
+  /**
+   * 보유 포지션 평가금액 (각 종목의 마지막 처리 봉 종가 기준)
+   */
+  const getPositionValue = (): number =>
+    states.reduce((sum, s) => {
+      if (!s.position || s.lastIndex < 0) return sum;
+      return sum + toBase(s, s.lastIndex, s.position.quantity * s.bars[s.lastIndex].close);
+    }, 0);
+
+  /**
+   * 보유 수량 일부 또는 전부 매도 (평균 단가 기준 손익을 거래로 기록)
+   * @param price 슬리피지 적용 전 기준 가격
+   * @returns 거래 비용 (수수료 + 거래세, 기준 통화)
+   */
+  const sell = (state: AssetState, index: number, quantity: number, price: number, reason: ExitReason): number => {
+    const position = state.position;
+    if (!position || quantity <= 0) return 0;
+
+    // 진입 수수료/슬리피지는 매도 수량 비율만큼 배분
+    const ratio = Math.min(1, quantity / position.quantity);
+    const entryCommission = position.entryCommission * ratio;
+    const entrySlippage = position.entrySlippage * ratio;
+    const entryCostBase = (position.entryCostBase ?? 0) * ratio;
+    const fill = calculateExitFill(state.symbol, price, quantity, costModel);
+    const proceeds = toBase(state, index, quantity * fill.price - fill.commission - fill.tax);
+    cash += proceeds;
+
+    const trade = createClosedTrade(
+      { ...position, id: `${state.symbol}-${++tradeSequence}`, quantity, entryCommission, entrySlippage },
+      state.bars[index].date,
+      index,
+      fill,
+      reason
+    );
+    trades.push(state.fxRates
+      ? { ...trade, fxRate: state.fxRates[index], basePnl: proceeds - entryCostBase }
+      : trade);
+
+    position.quantity -= quantity;
+    position.entryCommission -= entryCommission;
+    position.entrySlippage -= entrySlippage;
+    if (state.fxRates) {
+      position.entryCostBase = (position.entryCostBase ?? 0) - entryCostBase;
+    }
+    if (position.quantity <= QUANTITY_EPSILON) {
+      state.position = null;
+    }
+    return toBase(state, index, fill.commission + fill.tax);
+  };
+
+  /**
+   * 매수 (기존 보유분과 평균 단가로 합산, 수수료는 청산 시 손익에 반영하도록 별도 누적)
+   * @param price 슬리피지 적용 전 기준 가격
+   * @returns 거래 비용 (수수료, 기준 통화)
+   */
+  const buy = (state: AssetState, index: number, quantity: number, price: number): number => {
+    if (quantity <= 0) return 0;
+
+    const fillPrice = applySlippage(state.symbol, price, 'buy', costModel);
+    const gross = quantity * fillPrice;
+    const commission = calculateCommission(gross, costModel);
+    const slippage = quantity * (fillPrice - price);
+    const cost = toBase(state, index, gross + commission);
+    cash -= cost;
+
+    if (state.position) {
+      const position = state.position;
+      const totalQuantity = position.quantity + quantity;
+      position.entryPrice = (position.quantity * position.entryPrice + gross) / totalQuantity;
+      position.quantity = totalQuantity;
+      position.highestPrice = Math.max(position.highestPrice, fillPrice);
+      position.entryCommission += commission;
+      position.entrySlippage += slippage;
+      if (state.fxRates) {
+        position.entryCostBase = (position.entryCostBase ?? 0) + cost;
+      }
+    } else {
+      state.position = {
+        id: `${state.symbol}-${tradeSequence + 1}`,
+        symbol: state.symbol,
+        entryDate: state.bars[index].date,
+        entryIndex: index,
+        entryPrice: fillPrice,
+        quantity,
+        highestPrice: fillPrice,
+        entryCommission: commission,
+        entrySlippage: slippage,
+        ...(state.fxRates ? { entryCostBase: cost } : {}),
+      };
+    }
+    return toBase(state, index, commission);
+  };
+
+  /**
+   * 목표 비중으로 리밸런싱 실행
+   * @param date 체결일
+   * @param priceField 체결 가격 (시가 또는 종가)
+   */
+  const rebalance = (target: TargetAllocation, date: string, priceField: 'open' | 'close'): void => {
+    const tradable = states
+      .filter(state => state.indexByDate.has(date))
+      .map(state => {
+        const index = state.indexByDate.get(date) as number;
+        const price = state.bars[index][priceField];
+        return { state, index, price, basePrice: toBase(state, index, price) };
+      });
+    const basePriceBySymbol = new Map(tradable.map(item => [item.state.symbol, item.basePrice]));
+
+    // 체결 가격 기준 총 자산 (거래 없는 종목은 마지막 종가)
+    const totalEquity = cash + states.reduce((sum, state) => {
+      if (!state.position) return sum;
+      const basePrice = basePriceBySymbol.get(state.symbol) ??
+        toBase(state, state.lastIndex, state.bars[state.lastIndex].close);
+      return sum + state.position.quantity * basePrice;
+    }, 0);
+    const investable = totalEquity * investRatio;
+
+    const orders = tradable.map(item => {
+      const targetValue = investable * (target.weights[item.state.symbol] ?? 0);
+      const rawQuantity = targetValue / item.basePrice;
+      const targetQuantity = allowFractionalShares ? rawQuantity : Math.floor(rawQuantity);
+      return { ...item, delta: targetQuantity - (item.state.position?.quantity ?? 0) };
+    });
+
+    // 거래가 없어 조정하지 못한 목표 비중
+    skippedSignals += states.filter(state => {
+      const shouldHold = (target.weights[state.symbol] ?? 0) > 0;
+      return !basePriceBySymbol.has(state.symbol) && shouldHold !== (state.position !== null);
+    }).length;
+
+    let turnover = 0;
+    let cost = 0;
+
+    orders
+      .filter(order => order.delta < -QUANTITY_EPSILON)
+      .forEach(order => {
+        const quantity = Math.min(-order.delta, order.state.position?.quantity ?? 0);
+        turnover += quantity * order.basePrice;
+        cost += sell(order.state, order.index, quantity, order.price, 'REBALANCE');
+      });
+
+    orders
+      .filter(order => order.delta > QUANTITY_EPSILON)
+      .sort((a, b) => (target.weights[b.state.symbol] ?? 0) - (target.weights[a.state.symbol] ?? 0))
+      .forEach(order => {
+        const fillPrice = applySlippage(order.state.symbol, order.price, 'buy', costModel);
+        const localCash = Math.max(0, cash) / (order.state.fxRates ? order.state.fxRates[order.index] : 1);
+        const affordable = getAffordableQuantity(localCash, fillPrice, costModel, allowFractionalShares);
+        const quantity = Math.min(order.delta, affordable);
+        turnover += Math.max(0, quantity) * order.basePrice;
+        cost += buy(order.state, order.index, quantity, order.price);
+      });
+
+    totalCost += cost;
+    rebalances.push({
+      date,
+      regime: target.regime,
+      weights: Object.fromEntries(
+        Object.entries(target.weights).map(([symbol, weight]) => [symbol, weight * investRatio * 100])
+      ),
+      turnover,
+      cost,
+    });
+  };
+
+  /**
+   * 현재 봉 기준 모멘텀 점수 조회
+   */
+  const getScore = (symbol: string, method: MomentumScoreMethod): number | null => {
+    const state = stateBySymbol.get(symbol);
+    if (!state || state.lastIndex < 0) return null;
+    return calculateMomentumScore(state, state.lastIndex, method);
+  };
+
+  for (let calendarIndex = 0; calendarIndex < calendar.length; calendarIndex++) {
+    if (calendarIndex > 0 && calendarIndex % SIMULATION_CHUNK_SIZE === 0) {
+      yield { completed: calendarIndex, total: calendar.length };
+    }
+
+    const date = calendar[calendarIndex];
+    const isLastDate = calendarIndex === calendar.length - 1;
+
+    // 0. 배당락/분할일 보유 포지션 조정 (시가 체결 전)
+    states.forEach(state => {
+      const index = state.indexByDate.get(date);
+      if (!state.position || index === undefined) return;
+      const dividend = toBase(state, index, applyCorporateActions(state.position, state.bars[index]));
+      cash += dividend;
+      dividendIncome += dividend;
+    });
+
+    // 1. 대기 중인 리밸런싱 시가 체결
+    if (pending) {
+      rebalance(pending, date, 'open');
+      pending = null;
+    }
+
+    states.forEach(state => {
+      const index = state.indexByDate.get(date);
+      if (index !== undefined) state.lastIndex = index;
+    });
+
+    // 2. 기간 말 리밸런싱 판단 (마지막 봉은 체결할 수 없으므로 제외)
+    const isPeriodEnd = !isLastDate &&
+      getPeriodKey(calendar[calendarIndex + 1], allocation.rebalancePeriod) !==
+        getPeriodKey(date, allocation.rebalancePeriod);
+
+    if (isPeriodEnd) {
+      periodsSinceRebalance++;
+
+      if (firstAllocationIndex === null || periodsSinceRebalance >= rebalanceInterval) {
+        const target = computeTargetWeights(allocation, getScore);
+
+        if (target) {
+          if (firstAllocationIndex === null) firstAllocationIndex = calendarIndex;
+          periodsSinceRebalance = 0;
+
+          if (fillPrice === 'close') {
+            rebalance(target, date, 'close');
+          } else {
+            pending = target;
+          }
+        }
+      }
+    }
+
+    // 3. 종료 시 보유 포지션 청산 (각 종목의 마지막 종가)
+    if (isLastDate && closeAtEnd) {
+      states.forEach(state => {
+        if (state.position && state.lastIndex >= 0) {
+          totalCost += sell(
+            state,
+            state.lastIndex,
+            state.position.quantity,
+            state.bars[state.lastIndex].close,
+            'END_OF_DATA'
+          );
+        }
+      });
+    }
+
+    // 4. 통합 달력 기준 자산 평가
+    states.forEach(state => {
+      if (state.position) state.heldBars++;
+    });
+
+    const positionValue = getPositionValue();
+    const totalEquity = cash + positionValue;
+
+    equity.push({
+      date,
+      equity: totalEquity,
+      cash,
+      positionValue,
+      exposure: totalEquity > 0 ? positionValue / totalEquity : 0,
+      openPositions: states.filter(s => s.position).length,
+    });
+  }
+
+  const openPositions = states
+    .map(s => s.position)
+    .filter((p): p is OpenPosition => p !== null);
+
+  const attribution = states.map(state =>
+    summarizeAttribution(
+      state.symbol,
+      state.currency,
+      state.bars.length,
+      trades.filter(t => t.symbol === state.symbol),
+      getUnrealizedPnl(state.position, state.bars, state.lastIndex, state.fxRates),
+      state.heldBars,
+      calendar.length,
+      initialCapital
+    )
+  );
+
+  trades.sort((a, b) => a.exitDate.localeCompare(b.exitDate));
+
+  return {
+    symbol: states.map(s => s.symbol).join(', '),
+    symbols: states.map(s => s.symbol),
+    interval: datasets[0]?.interval ?? '1d',
+    currency,
+    startDate: calendar[0] ?? null,
+    endDate: calendar[calendar.length - 1] ?? null,
+    initialCapital,
+    finalEquity: equity[equity.length - 1]?.equity ?? initialCapital,
+    trades,
+    equity,
+    openPositions,
+    warmupBars: firstAllocationIndex ?? calendar.length,
+    dividendIncome,
+    attribution,
+    skippedSignals,
+    rebalances,
+    totalCost,
+  };
+}
@@ -0,0 +1,300 @@
+/**
+ * 단일 종목 백테스트 엔진
+ * 전략의 매매 신호와 자금 관리 설정으로 과거 데이터에서 매매를 시뮬레이션
+ */
+
+import { HistoricalData, HistoricalDataItem } from '../../types/stock';
+import { Strategy, MoneyManagement, SignalType } from '../../types/strategy';
+import {
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  EquityPoint,
+  ExitReason,
+  OpenPosition,
+} from '../../types/backtest';
+import { generateSignals } from './signal-evaluator';
+import { calculateEntryFill, calculateExitFill, createClosedTrade, resolveCostModel } from './costs';
+import { applyCorporateActions, applyPriceMode } from './price-mode';
+import { SIMULATION_CHUNK_SIZE, Simulation, runSimulation } from './job-control';
+
+/**
+ * 기본 백테스트 옵션 (비용 모델은 전략 설정을 따르고, 매매 시작일은 첫 봉)
+ */
+const DEFAULT_OPTIONS: Required<Omit<BacktestOptions, 'costModel' | 'startDate'>> = {
+  fillPrice: 'nextOpen',
+  allowFractionalShares: false,
+  closeAtEnd: true,
+  priceMode: 'splitAdjusted',
+  dividendMode: 'reinvest',
+};
+
+/**
+ * 유효한 가격 데이터만 추출
+ * Yahoo Finance 응답에는 가격이 비어 있는 봉이 포함될 수 있음
+ */
+export function sanitizeBars(data: HistoricalDataItem[]): HistoricalDataItem[] {
+  return data.filter(item =>
+    [item.open, item.high, item.low, item.close].every(
+      value => typeof value === 'number' && Number.isFinite(value) && value > 0
+    )
+  );
+}
+
+/**
+ * 비율(%) 설정이 활성화되어 있는지 확인 (0 또는 미설정은 사용 안 함)
+ */
+function isEnabled(percent?: number): percent is number {
+  return typeof percent === 'number' && Number.isFinite(percent) && percent > 0;
+}
+
+/**
+ * 봉 내 손절/익절/트레일링 스탑 체결 확인
+ * 같은 봉에서 손절과 익절이 모두 가능하면 보수적으로 손절이 먼저 체결된 것으로 처리
+ * @returns 체결 가격과 사유, 체결되지 않으면 null
+ */
+export function checkProtectiveExit(
+  position: OpenPosition,
+  bar: HistoricalDataItem,
+  moneyManagement: MoneyManagement,
+  isEntryBar: boolean
+): { price: number; reason: ExitReason } | null {
+  let stopPrice: number | null = null;
+  let stopReason: ExitReason = 'STOP_LOSS';
+
+  if (isEnabled(moneyManagement.stopLoss)) {
+    stopPrice = position.entryPrice * (1 - moneyManagement.stopLoss / 100);
+  }
+
+  if (isEnabled(moneyManagement.trailingStop)) {
+    const trailingPrice = position.highestPrice * (1 - moneyManagement.trailingStop / 100);
+    if (stopPrice === null || trailingPrice > stopPrice) {
+      stopPrice = trailingPrice;
+      stopReason = 'TRAILING_STOP';
+    }
+  }
+
+  if (stopPrice !== null) {
+    // 진입 봉이 아닌 경우 시가 갭으로 스탑 가격을 뚫으면 시가에 체결
+    if (!isEntryBar && bar.open <= stopPrice) {
+      return { price: bar.open, reason: stopReason };
+    }
+    if (bar.low <= stopPrice) {
+      return { price: stopPrice, reason: stopReason };
+    }
+  }
+
+  if (isEnabled(moneyManagement.takeProfit)) {
+    const targetPrice = position.entryPrice * (1 + moneyManagement.takeProfit / 100);
+    if (!isEntryBar && bar.open >= targetPrice) {
+      return { price: bar.open, reason: 'TAKE_PROFIT' };
+    }
+    if (bar.high >= targetPrice) {
+      return { price: targetPrice, reason: 'TAKE_PROFIT' };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 단일 종목 백테스트 실행
+ *
+ * - 신호는 봉 종가 기준으로 판단하며 기본적으로 다음 봉 시가에 체결 (미래 데이터 참조 방지)
+ * - 진입 시 현재 총 자산의 positionSizing(%)만큼 매수하며 현금을 초과할 수 없음
+ * - maxPositions까지 분할 진입 가능하며, 추가 진입은 매수 신호가 새로 발생한 봉에서만 수행
+ * - 매도 신호 시 보유 포지션 전체 청산, 손절/익절/트레일링 스탑은 진입 단위별로 봉 내 고가/저가로 판단
+ * - 모든 체결에 비용 모델의 슬리피지를 반영하고, 수수료와 매도 거래세는 현금과 거래 손익에서 차감
+ * - startDate가 있으면 이전 봉은 지표 계산에만 사용하고 자산 곡선과 매매는 startDate부터 시작
+ * - 가격 기준에 따라 봉을 변환하고, 분할일에는 보유 수량을 조정하며 현금 배당은 배당락일 시가 전에 지급
+ *
+ * @param strategy 실행할 전략
+ * @param historicalData 과거 주가 데이터
+ * @param options 실행 옵션
+ * @returns 거래 내역과 봉별 자산 현황
+ */
+export function runBacktest(
+  strategy: Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel'>,
+  historicalData: HistoricalData,
+  options: BacktestOptions = {}
+): BacktestResult {
+  return runSimulation(simulateBacktest(strategy, historicalData, options));
+}
+
+/**
+ * 단일 종목 백테스트 시뮬레이션
+ * 신호 계산 후, 그리고 SIMULATION_CHUNK_SIZE 봉마다 진행 단계를 내보냄 (전체 단위: 신호 계산 1 + 봉 수)
+ */
+export function* simulateBacktest(
+  strategy: Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel'>,
+  historicalData: HistoricalData,
+  options: BacktestOptions = {}
+): Simulation<BacktestResult> {
+  const { fillPrice, allowFractionalShares, closeAtEnd, priceMode, dividendMode } = { ...DEFAULT_OPTIONS, ...options };
+  const costModel = resolveCostModel(strategy, options);
+  const moneyManagement = strategy.moneyManagement;
+  const maxPositions = Math.max(1, Math.floor(moneyManagement.maxPositions || 1));
+  const symbol = historicalData.symbol;
+
+  const bars = applyPriceMode(sanitizeBars(historicalData.data), { priceMode, dividendMode });
+  const signals = generateSignals(strategy, bars);
+  const totalSteps = bars.length + 1;
+  yield { completed: 1, total: totalSteps };
+
+  let cash = moneyManagement.initialCapital;
+  let dividendIncome = 0;
+  let positions: OpenPosition[] = [];
+  let tradeCount = 0;
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+
+  // 대기 주문 (nextOpen 체결 방식에서 다음 봉 시가에 처리)
+  let pendingBuy = false;
+  let pendingSell = false;
+
+  /**
+   * 보유 포지션 평가금액
+   */
+  const getPositionValue = (price: number): number =>
+    positions.reduce((sum, p) => sum + p.quantity * price, 0);
+
+  /**
+   * 포지션 청산
+   */
+  const closePosition = (
+    position: OpenPosition,
+    index: number,
+    price: number,
+    reason: ExitReason
+  ): void => {
+    const fill = calculateExitFill(symbol, price, position.quantity, costModel);
+    cash += position.quantity * fill.price - fill.commission - fill.tax;
+
+    trades.push(createClosedTrade(position, bars[index].date, index, fill, reason));
+
+    positions = positions.filter(p => p !== position);
+  };
+
+  /**
+   * 신규 포지션 진입
+   */
+  const openPosition = (index: number, price: number): void => {
+    if (positions.length >= maxPositions) return;
+
+    const totalEquity = cash + getPositionValue(price);
+    const budget = Math.min(cash, totalEquity * (moneyManagement.positionSizing / 100));
+    const fill = calculateEntryFill(symbol, price, budget, costModel, allowFractionalShares);
+
+    if (!fill) return;
+
+    cash -= fill.quantity * fill.price + fill.commission;
+    tradeCount++;
+    positions.push({
+      id: `${symbol}-${tradeCount}`,
+      symbol,
+      entryDate: bars[index].date,
+      entryIndex: index,
+      entryPrice: fill.price,
+      quantity: fill.quantity,
+      highestPrice: fill.price,
+      entryCommission: fill.commission,
+      entrySlippage: fill.slippage,
+    });
+  };
+
+  /**
+   * 신호에 따른 주문 처리 (청산 우선)
+   */
+  const executeOrders = (index: number, price: number, buy: boolean, sell: boolean): void => {
+    if (sell) {
+      [...positions].forEach(p => closePosition(p, index, price, 'SIGNAL'));
+    }
+    if (buy) {
+      openPosition(index, price);
+    }
+  };
+
+  for (let index = 0; index < bars.length; index++) {
+    if (index > 0 && index % SIMULATION_CHUNK_SIZE === 0) {
+      yield { completed: index + 1, total: totalSteps };
+    }
+
+    const bar = bars[index];
+    if (options.startDate && bar.date < options.startDate) continue;
+
+    // 0. 배당락/분할일 보유 포지션 조정 (시가 체결 전)
+    positions.forEach(position => {
+      const dividend = applyCorporateActions(position, bar);
+      cash += dividend;
+      dividendIncome += dividend;
+    });
+
+    // 1. 전일 신호에 따른 시가 체결
+    if (fillPrice === 'nextOpen' && (pendingBuy || pendingSell)) {
+      executeOrders(index, bar.open, pendingBuy, pendingSell);
+    }
+    pendingBuy = false;
+    pendingSell = false;
+
+    // 2. 봉 내 손절/익절/트레일링 스탑 확인
+    [...positions].forEach(position => {
+      const isEntryBar = position.entryIndex === index;
+      const exit = checkProtectiveExit(position, bar, moneyManagement, isEntryBar);
+
+      if (exit) {
+        closePosition(position, index, exit.price, exit.reason);
+      } else {
+        position.highestPrice = Math.max(position.highestPrice, bar.high);
+      }
+    });
+
+    // 3. 종가 기준 신호 판단
+    const signal = signals.signals[index];
+    const isNewBuySignal = index === 0 || signals.buy[index - 1] !== true;
+    const shouldSell = signal === SignalType.SELL && positions.length > 0;
+    const shouldBuy =
+      signal === SignalType.BUY &&
+      positions.length < maxPositions &&
+      (positions.length === 0 || isNewBuySignal);
+
+    if (fillPrice === 'close') {
+      executeOrders(index, bar.close, shouldBuy, shouldSell);
+    } else {
+      pendingBuy = shouldBuy;
+      pendingSell = shouldSell;
+    }
+
+    // 4. 종가 기준 자산 평가
+    const isLastBar = index === bars.length - 1;
+    if (isLastBar && closeAtEnd) {
+      [...positions].forEach(p => closePosition(p, index, bar.close, 'END_OF_DATA'));
+    }
+
+    const positionValue = getPositionValue(bar.close);
+    const totalEquity = cash + positionValue;
+
+    equity.push({
+      date: bar.date,
+      equity: totalEquity,
+      cash,
+      positionValue,
+      exposure: totalEquity > 0 ? positionValue / totalEquity : 0,
+      openPositions: positions.length,
+    });
+  }
+
+  return {
+    symbol,
+    interval: historicalData.interval,
+    currency: historicalData.currency,
+    startDate: equity[0]?.date ?? null,
+    endDate: bars[bars.length - 1]?.date ?? null,
+    initialCapital: moneyManagement.initialCapital,
+    finalEquity: equity[equity.length - 1]?.equity ?? moneyManagement.initialCapital,
+    trades,
+    equity,
+    openPositions: positions,
+    warmupBars: signals.warmupBars,
+    dividendIncome,
+  };
+}
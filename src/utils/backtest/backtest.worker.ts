@@ -0,0 +1,68 @@
+/**
+ * 백테스트 워커
+ * 백테스트, 최적화, 워크 포워드, 몬테카를로 계산을 화면과 별도의 스레드에서 실행
+ * 작업마다 취소 신호를 두고 cancel 메시지를 받으면 다음 양보 시점에 중단
+ */
+
+import {
+  BacktestJobPartials,
+  BacktestJobKind,
+  BacktestWorkerRequest,
+  BacktestWorkerResponse,
+} from '../../types/backtest-worker';
+import { executeBacktestJob, toJobProgress } from './jobs';
+import { JobCancelledError } from './job-control';
+
+// 실행 중인 작업별 취소 컨트롤러
+const controllers = new Map<string, AbortController>();
+
+/**
+ * 화면으로 메시지 전송
+ */
+const post = (message: BacktestWorkerResponse) => {
+  self.postMessage(message);
+};
+
+/**
+ * 작업 실행
+ */
+const start = async (jobId: string, request: Extract<BacktestWorkerRequest, { type: 'start' }>) => {
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+
+  try {
+    const result = await executeBacktestJob(request.job, {
+      signal: controller.signal,
+      onProgress: (completed, total) => post({ type: 'progress', jobId, progress: toJobProgress(completed, total) }),
+      onPartial: (partial: BacktestJobPartials[BacktestJobKind]) => post({ type: 'partial', jobId, partial }),
+    });
+
+    post({ type: 'result', jobId, result });
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      post({ type: 'cancelled', jobId });
+    } else {
+      console.error('백테스트 워커 작업 오류:', error);
+      post({
+        type: 'error',
+        jobId,
+        message: error instanceof Error ? error.message : '작업을 실행하는 중 문제가 발생했습니다.',
+      });
+    }
+  } finally {
+    controllers.delete(jobId);
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<BacktestWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      start(request.jobId, request);
+      break;
+    case 'cancel':
+      controllers.get(request.jobId)?.abort();
+      break;
+  }
+});
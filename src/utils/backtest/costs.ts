@@ -0,0 +1,228 @@
+/**
+ * 거래 비용 계산
+ * 수수료, 슬리피지, 매도 거래세를 체결 가격과 거래 손익에 반영
+ */
+
+import { CostModel, Strategy, TaxMarket } from '../../types/strategy';
+import { BacktestOptions, BacktestTrade, ExitReason, OpenPosition } from '../../types/backtest';
+import { KRX_TICK_SIZES, NO_COST_MODEL } from '../../constants/cost-model';
+
+/**
+ * 진입 체결 결과
+ */
+export interface EntryFill {
+  price: number;       // 슬리피지가 반영된 체결 가격
+  quantity: number;
+  commission: number;
+  slippage: number;    // 슬리피지로 인한 추가 비용 (금액)
+}
+
+/**
+ * 청산 체결 결과
+ */
+export interface ExitFill {
+  price: number;       // 슬리피지가 반영된 체결 가격
+  commission: number;
+  tax: number;
+  slippage: number;    // 슬리피지로 인한 손실 (금액)
+}
+
+/**
+ * 실행에 적용할 비용 모델 결정 (실행 옵션 > 전략 설정 > 비용 없음)
+ */
+export function resolveCostModel(
+  strategy: Pick<Strategy, 'costModel'>,
+  options: Pick<BacktestOptions, 'costModel'>
+): CostModel {
+  return options.costModel ?? strategy.costModel ?? NO_COST_MODEL;
+}
+
+/**
+ * 비용 모델에 실제로 부과되는 비용이 있는지 확인
+ */
+export function hasCosts(model: CostModel): boolean {
+  return (
+    model.commissionPercent > 0 ||
+    model.commissionFixed > 0 ||
+    model.commissionMin > 0 ||
+    model.slippage > 0 ||
+    Object.values(model.sellTax).some(rate => rate > 0)
+  );
+}
+
+/**
+ * 한국 거래소 종목 여부 (.KS 유가증권, .KQ 코스닥)
+ */
+function isKrxSymbol(symbol: string): boolean {
+  return /\.(KS|KQ)$/i.test(symbol);
+}
+
+/**
+ * 매도 거래세 적용 시장 판별
+ * 거래소 접미사(.T, .HK 등)나 지수(^)/환율·선물(=) 표기가 없는 심볼은 미국 거래소 종목
+ */
+export function getTaxMarket(symbol: string): TaxMarket {
+  if (isKrxSymbol(symbol)) return 'KRX';
+  return /^[A-Z0-9-]+$/i.test(symbol) ? 'US' : 'default';
+}
+
+/**
+ * 호가 단위 조회
+ * 비용 모델에 지정된 값이 우선이며, 없으면 KRX 종목은 가격대별 호가 단위, 그 외 0.01
+ */
+export function getTickSize(symbol: string, price: number, model: CostModel): number {
+  if (model.tickSize && model.tickSize > 0) return model.tickSize;
+  if (!isKrxSymbol(symbol)) return 0.01;
+
+  const [, tick] = KRX_TICK_SIZES.find(([limit]) => price < limit) ?? KRX_TICK_SIZES[KRX_TICK_SIZES.length - 1];
+  return tick;
+}
+
+/**
+ * 슬리피지 적용 (매수는 높게, 매도는 낮게 체결)
+ * 매도 체결 가격은 0 이하로 내려가지 않도록 제한
+ */
+export function applySlippage(
+  symbol: string,
+  price: number,
+  side: 'buy' | 'sell',
+  model: CostModel
+): number {
+  if (model.slippage <= 0) return price;
+
+  const offset = model.slippageUnit === 'ticks'
+    ? model.slippage * getTickSize(symbol, price, model)
+    : price * (model.slippage / 10000);
+
+  return side === 'buy' ? price + offset : Math.max(price - offset, price * 0.01);
+}
+
+/**
+ * 주문당 수수료 계산 (고정 금액 + 체결 금액 × 비율, 최소 수수료 적용)
+ */
+export function calculateCommission(amount: number, model: CostModel): number {
+  if (amount <= 0) return 0;
+  const commission = model.commissionFixed + amount * (model.commissionPercent / 100);
+  return Math.max(commission, model.commissionMin);
+}
+
+/**
+ * 매도 거래세 계산 (종목이 거래되는 시장의 세율 적용)
+ */
+export function calculateSellTax(symbol: string, amount: number, model: CostModel): number {
+  return amount > 0 ? amount * (model.sellTax[getTaxMarket(symbol)] / 100) : 0;
+}
+
+/**
+ * 예산 내에서 수수료를 포함해 매수 가능한 수량 계산
+ * @param budget 매수에 사용할 수 있는 금액 (수수료 포함)
+ * @param price 체결 가격 (슬리피지 반영 후)
+ */
+export function getAffordableQuantity(
+  budget: number,
+  price: number,
+  model: CostModel,
+  allowFractionalShares: boolean
+): number {
+  if (budget <= 0 || price <= 0) return 0;
+
+  const rate = model.commissionPercent / 100;
+  let quantity = Math.max(0, (budget - model.commissionFixed) / (price * (1 + rate)));
+
+  // 비율 수수료가 최소 수수료보다 작으면 최소 수수료 기준으로 재계산
+  if (model.commissionFixed + quantity * price * rate < model.commissionMin) {
+    quantity = Math.max(0, (budget - model.commissionMin) / price);
+  }
+
+  if (!allowFractionalShares) {
+    quantity = Math.floor(quantity);
+    while (quantity > 0 && quantity * price + calculateCommission(quantity * price, model) > budget) {
+      quantity--;
+    }
+  }
+
+  return quantity;
+}
+
+/**
+ * 진입 체결 계산
+ * @param price 슬리피지 적용 전 기준 가격
+ * @param budget 매수에 사용할 수 있는 금액 (수수료 포함)
+ * @returns 체결 결과, 매수 가능한 수량이 없으면 null
+ */
+export function calculateEntryFill(
+  symbol: string,
+  price: number,
+  budget: number,
+  model: CostModel,
+  allowFractionalShares: boolean
+): EntryFill | null {
+  const fillPrice = applySlippage(symbol, price, 'buy', model);
+  const quantity = getAffordableQuantity(budget, fillPrice, model, allowFractionalShares);
+
+  if (quantity <= 0) return null;
+
+  return {
+    price: fillPrice,
+    quantity,
+    commission: calculateCommission(quantity * fillPrice, model),
+    slippage: quantity * (fillPrice - price),
+  };
+}
+
+/**
+ * 청산 체결 계산
+ * @param price 슬리피지 적용 전 기준 가격
+ */
+export function calculateExitFill(
+  symbol: string,
+  price: number,
+  quantity: number,
+  model: CostModel
+): ExitFill {
+  const fillPrice = applySlippage(symbol, price, 'sell', model);
+  const amount = quantity * fillPrice;
+
+  return {
+    price: fillPrice,
+    commission: calculateCommission(amount, model),
+    tax: calculateSellTax(symbol, amount, model),
+    slippage: quantity * (price - fillPrice),
+  };
+}
+
+/**
+ * 청산된 포지션의 거래 기록 생성
+ * 손익은 진입/청산 수수료와 거래세를 차감한 순손익이며, 수익률은 수수료를 포함한 투자 금액 대비
+ */
+export function createClosedTrade(
+  position: OpenPosition,
+  exitDate: string,
+  exitIndex: number,
+  fill: ExitFill,
+  reason: ExitReason
+): BacktestTrade {
+  const invested = position.quantity * position.entryPrice + position.entryCommission;
+  const pnl =
+    position.quantity * (fill.price - position.entryPrice) -
+    position.entryCommission -
+    fill.commission -
+    fill.tax;
+
+  return {
+    id: position.id,
+    symbol: position.symbol,
+    entryDate: position.entryDate,
+    entryPrice: position.entryPrice,
+    exitDate,
+    exitPrice: fill.price,
+    quantity: position.quantity,
+    pnl,
+    returnPercent: invested > 0 ? (pnl / invested) * 100 : 0,
+    barsHeld: exitIndex - position.entryIndex,
+    exitReason: reason,
+    commission: position.entryCommission + fill.commission,
+    tax: fill.tax,
+    slippage: position.entrySlippage + fill.slippage,
+  };
+}
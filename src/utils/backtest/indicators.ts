@@ -0,0 +1,823 @@
+/**
+ * 기술 지표 계산 엔진
+ * HistoricalDataItem 배열과 조건 파라미터로 지표 시계열을 계산
+ */
+
+import { HistoricalDataItem } from '../../types/stock';
+import {
+  IndicatorType,
+  PriceType,
+  ConditionParameter,
+} from '../../types/strategy';
+import { IndicatorResult, IndicatorSeries } from '../../types/indicator';
+
+/**
+ * 숫자 파라미터 값 조회
+ * 파라미터가 없거나 숫자로 변환할 수 없으면 기본값 반환
+ */
+export function getNumberParameter(
+  parameters: ConditionParameter[] | undefined,
+  name: string,
+  defaultValue: number
+): number {
+  const parameter = parameters?.find(p => p.name === name);
+  if (!parameter) return defaultValue;
+
+  const value = Number(parameter.value);
+  return Number.isFinite(value) ? value : defaultValue;
+}
+
+/**
+ * 문자열 파라미터 값 조회
+ */
+export function getStringParameter(
+  parameters: ConditionParameter[] | undefined,
+  name: string,
+  defaultValue: string
+): string {
+  const parameter = parameters?.find(p => p.name === name);
+  if (!parameter || parameter.value === '') return defaultValue;
+
+  return String(parameter.value);
+}
+
+/**
+ * 기간 파라미터 조회 (1 이상의 정수로 보정)
+ */
+function getPeriodParameter(
+  parameters: ConditionParameter[] | undefined,
+  name: string,
+  defaultValue: number
+): number {
+  return Math.max(1, Math.round(getNumberParameter(parameters, name, defaultValue)));
+}
+
+/**
+ * 가격 타입에 해당하는 가격 시계열 추출
+ */
+export function getPriceSeries(
+  data: HistoricalDataItem[],
+  priceType: PriceType | string = PriceType.CLOSE
+): number[] {
+  switch (priceType) {
+    case PriceType.OPEN:
+      return data.map(item => item.open);
+    case PriceType.HIGH:
+      return data.map(item => item.high);
+    case PriceType.LOW:
+      return data.map(item => item.low);
+    case PriceType.ADJ_CLOSE:
+      return data.map(item => item.adjClose ?? item.close);
+    case PriceType.CLOSE:
+    default:
+      return data.map(item => item.close);
+  }
+}
+
+/**
+ * 단순 이동평균 (SMA)
+ * 윈도우 내에 null이 있으면 해당 봉은 null
+ */
+export function sma(values: IndicatorSeries, period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  let sum = 0;
+  let validCount = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      sum = 0;
+      validCount = 0;
+      continue;
+    }
+
+    sum += value;
+    validCount++;
+
+    if (validCount > period) {
+      sum -= values[i - period] as number;
+      validCount = period;
+    }
+
+    if (validCount === period) {
+      result[i] = sum / period;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 지수 이동평균 (EMA)
+ * 첫 값은 period 구간의 SMA로 초기화
+ */
+export function ema(values: IndicatorSeries, period: number): IndicatorSeries {
+  return smoothed(values, period, 2 / (period + 1));
+}
+
+/**
+ * 와일더 이동평균 (RSI, ATR 계산용)
+ */
+export function wilderAverage(values: IndicatorSeries, period: number): IndicatorSeries {
+  return smoothed(values, period, 1 / period);
+}
+
+/**
+ * SMA로 초기화되는 지수 평활 공통 구현
+ */
+function smoothed(values: IndicatorSeries, period: number, alpha: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  let previous: number | null = null;
+  let seedSum = 0;
+  let seedCount = 0;
+
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) {
+      previous = null;
+      seedSum = 0;
+      seedCount = 0;
+      continue;
+    }
+
+    if (previous === null) {
+      seedSum += value;
+      seedCount++;
+      if (seedCount === period) {
+        previous = seedSum / period;
+        result[i] = previous;
+      }
+      continue;
+    }
+
+    previous = previous + alpha * (value - previous);
+    result[i] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * 이동 표준편차 (모표준편차)
+ */
+export function rollingStdDev(values: IndicatorSeries, period: number): IndicatorSeries {
+  const means = sma(values, period);
+
+  return values.map((_, i) => {
+    const mean = means[i];
+    if (mean === null) return null;
+
+    let sumSquares = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const diff = (values[j] as number) - mean;
+      sumSquares += diff * diff;
+    }
+    return Math.sqrt(sumSquares / period);
+  });
+}
+
+/**
+ * 이동 최고값
+ */
+export function rollingHighest(values: IndicatorSeries, period: number): IndicatorSeries {
+  return rollingExtreme(values, period, (a, b) => Math.max(a, b));
+}
+
+/**
+ * 이동 최저값
+ */
+export function rollingLowest(values: IndicatorSeries, period: number): IndicatorSeries {
+  return rollingExtreme(values, period, (a, b) => Math.min(a, b));
+}
+
+/**
+ * 이동 극값 공통 구현
+ */
+function rollingExtreme(
+  values: IndicatorSeries,
+  period: number,
+  pick: (a: number, b: number) => number
+): IndicatorSeries {
+  return values.map((_, i) => {
+    if (i < period - 1) return null;
+
+    let extreme: number | null = null;
+    for (let j = i - period + 1; j <= i; j++) {
+      const value = values[j];
+      if (value === null) return null;
+      extreme = extreme === null ? value : pick(extreme, value);
+    }
+    return extreme;
+  });
+}
+
+/**
+ * 시계열을 n봉 뒤로 밀기 (i번째 값 = i - offset번째 값, 범위 밖은 null)
+ */
+export function shiftSeries(values: IndicatorSeries, offset: number): IndicatorSeries {
+  if (offset <= 0) return values;
+  return values.map((_, i) => (i >= offset ? values[i - offset] : null));
+}
+
+/**
+ * 두 시계열의 원소별 연산 (어느 한쪽이 null이면 null)
+ */
+function combine(
+  a: IndicatorSeries,
+  b: IndicatorSeries,
+  operation: (x: number, y: number) => number
+): IndicatorSeries {
+  return a.map((x, i) => {
+    const y = b[i];
+    return x === null || y === null ? null : operation(x, y);
+  });
+}
+
+/**
+ * 상대강도지수 (RSI, 와일더 방식)
+ */
+export function calculateRSI(values: number[], period: number): IndicatorSeries {
+  const gains: IndicatorSeries = [null];
+  const losses: IndicatorSeries = [null];
+
+  for (let i = 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    gains.push(Math.max(change, 0));
+    losses.push(Math.max(-change, 0));
+  }
+
+  const avgGains = wilderAverage(gains, period);
+  const avgLosses = wilderAverage(losses, period);
+
+  return combine(avgGains, avgLosses, (gain, loss) => {
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+}
+
+/**
+ * MACD (macd / signal / histogram)
+ */
+export function calculateMACD(
+  values: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): Record<'macd' | 'signal' | 'histogram', IndicatorSeries> {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const macd = combine(fast, slow, (f, s) => f - s);
+  const signal = ema(macd, signalPeriod);
+  const histogram = combine(macd, signal, (m, s) => m - s);
+
+  return { macd, signal, histogram };
+}
+
+/**
+ * 볼린저밴드 (upper / middle / lower)
+ */
+export function calculateBollinger(
+  values: number[],
+  period: number,
+  stdDevMultiplier: number
+): Record<'upper' | 'middle' | 'lower', IndicatorSeries> {
+  const middle = sma(values, period);
+  const deviation = rollingStdDev(values, period);
+
+  return {
+    upper: combine(middle, deviation, (m, d) => m + stdDevMultiplier * d),
+    middle,
+    lower: combine(middle, deviation, (m, d) => m - stdDevMultiplier * d),
+  };
+}
+
+/**
+ * 스토캐스틱 (k / d)
+ * k는 원시 %K를 slowing 기간으로 평활한 값, d는 k의 dPeriod 이동평균
+ */
+export function calculateStochastic(
+  data: HistoricalDataItem[],
+  kPeriod: number,
+  dPeriod: number,
+  slowing: number
+): Record<'k' | 'd', IndicatorSeries> {
+  const highest = rollingHighest(getPriceSeries(data, PriceType.HIGH), kPeriod);
+  const lowest = rollingLowest(getPriceSeries(data, PriceType.LOW), kPeriod);
+
+  const rawK: IndicatorSeries = data.map((item, i) => {
+    const high = highest[i];
+    const low = lowest[i];
+    if (high === null || low === null) return null;
+    if (high === low) return 50;
+    return ((item.close - low) / (high - low)) * 100;
+  });
+
+  const k = sma(rawK, slowing);
+  const d = sma(k, dPeriod);
+
+  return { k, d };
+}
+
+/**
+ * OBV (On-Balance Volume)
+ */
+export function calculateOBV(data: HistoricalDataItem[]): IndicatorSeries {
+  const result: IndicatorSeries = [];
+  let obv = 0;
+
+  data.forEach((item, i) => {
+    if (i > 0) {
+      const previousClose = data[i - 1].close;
+      if (item.close > previousClose) obv += item.volume;
+      else if (item.close < previousClose) obv -= item.volume;
+    }
+    result.push(obv);
+  });
+
+  return result;
+}
+
+/**
+ * 실제 변동폭 (True Range)
+ */
+export function calculateTrueRange(data: HistoricalDataItem[]): number[] {
+  return data.map((item, i) => {
+    if (i === 0) return item.high - item.low;
+
+    const previousClose = data[i - 1].close;
+    return Math.max(
+      item.high - item.low,
+      Math.abs(item.high - previousClose),
+      Math.abs(item.low - previousClose)
+    );
+  });
+}
+
+/**
+ * 평균진폭 (ATR, 와일더 방식)
+ */
+export function calculateATR(data: HistoricalDataItem[], period: number): IndicatorSeries {
+  return wilderAverage(calculateTrueRange(data), period);
+}
+
+/**
+ * ADX/DMI (adx / plusDI / minusDI, 와일더 방식)
+ */
+export function calculateADX(
+  data: HistoricalDataItem[],
+  period: number
+): Record<'adx' | 'plusDI' | 'minusDI', IndicatorSeries> {
+  const plusDM: IndicatorSeries = [null];
+  const minusDM: IndicatorSeries = [null];
+  const trueRange: IndicatorSeries = [null, ...calculateTrueRange(data).slice(1)];
+
+  for (let i = 1; i < data.length; i++) {
+    const upMove = data[i].high - data[i - 1].high;
+    const downMove = data[i - 1].low - data[i].low;
+    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  const averageRange = wilderAverage(trueRange, period);
+  const toDI = (dm: IndicatorSeries): IndicatorSeries =>
+    combine(wilderAverage(dm, period), averageRange, (d, tr) => (tr === 0 ? 0 : (d / tr) * 100));
+
+  const plusDI = toDI(plusDM);
+  const minusDI = toDI(minusDM);
+  const dx = combine(plusDI, minusDI, (plus, minus) =>
+    plus + minus === 0 ? 0 : (Math.abs(plus - minus) / (plus + minus)) * 100
+  );
+
+  return { adx: wilderAverage(dx, period), plusDI, minusDI };
+}
+
+/**
+ * 대표가격 ((고가 + 저가 + 종가) / 3)
+ */
+function getTypicalPrices(data: HistoricalDataItem[]): number[] {
+  return data.map(item => (item.high + item.low + item.close) / 3);
+}
+
+/**
+ * CCI (상품채널지수)
+ */
+export function calculateCCI(data: HistoricalDataItem[], period: number): IndicatorSeries {
+  const typical = getTypicalPrices(data);
+  const means = sma(typical, period);
+
+  return typical.map((price, i) => {
+    const mean = means[i];
+    if (mean === null) return null;
+
+    let deviation = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      deviation += Math.abs(typical[j] - mean);
+    }
+    deviation /= period;
+
+    return deviation === 0 ? 0 : (price - mean) / (0.015 * deviation);
+  });
+}
+
+/**
+ * 윌리엄스 %R (-100 ~ 0)
+ */
+export function calculateWilliamsR(data: HistoricalDataItem[], period: number): IndicatorSeries {
+  const highest = rollingHighest(getPriceSeries(data, PriceType.HIGH), period);
+  const lowest = rollingLowest(getPriceSeries(data, PriceType.LOW), period);
+
+  return data.map((item, i) => {
+    const high = highest[i];
+    const low = lowest[i];
+    if (high === null || low === null) return null;
+    if (high === low) return -50;
+    return ((high - item.close) / (high - low)) * -100;
+  });
+}
+
+/**
+ * 돈치안 채널 (upper / middle / lower)
+ * 현재 봉을 포함한 최고/최저가이므로 돌파 조건은 1봉 전 채널과 비교
+ */
+export function calculateDonchian(
+  data: HistoricalDataItem[],
+  period: number
+): Record<'upper' | 'middle' | 'lower', IndicatorSeries> {
+  const upper = rollingHighest(getPriceSeries(data, PriceType.HIGH), period);
+  const lower = rollingLowest(getPriceSeries(data, PriceType.LOW), period);
+
+  return {
+    upper,
+    middle: combine(upper, lower, (u, l) => (u + l) / 2),
+    lower,
+  };
+}
+
+/**
+ * 켈트너 채널 (upper / middle / lower)
+ * 중심선은 종가 EMA, 밴드 폭은 ATR 배수
+ */
+export function calculateKeltner(
+  data: HistoricalDataItem[],
+  period: number,
+  atrPeriod: number,
+  multiplier: number
+): Record<'upper' | 'middle' | 'lower', IndicatorSeries> {
+  const middle = ema(getPriceSeries(data, PriceType.CLOSE), period);
+  const atr = calculateATR(data, atrPeriod);
+
+  return {
+    upper: combine(middle, atr, (m, a) => m + multiplier * a),
+    middle,
+    lower: combine(middle, atr, (m, a) => m - multiplier * a),
+  };
+}
+
+/**
+ * 거래량가중평균가격 (최근 N봉 대표가격을 거래량으로 가중 평균)
+ * 구간 거래량이 0이면 null
+ */
+export function calculateVWAP(data: HistoricalDataItem[], period: number): IndicatorSeries {
+  const typical = getTypicalPrices(data);
+  const result: IndicatorSeries = new Array(data.length).fill(null);
+  let priceVolume = 0;
+  let volume = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    priceVolume += typical[i] * data[i].volume;
+    volume += data[i].volume;
+
+    if (i >= period) {
+      priceVolume -= typical[i - period] * data[i - period].volume;
+      volume -= data[i - period].volume;
+    }
+
+    if (i >= period - 1 && volume > 0) {
+      result[i] = priceVolume / volume;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 변화율 (ROC, N봉 전 대비 %)
+ */
+export function calculateROC(values: number[], period: number): IndicatorSeries {
+  return values.map((value, i) => {
+    if (i < period) return null;
+    const previous = values[i - period];
+    return previous === 0 ? null : ((value - previous) / previous) * 100;
+  });
+}
+
+/**
+ * 모멘텀 (N봉 전 대비 가격 차이)
+ */
+export function calculateMomentum(values: number[], period: number): IndicatorSeries {
+  return values.map((value, i) => (i < period ? null : value - values[i - period]));
+}
+
+/**
+ * 파라볼릭 SAR
+ * 첫 두 봉의 종가 방향으로 추세를 시작하며, 가격이 SAR를 넘으면 추세 전환
+ */
+export function calculateParabolicSAR(
+  data: HistoricalDataItem[],
+  step: number,
+  maxStep: number
+): IndicatorSeries {
+  const result: IndicatorSeries = new Array(data.length).fill(null);
+  if (data.length < 2) return result;
+
+  let isLong = data[1].close >= data[0].close;
+  let sar = isLong ? data[0].low : data[0].high;
+  let extreme = isLong ? data[0].high : data[0].low;
+  let acceleration = step;
+
+  for (let i = 1; i < data.length; i++) {
+    const item = data[i];
+    const previous = data[i - 1];
+    const beforePrevious = data[Math.max(0, i - 2)];
+
+    sar += acceleration * (extreme - sar);
+
+    if (isLong) {
+      // SAR는 직전 두 봉의 저가를 넘을 수 없음
+      sar = Math.min(sar, previous.low, beforePrevious.low);
+
+      if (item.low < sar) {
+        isLong = false;
+        sar = extreme;
+        extreme = item.low;
+        acceleration = step;
+      } else if (item.high > extreme) {
+        extreme = item.high;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    } else {
+      // SAR는 직전 두 봉의 고가 아래로 내려갈 수 없음
+      sar = Math.max(sar, previous.high, beforePrevious.high);
+
+      if (item.high > sar) {
+        isLong = true;
+        sar = extreme;
+        extreme = item.high;
+        acceleration = step;
+      } else if (item.low < extreme) {
+        extreme = item.low;
+        acceleration = Math.min(acceleration + step, maxStep);
+      }
+    }
+
+    result[i] = sar;
+  }
+
+  return result;
+}
+
+/**
+ * 일목균형표 (conversion / base / spanA / spanB)
+ * 선행스팬은 기준선 기간만큼 앞으로 이동시켜 현재 봉에 표시되는 값을 사용 (미래 데이터 미사용)
+ * 후행스팬은 현재 봉 시점에 확정되지 않으므로 제공하지 않음
+ */
+export function calculateIchimoku(
+  data: HistoricalDataItem[],
+  conversionPeriod: number,
+  basePeriod: number,
+  spanBPeriod: number
+): Record<'conversion' | 'base' | 'spanA' | 'spanB', IndicatorSeries> {
+  const highs = getPriceSeries(data, PriceType.HIGH);
+  const lows = getPriceSeries(data, PriceType.LOW);
+  const midpoint = (period: number): IndicatorSeries =>
+    combine(rollingHighest(highs, period), rollingLowest(lows, period), (h, l) => (h + l) / 2);
+
+  const conversion = midpoint(conversionPeriod);
+  const base = midpoint(basePeriod);
+
+  return {
+    conversion,
+    base,
+    spanA: shiftSeries(combine(conversion, base, (c, b) => (c + b) / 2), basePeriod),
+    spanB: shiftSeries(midpoint(spanBPeriod), basePeriod),
+  };
+}
+
+/**
+ * 단일 출력 지표 결과 생성
+ */
+function singleOutput(type: IndicatorType, values: IndicatorSeries): IndicatorResult {
+  return {
+    type,
+    outputs: { value: values },
+    output: 'value',
+    values,
+  };
+}
+
+/**
+ * 다중 출력 지표 결과 생성
+ * 선택된 출력이 유효하지 않으면 첫 번째 출력 사용
+ */
+function multiOutput(
+  type: IndicatorType,
+  outputs: Record<string, IndicatorSeries>,
+  selected: string
+): IndicatorResult {
+  const output = selected in outputs ? selected : Object.keys(outputs)[0];
+
+  return {
+    type,
+    outputs,
+    output,
+    values: outputs[output],
+  };
+}
+
+/**
+ * 지표 계산
+ * @param type 지표 타입
+ * @param data 과거 주가 데이터 (날짜 오름차순)
+ * @param parameters 조건 파라미터
+ * @returns 데이터와 같은 길이로 정렬된 지표 계산 결과
+ */
+export function computeIndicator(
+  type: IndicatorType,
+  data: HistoricalDataItem[],
+  parameters: ConditionParameter[] = []
+): IndicatorResult {
+  const priceType = getStringParameter(parameters, 'priceType', PriceType.CLOSE);
+
+  switch (type) {
+    case IndicatorType.PRICE:
+      return singleOutput(type, getPriceSeries(data, priceType));
+
+    case IndicatorType.VOLUME: {
+      const volume = data.map(item => item.volume);
+      const period = getPeriodParameter(parameters, 'period', 1);
+      return singleOutput(type, period > 1 ? sma(volume, period) : volume);
+    }
+
+    case IndicatorType.MA:
+      return singleOutput(
+        type,
+        sma(getPriceSeries(data, priceType), getPeriodParameter(parameters, 'period', 20))
+      );
+
+    case IndicatorType.EMA:
+      return singleOutput(
+        type,
+        ema(getPriceSeries(data, priceType), getPeriodParameter(parameters, 'period', 12))
+      );
+
+    case IndicatorType.RSI:
+      return singleOutput(
+        type,
+        calculateRSI(getPriceSeries(data, priceType), getPeriodParameter(parameters, 'period', 14))
+      );
+
+    case IndicatorType.MACD:
+      return multiOutput(
+        type,
+        calculateMACD(
+          getPriceSeries(data, priceType),
+          getPeriodParameter(parameters, 'fastPeriod', 12),
+          getPeriodParameter(parameters, 'slowPeriod', 26),
+          getPeriodParameter(parameters, 'signalPeriod', 9)
+        ),
+        getStringParameter(parameters, 'macdPart', 'macd')
+      );
+
+    case IndicatorType.BOLLINGER:
+      return multiOutput(
+        type,
+        calculateBollinger(
+          getPriceSeries(data, priceType),
+          getPeriodParameter(parameters, 'period', 20),
+          getNumberParameter(parameters, 'stdDev', 2)
+        ),
+        getStringParameter(parameters, 'bandPart', 'upper')
+      );
+
+    case IndicatorType.STOCHASTIC:
+      return multiOutput(
+        type,
+        calculateStochastic(
+          data,
+          getPeriodParameter(parameters, 'kPeriod', 14),
+          getPeriodParameter(parameters, 'dPeriod', 3),
+          getPeriodParameter(parameters, 'slowing', 3)
+        ),
+        getStringParameter(parameters, 'stochPart', 'k')
+      );
+
+    case IndicatorType.OBV: {
+      const obv = calculateOBV(data);
+      const period = getPeriodParameter(parameters, 'period', 1);
+      return singleOutput(type, period > 1 ? sma(obv, period) : obv);
+    }
+
+    case IndicatorType.ATR:
+      return singleOutput(
+        type,
+        calculateATR(data, getPeriodParameter(parameters, 'period', 14))
+      );
+
+    case IndicatorType.ADX:
+      return multiOutput(
+        type,
+        calculateADX(data, getPeriodParameter(parameters, 'period', 14)),
+        getStringParameter(parameters, 'adxPart', 'adx')
+      );
+
+    case IndicatorType.CCI:
+      return singleOutput(
+        type,
+        calculateCCI(data, getPeriodParameter(parameters, 'period', 20))
+      );
+
+    case IndicatorType.WILLIAMS_R:
+      return singleOutput(
+        type,
+        calculateWilliamsR(data, getPeriodParameter(parameters, 'period', 14))
+      );
+
+    case IndicatorType.DONCHIAN:
+      return multiOutput(
+        type,
+        calculateDonchian(data, getPeriodParameter(parameters, 'period', 20)),
+        getStringParameter(parameters, 'channelPart', 'upper')
+      );
+
+    case IndicatorType.KELTNER:
+      return multiOutput(
+        type,
+        calculateKeltner(
+          data,
+          getPeriodParameter(parameters, 'period', 20),
+          getPeriodParameter(parameters, 'atrPeriod', 10),
+          getNumberParameter(parameters, 'multiplier', 2)
+        ),
+        getStringParameter(parameters, 'channelPart', 'upper')
+      );
+
+    case IndicatorType.VWAP:
+      return singleOutput(
+        type,
+        calculateVWAP(data, getPeriodParameter(parameters, 'period', 20))
+      );
+
+    case IndicatorType.ROC:
+      return singleOutput(
+        type,
+        calculateROC(getPriceSeries(data, priceType), getPeriodParameter(parameters, 'period', 12))
+      );
+
+    case IndicatorType.MOMENTUM:
+      return singleOutput(
+        type,
+        calculateMomentum(getPriceSeries(data, priceType), getPeriodParameter(parameters, 'period', 10))
+      );
+
+    case IndicatorType.PSAR:
+      return singleOutput(
+        type,
+        calculateParabolicSAR(
+          data,
+          getNumberParameter(parameters, 'step', 0.02),
+          getNumberParameter(parameters, 'maxStep', 0.2)
+        )
+      );
+
+    case IndicatorType.ICHIMOKU:
+      return multiOutput(
+        type,
+        calculateIchimoku(
+          data,
+          getPeriodParameter(parameters, 'conversionPeriod', 9),
+          getPeriodParameter(parameters, 'basePeriod', 26),
+          getPeriodParameter(parameters, 'spanBPeriod', 52)
+        ),
+        getStringParameter(parameters, 'ichimokuPart', 'conversion')
+      );
+
+    default:
+      throw new Error(`지원하지 않는 지표 타입입니다: ${type}`);
+  }
+}
+
+/**
+ * 지표 캐시 키 생성
+ * 같은 지표/파라미터 조합은 한 번만 계산하기 위해 사용
+ */
+export function getIndicatorKey(
+  type: IndicatorType,
+  parameters: ConditionParameter[] = []
+): string {
+  const params = [...parameters]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(p => `${p.name}=${p.value}`)
+    .join(',');
+
+  return `${type}(${params})`;
+}
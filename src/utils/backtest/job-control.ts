@@ -0,0 +1,100 @@
+/**
+ * 장시간 계산 작업 제어
+ * 백테스트, 최적화, 워크 포워드, 몬테카를로처럼 오래 걸리는 계산의 진행 상황 보고, 중간 결과 전달, 취소 처리
+ */
+
+/**
+ * 진행 상황 콜백 (완료한 단위 수, 전체 단위 수)
+ */
+export type ProgressCallback = (completed: number, total: number) => void;
+
+/**
+ * 작업 제어 옵션
+ */
+export interface JobControl<TPartial = never> {
+  onProgress?: ProgressCallback;
+  onPartial?: (partial: TPartial) => void;   // 중간 결과 (평가한 조합, 완료한 구간 등)
+  signal?: AbortSignal;                      // 취소 신호
+}
+
+/**
+ * 작업 취소 오류
+ */
+export class JobCancelledError extends Error {
+  constructor(message = '작업이 취소되었습니다.') {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * 취소 요청이 있으면 취소 오류 발생
+ * @throws 취소 신호가 발생한 경우 JobCancelledError
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new JobCancelledError();
+  }
+}
+
+/**
+ * 이벤트 루프에 실행을 양보한 뒤 취소 여부 확인
+ * 양보하는 동안 화면 갱신이나 취소 메시지 처리가 이루어짐
+ */
+export async function yieldToEventLoop(signal?: AbortSignal): Promise<void> {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  throwIfCancelled(signal);
+}
+
+/**
+ * 시뮬레이션 진행 단계 (완료한 단위 수, 전체 단위 수)
+ */
+export interface SimulationStep {
+  completed: number;
+  total: number;
+}
+
+/**
+ * 구간마다 진행 단계를 내보내고 마지막에 결과를 반환하는 시뮬레이션
+ * 동기 실행(runSimulation)과 양보하며 실행(runSimulationAsync) 모두 같은 계산 사용
+ */
+export type Simulation<T> = Generator<SimulationStep, T, void>;
+
+// 시뮬레이션이 진행 단계를 내보내는 봉 수 간격
+export const SIMULATION_CHUNK_SIZE = 250;
+
+/**
+ * 시뮬레이션을 양보 없이 끝까지 실행
+ * @returns 시뮬레이션 결과
+ */
+export function runSimulation<T>(simulation: Simulation<T>): T {
+  let step = simulation.next();
+  while (!step.done) {
+    step = simulation.next();
+  }
+  return step.value;
+}
+
+/**
+ * 구간마다 진행 상황을 알리고 이벤트 루프에 양보하며 시뮬레이션 실행 (끝나면 완료로 알림)
+ * @param simulation 실행할 시뮬레이션
+ * @param control 진행 상황 콜백과 취소 신호
+ * @returns 시뮬레이션 결과
+ * @throws 취소되면 JobCancelledError
+ */
+export async function runSimulationAsync<T>(
+  simulation: Simulation<T>,
+  control: Pick<JobControl, 'onProgress' | 'signal'> = {}
+): Promise<T> {
+  let total = 0;
+  let step = simulation.next();
+  while (!step.done) {
+    total = step.value.total;
+    control.onProgress?.(step.value.completed, total);
+    await yieldToEventLoop(control.signal);
+    step = simulation.next();
+  }
+
+  if (total > 0) control.onProgress?.(total, total);
+  return step.value;
+}
@@ -0,0 +1,131 @@
+/**
+ * 백테스트 작업 실행
+ * 워커와 메인 스레드(워커를 쓸 수 없는 환경)에서 같은 방식으로 작업을 실행
+ */
+
+import {
+  BacktestJob,
+  BacktestJobOutput,
+  BacktestJobPartials,
+  BacktestJobKind,
+  BacktestJobProgress,
+  BacktestJobResults,
+} from '../../types/backtest-worker';
+import { sanitizeBars, simulateBacktest } from './backtest-engine';
+import { simulatePortfolioBacktest } from './portfolio-engine';
+import { simulateAllocationBacktest } from './allocation-engine';
+import { calculateBuyAndHold, calculateMetrics } from './metrics';
+import { runOptimization } from './optimizer';
+import { runWalkForward } from './walk-forward';
+import { runMonteCarlo } from './monte-carlo';
+import { applyPriceMode } from './price-mode';
+import { JobControl, runSimulationAsync, throwIfCancelled } from './job-control';
+
+/**
+ * 완료 수와 전체 수로 진행 상황 생성
+ */
+export function toJobProgress(completed: number, total: number): BacktestJobProgress {
+  return { completed, total, percent: total > 0 ? (completed / total) * 100 : 0 };
+}
+
+/**
+ * 백테스트 실행 (자산 배분 전략, 여러 종목은 포트폴리오, 한 종목은 단일 종목 백테스트)
+ * 종목별 신호 계산과 봉 구간마다 진행 상황을 알리고 취소 여부 확인
+ * 통화가 다른 여러 종목은 환율로 현금 흐름과 자산 평가를 기준 통화로 환산
+ * 단일 종목은 매수 후 보유 벤치마크를 함께 계산
+ */
+async function executeBacktest(
+  job: Extract<BacktestJob, { kind: 'backtest' }>,
+  control: JobControl<never>
+): Promise<BacktestJobOutput> {
+  const { strategy, datasets, options, fx } = job;
+
+  if (strategy.kind === 'allocation' && strategy.allocation) {
+    const result = await runSimulationAsync(simulateAllocationBacktest(strategy, datasets, options, fx), control);
+    return {
+      result,
+      metrics: calculateMetrics(result),
+      benchmark: null,
+      attribution: result.attribution,
+      rebalances: result.rebalances,
+    };
+  }
+
+  if (datasets.length > 1) {
+    const result = await runSimulationAsync(simulatePortfolioBacktest(strategy, datasets, options, fx), control);
+    return {
+      result,
+      metrics: calculateMetrics(result),
+      benchmark: null,
+      attribution: result.attribution,
+      rebalances: null,
+    };
+  }
+
+  const [historicalData] = datasets;
+  const result = await runSimulationAsync(simulateBacktest(strategy, historicalData, options), control);
+  return {
+    result,
+    metrics: calculateMetrics(result),
+    benchmark: calculateBuyAndHold(
+      historicalData.symbol,
+      applyPriceMode(sanitizeBars(historicalData.data), options),
+      strategy.moneyManagement.initialCapital,
+      historicalData.interval
+    ),
+    attribution: null,
+    rebalances: null,
+  };
+}
+
+/**
+ * 작업 실행
+ * 모든 작업은 계산 도중 진행 상황을 알리고, 구간 사이에 취소 여부 확인
+ * @param job 실행할 작업
+ * @param control 진행 상황/중간 결과 콜백과 취소 신호
+ * @returns 작업 종류별 결과
+ * @throws 취소되면 JobCancelledError
+ */
+export async function executeBacktestJob<K extends BacktestJobKind>(
+  job: Extract<BacktestJob, { kind: K }>,
+  control: JobControl<BacktestJobPartials[K]> = {}
+): Promise<BacktestJobResults[K]> {
+  throwIfCancelled(control.signal);
+
+  // 작업 종류별 분기 안에서는 K가 좁혀지지 않으므로 공통 타입으로 실행한 뒤 변환
+  const current = job as BacktestJob;
+  const partialControl = control as JobControl<BacktestJobPartials[BacktestJobKind]>;
+  let result: BacktestJobResults[BacktestJobKind];
+
+  switch (current.kind) {
+    case 'backtest':
+      result = await executeBacktest(current, control);
+      break;
+    case 'optimization':
+      result = await runOptimization(
+        current.strategy,
+        current.datasets,
+        current.parameters,
+        current.settings,
+        current.options,
+        partialControl
+      );
+      break;
+    case 'walkForward':
+      result = await runWalkForward(
+        current.strategy,
+        current.datasets,
+        current.parameters,
+        current.settings,
+        current.walkForwardSettings,
+        current.options,
+        partialControl
+      );
+      break;
+    case 'monteCarlo':
+      result = await runMonteCarlo(current.result, current.settings, control);
+      break;
+  }
+
+  return result as BacktestJobResults[K];
+}
@@ -0,0 +1,319 @@
+/**
+ * 백테스트 성과 지표 계산
+ * 자산 곡선과 거래 내역으로 수익률/위험/거래 통계를 계산
+ */
+
+import { HistoricalDataItem } from '../../types/stock';
+import {
+  BacktestResult,
+  BacktestTrade,
+  BenchmarkResult,
+  DrawdownPoint,
+  EquityPoint,
+  MetricsOptions,
+  MonthlyReturn,
+  PerformanceMetrics,
+} from '../../types/backtest';
+import { sanitizeBars } from './backtest-engine';
+
+// 하루 밀리초
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 데이터 간격별 연환산 기간 수
+ */
+const PERIODS_PER_YEAR: Record<string, number> = {
+  '1m': 252 * 390,
+  '2m': 252 * 195,
+  '5m': 252 * 78,
+  '15m': 252 * 26,
+  '30m': 252 * 13,
+  '60m': 252 * 7,
+  '90m': 252 * 5,
+  '1h': 252 * 7,
+  '1d': 252,
+  '5d': 52,
+  '1wk': 52,
+  '1mo': 12,
+  '3mo': 4,
+};
+
+/**
+ * 데이터 간격으로 연환산 기간 수 조회
+ */
+export function getPeriodsPerYear(interval: string): number {
+  return PERIODS_PER_YEAR[interval] ?? 252;
+}
+
+/**
+ * 유한한 숫자만 반환 (Infinity/NaN은 null)
+ */
+function finiteOrNull(value: number): number | null {
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * 평균
+ */
+function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * 표본 표준편차
+ */
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) return 0;
+
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * 두 날짜 사이의 일수
+ */
+function daysBetween(start: string, end: string): number {
+  return (new Date(end).getTime() - new Date(start).getTime()) / DAY_MS;
+}
+
+/**
+ * 봉별 수익률 계산
+ * 첫 봉은 시작 자산과 비교 (첫 봉의 비용/체결까지 반영)
+ * @param equity 봉별 자산 현황
+ * @param initialCapital 시작 자산
+ */
+export function calculatePeriodReturns(equity: EquityPoint[], initialCapital: number): number[] {
+  const returns: number[] = [];
+  let previous = initialCapital;
+
+  equity.forEach(point => {
+    returns.push(previous > 0 ? point.equity / previous - 1 : 0);
+    previous = point.equity;
+  });
+
+  return returns;
+}
+
+/**
+ * 낙폭 시계열 계산
+ * @param equity 봉별 자산 현황
+ * @param initialCapital 시작 자산 (첫 고점)
+ */
+export function calculateDrawdownSeries(equity: EquityPoint[], initialCapital: number): DrawdownPoint[] {
+  let peak = initialCapital;
+
+  return equity.map(point => {
+    peak = Math.max(peak, point.equity);
+    return {
+      date: point.date,
+      drawdown: peak > 0 ? (point.equity / peak - 1) * 100 : 0,
+    };
+  });
+}
+
+/**
+ * 최대 낙폭과 지속 기간 계산
+ * 시작 자산을 첫 고점으로 보고, 지속 기간은 고점에서 해당 고점을 회복할 때까지(회복하지 못하면 마지막 봉까지)의 기간
+ * @param equity 봉별 자산 현황
+ * @param initialCapital 시작 자산
+ */
+export function calculateMaxDrawdown(equity: EquityPoint[], initialCapital: number): {
+  maxDrawdown: number;
+  duration: number;
+  durationDays: number;
+} {
+  let peak = initialCapital;
+  let peakIndex = -1;   // 시작 자산이 고점이면 첫 봉 이전
+  let maxDrawdown = 0;
+  let duration = 0;
+  let durationDays = 0;
+
+  equity.forEach((point, i) => {
+    if (point.equity >= peak) {
+      peak = point.equity;
+      peakIndex = i;
+    } else if (peak > 0) {
+      maxDrawdown = Math.min(maxDrawdown, (point.equity / peak - 1) * 100);
+    }
+
+    if (i - peakIndex > duration) {
+      duration = i - peakIndex;
+      durationDays = daysBetween(equity[Math.max(peakIndex, 0)].date, point.date);
+    }
+  });
+
+  return { maxDrawdown, duration, durationDays: Math.round(durationDays) };
+}
+
+/**
+ * 월별 수익률 계산
+ * 각 월의 마지막 자산을 전월 마지막 자산(첫 달은 시작 자산)과 비교
+ * @param equity 봉별 자산 현황
+ * @param initialCapital 시작 자산 (첫 봉의 비용/체결까지 첫 달 수익률에 반영)
+ */
+export function calculateMonthlyReturns(equity: EquityPoint[], initialCapital: number): MonthlyReturn[] {
+  const result: MonthlyReturn[] = [];
+  if (equity.length === 0) return result;
+
+  let baseEquity = initialCapital;
+
+  equity.forEach((point, i) => {
+    const date = new Date(point.date);
+    const next = equity[i + 1];
+    const isMonthEnd =
+      !next ||
+      new Date(next.date).getUTCMonth() !== date.getUTCMonth() ||
+      new Date(next.date).getUTCFullYear() !== date.getUTCFullYear();
+
+    if (isMonthEnd) {
+      result.push({
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        return: baseEquity > 0 ? (point.equity / baseEquity - 1) * 100 : 0,
+      });
+      baseEquity = point.equity;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * 성과 지표 계산
+ * @param result 백테스트 결과 (자산 곡선, 거래 내역)
+ * @param options 무위험 수익률, 연환산 기간 수
+ * @returns 성과 지표
+ */
+export function calculateMetrics(
+  result: Pick<BacktestResult, 'equity' | 'trades' | 'initialCapital' | 'interval'>,
+  options: MetricsOptions = {}
+): PerformanceMetrics {
+  const { equity, trades, initialCapital } = result;
+  const periodsPerYear = options.periodsPerYear ?? getPeriodsPerYear(result.interval);
+  const riskFreePerPeriod = (options.riskFreeRate ?? 0) / 100 / periodsPerYear;
+
+  const finalEquity = equity[equity.length - 1]?.equity ?? initialCapital;
+  const totalReturn = initialCapital > 0 ? (finalEquity / initialCapital - 1) * 100 : 0;
+
+  // 연평균 성장률 (달력 기준 기간)
+  const days = equity.length > 1 ? daysBetween(equity[0].date, equity[equity.length - 1].date) : 0;
+  const years = days / 365.25;
+  const cagr =
+    years > 0 && initialCapital > 0 && finalEquity > 0
+      ? ((finalEquity / initialCapital) ** (1 / years) - 1) * 100
+      : 0;
+
+  // 위험 지표
+  const returns = calculatePeriodReturns(equity, initialCapital);
+  const excessReturns = returns.map(r => r - riskFreePerPeriod);
+  const stdDev = standardDeviation(returns);
+  const volatility = stdDev * Math.sqrt(periodsPerYear) * 100;
+  const downsideDeviation = Math.sqrt(
+    mean(excessReturns.map(r => Math.min(r, 0) ** 2))
+  );
+
+  const sharpeRatio =
+    stdDev > 0 ? (mean(excessReturns) / stdDev) * Math.sqrt(periodsPerYear) : null;
+  const sortinoRatio =
+    downsideDeviation > 0
+      ? (mean(excessReturns) / downsideDeviation) * Math.sqrt(periodsPerYear)
+      : null;
+
+  const drawdown = calculateMaxDrawdown(equity, initialCapital);
+  const calmarRatio = drawdown.maxDrawdown < 0 ? cagr / Math.abs(drawdown.maxDrawdown) : null;
+
+  // 거래 통계 (기준 통화로 환산한 백테스트는 금액을 기준 통화로 합산)
+  const pnlOf = (t: BacktestTrade): number => t.basePnl ?? t.pnl;
+  const costOf = (t: BacktestTrade, amount?: number): number => (amount ?? 0) * (t.fxRate ?? 1);
+  const wins = trades.filter(t => pnlOf(t) > 0);
+  const losses = trades.filter(t => pnlOf(t) <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + pnlOf(t), 0);
+  const grossLoss = losses.reduce((sum, t) => sum + pnlOf(t), 0);
+
+  const winRate = trades.length > 0 ? (wins.length / trades.length) * 100 : 0;
+  const averageWin = mean(wins.map(pnlOf));
+  const averageLoss = mean(losses.map(pnlOf));
+  const averageWinPercent = mean(wins.map(t => t.returnPercent));
+  const averageLossPercent = mean(losses.map(t => t.returnPercent));
+
+  const exposedBars = equity.filter(point => point.positionValue > 0).length;
+
+  return {
+    initialCapital,
+    finalEquity,
+    totalReturn,
+    cagr,
+    volatility,
+    sharpeRatio: sharpeRatio === null ? null : finiteOrNull(sharpeRatio),
+    sortinoRatio: sortinoRatio === null ? null : finiteOrNull(sortinoRatio),
+    calmarRatio: calmarRatio === null ? null : finiteOrNull(calmarRatio),
+    maxDrawdown: drawdown.maxDrawdown,
+    maxDrawdownDuration: drawdown.duration,
+    maxDrawdownDurationDays: drawdown.durationDays,
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    winRate,
+    profitFactor: grossLoss < 0 ? grossProfit / Math.abs(grossLoss) : null,
+    averageWin,
+    averageLoss,
+    averageWinPercent,
+    averageLossPercent,
+    expectancy: mean(trades.map(pnlOf)),
+    expectancyPercent: mean(trades.map(t => t.returnPercent)),
+    exposureTime: equity.length > 0 ? (exposedBars / equity.length) * 100 : 0,
+    averageBarsHeld: mean(trades.map(t => t.barsHeld)),
+    totalCommission: trades.reduce((sum, t) => sum + costOf(t, t.commission), 0),
+    totalTax: trades.reduce((sum, t) => sum + costOf(t, t.tax), 0),
+    totalSlippage: trades.reduce((sum, t) => sum + costOf(t, t.slippage), 0),
+  };
+}
+
+/**
+ * 매수 후 보유(Buy & Hold) 벤치마크 계산
+ * 첫 봉 종가에 전액 매수(소수점 수량)한 뒤 마지막 봉까지 보유
+ * 봉에 분할/배당 정보가 있으면 보유 수량 조정과 현금 배당을 반영
+ * @param symbol 종목 심볼
+ * @param data 백테스트와 같은 과거 주가 데이터 (가격 기준 변환 후)
+ * @param initialCapital 초기 자본
+ * @param interval 데이터 간격
+ * @param options 성과 지표 계산 옵션
+ */
+export function calculateBuyAndHold(
+  symbol: string,
+  data: HistoricalDataItem[],
+  initialCapital: number,
+  interval: string,
+  options: MetricsOptions = {}
+): BenchmarkResult {
+  const bars = sanitizeBars(data);
+  let quantity = bars.length > 0 ? initialCapital / bars[0].close : 0;
+  let cash = 0;
+
+  const equity: EquityPoint[] = bars.map((bar, index) => {
+    // 매수 이후 분할은 수량에, 현금 배당은 현금에 반영
+    if (index > 0) {
+      quantity *= bar.split ?? 1;
+      cash += quantity * (bar.dividend ?? 0);
+    }
+
+    const positionValue = quantity * bar.close;
+    const totalEquity = cash + positionValue;
+    return {
+      date: bar.date,
+      equity: totalEquity,
+      cash,
+      positionValue,
+      exposure: totalEquity > 0 ? positionValue / totalEquity : 0,
+      openPositions: 1,
+    };
+  });
+
+  return {
+    symbol,
+    equity,
+    metrics: calculateMetrics({ equity, trades: [], initialCapital, interval }, options),
+  };
+}
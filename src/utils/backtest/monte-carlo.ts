@@ -0,0 +1,181 @@
+/**
+ * 몬테카를로 분석
+ * 백테스트의 거래(또는 봉별 수익률)를 무작위로 섞거나 다시 뽑아 수천 개의 가상 자산 곡선을 만들고
+ * 최종 자산, 최대 낙폭, 파산 확률의 분포로 결과가 얼마나 운에 의존하는지 확인
+ */
+
+import { BacktestResult } from '../../types/backtest';
+import {
+  MonteCarloDistribution,
+  MonteCarloFanPoint,
+  MonteCarloResult,
+  MonteCarloSettings,
+} from '../../types/monte-carlo';
+import { MAX_MONTE_CARLO_SIMULATIONS, MONTE_CARLO_RUIN_LEVELS } from '../../constants/monte-carlo';
+import { calculateMaxDrawdown, calculatePeriodReturns } from './metrics';
+import { createRandom, randomInt } from './random';
+import { JobControl, yieldToEventLoop } from './job-control';
+
+// 팬 차트에 기록할 최대 지점 수 (시작 시점 제외)
+const FAN_POINTS = 100;
+
+// 진행 상황 보고 및 UI 양보 간격 (시뮬레이션 수)
+const YIELD_INTERVAL = 200;
+
+/**
+ * 거래별 자산 대비 수익률 (청산일 순)
+ * 진입 직전 봉의 총 자산 대비 손익 비율로, 여러 포지션을 동시에 보유한 경우에도 자산 곡선과 같은 규모가 되도록 함
+ */
+export function getTradeReturns(result: Pick<BacktestResult, 'trades' | 'equity' | 'initialCapital'>): number[] {
+  const indexByDate = new Map(result.equity.map((point, i) => [point.date, i]));
+
+  return [...result.trades]
+    .sort((a, b) => a.exitDate.localeCompare(b.exitDate))
+    .map(trade => {
+      const index = indexByDate.get(trade.entryDate);
+      const base = index !== undefined && index > 0 ? result.equity[index - 1].equity : result.initialCapital;
+      return base > 0 ? (trade.basePnl ?? trade.pnl) / base : 0;
+    });
+}
+
+/**
+ * 정렬된 값의 백분위 (선형 보간)
+ */
+function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+
+  const position = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * 값 목록의 백분위 요약
+ */
+function summarize(values: Float64Array): MonteCarloDistribution {
+  const sorted = Float64Array.from(values).sort();
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+    mean: sorted.length > 0 ? total / sorted.length : 0,
+  };
+}
+
+/**
+ * 팬 차트에 기록할 단계 목록 (0부터 steps까지 최대 FAN_POINTS + 1개)
+ */
+function getFanSteps(steps: number): number[] {
+  const count = Math.min(steps, FAN_POINTS);
+  return Array.from(new Set(Array.from({ length: count + 1 }, (_, i) => Math.round((i * steps) / count))));
+}
+
+/**
+ * 몬테카를로 분석 실행
+ * 일정 간격으로 진행 상황을 알리고 실행을 양보 (양보 시점에 취소 확인)
+ * @param result 분석할 백테스트 결과
+ * @param settings 시뮬레이션 방식, 횟수, 시드, 파산 기준
+ * @param control 진행 상황(완료한 시뮬레이션 수) 콜백과 취소 신호
+ * @returns 최종 자산/낙폭 분포, 파산 확률, 팬 차트 데이터
+ */
+export async function runMonteCarlo(
+  result: Pick<BacktestResult, 'trades' | 'equity' | 'initialCapital'>,
+  settings: MonteCarloSettings,
+  control: JobControl = {}
+): Promise<MonteCarloResult> {
+  const returns =
+    settings.method === 'dailyBootstrap' ? calculatePeriodReturns(result.equity, result.initialCapital) : getTradeReturns(result);
+  if (returns.length === 0) {
+    throw new Error(
+      settings.method === 'dailyBootstrap'
+        ? '시뮬레이션할 자산 곡선 데이터가 없습니다.'
+        : '시뮬레이션할 거래가 없습니다.'
+    );
+  }
+
+  const simulations = Math.min(MAX_MONTE_CARLO_SIMULATIONS, Math.max(1, Math.floor(settings.simulations)));
+  const { initialCapital } = result;
+  const steps = returns.length;
+  const fanSteps = getFanSteps(steps);
+  const ruinLevels = Array.from(new Set([...MONTE_CARLO_RUIN_LEVELS, settings.ruinThreshold])).sort((a, b) => a - b);
+
+  const random = createRandom(settings.seed);
+  const finalEquities = new Float64Array(simulations);
+  const maxDrawdowns = new Float64Array(simulations);
+  const fanValues = fanSteps.map(() => new Float64Array(simulations));
+  const ruinCounts = ruinLevels.map(() => 0);
+  const sequence = [...returns];
+
+  for (let sim = 0; sim < simulations; sim++) {
+    // 이번 시뮬레이션의 수익률 순서
+    if (settings.method === 'tradeShuffle') {
+      for (let i = sequence.length - 1; i > 0; i--) {
+        const j = randomInt(random, i + 1);
+        [sequence[i], sequence[j]] = [sequence[j], sequence[i]];
+      }
+    } else {
+      for (let i = 0; i < sequence.length; i++) {
+        sequence[i] = returns[randomInt(random, returns.length)];
+      }
+    }
+
+    let equity = initialCapital;
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    let minEquity = initialCapital;
+    let fanIndex = 0;
+
+    for (let step = 0; step <= steps; step++) {
+      if (step > 0) {
+        equity = Math.max(0, equity * (1 + sequence[step - 1]));
+        peak = Math.max(peak, equity);
+        minEquity = Math.min(minEquity, equity);
+        if (peak > 0) maxDrawdown = Math.min(maxDrawdown, (equity / peak - 1) * 100);
+      }
+      if (fanSteps[fanIndex] === step) {
+        fanValues[fanIndex][sim] = equity;
+        fanIndex++;
+      }
+    }
+
+    finalEquities[sim] = equity;
+    maxDrawdowns[sim] = maxDrawdown;
+    ruinLevels.forEach((threshold, i) => {
+      if (minEquity <= initialCapital * (1 - threshold / 100)) ruinCounts[i]++;
+    });
+
+    if ((sim + 1) % YIELD_INTERVAL === 0 || sim === simulations - 1) {
+      control.onProgress?.(sim + 1, simulations);
+      await yieldToEventLoop(control.signal);
+    }
+  }
+
+  const toProbability = (count: number) => (count / simulations) * 100;
+  const totalReturns = finalEquities.map(value => (initialCapital > 0 ? (value / initialCapital - 1) * 100 : 0));
+  const fan: MonteCarloFanPoint[] = fanSteps.map((step, i) => {
+    const { p5, p25, p50, p75, p95 } = summarize(fanValues[i]);
+    return { step, p5, p25, p50, p75, p95 };
+  });
+
+  return {
+    settings: { ...settings, simulations },
+    initialCapital,
+    steps,
+    finalEquity: summarize(finalEquities),
+    totalReturn: summarize(totalReturns),
+    maxDrawdown: summarize(maxDrawdowns),
+    original: {
+      finalEquity: result.equity[result.equity.length - 1]?.equity ?? initialCapital,
+      maxDrawdown: calculateMaxDrawdown(result.equity, initialCapital).maxDrawdown,
+    },
+    riskOfRuin: toProbability(ruinCounts[ruinLevels.indexOf(settings.ruinThreshold)]),
+    ruinLevels: ruinLevels.map((threshold, i) => ({ threshold, probability: toProbability(ruinCounts[i]) })),
+    probabilityOfLoss: toProbability(finalEquities.filter(value => value < initialCapital).length),
+    fan,
+  };
+}
@@ -0,0 +1,373 @@
+/**
+ * 파라미터 최적화
+ * 조건 파라미터의 min/max/step 범위에서 조합을 만들어 백테스트하고 목표 지표로 순위를 매김
+ */
+
+import { HistoricalData } from '../../types/stock';
+import {
+  ConditionParameter,
+  SignalType,
+  Strategy,
+  StrategyCondition,
+  TradeRule,
+} from '../../types/strategy';
+import { BacktestResult, PerformanceMetrics, PortfolioBacktestOptions } from '../../types/backtest';
+import {
+  OptimizationHeatmap,
+  OptimizationParameter,
+  OptimizationResult,
+  OptimizationSettings,
+  OptimizationTrial,
+} from '../../types/optimization';
+import { printIndicator } from '../rule-language/printer';
+import { runBacktest } from './backtest-engine';
+import { runPortfolioBacktest } from './portfolio-engine';
+import { calculateMetrics } from './metrics';
+import { createRandom, randomInt } from './random';
+import { JobControl, throwIfCancelled, yieldToEventLoop } from './job-control';
+
+/**
+ * 최적화에 사용하는 전략 필드
+ */
+export type OptimizableStrategy = Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel'>;
+
+// 진행 상황 보고 및 UI 양보 간격 (조합 수)
+const YIELD_INTERVAL = 5;
+
+/**
+ * 파라미터 키 생성
+ */
+function getParameterKey(conditionId: string, target: OptimizationParameter['target'], name: string): string {
+  return `${conditionId}:${target}:${name}`;
+}
+
+/**
+ * 최적화할 수 있는 숫자 파라미터인지 확인 (min/max/step이 정의된 파라미터)
+ */
+function isNumericParameter(
+  parameter: ConditionParameter
+): parameter is ConditionParameter & { value: number; min: number; max: number; step: number } {
+  return (
+    typeof parameter.value === 'number' &&
+    typeof parameter.min === 'number' &&
+    typeof parameter.max === 'number' &&
+    typeof parameter.step === 'number' &&
+    parameter.step > 0
+  );
+}
+
+/**
+ * 전략의 최적화 가능한 파라미터 목록
+ * 탐색 범위는 지표 정의의 min/max/step으로 초기화
+ */
+export function getOptimizableParameters(strategy: Pick<Strategy, 'buyRules' | 'sellRules'>): OptimizationParameter[] {
+  const result: OptimizationParameter[] = [];
+
+  const collect = (rules: TradeRule[], ruleType: SignalType) => {
+    const sideLabel = ruleType === SignalType.BUY ? '매수' : '매도';
+
+    rules.forEach(rule => {
+      rule.conditionGroups.forEach((group, groupIndex) => {
+        group.conditions.forEach((condition, conditionIndex) => {
+          const targets: [OptimizationParameter['target'], ConditionParameter[], string][] = [
+            ['parameters', condition.parameters, printIndicator(condition.type, condition.parameters)],
+          ];
+          if (condition.valueType) {
+            const valueParameters = condition.valueParameters ?? [];
+            targets.push(['valueParameters', valueParameters, `${printIndicator(condition.valueType, valueParameters)} (비교)`]);
+          }
+
+          targets.forEach(([target, parameters, indicatorLabel]) => {
+            parameters.filter(isNumericParameter).forEach(parameter => {
+              result.push({
+                key: getParameterKey(condition.id, target, parameter.name),
+                label: `${sideLabel} ${groupIndex + 1}-${conditionIndex + 1} ${indicatorLabel} · ${parameter.name}`,
+                ruleType,
+                conditionId: condition.id,
+                target,
+                name: parameter.name,
+                value: parameter.value,
+                min: parameter.min,
+                max: parameter.max,
+                step: parameter.step,
+                bounds: { min: parameter.min, max: parameter.max },
+              });
+            });
+          });
+        });
+      });
+    });
+  };
+
+  collect(strategy.buyRules, SignalType.BUY);
+  collect(strategy.sellRules, SignalType.SELL);
+
+  return result;
+}
+
+/**
+ * step의 소수점 자릿수 (부동소수점 오차 보정용)
+ */
+function getDecimals(step: number): number {
+  const text = String(step);
+  const index = text.indexOf('.');
+  return index < 0 ? 0 : text.length - index - 1;
+}
+
+/**
+ * 파라미터의 탐색 값 목록 (min부터 max까지 step 간격)
+ */
+export function getParameterValues(parameter: Pick<OptimizationParameter, 'min' | 'max' | 'step'>): number[] {
+  const { min, max, step } = parameter;
+  if (!(step > 0) || max < min) return [min];
+
+  const decimals = getDecimals(step);
+  const count = Math.floor((max - min) / step + 1e-9) + 1;
+
+  return Array.from({ length: count }, (_, i) => Number((min + i * step).toFixed(decimals)));
+}
+
+/**
+ * 전체 조합 수
+ */
+export function countCombinations(parameters: OptimizationParameter[]): number {
+  return parameters.reduce((total, parameter) => total * getParameterValues(parameter).length, 1);
+}
+
+/**
+ * 조합 번호를 파라미터 값으로 변환 (혼합 기수 표현)
+ */
+function decodeCombination(
+  parameters: OptimizationParameter[],
+  valueLists: number[][],
+  index: number
+): Record<string, number> {
+  const values: Record<string, number> = {};
+  let remainder = index;
+
+  for (let i = parameters.length - 1; i >= 0; i--) {
+    const list = valueLists[i];
+    values[parameters[i].key] = list[remainder % list.length];
+    remainder = Math.floor(remainder / list.length);
+  }
+  return values;
+}
+
+/**
+ * 평가할 조합 생성
+ * grid는 전체 조합이 상한 이하일 때만 생성하며, random은 상한 개수만큼 중복 없이 추출
+ * @throws 그리드 탐색 조합 수가 상한을 초과하면 오류
+ */
+export function generateCombinations(
+  parameters: OptimizationParameter[],
+  settings: Pick<OptimizationSettings, 'method' | 'maxCombinations' | 'seed'>
+): Record<string, number>[] {
+  const valueLists = parameters.map(getParameterValues);
+  const total = countCombinations(parameters);
+  const limit = Math.max(1, Math.floor(settings.maxCombinations));
+
+  if (total <= limit) {
+    return Array.from({ length: total }, (_, i) => decodeCombination(parameters, valueLists, i));
+  }
+
+  if (settings.method === 'grid') {
+    throw new Error(
+      `조합 수(${total.toLocaleString()})가 상한(${limit.toLocaleString()})을 초과합니다. 범위를 좁히거나 무작위 탐색을 사용하세요.`
+    );
+  }
+
+  const random = createRandom(settings.seed ?? 1);
+  const picked = new Set<number>();
+  while (picked.size < limit) {
+    picked.add(randomInt(random, total));
+  }
+
+  return Array.from(picked)
+    .sort((a, b) => a - b)
+    .map(index => decodeCombination(parameters, valueLists, index));
+}
+
+/**
+ * 파라미터 값을 적용한 전략 생성 (원본은 변경하지 않음)
+ */
+export function applyParameterValues<T extends Pick<Strategy, 'buyRules' | 'sellRules'>>(
+  strategy: T,
+  parameters: OptimizationParameter[],
+  values: Record<string, number>
+): T {
+  const applyToList = (
+    conditionId: string,
+    target: OptimizationParameter['target'],
+    list: ConditionParameter[]
+  ): ConditionParameter[] =>
+    list.map(parameter => {
+      const key = getParameterKey(conditionId, target, parameter.name);
+      return key in values ? { ...parameter, value: values[key] } : parameter;
+    });
+
+  const applyToCondition = (condition: StrategyCondition): StrategyCondition => {
+    if (!parameters.some(p => p.conditionId === condition.id)) return condition;
+
+    return {
+      ...condition,
+      parameters: applyToList(condition.id, 'parameters', condition.parameters),
+      ...(condition.valueParameters
+        ? { valueParameters: applyToList(condition.id, 'valueParameters', condition.valueParameters) }
+        : {}),
+    };
+  };
+
+  const applyToRules = (rules: TradeRule[]): TradeRule[] =>
+    rules.map(rule => ({
+      ...rule,
+      conditionGroups: rule.conditionGroups.map(group => ({
+        ...group,
+        conditions: group.conditions.map(applyToCondition),
+      })),
+    }));
+
+  return {
+    ...strategy,
+    buyRules: applyToRules(strategy.buyRules),
+    sellRules: applyToRules(strategy.sellRules),
+  };
+}
+
+/**
+ * 파라미터 값을 적용한 전략으로 백테스트 실행
+ * 종목이 둘 이상이면 포트폴리오 백테스트로 실행
+ */
+export function runCandidateBacktest(
+  strategy: OptimizableStrategy,
+  datasets: HistoricalData[],
+  parameters: OptimizationParameter[],
+  values: Record<string, number>,
+  options: PortfolioBacktestOptions = {}
+): BacktestResult {
+  const candidate = applyParameterValues(strategy, parameters, values);
+  return datasets.length > 1
+    ? runPortfolioBacktest(candidate, datasets, options)
+    : runBacktest(candidate, datasets[0], options);
+}
+
+/**
+ * 조합 하나를 백테스트하여 성과 지표 계산
+ */
+export function evaluateCombination(
+  strategy: OptimizableStrategy,
+  datasets: HistoricalData[],
+  parameters: OptimizationParameter[],
+  values: Record<string, number>,
+  options: PortfolioBacktestOptions = {}
+): PerformanceMetrics {
+  return calculateMetrics(runCandidateBacktest(strategy, datasets, parameters, values, options));
+}
+
+/**
+ * 목표 지표 값과 제약 조건 충족 여부 계산
+ */
+export function scoreMetrics(
+  metrics: PerformanceMetrics,
+  settings: Pick<OptimizationSettings, 'objective' | 'maxDrawdownLimit' | 'minTrades'>
+): { score: number | null; feasible: boolean } {
+  const value = metrics[settings.objective];
+  const score = typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+  const withinDrawdown = !settings.maxDrawdownLimit || metrics.maxDrawdown >= -settings.maxDrawdownLimit;
+  const enoughTrades = !settings.minTrades || metrics.totalTrades >= settings.minTrades;
+
+  return { score, feasible: score !== null && withinDrawdown && enoughTrades };
+}
+
+/**
+ * 평가 결과 순위 정렬 (제약 충족 조합을 점수 내림차순으로 먼저, 나머지는 점수순)
+ */
+export function rankTrials(trials: OptimizationTrial[]): OptimizationTrial[] {
+  const sorted = [...trials].sort((a, b) => {
+    if (a.feasible !== b.feasible) return a.feasible ? -1 : 1;
+    return (b.score ?? -Infinity) - (a.score ?? -Infinity);
+  });
+
+  return sorted.map((trial, index) => ({ ...trial, rank: trial.feasible ? index + 1 : null }));
+}
+
+/**
+ * 파라미터 최적화 실행
+ * 조합마다 백테스트를 실행하며, 일정 간격으로 진행 상황을 알리고 실행을 양보 (양보 시점에 취소 확인)
+ * @param strategy 최적화할 전략
+ * @param datasets 종목별 과거 주가 데이터
+ * @param parameters 최적화할 파라미터와 탐색 범위
+ * @param settings 탐색 방식, 목표 지표, 제약 조건
+ * @param options 백테스트 실행 옵션
+ * @param control 진행 상황(평가한 조합 수)/평가한 조합 콜백과 취소 신호
+ * @returns 순위순 평가 결과
+ */
+export async function runOptimization(
+  strategy: OptimizableStrategy,
+  datasets: HistoricalData[],
+  parameters: OptimizationParameter[],
+  settings: OptimizationSettings,
+  options: PortfolioBacktestOptions = {},
+  control: JobControl<OptimizationTrial> = {}
+): Promise<OptimizationResult> {
+  if (parameters.length === 0) {
+    throw new Error('최적화할 파라미터를 하나 이상 선택하세요.');
+  }
+  if (datasets.length === 0) {
+    throw new Error('최적화할 종목 데이터가 없습니다.');
+  }
+
+  throwIfCancelled(control.signal);
+
+  const combinations = generateCombinations(parameters, settings);
+  const trials: OptimizationTrial[] = [];
+
+  for (let i = 0; i < combinations.length; i++) {
+    const values = combinations[i];
+    const metrics = evaluateCombination(strategy, datasets, parameters, values, options);
+    const trial: OptimizationTrial = { values, metrics, ...scoreMetrics(metrics, settings), rank: null };
+    trials.push(trial);
+    control.onPartial?.(trial);
+
+    if ((i + 1) % YIELD_INTERVAL === 0 || i === combinations.length - 1) {
+      control.onProgress?.(i + 1, combinations.length);
+      await yieldToEventLoop(control.signal);
+    }
+  }
+
+  const ranked = rankTrials(trials);
+
+  return {
+    parameters,
+    settings,
+    totalCombinations: countCombinations(parameters),
+    trials: ranked,
+    best: ranked[0]?.feasible ? ranked[0] : null,
+  };
+}
+
+/**
+ * 2개 파라미터 히트맵 생성
+ * 다른 파라미터가 있으면 같은 셀의 조합 중 제약 조건을 충족한 최고 점수를 표시
+ */
+export function buildHeatmap(result: OptimizationResult, xKey: string, yKey: string): OptimizationHeatmap {
+  const xValues = Array.from(new Set(result.trials.map(t => t.values[xKey]))).sort((a, b) => a - b);
+  const yValues = Array.from(new Set(result.trials.map(t => t.values[yKey]))).sort((a, b) => a - b);
+  const xIndex = new Map(xValues.map((value, i) => [value, i]));
+  const yIndex = new Map(yValues.map((value, i) => [value, i]));
+
+  const cells: (number | null)[][] = yValues.map(() => xValues.map(() => null));
+
+  result.trials.forEach(trial => {
+    if (!trial.feasible || trial.score === null) return;
+
+    const x = xIndex.get(trial.values[xKey]) as number;
+    const y = yIndex.get(trial.values[yKey]) as number;
+    const current = cells[y][x];
+    if (current === null || trial.score > current) {
+      cells[y][x] = trial.score;
+    }
+  });
+
+  return { xKey, yKey, xValues, yValues, cells };
+}
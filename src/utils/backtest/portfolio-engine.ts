@@ -0,0 +1,483 @@
+/**
+ * 포트폴리오(다종목) 백테스트 엔진
+ * 여러 종목에 같은 전략을 적용하고 하나의 현금 계좌로 매매를 시뮬레이션
+ */
+
+import { HistoricalData, HistoricalDataItem } from '../../types/stock';
+import { Strategy, SignalType } from '../../types/strategy';
+import {
+  BacktestTrade,
+  EquityPoint,
+  ExitReason,
+  OpenPosition,
+  PortfolioBacktestOptions,
+  PortfolioBacktestResult,
+  PortfolioRanking,
+  SignalSeries,
+  SymbolAttribution,
+} from '../../types/backtest';
+import { generateSignals } from './signal-evaluator';
+import { checkProtectiveExit, sanitizeBars } from './backtest-engine';
+import { calculateEntryFill, calculateExitFill, createClosedTrade, resolveCostModel } from './costs';
+import { applyCorporateActions, applyPriceMode } from './price-mode';
+import { SIMULATION_CHUNK_SIZE, Simulation, runSimulation } from './job-control';
+import { FxConversion } from '../../types/currency';
+import { resolveFxRates, resolveValuationCurrency } from '../fx';
+
+/**
+ * 기본 포트폴리오 백테스트 옵션 (비용 모델은 전략 설정을 따르고, 매매 시작일은 첫 거래일)
+ */
+const DEFAULT_OPTIONS: Required<Omit<PortfolioBacktestOptions, 'costModel' | 'startDate'>> = {
+  fillPrice: 'nextOpen',
+  allowFractionalShares: false,
+  closeAtEnd: true,
+  ranking: 'symbolOrder',
+  rankingPeriod: 20,
+  priceMode: 'splitAdjusted',
+  dividendMode: 'reinvest',
+};
+
+/**
+ * 종목별 시뮬레이션 상태
+ */
+interface SymbolState {
+  order: number;                      // 입력 순서
+  symbol: string;
+  currency: string;
+  bars: HistoricalDataItem[];
+  fxRates: number[] | null;           // 봉별 기준 통화 환율 (환산하지 않으면 null)
+  signals: SignalSeries;
+  indexByDate: Map<string, number>;
+  lastIndex: number;                  // 마지막으로 처리한 봉 (처리 전이면 -1)
+  position: OpenPosition | null;
+  pendingBuyScore: number | null;     // 다음 봉 시가 매수 대기 (우선순위 점수)
+  pendingSell: boolean;
+  tradeCount: number;
+  heldBars: number;                   // 통합 달력 기준 보유 봉 수
+}
+
+/**
+ * 매수 우선순위 점수 계산 (높을수록 우선, 현재 봉까지의 데이터만 사용)
+ * 점수를 계산할 수 없으면 가장 낮은 우선순위
+ * @param fxRates 봉별 기준 통화 환율 (거래대금을 통화가 다른 종목과 비교할 때 사용)
+ */
+export function getRankingScore(
+  bars: HistoricalDataItem[],
+  index: number,
+  ranking: PortfolioRanking,
+  period: number,
+  fxRates: number[] | null = null
+): number {
+  if (ranking === 'symbolOrder') return 0;
+  if (index < period) return -Infinity;
+
+  if (ranking === 'momentum') {
+    const base = bars[index - period].close;
+    return base > 0 ? bars[index].close / base - 1 : -Infinity;
+  }
+
+  if (ranking === 'tradingValue') {
+    let sum = 0;
+    for (let i = index - period + 1; i <= index; i++) {
+      sum += bars[i].close * bars[i].volume * (fxRates ? fxRates[i] : 1);
+    }
+    return sum / period;
+  }
+
+  // lowVolatility: 수익률 표준편차가 낮을수록 높은 점수
+  const returns: number[] = [];
+  for (let i = index - period + 1; i <= index; i++) {
+    returns.push(bars[i].close / bars[i - 1].close - 1);
+  }
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
+  return -Math.sqrt(variance);
+}
+
+/**
+ * 여러 종목의 거래일을 합친 통합 달력 생성 (날짜 오름차순)
+ */
+export function buildCalendar(barsList: HistoricalDataItem[][]): string[] {
+  const dates = new Set<string>();
+  barsList.forEach(bars => bars.forEach(bar => dates.add(bar.date)));
+  return Array.from(dates).sort();
+}
+
+/**
+ * 미청산 포지션 평가 손익 (진입 수수료 포함, 환산하면 기준 통화)
+ * @param lastIndex 마지막으로 처리한 봉 (처리 전이면 -1)
+ * @param fxRates 봉별 기준 통화 환율 (환산하지 않으면 null)
+ */
+export function getUnrealizedPnl(
+  position: OpenPosition | null,
+  bars: HistoricalDataItem[],
+  lastIndex: number,
+  fxRates: number[] | null
+): number {
+  if (!position || lastIndex < 0) return 0;
+
+  const value = position.quantity * bars[lastIndex].close;
+  if (fxRates) {
+    return value * fxRates[lastIndex] - (position.entryCostBase ?? 0);
+  }
+  return value - position.quantity * position.entryPrice - position.entryCommission;
+}
+
+/**
+ * 종목별 성과 기여 집계 (손익은 기준 통화 환산 손익이 있으면 그 값 사용)
+ * @param trades 해당 종목의 완료된 거래
+ * @param unrealizedPnl 미청산 포지션 평가 손익
+ * @param heldBars 통합 달력 기준 보유 봉 수
+ * @param calendarLength 통합 달력 봉 수
+ * @param initialCapital 초기 자본
+ */
+export function summarizeAttribution(
+  symbol: string,
+  currency: string,
+  bars: number,
+  trades: BacktestTrade[],
+  unrealizedPnl: number,
+  heldBars: number,
+  calendarLength: number,
+  initialCapital: number
+): SymbolAttribution {
+  const winningTrades = trades.filter(t => (t.basePnl ?? t.pnl) > 0).length;
+  const realizedPnl = trades.reduce((sum, t) => sum + (t.basePnl ?? t.pnl), 0);
+
+  return {
+    symbol,
+    currency,
+    bars,
+    totalTrades: trades.length,
+    winningTrades,
+    winRate: trades.length > 0 ? (winningTrades / trades.length) * 100 : 0,
+    realizedPnl,
+    unrealizedPnl,
+    contribution: initialCapital > 0 ? ((realizedPnl + unrealizedPnl) / initialCapital) * 100 : 0,
+    averageReturnPercent: trades.length > 0
+      ? trades.reduce((sum, t) => sum + t.returnPercent, 0) / trades.length
+      : 0,
+    exposureTime: calendarLength > 0 ? (heldBars / calendarLength) * 100 : 0,
+  };
+}
+
+/**
+ * 포트폴리오 백테스트 실행
+ *
+ * - 종목별 신호는 각 종목의 거래일 기준으로 계산하고, 매매와 자산 평가는 통합 달력 기준으로 진행
+ * - 해당 날짜에 거래가 없는 종목(휴장 등)은 직전 종가로 평가하며 주문은 다음 거래일에 체결
+ * - 종목당 하나의 포지션만 보유하며, 동시 보유 종목 수는 maxPositions로 제한
+ * - 진입 시 현재 총 자산의 positionSizing(%)만큼 매수하며 현금을 초과할 수 없음
+ * - 같은 날 체결되는 주문은 청산을 먼저 처리한 뒤 매수 신호를 우선순위 순으로 처리
+ * - 체결 가격의 슬리피지와 수수료/거래세, 가격 기준과 배당/분할은 단일 종목 백테스트와 같은 방식으로 반영
+ * - 하나의 현금 계좌로 합산하므로 환산 설정이 없으면 모든 종목의 통화가 같아야 함
+ * - 환산 설정이 있으면 신호, 손절/익절, 체결 가격과 수수료/거래세는 현지 통화로 계산하고
+ *   현금 흐름과 자산 평가만 해당 봉의 환율로 기준 통화로 환산 (거래 내역은 현지 통화)
+ *
+ * @param strategy 실행할 전략
+ * @param datasets 종목별 과거 주가 데이터 (입력 순서가 symbolOrder 우선순위)
+ * @param options 실행 옵션
+ * @param fx 통화가 다른 종목을 기준 통화로 합산할 때의 환율
+ * @returns 통합 자산 곡선, 전체 거래 내역, 종목별 성과 기여
+ */
+export function runPortfolioBacktest(
+  strategy: Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel'>,
+  datasets: HistoricalData[],
+  options: PortfolioBacktestOptions = {},
+  fx?: FxConversion
+): PortfolioBacktestResult {
+  return runSimulation(simulatePortfolioBacktest(strategy, datasets, options, fx));
+}
+
+/**
+ * 포트폴리오 백테스트 시뮬레이션
+ * 종목별 신호 계산마다, 그리고 통합 달력 SIMULATION_CHUNK_SIZE 봉마다 진행 단계를 내보냄
+ * (전체 단위: 종목 수 + 통합 달력 봉 수)
+ */
+export function* simulatePortfolioBacktest(
+  strategy: Pick<Strategy, 'buyRules' | 'sellRules' | 'moneyManagement' | 'costModel'>,
+  datasets: HistoricalData[],
+  options: PortfolioBacktestOptions = {},
+  fx?: FxConversion
+): Simulation<PortfolioBacktestResult> {
+  const {
+    fillPrice,
+    allowFractionalShares,
+    closeAtEnd,
+    ranking,
+    rankingPeriod,
+    priceMode,
+    dividendMode,
+  } = { ...DEFAULT_OPTIONS, ...options };
+  const costModel = resolveCostModel(strategy, options);
+  const moneyManagement = strategy.moneyManagement;
+  const currency = resolveValuationCurrency(datasets.map(dataset => dataset.currency), fx);
+
+  const maxPositions = Math.max(1, Math.floor(moneyManagement.maxPositions || 1));
+
+  const barsList = datasets.map(dataset =>
+    applyPriceMode(sanitizeBars(dataset.data), { priceMode, dividendMode })
+  );
+
+  // 매매 시작일 이전 날짜는 지표 계산에만 사용
+  const calendar = buildCalendar(barsList)
+    .filter(date => !options.startDate || date >= options.startDate);
+  const totalSteps = datasets.length + calendar.length;
+
+  // 종목별 신호 계산 (종목마다 진행 단계 보고)
+  const states: SymbolState[] = [];
+  for (let order = 0; order < datasets.length; order++) {
+    const bars = barsList[order];
+    states.push({
+      order,
+      symbol: datasets[order].symbol,
+      currency: datasets[order].currency,
+      bars,
+      fxRates: resolveFxRates(datasets[order].currency, bars.map(bar => bar.date), fx),
+      signals: generateSignals(strategy, bars),
+      indexByDate: new Map(bars.map((bar, i) => [bar.date, i])),
+      lastIndex: -1,
+      position: null,
+      pendingBuyScore: null,
+      pendingSell: false,
+      tradeCount: 0,
+      heldBars: 0,
+    });
+    yield { completed: order + 1, total: totalSteps };
+  }
+
+  let cash = moneyManagement.initialCapital;
+  let dividendIncome = 0;
+  let skippedSignals = 0;
+  const trades: BacktestTrade[] = [];
+  const equity: EquityPoint[] = [];
+
+  /**
+   * 현지 통화 금액을 해당 봉 환율로 기준 통화로 환산
+   */
+  const toBase = (state: SymbolState, index: number, amount: number): number =>
+    state.fxRates ? amount * state.fxRates[index] : amount;
+
+  /**
+   * 보유 포지션 평가금액 (각 종목의 마지막 처리 봉 종가 기준)
+   */
+  const getPositionValue = (): number =>
+    states.reduce((sum, s) => {
+      if (!s.position || s.lastIndex < 0) return sum;
+      return sum + toBase(s, s.lastIndex, s.position.quantity * s.bars[s.lastIndex].close);
+    }, 0);
+
+  const getOpenCount = (): number => states.filter(s => s.position).length;
+
+  /**
+   * 포지션 청산
+   */
+  const closePosition = (state: SymbolState, index: number, price: number, reason: ExitReason): void => {
+    const position = state.position;
+    if (!position) return;
+
+    const fill = calculateExitFill(state.symbol, price, position.quantity, costModel);
+    const proceeds = toBase(state, index, position.quantity * fill.price - fill.commission - fill.tax);
+    cash += proceeds;
+
+    const trade = createClosedTrade(position, state.bars[index].date, index, fill, reason);
+    trades.push(state.fxRates
+      ? { ...trade, fxRate: state.fxRates[index], basePnl: proceeds - (position.entryCostBase ?? 0) }
+      : trade);
+
+    state.position = null;
+  };
+
+  /**
+   * 신규 포지션 진입
+   * @returns 진입 여부 (포지션 수 제한 또는 현금 부족이면 false)
+   */
+  const openPosition = (state: SymbolState, index: number, price: number): boolean => {
+    if (state.position || getOpenCount() >= maxPositions) return false;
+
+    const totalEquity = cash + getPositionValue();
+    const budget = Math.min(cash, totalEquity * (moneyManagement.positionSizing / 100));
+    const fxRate = state.fxRates ? state.fxRates[index] : 1;
+    const fill = calculateEntryFill(state.symbol, price, budget / fxRate, costModel, allowFractionalShares);
+
+    if (!fill) return false;
+
+    const cost = toBase(state, index, fill.quantity * fill.price + fill.commission);
+    cash -= cost;
+    state.tradeCount++;
+    state.position = {
+      id: `${state.symbol}-${state.tradeCount}`,
+      symbol: state.symbol,
+      entryDate: state.bars[index].date,
+      entryIndex: index,
+      entryPrice: fill.price,
+      quantity: fill.quantity,
+      highestPrice: fill.price,
+      entryCommission: fill.commission,
+      entrySlippage: fill.slippage,
+      ...(state.fxRates ? { entryCostBase: cost } : {}),
+    };
+    return true;
+  };
+
+  /**
+   * 매수 후보를 우선순위 순으로 정렬 (점수 내림차순, 같으면 입력 순서)
+   */
+  const byPriority = (a: { state: SymbolState; score: number }, b: { state: SymbolState; score: number }) =>
+    b.score - a.score || a.state.order - b.state.order;
+
+  for (let calendarIndex = 0; calendarIndex < calendar.length; calendarIndex++) {
+    if (calendarIndex > 0 && calendarIndex % SIMULATION_CHUNK_SIZE === 0) {
+      yield { completed: datasets.length + calendarIndex, total: totalSteps };
+    }
+
+    const date = calendar[calendarIndex];
+    const active = states
+      .filter(s => s.indexByDate.has(date))
+      .map(state => ({ state, index: state.indexByDate.get(date) as number }));
+
+    // 0. 배당락/분할일 보유 포지션 조정 (시가 체결 전)
+    active.forEach(({ state, index }) => {
+      if (!state.position) return;
+      const dividend = toBase(state, index, applyCorporateActions(state.position, state.bars[index]));
+      cash += dividend;
+      dividendIncome += dividend;
+    });
+
+    // 1. 대기 주문 시가 체결 (청산 우선, 매수는 신호 발생 시 우선순위 순)
+    if (fillPrice === 'nextOpen') {
+      active.forEach(({ state, index }) => {
+        if (state.pendingSell) {
+          closePosition(state, index, state.bars[index].open, 'SIGNAL');
+        }
+        state.pendingSell = false;
+      });
+
+      active
+        .filter(({ state }) => state.pendingBuyScore !== null)
+        .map(({ state, index }) => ({ state, index, score: state.pendingBuyScore as number }))
+        .sort(byPriority)
+        .forEach(({ state, index }) => {
+          if (!openPosition(state, index, state.bars[index].open)) skippedSignals++;
+          state.pendingBuyScore = null;
+        });
+    }
+
+    active.forEach(({ state, index }) => {
+      state.lastIndex = index;
+    });
+
+    // 2. 봉 내 손절/익절/트레일링 스탑 확인
+    active.forEach(({ state, index }) => {
+      const position = state.position;
+      if (!position) return;
+
+      const bar = state.bars[index];
+      const exit = checkProtectiveExit(position, bar, moneyManagement, position.entryIndex === index);
+
+      if (exit) {
+        closePosition(state, index, exit.price, exit.reason);
+      } else {
+        position.highestPrice = Math.max(position.highestPrice, bar.high);
+      }
+    });
+
+    // 3. 종가 기준 신호 판단
+    const sells = active.filter(({ state, index }) =>
+      state.position && state.signals.signals[index] === SignalType.SELL
+    );
+    const buys = active
+      .filter(({ state, index }) =>
+        !state.position && state.signals.signals[index] === SignalType.BUY
+      )
+      .map(({ state, index }) => ({
+        state,
+        index,
+        score: getRankingScore(state.bars, index, ranking, rankingPeriod, state.fxRates),
+      }))
+      .sort(byPriority);
+
+    if (fillPrice === 'close') {
+      sells.forEach(({ state, index }) => closePosition(state, index, state.bars[index].close, 'SIGNAL'));
+      buys.forEach(({ state, index }) => {
+        if (!openPosition(state, index, state.bars[index].close)) skippedSignals++;
+      });
+    } else {
+      sells.forEach(({ state }) => {
+        state.pendingSell = true;
+      });
+      buys.forEach(({ state, score }) => {
+        state.pendingBuyScore = score;
+      });
+    }
+
+    // 4. 종료 시 보유 포지션 청산 (각 종목의 마지막 종가)
+    const isLastDate = calendarIndex === calendar.length - 1;
+    if (isLastDate && closeAtEnd) {
+      states.forEach(state => {
+        if (state.position && state.lastIndex >= 0) {
+          closePosition(state, state.lastIndex, state.bars[state.lastIndex].close, 'END_OF_DATA');
+        }
+      });
+    }
+
+    // 5. 통합 달력 기준 자산 평가
+    states.forEach(state => {
+      if (state.position) state.heldBars++;
+    });
+
+    const positionValue = getPositionValue();
+    const totalEquity = cash + positionValue;
+
+    equity.push({
+      date,
+      equity: totalEquity,
+      cash,
+      positionValue,
+      exposure: totalEquity > 0 ? positionValue / totalEquity : 0,
+      openPositions: getOpenCount(),
+    });
+  }
+
+  const openPositions = states
+    .map(s => s.position)
+    .filter((p): p is OpenPosition => p !== null);
+
+  const attribution: SymbolAttribution[] = states.map(state =>
+    summarizeAttribution(
+      state.symbol,
+      state.currency,
+      state.bars.length,
+      trades.filter(t => t.symbol === state.symbol),
+      getUnrealizedPnl(state.position, state.bars, state.lastIndex, state.fxRates),
+      state.heldBars,
+      calendar.length,
+      moneyManagement.initialCapital
+    )
+  );
+
+  // 거래 내역은 청산일 순으로 정렬 (같은 날은 종목 입력 순서)
+  const symbolOrder = new Map(states.map(s => [s.symbol, s.order]));
+  trades.sort((a, b) =>
+    a.exitDate.localeCompare(b.exitDate) ||
+    (symbolOrder.get(a.symbol) ?? 0) - (symbolOrder.get(b.symbol) ?? 0)
+  );
+
+  return {
+    symbol: states.map(s => s.symbol).join(', '),
+    symbols: states.map(s => s.symbol),
+    interval: datasets[0]?.interval ?? '1d',
+    currency,
+    startDate: calendar[0] ?? null,
+    endDate: calendar[calendar.length - 1] ?? null,
+    initialCapital: moneyManagement.initialCapital,
+    finalEquity: equity[equity.length - 1]?.equity ?? moneyManagement.initialCapital,
+    trades,
+    equity,
+    openPositions,
+    warmupBars: Math.max(0, ...states.map(s => s.signals.warmupBars)),
+    dividendIncome,
+    attribution,
+    skippedSignals,
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * 가격 기준 변환
+ * 봉에 배당/분할 이벤트를 연결하고, 백테스트 가격 기준(원시/분할 조정/총수익)에 맞게 봉을 변환
+ * Yahoo Finance 봉 가격은 분할 조정 가격이고, 이벤트의 주당 배당금도 분할 조정 금액
+ */
+
+import { CorporateEvents, HistoricalData, HistoricalDataItem } from '../../types/stock';
+import { BacktestOptions, OpenPosition } from '../../types/backtest';
+
+/**
+ * 배당/분할 정보를 뺀 봉 복사본
+ */
+function withoutEvents(bar: HistoricalDataItem): HistoricalDataItem {
+  const copy = { ...bar };
+  delete copy.dividend;
+  delete copy.split;
+  return copy;
+}
+
+/**
+ * 가격 필드에 배수를 곱한 봉 (거래량은 나눠서 거래대금 유지)
+ */
+function scaleBar(bar: HistoricalDataItem, factor: number): HistoricalDataItem {
+  if (factor === 1) return bar;
+
+  return {
+    ...bar,
+    open: bar.open * factor,
+    high: bar.high * factor,
+    low: bar.low * factor,
+    close: bar.close * factor,
+    adjClose: bar.adjClose * factor,
+    volume: bar.volume / factor,
+  };
+}
+
+/**
+ * 날짜 이상인 첫 봉 인덱스 (없으면 -1)
+ */
+function findBarIndex(bars: HistoricalDataItem[], date: string): number {
+  let low = 0;
+  let high = bars.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (bars[mid].date < date) low = mid + 1;
+    else high = mid;
+  }
+  return low < bars.length ? low : -1;
+}
+
+/**
+ * 봉에 배당/분할 이벤트 연결
+ * 이벤트 날짜가 휴장일이면 그 이후 첫 봉에 연결하고, 데이터 기간 밖의 이벤트는 무시
+ * @param dataset 과거 주가 데이터
+ * @param events 같은 종목의 배당/분할 이벤트
+ * @returns 배당락일 봉에 dividend, 분할일 봉에 split이 설정된 데이터
+ */
+export function attachCorporateEvents(dataset: HistoricalData, events: CorporateEvents): HistoricalData {
+  const data = dataset.data.map(withoutEvents);
+  const firstDate = data[0]?.date;
+
+  events.dividends.forEach(event => {
+    if (!firstDate || event.date < firstDate || !(event.amount > 0)) return;
+    const index = findBarIndex(data, event.date);
+    if (index >= 0) data[index].dividend = (data[index].dividend ?? 0) + event.amount;
+  });
+
+  events.splits.forEach(event => {
+    const ratio = event.denominator > 0 ? event.numerator / event.denominator : 0;
+    if (!firstDate || event.date < firstDate || !(ratio > 0) || ratio === 1) return;
+    const index = findBarIndex(data, event.date);
+    if (index >= 0) data[index].split = (data[index].split ?? 1) * ratio;
+  });
+
+  return { ...dataset, data };
+}
+
+/**
+ * 가격 기준에 맞게 봉 변환
+ * - splitAdjusted: 가격은 그대로 두고 배당/분할 정보 제거
+ * - raw: 이후 분할 비율을 곱해 실제 거래 가격으로 되돌리고 분할 정보만 유지 (엔진이 분할일에 보유 수량 조정)
+ * - totalReturn + reinvest: 배당락일마다 (1 + 배당금 / 전 봉 종가)를 누적해 이후 가격에 곱함 (첫 봉 가격 유지)
+ * - totalReturn + cash: 가격은 그대로 두고 배당 정보만 유지 (엔진이 배당락일에 보유 수량만큼 현금 지급)
+ * @param bars 날짜 오름차순 봉
+ * @param options 가격 기준과 배당 처리 방식
+ * @returns 변환된 봉 (원본은 변경하지 않음)
+ */
+export function applyPriceMode(
+  bars: HistoricalDataItem[],
+  options: Pick<BacktestOptions, 'priceMode' | 'dividendMode'> = {}
+): HistoricalDataItem[] {
+  const priceMode = options.priceMode ?? 'splitAdjusted';
+  const dividendMode = options.dividendMode ?? 'reinvest';
+
+  if (priceMode === 'raw') {
+    const result: HistoricalDataItem[] = new Array(bars.length);
+    let factor = 1;
+    for (let i = bars.length - 1; i >= 0; i--) {
+      const { split } = bars[i];
+      const bar = scaleBar(withoutEvents(bars[i]), factor);
+      result[i] = split ? { ...bar, split } : bar;
+      if (split) factor *= split;
+    }
+    return result;
+  }
+
+  if (priceMode === 'totalReturn' && dividendMode === 'cash') {
+    return bars.map(bar => {
+      const { dividend } = bar;
+      const copy = withoutEvents(bar);
+      return dividend ? { ...copy, dividend } : copy;
+    });
+  }
+
+  if (priceMode === 'totalReturn') {
+    let factor = 1;
+    return bars.map((bar, i) => {
+      const previousClose = i > 0 ? bars[i - 1].close : 0;
+      if (bar.dividend && previousClose > 0) {
+        factor *= 1 + bar.dividend / previousClose;
+      }
+      return scaleBar(withoutEvents(bar), factor);
+    });
+  }
+
+  return bars.map(withoutEvents);
+}
+
+/**
+ * 보유 포지션에 배당/분할 반영 (봉 시작 시점, 그 봉의 시가 체결 전에 호출)
+ * 분할은 수량을 늘리고 단가를 줄여 평가금액을 유지하고, 배당은 보유 수량만큼 현금으로 지급
+ * @param position 보유 포지션 (수량과 단가를 직접 변경)
+ * @param bar 현재 봉
+ * @returns 지급된 배당금
+ */
+export function applyCorporateActions(position: OpenPosition, bar: HistoricalDataItem): number {
+  if (bar.split) {
+    position.quantity *= bar.split;
+    position.entryPrice /= bar.split;
+    position.highestPrice /= bar.split;
+  }
+  return bar.dividend ? position.quantity * bar.dividend : 0;
+}
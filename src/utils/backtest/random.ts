@@ -0,0 +1,28 @@
+/**
+ * 시드 기반 난수 생성
+ * 같은 시드로 같은 결과를 재현해야 하는 무작위 탐색/시뮬레이션에서 사용
+ */
+
+/**
+ * 시드 기반 난수 생성기 (mulberry32)
+ * @param seed 시드 (정수)
+ * @returns 0 이상 1 미만의 난수를 반환하는 함수
+ */
+export function createRandom(seed: number): () => number {
+  let state = Math.floor(seed) >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * 0 이상 max 미만의 정수 난수
+ */
+export function randomInt(random: () => number, max: number): number {
+  return Math.floor(random() * max);
+}
@@ -0,0 +1,375 @@
+/**
+ * 매매 규칙 평가기
+ * 전략의 매수/매도 규칙을 봉별 BUY/SELL 신호로 변환
+ */
+
+import { HistoricalDataItem } from '../../types/stock';
+import {
+  Strategy,
+  StrategyCondition,
+  ConditionGroup,
+  TradeRule,
+  ComparisonOperator,
+  LogicalOperator,
+  IndicatorType,
+  ConditionParameter,
+  ConditionLookback,
+  SignalType,
+} from '../../types/strategy';
+import { IndicatorSeries } from '../../types/indicator';
+import { ConditionState, SignalSeries } from '../../types/backtest';
+import {
+  computeIndicator,
+  getIndicatorKey,
+  rollingHighest,
+  rollingLowest,
+  shiftSeries,
+} from './indicators';
+
+// '=' / '!=' 비교 시 부동소수점 오차 허용 범위
+const EQUALITY_TOLERANCE = 1e-9;
+
+/**
+ * 지표 시계열 조회 함수 타입
+ */
+export type IndicatorLookup = (
+  type: IndicatorType,
+  parameters?: ConditionParameter[]
+) => IndicatorSeries;
+
+/**
+ * 지표 캐시 생성
+ * 같은 지표/파라미터 조합은 한 번만 계산
+ */
+export function createIndicatorLookup(data: HistoricalDataItem[]): IndicatorLookup {
+  const cache = new Map<string, IndicatorSeries>();
+
+  return (type, parameters = []) => {
+    const key = getIndicatorKey(type, parameters);
+    let series = cache.get(key);
+
+    if (!series) {
+      series = computeIndicator(type, data, parameters).values;
+      cache.set(key, series);
+    }
+
+    return series;
+  };
+}
+
+/**
+ * 두 값 비교
+ */
+export function compareValues(
+  left: number,
+  operator: ComparisonOperator,
+  right: number
+): boolean {
+  const tolerance = EQUALITY_TOLERANCE * Math.max(1, Math.abs(left), Math.abs(right));
+
+  switch (operator) {
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+    case '=':
+      return Math.abs(left - right) <= tolerance;
+    case '<=':
+      return left <= right;
+    case '<':
+      return left < right;
+    case '!=':
+      return Math.abs(left - right) > tolerance;
+    case 'crossAbove':
+    case 'crossBelow':
+      throw new Error('교차 연산자는 직전 봉 값이 필요합니다. crossValues를 사용하세요.');
+    default:
+      throw new Error(`지원하지 않는 비교 연산자입니다: ${operator}`);
+  }
+}
+
+/**
+ * 교차 연산자 여부 확인
+ */
+export function isCrossOperator(operator: ComparisonOperator): boolean {
+  return operator === 'crossAbove' || operator === 'crossBelow';
+}
+
+/**
+ * 직전 봉과 현재 봉 값으로 교차 여부 판단
+ * 상향 돌파: 직전 봉 좌변 ≤ 우변 이고 현재 봉 좌변 > 우변
+ * 하향 돌파: 직전 봉 좌변 ≥ 우변 이고 현재 봉 좌변 < 우변
+ */
+export function crossValues(
+  previousLeft: number,
+  previousRight: number,
+  left: number,
+  right: number,
+  operator: ComparisonOperator
+): boolean {
+  if (operator === 'crossAbove') {
+    return previousLeft <= previousRight && left > right;
+  }
+  if (operator === 'crossBelow') {
+    return previousLeft >= previousRight && left < right;
+  }
+  throw new Error(`교차 연산자가 아닙니다: ${operator}`);
+}
+
+/**
+ * 논리 연산자로 상태 결합 (3값 논리)
+ * AND: 하나라도 false면 false, 그 외 null이 있으면 null
+ * OR: 하나라도 true면 true, 그 외 null이 있으면 null
+ * 빈 목록은 신호가 발생하지 않도록 false로 처리
+ */
+export function combineStates(
+  states: ConditionState[],
+  operator: LogicalOperator
+): ConditionState {
+  if (states.length === 0) return false;
+
+  const decisive = operator === 'AND' ? false : true;
+  let hasUndefined = false;
+
+  for (const state of states) {
+    if (state === decisive) return decisive;
+    if (state === null) hasUndefined = true;
+  }
+
+  return hasUndefined ? null : !decisive;
+}
+
+/**
+ * 봉별 상태 배열들을 논리 연산자로 결합
+ */
+function combineSeries(
+  seriesList: ConditionState[][],
+  operator: LogicalOperator,
+  length: number
+): ConditionState[] {
+  const result: ConditionState[] = [];
+
+  for (let i = 0; i < length; i++) {
+    result.push(combineStates(seriesList.map(series => series[i]), operator));
+  }
+
+  return result;
+}
+
+/**
+ * 조건 한쪽 시계열 준비
+ * highest/lowest 집계가 해당 쪽에 적용되면 최근 N봉 최고/최저값으로 대체한 뒤 오프셋 적용
+ */
+function prepareOperand(
+  series: IndicatorSeries,
+  side: 'left' | 'right',
+  offset: number | undefined,
+  lookback: ConditionLookback | undefined
+): IndicatorSeries {
+  let result = series;
+
+  if (lookback && (lookback.side ?? 'left') === side) {
+    if (lookback.mode === 'highest') result = rollingHighest(series, lookback.period);
+    if (lookback.mode === 'lowest') result = rollingLowest(series, lookback.period);
+  }
+
+  return shiftSeries(result, offset ?? 0);
+}
+
+/**
+ * 비교 지표에 배수와 더할 값 적용 (예: MA(50) × 1.03, 2 × MA(VOLUME, 20))
+ */
+function applyArithmetic(
+  series: IndicatorSeries,
+  multiplier = 1,
+  addend = 0
+): IndicatorSeries {
+  if (multiplier === 1 && addend === 0) return series;
+  return series.map(value => (value === null ? null : value * multiplier + addend));
+}
+
+/**
+ * 최근 N봉 조건 상태 집계 (3값 논리, 현재 봉 포함, 미래 봉은 사용하지 않음)
+ * any: 하나라도 true면 true, count: true가 count개 이상이면 true, all: 모두 true면 true
+ * null(미정의) 봉 때문에 결과가 달라질 수 있으면 null
+ */
+function aggregateStates(states: ConditionState[], lookback: ConditionLookback): ConditionState[] {
+  const required = lookback.mode === 'any'
+    ? 1
+    : lookback.mode === 'all'
+      ? lookback.period
+      : Math.min(lookback.count ?? 1, lookback.period);
+
+  return states.map((_, i) => {
+    let trueCount = 0;
+    let nullCount = 0;
+
+    for (let j = i - lookback.period + 1; j <= i; j++) {
+      const state = j >= 0 ? states[j] : null;
+      if (state === true) trueCount++;
+      else if (state === null) nullCount++;
+    }
+
+    if (trueCount >= required) return true;
+    if (trueCount + nullCount >= required) return null;
+    return false;
+  });
+}
+
+/**
+ * 단일 조건 평가
+ * 비교 대상 지표(valueType)가 있으면 지표 간 비교(배수/더할 값 적용), 없으면 상수 value와 비교
+ * 교차 연산자는 직전 봉 값이 정의되어야 판단 가능하므로 첫 봉과 직전 봉이 미정의인 봉은 null
+ * offset/valueOffset은 과거 봉 값을, lookback은 현재 봉까지의 최근 N봉만 사용하므로 미래 데이터를 참조하지 않음
+ */
+export function evaluateCondition(
+  condition: StrategyCondition,
+  length: number,
+  lookup: IndicatorLookup
+): ConditionState[] {
+  const { lookback } = condition;
+  const left = prepareOperand(
+    lookup(condition.type, condition.parameters),
+    'left',
+    condition.offset,
+    lookback
+  );
+  const right = condition.valueType
+    ? applyArithmetic(
+      prepareOperand(
+        lookup(condition.valueType, condition.valueParameters),
+        'right',
+        condition.valueOffset,
+        lookback
+      ),
+      condition.valueMultiplier,
+      condition.valueAddend
+    )
+    : null;
+
+  const isCross = isCrossOperator(condition.operator);
+  const getRight = (i: number): number | null => {
+    const value = right ? right[i] : condition.value;
+    return value !== null && Number.isFinite(value) ? value : null;
+  };
+
+  const result: ConditionState[] = [];
+
+  for (let i = 0; i < length; i++) {
+    const leftValue = left[i];
+    const rightValue = getRight(i);
+
+    if (leftValue === null || rightValue === null) {
+      result.push(null);
+    } else if (!isCross) {
+      result.push(compareValues(leftValue, condition.operator, rightValue));
+    } else {
+      const previousLeft = i > 0 ? left[i - 1] : null;
+      const previousRight = i > 0 ? getRight(i - 1) : null;
+
+      result.push(
+        previousLeft === null || previousRight === null
+          ? null
+          : crossValues(previousLeft, previousRight, leftValue, rightValue, condition.operator)
+      );
+    }
+  }
+
+  if (lookback && (lookback.mode === 'any' || lookback.mode === 'all' || lookback.mode === 'count')) {
+    return aggregateStates(result, lookback);
+  }
+
+  return result;
+}
+
+/**
+ * 조건 그룹 평가 (그룹 내 조건을 group.operator로 결합)
+ */
+export function evaluateConditionGroup(
+  group: ConditionGroup,
+  length: number,
+  lookup: IndicatorLookup
+): ConditionState[] {
+  return combineSeries(
+    group.conditions.map(condition => evaluateCondition(condition, length, lookup)),
+    group.operator,
+    length
+  );
+}
+
+/**
+ * 매매 규칙 평가 (조건 그룹을 rule.operator로 결합)
+ */
+export function evaluateTradeRule(
+  rule: TradeRule,
+  length: number,
+  lookup: IndicatorLookup
+): ConditionState[] {
+  return combineSeries(
+    rule.conditionGroups.map(group => evaluateConditionGroup(group, length, lookup)),
+    rule.operator,
+    length
+  );
+}
+
+/**
+ * 매매 규칙 목록 평가
+ * 여러 규칙은 어느 하나라도 충족되면 신호가 발생하도록 OR로 결합
+ */
+export function evaluateTradeRules(
+  rules: TradeRule[],
+  length: number,
+  lookup: IndicatorLookup
+): ConditionState[] {
+  return combineSeries(
+    rules.map(rule => evaluateTradeRule(rule, length, lookup)),
+    'OR',
+    length
+  );
+}
+
+/**
+ * 전략의 매매 신호 생성
+ * @param strategy 매수/매도 규칙을 가진 전략
+ * @param data 과거 주가 데이터 (날짜 오름차순)
+ * @param lookup 지표 조회 함수 (지정하지 않으면 data로 새 캐시 생성)
+ * @returns 봉별 매수/매도 평가 결과와 최종 신호
+ */
+export function generateSignals(
+  strategy: Pick<Strategy, 'buyRules' | 'sellRules'>,
+  data: HistoricalDataItem[],
+  lookup: IndicatorLookup = createIndicatorLookup(data)
+): SignalSeries {
+  const length = data.length;
+  const buy = evaluateTradeRules(strategy.buyRules, length, lookup);
+  const sell = evaluateTradeRules(strategy.sellRules, length, lookup);
+
+  const signals: (SignalType | null)[] = [];
+  const undefinedBars: boolean[] = [];
+  let warmupBars = -1;
+
+  for (let i = 0; i < length; i++) {
+    const isBuy = buy[i] === true;
+    const isSell = sell[i] === true;
+
+    if (isBuy && !isSell) signals.push(SignalType.BUY);
+    else if (isSell && !isBuy) signals.push(SignalType.SELL);
+    else signals.push(null);
+
+    const isUndefined = buy[i] === null || sell[i] === null;
+    undefinedBars.push(isUndefined);
+
+    if (warmupBars === -1 && !isUndefined) {
+      warmupBars = i;
+    }
+  }
+
+  return {
+    dates: data.map(item => item.date),
+    buy,
+    sell,
+    signals,
+    undefinedBars,
+    warmupBars: warmupBars === -1 ? length : warmupBars,
+  };
+}
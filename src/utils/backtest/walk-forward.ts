@@ -0,0 +1,238 @@
+/**
+ * 워크 포워드 분석
+ * 학습 구간에서 파라미터를 최적화하고 바로 다음 검증 구간에 적용하는 과정을 반복해
+ * 검증 구간 결과만 이어 붙인 자산 곡선으로 과최적화 여부를 확인
+ */
+
+import { HistoricalData } from '../../types/stock';
+import { BacktestTrade, EquityPoint, PortfolioBacktestOptions } from '../../types/backtest';
+import {
+  OptimizationParameter,
+  OptimizationSettings,
+  WalkForwardResult,
+  WalkForwardSettings,
+  WalkForwardWindow,
+} from '../../types/optimization';
+import {
+  OptimizableStrategy,
+  evaluateCombination,
+  runCandidateBacktest,
+  runOptimization,
+} from './optimizer';
+import { calculateMetrics } from './metrics';
+import { JobControl } from './job-control';
+
+// 검증 구간에 필요한 최소 봉 수
+const MIN_OUT_OF_SAMPLE_BARS = 2;
+
+/**
+ * 워크 포워드 구간의 날짜 범위 (시작일 포함, 종료일 미포함)
+ */
+export type WalkForwardRange = Pick<
+  WalkForwardWindow,
+  'index' | 'inSampleStart' | 'inSampleEnd' | 'outOfSampleStart' | 'outOfSampleEnd'
+>;
+
+/**
+ * 날짜 문자열(YYYY-MM-DD)에 개월 수 더하기 (말일은 해당 월의 말일로 보정)
+ */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+/**
+ * 거래일 목록으로 워크 포워드 구간 생성
+ * 마지막 검증 구간은 데이터가 끝나는 곳에서 잘릴 수 있음
+ * @param dates 오름차순 거래일 목록
+ * @param settings 구간 방식과 학습/검증 기간
+ */
+export function buildWalkForwardWindows(dates: string[], settings: WalkForwardSettings): WalkForwardRange[] {
+  const inSampleMonths = Math.floor(settings.inSampleMonths);
+  const outOfSampleMonths = Math.floor(settings.outOfSampleMonths);
+  if (dates.length === 0 || inSampleMonths < 1 || outOfSampleMonths < 1) return [];
+
+  const firstDate = dates[0].slice(0, 10);
+  const windows: WalkForwardRange[] = [];
+
+  for (let index = 0; ; index++) {
+    const inSampleStart =
+      settings.mode === 'rolling' ? addMonths(firstDate, index * outOfSampleMonths) : firstDate;
+    const outOfSampleStart =
+      settings.mode === 'rolling'
+        ? addMonths(inSampleStart, inSampleMonths)
+        : addMonths(firstDate, inSampleMonths + index * outOfSampleMonths);
+    const outOfSampleEnd = addMonths(outOfSampleStart, outOfSampleMonths);
+
+    const outOfSampleBars = dates.filter(date => date >= outOfSampleStart && date < outOfSampleEnd).length;
+    if (outOfSampleBars < MIN_OUT_OF_SAMPLE_BARS) break;
+
+    windows.push({
+      index,
+      inSampleStart,
+      inSampleEnd: outOfSampleStart,
+      outOfSampleStart,
+      outOfSampleEnd,
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * 지정한 날짜 이전의 봉만 남긴 데이터 (이후 데이터를 보지 못하게 함)
+ */
+function truncateDatasets(datasets: HistoricalData[], endDate: string): HistoricalData[] {
+  return datasets.map(dataset => {
+    const data = dataset.data.filter(bar => bar.date < endDate);
+    return {
+      ...dataset,
+      data,
+      dataCount: data.length,
+      firstDate: data[0]?.date ?? null,
+      lastDate: data[data.length - 1]?.date ?? null,
+    };
+  });
+}
+
+/**
+ * 검증 CAGR / 학습 CAGR (%)
+ */
+function calculateEfficiency(inSampleCagr: number, outOfSampleCagr: number): number | null {
+  return inSampleCagr > 0 ? (outOfSampleCagr / inSampleCagr) * 100 : null;
+}
+
+/**
+ * 평균
+ */
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * 워크 포워드 분석 실행
+ * 구간마다 학습 구간을 최적화하고 최적 조합(없으면 현재 값)으로 검증 구간을 백테스트
+ * 학습/검증 모두 구간 시작 이전 데이터는 지표 계산에만 사용
+ * @param strategy 분석할 전략
+ * @param datasets 종목별 과거 주가 데이터
+ * @param parameters 최적화할 파라미터와 탐색 범위
+ * @param optimizationSettings 학습 구간 최적화 설정
+ * @param settings 워크 포워드 구간 설정
+ * @param options 백테스트 실행 옵션
+ * @param control 진행 상황(전체 구간의 평가 조합 수 기준)/완료한 구간 콜백과 취소 신호
+ * @returns 구간별 결과와 검증 구간을 이어 붙인 성과
+ */
+export async function runWalkForward(
+  strategy: OptimizableStrategy,
+  datasets: HistoricalData[],
+  parameters: OptimizationParameter[],
+  optimizationSettings: OptimizationSettings,
+  settings: WalkForwardSettings,
+  options: PortfolioBacktestOptions = {},
+  control: JobControl<WalkForwardWindow> = {}
+): Promise<WalkForwardResult> {
+  if (datasets.length === 0) {
+    throw new Error('분석할 종목 데이터가 없습니다.');
+  }
+
+  const dates = Array.from(new Set(datasets.flatMap(dataset => dataset.data.map(bar => bar.date)))).sort();
+  const ranges = buildWalkForwardWindows(dates, settings);
+  if (ranges.length === 0) {
+    throw new Error('데이터 기간이 학습 구간과 검증 구간을 합친 기간보다 짧습니다. 기간을 늘리거나 구간을 줄이세요.');
+  }
+
+  const currentValues = Object.fromEntries(parameters.map(parameter => [parameter.key, parameter.value]));
+  const initialCapital = strategy.moneyManagement.initialCapital;
+  const windows: WalkForwardWindow[] = [];
+  const equity: EquityPoint[] = [];
+  const trades: BacktestTrade[] = [];
+  let currency = datasets[0].currency;
+
+  for (const range of ranges) {
+    // 학습 구간 최적화
+    const optimization = await runOptimization(
+      strategy,
+      truncateDatasets(datasets, range.inSampleEnd),
+      parameters,
+      optimizationSettings,
+      { ...options, startDate: range.inSampleStart },
+      {
+        signal: control.signal,
+        onProgress: (completed, total) =>
+          control.onProgress?.(range.index * total + completed, ranges.length * total),
+      }
+    );
+    const bestValues = optimization.best?.values ?? null;
+    const values = bestValues ?? currentValues;
+    const inSampleMetrics =
+      optimization.best?.metrics ??
+      evaluateCombination(strategy, truncateDatasets(datasets, range.inSampleEnd), parameters, values, {
+        ...options,
+        startDate: range.inSampleStart,
+      });
+
+    // 검증 구간 백테스트
+    const result = runCandidateBacktest(
+      strategy,
+      truncateDatasets(datasets, range.outOfSampleEnd),
+      parameters,
+      values,
+      { ...options, startDate: range.outOfSampleStart }
+    );
+    const outOfSampleMetrics = calculateMetrics(result);
+    currency = result.currency;
+
+    // 직전 구간의 최종 자산에서 이어지도록 금액 환산
+    const scale = initialCapital > 0 ? (equity[equity.length - 1]?.equity ?? initialCapital) / initialCapital : 1;
+    result.equity.forEach(point => {
+      equity.push({
+        ...point,
+        equity: point.equity * scale,
+        cash: point.cash * scale,
+        positionValue: point.positionValue * scale,
+      });
+    });
+    result.trades.forEach(trade => {
+      trades.push({
+        ...trade,
+        quantity: trade.quantity * scale,
+        pnl: trade.pnl * scale,
+        ...(trade.commission !== undefined ? { commission: trade.commission * scale } : {}),
+        ...(trade.tax !== undefined ? { tax: trade.tax * scale } : {}),
+        ...(trade.slippage !== undefined ? { slippage: trade.slippage * scale } : {}),
+        ...(trade.basePnl !== undefined ? { basePnl: trade.basePnl * scale } : {}),
+      });
+    });
+
+    const window: WalkForwardWindow = {
+      ...range,
+      bestValues,
+      inSampleMetrics,
+      outOfSampleMetrics,
+      efficiency: calculateEfficiency(inSampleMetrics.cagr, outOfSampleMetrics.cagr),
+    };
+    windows.push(window);
+    control.onPartial?.(window);
+  }
+
+  const metrics = calculateMetrics({ equity, trades, initialCapital, interval: datasets[0].interval });
+
+  return {
+    parameters,
+    settings,
+    optimizationSettings,
+    windows,
+    currency,
+    equity,
+    trades,
+    metrics,
+    efficiency: calculateEfficiency(
+      mean(windows.map(window => window.inSampleMetrics.cagr)),
+      mean(windows.map(window => window.outOfSampleMetrics.cagr))
+    ),
+    profitableWindows: windows.filter(window => window.outOfSampleMetrics.totalReturn > 0).length,
+  };
+}
@@ -0,0 +1,133 @@
+/**
+ * 백테스트 워커 클라이언트
+ * 작업마다 워커를 만들어 실행하고 메시지를 Promise와 콜백으로 변환
+ * 워커를 쓸 수 없는 환경에서는 메인 스레드에서 같은 작업을 실행
+ */
+
+import { nanoid } from 'nanoid';
+import {
+  BacktestJob,
+  BacktestJobKind,
+  BacktestJobPartials,
+  BacktestJobProgress,
+  BacktestJobResults,
+  BacktestWorkerRequest,
+  BacktestWorkerResponse,
+} from '../../types/backtest-worker';
+import { executeBacktestJob, toJobProgress } from './jobs';
+import { JobCancelledError } from './job-control';
+
+// 취소 메시지를 보낸 뒤 응답이 없으면 워커를 강제 종료하기까지 기다리는 시간 (밀리초)
+// 작업은 계산 중간중간 양보하며 취소 메시지를 처리하므로, 강제 종료는 응답하지 않는 워커를 위한 대비책
+const CANCEL_TIMEOUT_MS = 1000;
+
+/**
+ * 작업 콜백과 취소 신호
+ */
+export interface BacktestJobHandlers<K extends BacktestJobKind> {
+  onProgress?: (progress: BacktestJobProgress) => void;
+  onPartial?: (partial: BacktestJobPartials[K]) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * 메인 스레드에서 작업 실행
+ */
+function runOnMainThread<K extends BacktestJobKind>(
+  job: Extract<BacktestJob, { kind: K }>,
+  handlers: BacktestJobHandlers<K>
+): Promise<BacktestJobResults[K]> {
+  return executeBacktestJob(job, {
+    signal: handlers.signal,
+    onPartial: handlers.onPartial,
+    onProgress: (completed, total) => handlers.onProgress?.(toJobProgress(completed, total)),
+  });
+}
+
+/**
+ * 백테스트 작업 실행
+ * @param job 실행할 작업
+ * @param handlers 진행 상황/중간 결과 콜백과 취소 신호
+ * @returns 작업 종류별 결과
+ * @throws 취소되면 JobCancelledError, 작업이 실패하면 오류 메시지를 담은 Error
+ */
+export function runBacktestJob<K extends BacktestJobKind>(
+  job: Extract<BacktestJob, { kind: K }>,
+  handlers: BacktestJobHandlers<K> = {}
+): Promise<BacktestJobResults[K]> {
+  if (typeof Worker === 'undefined') {
+    return runOnMainThread(job, handlers);
+  }
+
+  return new Promise((resolve, reject) => {
+    const jobId = nanoid();
+    const { signal } = handlers;
+
+    if (signal?.aborted) {
+      reject(new JobCancelledError());
+      return;
+    }
+
+    const worker = new Worker(new URL('./backtest.worker.ts', import.meta.url), { type: 'module' });
+    let cancelTimer: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * 워커 종료와 정리
+     */
+    const finish = () => {
+      worker.terminate();
+      if (cancelTimer) clearTimeout(cancelTimer);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    /**
+     * 취소 요청 처리 (워커가 응답하지 않으면 강제 종료)
+     */
+    const handleAbort = () => {
+      const request: BacktestWorkerRequest = { type: 'cancel', jobId };
+      worker.postMessage(request);
+
+      cancelTimer = setTimeout(() => {
+        finish();
+        reject(new JobCancelledError());
+      }, CANCEL_TIMEOUT_MS);
+    };
+
+    worker.addEventListener('message', (event: MessageEvent<BacktestWorkerResponse>) => {
+      const message = event.data;
+      if (message.jobId !== jobId) return;
+
+      switch (message.type) {
+        case 'progress':
+          handlers.onProgress?.(message.progress);
+          break;
+        case 'partial':
+          handlers.onPartial?.(message.partial as BacktestJobPartials[K]);
+          break;
+        case 'result':
+          finish();
+          resolve(message.result as BacktestJobResults[K]);
+          break;
+        case 'cancelled':
+          finish();
+          reject(new JobCancelledError());
+          break;
+        case 'error':
+          finish();
+          reject(new Error(message.message));
+          break;
+      }
+    });
+
+    worker.addEventListener('error', (event: ErrorEvent) => {
+      console.error('백테스트 워커 오류:', event);
+      finish();
+      reject(new Error(event.message || '백테스트 워커를 실행할 수 없습니다.'));
+    });
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    const request: BacktestWorkerRequest = { type: 'start', jobId, job };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * 데이터 포매팅 유틸리티
+ * 금액, 비율, 날짜 등을 화면 표시용 문자열로 변환
+ */
+
+/**
+ * 통화 포맷
+ * 원화처럼 보조 단위가 없는 통화는 소수점 없이 표시
+ */
+export function formatCurrency(value: number, currency = 'USD'): string {
+  const fractionDigits = ['KRW', 'JPY'].includes(currency) ? 0 : 2;
+
+  return new Intl.NumberFormat('ko-KR', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+}
+
+/**
+ * 퍼센트 포맷 (입력값은 % 단위)
+ */
+export function formatPercent(value: number, signDisplay: 'auto' | 'always' = 'auto'): string {
+  return new Intl.NumberFormat('ko-KR', {
+    style: 'percent',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    signDisplay,
+  }).format(value / 100);
+}
+
+/**
+ * 숫자 포맷
+ */
+export function formatNumber(value: number, fractionDigits = 2): string {
+  return new Intl.NumberFormat('ko-KR', {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+}
+
+/**
+ * 계산할 수 없는 값(null)을 포함한 비율 포맷
+ */
+export function formatRatio(value: number | null, fractionDigits = 2): string {
+  return value === null ? '-' : formatNumber(value, fractionDigits);
+}
+
+/**
+ * YYYY-MM-DD 형식 날짜 문자열 생성
+ */
+export function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * 데이터 크기 포맷 (바이트 → B/KB/MB/GB)
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unitIndex = 0;
+
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex++;
+  }
+
+  return `${formatNumber(value, unitIndex === 0 ? 0 : 1)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,127 @@
+/**
+ * 환율 환산 유틸리티
+ * 환율 시계열을 거래일에 맞추고 과거 주가와 자산 곡선을 다른 통화로 환산하며, 백테스트 엔진의 환산 환율 제공
+ */
+
+import { HistoricalData } from '../../types/stock';
+import { EquityPoint } from '../../types/backtest';
+import { FxConversion, FxSeries } from '../../types/currency';
+
+/**
+ * 환산 방향을 뒤집은 환율 시계열 (1 / 환율)
+ */
+export function invertFxSeries(series: FxSeries): FxSeries {
+  return {
+    from: series.to,
+    to: series.from,
+    symbol: series.symbol,
+    points: series.points
+      .filter(point => point.rate > 0)
+      .map(point => ({ date: point.date, rate: 1 / point.rate })),
+  };
+}
+
+/**
+ * 거래일에 맞춘 환율
+ * 외환 시장과 주식 시장의 휴장일이 달라 같은 날짜의 환율이 없으면 그 이전 마지막 환율을 사용하고,
+ * 이전 환율이 없는 앞부분은 첫 환율을 사용
+ * @param series 환율 시계열
+ * @param dates 날짜 오름차순 거래일
+ * @returns 거래일별 환율
+ */
+export function alignFxRates(series: FxSeries, dates: string[]): number[] {
+  if (series.from === series.to) {
+    return dates.map(() => 1);
+  }
+
+  const points = series.points.filter(point => point.rate > 0);
+  if (points.length === 0) {
+    throw new Error(`환율 데이터가 없습니다: ${series.from} → ${series.to}`);
+  }
+
+  let cursor = 0;
+  return dates.map(date => {
+    while (cursor + 1 < points.length && points[cursor + 1].date <= date) {
+      cursor++;
+    }
+    return points[cursor].rate;
+  });
+}
+
+/**
+ * 과거 주가 데이터를 다른 통화로 환산 (거래량은 그대로)
+ * @param data 과거 주가 데이터 (series.from 통화)
+ * @param series 환율 시계열
+ * @returns series.to 통화로 환산한 데이터
+ */
+export function convertHistoricalData(data: HistoricalData, series: FxSeries): HistoricalData {
+  if (data.currency !== series.from) {
+    throw new Error(`${data.symbol}의 통화(${data.currency})와 환율(${series.from})이 다릅니다.`);
+  }
+
+  const rates = alignFxRates(series, data.data.map(bar => bar.date));
+
+  return {
+    ...data,
+    currency: series.to,
+    data: data.data.map((bar, i) => ({
+      ...bar,
+      open: bar.open * rates[i],
+      high: bar.high * rates[i],
+      low: bar.low * rates[i],
+      close: bar.close * rates[i],
+      adjClose: bar.adjClose * rates[i],
+      ...(bar.dividend ? { dividend: bar.dividend * rates[i] } : {}),
+    })),
+  };
+}
+
+/**
+ * 자산 곡선을 다른 통화로 환산 (투자 비중은 그대로)
+ * @param equity 봉별 자산 현황 (series.from 통화)
+ * @param series 환율 시계열
+ * @returns series.to 통화로 환산한 자산 현황
+ */
+export function convertEquity(equity: EquityPoint[], series: FxSeries): EquityPoint[] {
+  const rates = alignFxRates(series, equity.map(point => point.date));
+
+  return equity.map((point, i) => ({
+    ...point,
+    equity: point.equity * rates[i],
+    cash: point.cash * rates[i],
+    positionValue: point.positionValue * rates[i],
+  }));
+}
+
+/**
+ * 여러 종목을 하나의 현금 계좌로 합산할 때의 평가 통화 결정
+ * 환산 설정이 없으면 모든 종목의 통화가 같아야 함
+ * @throws 환산 설정 없이 통화가 섞여 있는 경우
+ */
+export function resolveValuationCurrency(currencies: string[], fx?: FxConversion): string {
+  if (fx) return fx.baseCurrency;
+
+  const unique = Array.from(new Set(currencies));
+  if (unique.length > 1) {
+    throw new Error(`통화가 서로 다른 종목은 함께 백테스트할 수 없습니다: ${unique.join(', ')}`);
+  }
+  return unique[0] ?? '';
+}
+
+/**
+ * 종목 거래일에 맞춘 기준 통화 환율
+ * @param currency 종목 거래 통화
+ * @param dates 날짜 오름차순 거래일
+ * @param fx 환산 설정
+ * @returns 거래일별 환율, 환산이 필요 없으면 null
+ * @throws 해당 통화의 환율이 없는 경우
+ */
+export function resolveFxRates(currency: string, dates: string[], fx?: FxConversion): number[] | null {
+  if (!fx || currency === fx.baseCurrency) return null;
+
+  const series = fx.series.find(item => item.from === currency && item.to === fx.baseCurrency);
+  if (!series) {
+    throw new Error(`${currency} → ${fx.baseCurrency} 환율이 없습니다.`);
+  }
+  return alignFxRates(series, dates);
+}
@@ -0,0 +1,8 @@
+/**
+ * 매매 규칙 언어
+ * 텍스트로 작성한 규칙과 TradeRule 구조 간 변환 기능 제공
+ */
+
+export { tokenize, RuleLanguageError } from './tokenizer';
+export { parseTradeRule } from './parser';
+export { printTradeRule, printCondition, printIndicator } from './printer';
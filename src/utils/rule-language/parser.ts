@@ -0,0 +1,523 @@
+/**
+ * 매매 규칙 언어 파서
+ * 규칙 문자열을 TradeRule/ConditionGroup 구조로 변환
+ *
+ * 문법:
+ *   rule      := or
+ *   or        := and ('OR' and)*
+ *   and       := primary ('AND' primary)*
+ *   primary   := '(' or ')' | condition
+ *   condition := ('ANY' | 'ALL') '(' 봉수 ',' compare ')'
+ *              | 'COUNT' '(' 봉수 ',' 최소충족봉수 ',' compare ')'
+ *              | compare
+ *   compare   := operand 비교연산자 (숫자 | target)
+ *   target    := [숫자 '*'] operand ['*' 숫자] [('+' | '-') 숫자]
+ *   operand   := (indicator | ('HIGHEST' | 'LOWEST') '(' indicator ',' 봉수 ')') ['[' n봉전 ']']
+ *   indicator := 지표 ['(' 인자, ... ')'] ['.' 출력] | CLOSE | OPEN | HIGH | LOW | ADJ_CLOSE
+ *
+ * AND가 OR보다 먼저 결합하며, 조건 그룹 구조에 맞게 괄호 중첩은 한 단계까지만 허용
+ */
+
+import { nanoid } from 'nanoid';
+
+import {
+  ComparisonOperator,
+  ConditionGroup,
+  ConditionLookback,
+  ConditionParameter,
+  IndicatorType,
+  LogicalOperator,
+  MAX_CONDITION_BARS,
+  SignalType,
+  StrategyCondition,
+  TradeRule,
+} from '../../types/strategy';
+import { RuleParseResult, RuleSyntaxError, RuleToken, RuleTokenType } from '../../types/rule-language';
+import { getDefaultParameters } from '../../constants/indicator-parameters';
+import { RuleLanguageError, tokenize } from './tokenizer';
+import { CROSS_KEYWORDS, getIndicatorSyntax, PRICE_SHORTCUTS } from './syntax';
+
+// 지표 타입 목록
+const INDICATOR_TYPES = Object.values(IndicatorType) as string[];
+
+/**
+ * 조건 노드
+ */
+interface ConditionNode {
+  kind: 'condition';
+  condition: Omit<StrategyCondition, 'id'>;
+  grouped: boolean;  // 괄호로 감싸져 있는지 여부
+  start: number;
+}
+
+/**
+ * 논리 연산 노드
+ */
+interface LogicalNode {
+  kind: 'logical';
+  operator: LogicalOperator;
+  items: RuleNode[];
+  grouped: boolean;
+  start: number;
+}
+
+type RuleNode = ConditionNode | LogicalNode;
+
+/**
+ * 비교식 한쪽 (지표 + 최고/최저값 집계 + n봉 전 오프셋)
+ */
+interface Operand {
+  type: IndicatorType;
+  parameters: ConditionParameter[];
+  extreme?: { mode: 'highest' | 'lowest'; period: number };
+  offset?: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * 재귀 하강 파서
+ */
+class RuleParser {
+  private index = 0;
+
+  constructor(private readonly tokens: RuleToken[]) {}
+
+  /**
+   * 전체 규칙 파싱
+   */
+  parse(): RuleNode | null {
+    if (this.peek().type === 'eof') return null;
+
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw this.error(token, `예상하지 못한 '${token.text}'입니다. AND 또는 OR가 필요합니다.`);
+    }
+    return node;
+  }
+
+  private peek(offset = 0): RuleToken {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): RuleToken {
+    const token = this.peek();
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private expect(type: RuleTokenType, message: string): RuleToken {
+    const token = this.peek();
+    if (token.type !== type) throw this.error(token, message);
+    return this.next();
+  }
+
+  private isKeyword(keyword: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'identifier' && token.text.toUpperCase() === keyword;
+  }
+
+  private error(token: RuleToken, message: string): RuleLanguageError {
+    const end = token.type === 'eof' ? token.start : token.end;
+    return new RuleLanguageError(
+      token.type === 'eof' ? `규칙이 완성되지 않았습니다. ${message}` : message,
+      token.start,
+      end
+    );
+  }
+
+  private parseOr(): RuleNode {
+    return this.parseLogical('OR', () => this.parseAnd());
+  }
+
+  private parseAnd(): RuleNode {
+    return this.parseLogical('AND', () => this.parsePrimary());
+  }
+
+  private parseLogical(operator: LogicalOperator, parseItem: () => RuleNode): RuleNode {
+    const first = parseItem();
+    const items = [first];
+
+    while (this.isKeyword(operator)) {
+      this.next();
+      items.push(parseItem());
+    }
+
+    if (items.length === 1) return first;
+    return { kind: 'logical', operator, items, grouped: false, start: first.start };
+  }
+
+  private parsePrimary(): RuleNode {
+    if (this.peek().type === 'lparen') {
+      const open = this.next();
+      const node = this.parseOr();
+      this.expect('rparen', "닫는 괄호 ')'가 필요합니다.");
+      return { ...node, grouped: true, start: open.start };
+    }
+
+    const start = this.peek().start;
+    return { kind: 'condition', condition: this.parseCondition(), grouped: false, start };
+  }
+
+  /**
+   * 조건 파싱 (ANY/ALL/COUNT 구간 집계 포함)
+   */
+  private parseCondition(): Omit<StrategyCondition, 'id'> {
+    const keyword = this.peek();
+    const mode = keyword.text.toUpperCase();
+
+    if ((mode === 'ANY' || mode === 'ALL' || mode === 'COUNT') && this.peek(1).type === 'lparen') {
+      this.next();
+      this.next();
+
+      const period = this.parseInteger(1, MAX_CONDITION_BARS, '구간 봉 수');
+      const lookback: ConditionLookback = { mode: mode.toLowerCase() as ConditionLookback['mode'], period };
+      this.expect('comma', "쉼표 ','가 필요합니다.");
+
+      if (mode === 'COUNT') {
+        lookback.count = this.parseInteger(1, period, '최소 충족 봉 수');
+        this.expect('comma', "쉼표 ','가 필요합니다.");
+      }
+
+      const condition = this.parseComparison();
+      if (condition.lookback) {
+        throw this.error(keyword, `${mode} 안에서는 HIGHEST/LOWEST를 함께 사용할 수 없습니다.`);
+      }
+      this.expect('rparen', "닫는 괄호 ')'가 필요합니다.");
+
+      return { ...condition, lookback };
+    }
+
+    return this.parseComparison();
+  }
+
+  /**
+   * 비교식 파싱
+   */
+  private parseComparison(): Omit<StrategyCondition, 'id'> {
+    if (this.peek().type === 'number' || this.peek().type === 'minus') {
+      throw this.error(this.peek(), '조건의 좌변에는 지표가 와야 합니다 (예: RSI(14) < 30).');
+    }
+
+    const left = this.parseOperand();
+    const operator = this.parseComparisonOperator();
+    const condition: Omit<StrategyCondition, 'id'> = {
+      type: left.type,
+      parameters: left.parameters,
+      operator,
+      value: 0,
+    };
+
+    if (left.offset) condition.offset = left.offset;
+    if (left.extreme) condition.lookback = { mode: left.extreme.mode, period: left.extreme.period };
+
+    // 상수와 비교 또는 배수 * 지표
+    let multiplier: number | undefined;
+    if (this.peek().type === 'number' || this.peek().type === 'minus') {
+      const number = this.parseNumber();
+
+      if (this.peek().type !== 'star') {
+        condition.value = number;
+        return condition;
+      }
+
+      this.next();
+      multiplier = number;
+    }
+
+    const right = this.parseOperand();
+    condition.valueType = right.type;
+    condition.valueParameters = right.parameters;
+    if (right.offset) condition.valueOffset = right.offset;
+
+    if (right.extreme) {
+      if (condition.lookback) {
+        throw new RuleLanguageError('HIGHEST/LOWEST는 조건의 한쪽에만 사용할 수 있습니다.', right.start, right.end);
+      }
+      condition.lookback = { mode: right.extreme.mode, period: right.extreme.period, side: 'right' };
+    }
+
+    if (multiplier === undefined && this.peek().type === 'star') {
+      this.next();
+      multiplier = this.parseNumber();
+    }
+
+    if (this.peek().type === 'plus' || this.peek().type === 'minus') {
+      const sign = this.next().type === 'plus' ? 1 : -1;
+      const addend = sign * this.parseNumber();
+      if (addend !== 0) condition.valueAddend = addend;
+    }
+
+    if (multiplier !== undefined && multiplier !== 1) condition.valueMultiplier = multiplier;
+
+    return condition;
+  }
+
+  private parseComparisonOperator(): ComparisonOperator {
+    const token = this.peek();
+
+    if (token.type === 'comparison') {
+      this.next();
+      return token.text as ComparisonOperator;
+    }
+
+    const cross = token.type === 'identifier' ? CROSS_KEYWORDS[token.text.toUpperCase()] : undefined;
+    if (cross) {
+      this.next();
+      return cross;
+    }
+
+    throw this.error(token, '비교 연산자(>, >=, =, <=, <, !=, crossAbove, crossBelow)가 필요합니다.');
+  }
+
+  /**
+   * 비교식 한쪽 파싱 (HIGHEST/LOWEST 집계, [n] 오프셋 포함)
+   */
+  private parseOperand(): Operand {
+    const start = this.peek().start;
+    let operand: Operand;
+
+    const keyword = this.peek().text.toUpperCase();
+    if ((keyword === 'HIGHEST' || keyword === 'LOWEST') && this.peek(1).type === 'lparen') {
+      this.next();
+      this.next();
+
+      const indicator = this.parseIndicator();
+      this.expect('comma', "쉼표 ','와 구간 봉 수가 필요합니다 (예: HIGHEST(HIGH, 20)).");
+      const period = this.parseInteger(1, MAX_CONDITION_BARS, '구간 봉 수');
+      this.expect('rparen', "닫는 괄호 ')'가 필요합니다.");
+
+      operand = {
+        ...indicator,
+        extreme: { mode: keyword === 'HIGHEST' ? 'highest' : 'lowest', period },
+      };
+    } else {
+      operand = this.parseIndicator();
+    }
+
+    if (this.peek().type === 'lbracket') {
+      this.next();
+      const offset = this.parseInteger(0, MAX_CONDITION_BARS, '기준 봉 오프셋');
+      this.expect('rbracket', "닫는 대괄호 ']'가 필요합니다.");
+      if (offset > 0) operand.offset = offset;
+    }
+
+    return { ...operand, start, end: this.tokens[this.index - 1].end };
+  }
+
+  /**
+   * 지표 파싱 (위치 인자와 .출력 선택)
+   */
+  private parseIndicator(): Operand {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw this.error(token, '지표가 필요합니다 (예: MA(20), RSI(14), CLOSE).');
+    }
+    this.next();
+
+    const name = token.text.toUpperCase();
+
+    if (PRICE_SHORTCUTS.includes(name)) {
+      return {
+        type: IndicatorType.PRICE,
+        parameters: this.withDefaults(IndicatorType.PRICE, { priceType: name }),
+        start: token.start,
+        end: token.end,
+      };
+    }
+
+    if (!INDICATOR_TYPES.includes(name)) {
+      throw this.error(token, `알 수 없는 지표입니다 (${token.text}).`);
+    }
+
+    const type = name as IndicatorType;
+    const { positional, selector } = getIndicatorSyntax(type);
+    const values: Record<string, number | string> = {};
+
+    if (this.peek().type === 'lparen') {
+      this.next();
+
+      if (this.peek().type !== 'rparen') {
+        let argIndex = 0;
+        do {
+          if (argIndex > 0) this.next();
+          const argToken = this.peek();
+          const definition = positional[argIndex];
+
+          if (!definition) {
+            throw this.error(argToken, `${type} 지표의 인자는 최대 ${positional.length}개입니다.`);
+          }
+
+          values[definition.name] = this.parseParameterValue(definition, type);
+          argIndex++;
+        } while (this.peek().type === 'comma');
+      }
+
+      this.expect('rparen', "닫는 괄호 ')'가 필요합니다.");
+    }
+
+    if (this.peek().type === 'dot') {
+      this.next();
+      const outputToken = this.peek();
+
+      if (!selector?.options) {
+        throw this.error(outputToken, `${type} 지표에는 출력 선택(.)이 없습니다.`);
+      }
+
+      const option = outputToken.type === 'identifier'
+        ? selector.options.find(o => o.toUpperCase() === outputToken.text.toUpperCase())
+        : undefined;
+      if (!option) {
+        throw this.error(outputToken, `${type} 지표의 출력은 ${selector.options.join(', ')} 중 하나여야 합니다.`);
+      }
+
+      this.next();
+      values[selector.name] = option;
+    }
+
+    return { type, parameters: this.withDefaults(type, values), start: token.start, end: token.end };
+  }
+
+  /**
+   * 파라미터 값 파싱 (범위와 선택지 검증)
+   */
+  private parseParameterValue(definition: ConditionParameter, type: IndicatorType): number | string {
+    const token = this.peek();
+
+    if (definition.options) {
+      const option = token.type === 'identifier'
+        ? definition.options.find(o => o.toUpperCase() === token.text.toUpperCase())
+        : undefined;
+      if (!option) {
+        throw this.error(token, `${type} 지표의 ${definition.name} 값은 ${definition.options.join(', ')} 중 하나여야 합니다.`);
+      }
+      this.next();
+      return option;
+    }
+
+    const value = this.parseNumber();
+
+    if (
+      (definition.min !== undefined && value < definition.min) ||
+      (definition.max !== undefined && value > definition.max)
+    ) {
+      throw this.error(token, `${type} 지표의 ${definition.name} 값은 ${definition.min} ~ ${definition.max} 범위여야 합니다.`);
+    }
+
+    if (Number.isInteger(definition.min) && Number.isInteger(definition.step ?? 1) && !Number.isInteger(value)) {
+      throw this.error(token, `${type} 지표의 ${definition.name} 값은 정수여야 합니다.`);
+    }
+
+    return value;
+  }
+
+  /**
+   * 기본 파라미터에 입력값 적용
+   */
+  private withDefaults(type: IndicatorType, values: Record<string, number | string>): ConditionParameter[] {
+    return getDefaultParameters(type).map(definition =>
+      definition.name in values ? { ...definition, value: values[definition.name] } : definition
+    );
+  }
+
+  private parseNumber(): number {
+    const negative = this.peek().type === 'minus';
+    if (negative) this.next();
+
+    const token = this.expect('number', '숫자가 필요합니다.');
+    const value = Number(token.text);
+    return negative ? -value : value;
+  }
+
+  private parseInteger(min: number, max: number, label: string): number {
+    const token = this.peek();
+    const value = this.parseNumber();
+
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw this.error(token, `${label}은(는) ${min} ~ ${max} 범위의 정수여야 합니다.`);
+    }
+    return value;
+  }
+}
+
+/**
+ * 원문 위치를 행/열 번호로 변환 (1부터)
+ */
+function getLineColumn(source: string, position: number): { line: number; column: number } {
+  const before = source.slice(0, position).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * 노드를 조건 목록으로 변환 (조건 그룹 하나에 해당)
+ * @throws RuleLanguageError 괄호가 두 단계 이상 중첩된 경우
+ */
+function toConditions(node: RuleNode): StrategyCondition[] {
+  if (node.kind === 'condition') {
+    return [{ ...node.condition, id: nanoid() }];
+  }
+
+  return node.items.map(item => {
+    if (item.kind !== 'condition') {
+      throw new RuleLanguageError(
+        '조건 그룹 안에서 AND와 OR를 섞거나 괄호를 중첩할 수 없습니다. 괄호는 한 단계까지만 사용할 수 있습니다.',
+        item.start,
+        item.start + 1
+      );
+    }
+    return { ...item.condition, id: nanoid() };
+  });
+}
+
+/**
+ * 노드를 조건 그룹으로 변환
+ */
+function toGroup(node: RuleNode): ConditionGroup {
+  return {
+    id: nanoid(),
+    conditions: toConditions(node),
+    operator: node.kind === 'logical' ? node.operator : 'AND',
+  };
+}
+
+/**
+ * 구문 트리를 매매 규칙 구조로 변환
+ * 괄호나 다른 연산자의 하위 식이 없으면 조건 그룹 하나로, 있으면 최상위 연산자로 결합된 여러 조건 그룹으로 변환
+ */
+function toTradeRule(node: RuleNode | null, type: SignalType): TradeRule {
+  const rule: TradeRule = { id: nanoid(), type, conditionGroups: [], operator: 'AND' };
+  if (!node) return rule;
+
+  if (node.kind === 'condition' || node.items.every(item => item.kind === 'condition' && !item.grouped)) {
+    rule.conditionGroups = [toGroup(node)];
+    return rule;
+  }
+
+  rule.operator = node.operator;
+  rule.conditionGroups = node.items.map(toGroup);
+  return rule;
+}
+
+/**
+ * 규칙 문자열을 매매 규칙으로 변환
+ * @param source 규칙 문자열 (예: (MA(10) > MA(30) AND RSI(14) < 70) OR CLOSE > BOLLINGER(20, 2).upper)
+ * @param type 매수/매도 구분
+ * @returns 변환된 매매 규칙 또는 위치 정보가 포함된 오류 목록
+ */
+export function parseTradeRule(source: string, type: SignalType): RuleParseResult {
+  try {
+    const tree = new RuleParser(tokenize(source)).parse();
+    return { rule: toTradeRule(tree, type), errors: [] };
+  } catch (error) {
+    if (!(error instanceof RuleLanguageError)) throw error;
+
+    const syntaxError: RuleSyntaxError = {
+      message: error.message,
+      start: error.start,
+      end: error.end,
+      ...getLineColumn(source, error.start),
+    };
+    return { rule: null, errors: [syntaxError] };
+  }
+}
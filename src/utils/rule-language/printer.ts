@@ -0,0 +1,111 @@
+/**
+ * 매매 규칙 언어 프린터
+ * 저장된 TradeRule을 파서가 다시 읽을 수 있는 규칙 문자열로 변환
+ */
+
+import {
+  ConditionGroup,
+  ConditionParameter,
+  IndicatorType,
+  StrategyCondition,
+  TradeRule,
+} from '../../types/strategy';
+import { getIndicatorSyntax } from './syntax';
+
+/**
+ * 지표 표기 (예: MA(20), BOLLINGER(20, 2).upper, CLOSE)
+ * 끝쪽의 생략 가능한 인자(기본값인 가격 타입, 기본값이 최소값인 기간 등)는 생략
+ */
+export function printIndicator(type: IndicatorType, parameters: ConditionParameter[] = []): string {
+  const getValue = (definition: ConditionParameter): number | string =>
+    parameters.find(p => p.name === definition.name)?.value ?? definition.value;
+
+  if (type === IndicatorType.PRICE) {
+    const priceType = parameters.find(p => p.name === 'priceType')?.value;
+    return String(priceType ?? 'CLOSE');
+  }
+
+  const { positional, selector } = getIndicatorSyntax(type);
+  const args = positional.map(getValue);
+
+  // 기본값이면서 생략해도 의미가 같은 끝쪽 인자 제거
+  while (args.length > 0) {
+    const definition = positional[args.length - 1];
+    const isOmittable = definition.options !== undefined || definition.value === definition.min;
+    if (!isOmittable || args[args.length - 1] !== definition.value) break;
+    args.pop();
+  }
+
+  const call = args.length > 0 ? `${type}(${args.join(', ')})` : type;
+  return selector ? `${call}.${getValue(selector)}` : call;
+}
+
+/**
+ * 비교식 한쪽 표기 (HIGHEST/LOWEST 집계, [n] 오프셋 포함)
+ */
+function printOperand(
+  type: IndicatorType,
+  parameters: ConditionParameter[] | undefined,
+  side: 'left' | 'right',
+  condition: StrategyCondition
+): string {
+  const { lookback } = condition;
+  let result = printIndicator(type, parameters);
+
+  if (lookback && (lookback.mode === 'highest' || lookback.mode === 'lowest') && (lookback.side ?? 'left') === side) {
+    result = `${lookback.mode.toUpperCase()}(${result}, ${lookback.period})`;
+  }
+
+  const offset = side === 'left' ? condition.offset : condition.valueOffset;
+  return offset ? `${result}[${offset}]` : result;
+}
+
+/**
+ * 조건 표기 (예: RSI(14) < 30, ANY(3, RSI(14) < 30), CLOSE > MA(50) * 1.03)
+ */
+export function printCondition(condition: StrategyCondition): string {
+  const left = printOperand(condition.type, condition.parameters, 'left', condition);
+  let right = String(condition.value);
+
+  if (condition.valueType) {
+    right = printOperand(condition.valueType, condition.valueParameters, 'right', condition);
+
+    const { valueMultiplier = 1, valueAddend = 0 } = condition;
+    if (valueMultiplier !== 1) right = `${right} * ${valueMultiplier}`;
+    if (valueAddend > 0) right = `${right} + ${valueAddend}`;
+    if (valueAddend < 0) right = `${right} - ${Math.abs(valueAddend)}`;
+  }
+
+  const expression = `${left} ${condition.operator} ${right}`;
+  const { lookback } = condition;
+
+  if (lookback?.mode === 'any' || lookback?.mode === 'all') {
+    return `${lookback.mode.toUpperCase()}(${lookback.period}, ${expression})`;
+  }
+  if (lookback?.mode === 'count') {
+    return `COUNT(${lookback.period}, ${lookback.count ?? 1}, ${expression})`;
+  }
+  return expression;
+}
+
+/**
+ * 조건 그룹 표기
+ */
+function printGroup(group: ConditionGroup): string {
+  return group.conditions.map(printCondition).join(` ${group.operator} `);
+}
+
+/**
+ * 매매 규칙 표기
+ * 조건 그룹이 둘 이상이면 그룹마다 괄호로 감싸 규칙 연산자로 결합
+ * @param rule 매매 규칙
+ * @returns 규칙 문자열 (조건이 없으면 빈 문자열)
+ */
+export function printTradeRule(rule: TradeRule): string {
+  const groups = rule.conditionGroups.filter(group => group.conditions.length > 0);
+
+  if (groups.length === 0) return '';
+  if (groups.length === 1) return printGroup(groups[0]);
+
+  return groups.map(group => `(${printGroup(group)})`).join(` ${rule.operator} `);
+}
@@ -0,0 +1,40 @@
+/**
+ * 매매 규칙 언어 문법 정의
+ * 파서와 프린터가 공통으로 사용하는 키워드와 지표 파라미터 표기 규칙
+ */
+
+import { ComparisonOperator, ConditionParameter, IndicatorType, PriceType } from '../../types/strategy';
+import { getDefaultParameters } from '../../constants/indicator-parameters';
+
+// 교차 연산자 키워드
+export const CROSS_KEYWORDS: Record<string, ComparisonOperator> = {
+  CROSSABOVE: 'crossAbove',
+  CROSSBELOW: 'crossBelow',
+};
+
+// 가격 지표 축약 표기 (CLOSE = PRICE(CLOSE))
+export const PRICE_SHORTCUTS = Object.values(PriceType) as string[];
+
+/**
+ * 출력 선택 파라미터 여부 (예: BOLLINGER의 bandPart → .upper 로 표기)
+ * 선택지가 있는 파라미터 중 가격 타입이 아닌 것
+ */
+export function isSelectorParameter(parameter: ConditionParameter): boolean {
+  return Boolean(parameter.options) && parameter.name !== 'priceType';
+}
+
+/**
+ * 지표 표기 규칙
+ * positional: 괄호 안에 순서대로 쓰는 파라미터, selector: 점(.) 뒤에 쓰는 출력 선택 파라미터
+ */
+export function getIndicatorSyntax(type: IndicatorType): {
+  positional: ConditionParameter[];
+  selector: ConditionParameter | undefined;
+} {
+  const defaults = getDefaultParameters(type);
+
+  return {
+    positional: defaults.filter(parameter => !isSelectorParameter(parameter)),
+    selector: defaults.find(isSelectorParameter),
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * 매매 규칙 언어 토크나이저
+ * 규칙 문자열을 위치 정보가 포함된 토큰 목록으로 변환
+ */
+
+import { RuleToken, RuleTokenType } from '../../types/rule-language';
+
+/**
+ * 규칙 언어 오류 (원문 위치 포함)
+ */
+export class RuleLanguageError extends Error {
+  constructor(message: string, public readonly start: number, public readonly end: number) {
+    super(message);
+    this.name = 'RuleLanguageError';
+  }
+}
+
+// 한 글자 기호 토큰
+const SINGLE_CHAR_TOKENS: Record<string, RuleTokenType> = {
+  '(': 'lparen',
+  ')': 'rparen',
+  '[': 'lbracket',
+  ']': 'rbracket',
+  ',': 'comma',
+  '.': 'dot',
+  '*': 'star',
+  '×': 'star',
+  '+': 'plus',
+  '-': 'minus',
+};
+
+// 비교 연산자 (긴 것부터 검사)
+const COMPARISON_TOKENS: [string, string][] = [
+  ['>=', '>='],
+  ['<=', '<='],
+  ['!=', '!='],
+  ['==', '='],
+  ['≥', '>='],
+  ['≤', '<='],
+  ['≠', '!='],
+  ['>', '>'],
+  ['<', '<'],
+  ['=', '='],
+];
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * 규칙 문자열 토큰화
+ * 비교 연산자 토큰의 text는 정규화된 연산자 (예: ≥ → >=, == → =)
+ * @throws RuleLanguageError 알 수 없는 문자가 있는 경우
+ */
+export function tokenize(source: string): RuleToken[] {
+  const tokens: RuleToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      const start = i;
+      while (i < source.length && IDENTIFIER_PART.test(source[i])) i++;
+      tokens.push({ type: 'identifier', text: source.slice(start, i), start, end: i });
+      continue;
+    }
+
+    if (DIGIT.test(char)) {
+      const start = i;
+      while (i < source.length && DIGIT.test(source[i])) i++;
+      if (source[i] === '.' && DIGIT.test(source[i + 1] ?? '')) {
+        i++;
+        while (i < source.length && DIGIT.test(source[i])) i++;
+      }
+      tokens.push({ type: 'number', text: source.slice(start, i), start, end: i });
+      continue;
+    }
+
+    const comparison = COMPARISON_TOKENS.find(([symbol]) => source.startsWith(symbol, i));
+    if (comparison) {
+      const [symbol, operator] = comparison;
+      tokens.push({ type: 'comparison', text: operator, start: i, end: i + symbol.length });
+      i += symbol.length;
+      continue;
+    }
+
+    const type = SINGLE_CHAR_TOKENS[char];
+    if (type) {
+      tokens.push({ type, text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    throw new RuleLanguageError(`알 수 없는 문자입니다 ('${char}').`, i, i + 1);
+  }
+
+  tokens.push({ type: 'eof', text: '', start: source.length, end: source.length });
+  return tokens;
+}
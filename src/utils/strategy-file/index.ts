@@ -0,0 +1,209 @@
+/**
+ * 전략 파일 내보내기/가져오기 유틸리티
+ * 버전 정보가 포함된 JSON 파일로 전략을 주고받기 위한 변환/검증 기능 제공
+ */
+
+import { nanoid } from 'nanoid';
+
+import {
+  AssetAllocation,
+  ConditionGroup,
+  ConditionParameter,
+  IndicatorType,
+  SignalType,
+  Strategy,
+  StrategyCondition,
+  TradeRule,
+} from '../../types/strategy';
+import {
+  StrategyDefinition,
+  StrategyFile,
+  StrategyFileImportResult,
+} from '../../types/strategy-file';
+import {
+  STRATEGY_FILE_EXTENSION,
+  STRATEGY_FILE_FORMAT,
+  STRATEGY_FILE_VERSION,
+} from '../../constants/strategy-file';
+import { getDefaultParameters } from '../../constants/indicator-parameters';
+import { migrateStrategyFile } from './migrations';
+import { validateStrategyDefinition } from './validation';
+import { hasCosts } from '../backtest/costs';
+
+/**
+ * 전략을 파일 형식으로 변환
+ * 사용자/저장소에 종속된 필드(ID, 사용자 ID, 생성/수정 시간, 공개 여부)는 제외
+ */
+export function createStrategyFile(strategy: StrategyDefinition | Strategy): StrategyFile {
+  const definition: StrategyDefinition = {
+    name: strategy.name,
+    description: strategy.description,
+    buyRules: strategy.buyRules,
+    sellRules: strategy.sellRules,
+    moneyManagement: strategy.moneyManagement,
+    tags: strategy.tags,
+    ...(strategy.costModel && hasCosts(strategy.costModel) ? { costModel: strategy.costModel } : {}),
+    ...(strategy.kind === 'allocation' ? { kind: strategy.kind, allocation: strategy.allocation } : {}),
+  };
+
+  return {
+    format: STRATEGY_FILE_FORMAT,
+    version: STRATEGY_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    strategy: JSON.parse(JSON.stringify(definition)) as StrategyDefinition,
+  };
+}
+
+/**
+ * 전략을 JSON 문자열로 직렬화
+ */
+export function serializeStrategy(strategy: StrategyDefinition | Strategy): string {
+  return JSON.stringify(createStrategyFile(strategy), null, 2);
+}
+
+/**
+ * 전략 파일 이름 생성
+ */
+export function getStrategyFileName(name: string): string {
+  const baseName = name.trim().replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '') || 'strategy';
+  return `${baseName}${STRATEGY_FILE_EXTENSION}`;
+}
+
+/**
+ * 전략 파일 다운로드 (브라우저)
+ */
+export function downloadStrategyFile(strategy: StrategyDefinition | Strategy): void {
+  const blob = new Blob([serializeStrategy(strategy)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getStrategyFileName(strategy.name);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 파라미터를 기본 정의(범위, 선택지)에 맞춰 정규화
+ * 파일에 없는 파라미터는 기본값으로 채움
+ */
+function normalizeParameters(type: IndicatorType, parameters: ConditionParameter[]): ConditionParameter[] {
+  return getDefaultParameters(type).map(definition => {
+    const parameter = parameters.find(p => p.name === definition.name);
+    return parameter ? { ...definition, value: parameter.value } : definition;
+  });
+}
+
+/**
+ * 조건에 새 ID 부여 및 파라미터 정규화
+ */
+function regenerateCondition(condition: StrategyCondition): StrategyCondition {
+  const regenerated: StrategyCondition = {
+    ...condition,
+    id: nanoid(),
+    parameters: normalizeParameters(condition.type, condition.parameters),
+  };
+
+  if (condition.valueType) {
+    regenerated.valueType = condition.valueType;
+    regenerated.valueParameters = normalizeParameters(condition.valueType, condition.valueParameters ?? []);
+    regenerated.value = condition.value ?? 0;
+  } else {
+    delete regenerated.valueType;
+    delete regenerated.valueParameters;
+    delete regenerated.valueOffset;
+    delete regenerated.valueMultiplier;
+    delete regenerated.valueAddend;
+  }
+
+  return regenerated;
+}
+
+/**
+ * 매매 규칙에 새 ID 부여
+ */
+function regenerateRule(rule: TradeRule): TradeRule {
+  return {
+    ...rule,
+    id: nanoid(),
+    conditionGroups: rule.conditionGroups.map((group): ConditionGroup => ({
+      ...group,
+      id: nanoid(),
+      conditions: group.conditions.map(regenerateCondition),
+    })),
+  };
+}
+
+/**
+ * 조건이 없는 매매 규칙 생성 (자산 배분 전략용)
+ */
+function createEmptyRule(type: SignalType): TradeRule {
+  return { id: nanoid(), type, conditionGroups: [], operator: 'AND' };
+}
+
+/**
+ * 전략 파일 가져오기
+ * 이전 버전 파일은 현재 버전으로 변환한 뒤 검증하며, 모든 규칙/그룹/조건에 새 ID를 부여
+ * @param content 파일 내용 (JSON 문자열)
+ * @returns 검증 결과와 가져온 전략 정의
+ */
+export function parseStrategyFile(content: string): StrategyFileImportResult {
+  let raw: unknown;
+
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    return {
+      isValid: false,
+      errors: [{
+        path: '',
+        message: `JSON 형식이 올바르지 않습니다. ${error instanceof Error ? error.message : ''}`.trim(),
+      }],
+      strategy: null,
+      sourceVersion: null,
+    };
+  }
+
+  const migration = migrateStrategyFile(raw);
+  if (!migration.file) {
+    return {
+      isValid: false,
+      errors: migration.errors,
+      strategy: null,
+      sourceVersion: migration.sourceVersion,
+    };
+  }
+
+  const errors = validateStrategyDefinition(migration.file.strategy);
+  if (errors.length > 0) {
+    return { isValid: false, errors, strategy: null, sourceVersion: migration.sourceVersion };
+  }
+
+  const definition = migration.file.strategy as StrategyDefinition;
+  const isAllocation = definition.kind === 'allocation';
+
+  return {
+    isValid: true,
+    errors: [],
+    strategy: {
+      name: definition.name.trim(),
+      description: definition.description ?? '',
+      // 자산 배분 전략은 매매 규칙을 사용하지 않으므로 빈 규칙으로 대체
+      buyRules: isAllocation ? [createEmptyRule(SignalType.BUY)] : definition.buyRules.map(regenerateRule),
+      sellRules: isAllocation ? [createEmptyRule(SignalType.SELL)] : definition.sellRules.map(regenerateRule),
+      moneyManagement: { ...definition.moneyManagement },
+      ...(definition.costModel ? { costModel: { ...definition.costModel } } : {}),
+      ...(definition.tags && definition.tags.length > 0 ? { tags: [...definition.tags] } : {}),
+      ...(isAllocation
+        ? {
+            kind: definition.kind,
+            allocation: JSON.parse(JSON.stringify(definition.allocation)) as AssetAllocation,
+          }
+        : {}),
+    },
+    sourceVersion: migration.sourceVersion,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * 전략 파일 형식 마이그레이션
+ * 이전 버전 형식의 파일을 현재 버전 형식으로 단계별 변환
+ */
+
+import { StrategyFileError } from '../../types/strategy-file';
+import { STRATEGY_FILE_FORMAT, STRATEGY_FILE_VERSION } from '../../constants/strategy-file';
+
+/**
+ * 파싱된 JSON 객체
+ */
+type JsonObject = Record<string, unknown>;
+
+/**
+ * 마이그레이션 결과
+ */
+export interface MigrationResult {
+  file: JsonObject | null;       // 현재 버전으로 변환된 파일 (실패 시 null)
+  sourceVersion: number | null;  // 원본 파일 버전
+  errors: StrategyFileError[];
+}
+
+/**
+ * 객체 여부 확인
+ */
+export function isJsonObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 버전별 마이그레이션 (키 버전의 파일을 다음 버전으로 변환)
+ */
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  /**
+   * 버전 0 → 1
+   * 버전 0은 형식 정보 없이 Firestore 전략 문서를 그대로 저장한 JSON
+   */
+  0: (document) => {
+    const strategy = { ...document };
+    delete strategy.id;
+    delete strategy.userId;
+    delete strategy.createdAt;
+    delete strategy.updatedAt;
+    delete strategy.isPublic;
+
+    return {
+      format: STRATEGY_FILE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      strategy,
+    };
+  },
+
+  /**
+   * 버전 1 → 2
+   * 매도 거래세를 시장별 세율로 변경 (기존 단일 거래세는 모든 시장에 적용)
+   */
+  1: (file) => {
+    const strategy = file.strategy;
+    if (!isJsonObject(strategy) || !isJsonObject(strategy.costModel) || !('sellTaxPercent' in strategy.costModel)) {
+      return { ...file, version: 2 };
+    }
+
+    const { sellTaxPercent, ...costModel } = strategy.costModel;
+    return {
+      ...file,
+      version: 2,
+      strategy: {
+        ...strategy,
+        costModel: { ...costModel, sellTax: { KRX: sellTaxPercent, US: sellTaxPercent, default: sellTaxPercent } },
+      },
+    };
+  },
+};
+
+/**
+ * 파일 형식 버전 판별
+ * @returns 파일 버전, 전략 파일이 아니면 null
+ */
+function detectVersion(raw: JsonObject): number | null {
+  if (raw.format === STRATEGY_FILE_FORMAT) {
+    return typeof raw.version === 'number' ? raw.version : null;
+  }
+
+  // 형식 정보가 없는 전략 문서
+  if (raw.format === undefined && ('buyRules' in raw || 'sellRules' in raw)) {
+    return 0;
+  }
+
+  return null;
+}
+
+/**
+ * 전략 파일을 현재 버전 형식으로 변환
+ * @param raw JSON.parse 결과
+ * @returns 변환된 파일과 원본 버전
+ */
+export function migrateStrategyFile(raw: unknown): MigrationResult {
+  if (!isJsonObject(raw)) {
+    return {
+      file: null,
+      sourceVersion: null,
+      errors: [{ path: '', message: '전략 파일은 JSON 객체여야 합니다.' }],
+    };
+  }
+
+  if (raw.format !== undefined && raw.format !== STRATEGY_FILE_FORMAT) {
+    return {
+      file: null,
+      sourceVersion: null,
+      errors: [{ path: 'format', message: `지원하지 않는 파일 형식입니다 (${String(raw.format)}).` }],
+    };
+  }
+
+  const sourceVersion = detectVersion(raw);
+
+  if (sourceVersion === null) {
+    return {
+      file: null,
+      sourceVersion: null,
+      errors: [{ path: 'version', message: '전략 파일 형식 버전을 확인할 수 없습니다.' }],
+    };
+  }
+
+  if (!Number.isInteger(sourceVersion) || sourceVersion < 0) {
+    return {
+      file: null,
+      sourceVersion,
+      errors: [{ path: 'version', message: `올바르지 않은 파일 형식 버전입니다 (${sourceVersion}).` }],
+    };
+  }
+
+  if (sourceVersion > STRATEGY_FILE_VERSION) {
+    return {
+      file: null,
+      sourceVersion,
+      errors: [{
+        path: 'version',
+        message: `이 앱이 지원하는 버전(${STRATEGY_FILE_VERSION})보다 새로운 버전(${sourceVersion})의 파일입니다.`,
+      }],
+    };
+  }
+
+  let file = raw;
+  for (let version = sourceVersion; version < STRATEGY_FILE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      return {
+        file: null,
+        sourceVersion,
+        errors: [{ path: 'version', message: `버전 ${version} 파일을 변환할 수 없습니다.` }],
+      };
+    }
+    file = migrate(file);
+  }
+
+  return { file, sourceVersion, errors: [] };
+}
@@ -0,0 +1,612 @@
+/**
+ * 전략 정의 검증
+ * 외부에서 가져온 전략이 앱에서 편집/실행 가능한 구조인지 위치별 오류와 함께 확인
+ */
+
+import {
+  AllocationMode,
+  COMPARISON_OPERATORS,
+  ConditionParameter,
+  IndicatorType,
+  LookbackMode,
+  MAX_CONDITION_BARS,
+  MomentumScoreMethod,
+  PeriodUnit,
+  SignalType,
+  SlippageUnit,
+  StrategyKind,
+  TaxMarket,
+} from '../../types/strategy';
+import { StrategyFileError } from '../../types/strategy-file';
+import { getDefaultParameters } from '../../constants/indicator-parameters';
+import { isJsonObject } from './migrations';
+
+// 논리 연산자 목록
+const LOGICAL_OPERATORS = ['AND', 'OR'];
+
+// 조건 구간 집계 방식 목록
+const LOOKBACK_MODES: LookbackMode[] = ['any', 'all', 'count', 'highest', 'lowest'];
+
+// 지표 타입 목록
+const INDICATOR_TYPES = Object.values(IndicatorType) as string[];
+
+// 전략 종류 목록
+const STRATEGY_KINDS: StrategyKind[] = ['signal', 'allocation'];
+
+// 자산 배분 방식 목록
+const ALLOCATION_MODES: AllocationMode[] = ['static', 'momentum'];
+
+// 모멘텀 점수 방식 목록
+const MOMENTUM_SCORE_METHODS: MomentumScoreMethod[] = ['weighted13612', 'sma12', 'return12'];
+
+// 리밸런싱 기간 단위 목록
+const PERIOD_UNITS = Object.values(PeriodUnit) as string[];
+
+// 슬리피지 단위 목록
+const SLIPPAGE_UNITS: SlippageUnit[] = ['bps', 'ticks'];
+
+// 매도 거래세 시장 목록
+const TAX_MARKETS: TaxMarket[] = ['KRX', 'US', 'default'];
+
+/**
+ * 유한한 숫자 여부 확인
+ */
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * 지표 타입 검증
+ * @returns 유효한 지표 타입, 유효하지 않으면 null
+ */
+function validateIndicatorType(
+  value: unknown,
+  path: string,
+  errors: StrategyFileError[]
+): IndicatorType | null {
+  if (typeof value !== 'string' || !INDICATOR_TYPES.includes(value)) {
+    errors.push({ path, message: `알 수 없는 지표 타입입니다 (${String(value)}).` });
+    return null;
+  }
+  return value as IndicatorType;
+}
+
+/**
+ * 파라미터 값을 기본 파라미터 정의(범위, 선택지)와 비교하여 검증
+ */
+function validateParameterValue(
+  value: unknown,
+  definition: ConditionParameter,
+  path: string,
+  errors: StrategyFileError[]
+): void {
+  if (definition.options) {
+    if (typeof value !== 'string' || !definition.options.includes(value)) {
+      errors.push({
+        path,
+        message: `${definition.name} 값은 ${definition.options.join(', ')} 중 하나여야 합니다 (${String(value)}).`,
+      });
+    }
+    return;
+  }
+
+  if (!isFiniteNumber(value)) {
+    errors.push({ path, message: `${definition.name} 값은 숫자여야 합니다 (${String(value)}).` });
+    return;
+  }
+
+  if (
+    (definition.min !== undefined && value < definition.min) ||
+    (definition.max !== undefined && value > definition.max)
+  ) {
+    errors.push({
+      path,
+      message: `${definition.name} 값은 ${definition.min} ~ ${definition.max} 범위여야 합니다 (${value}).`,
+    });
+    return;
+  }
+
+  // 최소값과 증가 단위가 정수인 파라미터(기간 등)는 정수만 허용
+  if (Number.isInteger(definition.min) && Number.isInteger(definition.step ?? 1) && !Number.isInteger(value)) {
+    errors.push({ path, message: `${definition.name} 값은 정수여야 합니다 (${value}).` });
+  }
+}
+
+/**
+ * 지표 파라미터 목록 검증
+ * 각 지표에 정의되지 않은 파라미터, 중복 파라미터, 범위를 벗어난 값을 오류로 처리
+ */
+function validateParameters(
+  value: unknown,
+  type: IndicatorType,
+  path: string,
+  errors: StrategyFileError[]
+): void {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: '파라미터 목록은 배열이어야 합니다.' });
+    return;
+  }
+
+  const definitions = getDefaultParameters(type);
+  const seen = new Set<string>();
+
+  value.forEach((parameter, i) => {
+    const parameterPath = `${path}[${i}]`;
+
+    if (!isJsonObject(parameter) || typeof parameter.name !== 'string') {
+      errors.push({ path: parameterPath, message: '파라미터에는 이름(name)이 필요합니다.' });
+      return;
+    }
+
+    const definition = definitions.find(d => d.name === parameter.name);
+    if (!definition) {
+      errors.push({
+        path: `${parameterPath}.name`,
+        message: `${type} 지표에 없는 파라미터입니다 (${parameter.name}).`,
+      });
+      return;
+    }
+
+    if (seen.has(parameter.name)) {
+      errors.push({ path: `${parameterPath}.name`, message: `중복된 파라미터입니다 (${parameter.name}).` });
+      return;
+    }
+    seen.add(parameter.name);
+
+    validateParameterValue(parameter.value, definition, `${parameterPath}.value`, errors);
+  });
+}
+
+/**
+ * 정수 범위 검증 (미설정은 허용)
+ */
+function validateOptionalInteger(
+  value: unknown,
+  min: number,
+  max: number,
+  path: string,
+  label: string,
+  errors: StrategyFileError[]
+): void {
+  if (value === undefined || value === null) return;
+
+  if (!Number.isInteger(value) || (value as number) < min || (value as number) > max) {
+    errors.push({ path, message: `${label}은(는) ${min} ~ ${max} 범위의 정수여야 합니다 (${String(value)}).` });
+  }
+}
+
+/**
+ * 조건 구간 집계 설정 검증
+ */
+function validateLookback(
+  value: unknown,
+  hasValueType: boolean,
+  path: string,
+  errors: StrategyFileError[]
+): void {
+  if (value === undefined || value === null) return;
+
+  if (!isJsonObject(value)) {
+    errors.push({ path, message: '구간 집계 설정은 객체여야 합니다.' });
+    return;
+  }
+
+  if (typeof value.mode !== 'string' || !(LOOKBACK_MODES as string[]).includes(value.mode)) {
+    errors.push({
+      path: `${path}.mode`,
+      message: `지원하지 않는 구간 집계 방식입니다 (${String(value.mode)}).`,
+    });
+  }
+
+  if (value.period === undefined || value.period === null) {
+    errors.push({ path: `${path}.period`, message: '구간 봉 수가 필요합니다.' });
+  } else {
+    validateOptionalInteger(value.period, 1, MAX_CONDITION_BARS, `${path}.period`, '구간 봉 수', errors);
+  }
+
+  if (value.mode === 'count') {
+    const maxCount = Number.isInteger(value.period) ? (value.period as number) : MAX_CONDITION_BARS;
+    validateOptionalInteger(value.count, 1, maxCount, `${path}.count`, '최소 충족 봉 수', errors);
+  }
+
+  if (value.side !== undefined && value.side !== 'left' && value.side !== 'right') {
+    errors.push({ path: `${path}.side`, message: `집계 대상은 left 또는 right여야 합니다 (${String(value.side)}).` });
+  } else if (value.side === 'right' && !hasValueType) {
+    errors.push({ path: `${path}.side`, message: '비교 지표가 없는 조건은 우변에 구간 집계를 적용할 수 없습니다.' });
+  }
+}
+
+/**
+ * 단일 조건 검증
+ */
+function validateCondition(value: unknown, path: string, errors: StrategyFileError[]): void {
+  if (!isJsonObject(value)) {
+    errors.push({ path, message: '조건은 객체여야 합니다.' });
+    return;
+  }
+
+  const type = validateIndicatorType(value.type, `${path}.type`, errors);
+  if (type) {
+    validateParameters(value.parameters, type, `${path}.parameters`, errors);
+  }
+
+  if (typeof value.operator !== 'string' || !(COMPARISON_OPERATORS as string[]).includes(value.operator)) {
+    errors.push({
+      path: `${path}.operator`,
+      message: `지원하지 않는 비교 연산자입니다 (${String(value.operator)}).`,
+    });
+  }
+
+  if (value.valueType !== undefined && value.valueType !== null) {
+    const valueType = validateIndicatorType(value.valueType, `${path}.valueType`, errors);
+    if (valueType) {
+      validateParameters(value.valueParameters ?? [], valueType, `${path}.valueParameters`, errors);
+    }
+  } else if (!isFiniteNumber(value.value)) {
+    errors.push({ path: `${path}.value`, message: `비교값은 숫자여야 합니다 (${String(value.value)}).` });
+  }
+
+  if (value.valueMultiplier !== undefined && value.valueMultiplier !== null && !isFiniteNumber(value.valueMultiplier)) {
+    errors.push({
+      path: `${path}.valueMultiplier`,
+      message: `비교 지표 배수는 숫자여야 합니다 (${String(value.valueMultiplier)}).`,
+    });
+  }
+
+  if (value.valueAddend !== undefined && value.valueAddend !== null && !isFiniteNumber(value.valueAddend)) {
+    errors.push({
+      path: `${path}.valueAddend`,
+      message: `비교 지표에 더할 값은 숫자여야 합니다 (${String(value.valueAddend)}).`,
+    });
+  }
+
+  validateOptionalInteger(value.offset, 0, MAX_CONDITION_BARS, `${path}.offset`, '기준 봉 오프셋', errors);
+  validateOptionalInteger(value.valueOffset, 0, MAX_CONDITION_BARS, `${path}.valueOffset`, '비교 지표 오프셋', errors);
+  validateLookback(
+    value.lookback,
+    value.valueType !== undefined && value.valueType !== null,
+    `${path}.lookback`,
+    errors
+  );
+}
+
+/**
+ * 조건 그룹 검증
+ */
+function validateConditionGroup(value: unknown, path: string, errors: StrategyFileError[]): void {
+  if (!isJsonObject(value)) {
+    errors.push({ path, message: '조건 그룹은 객체여야 합니다.' });
+    return;
+  }
+
+  if (!LOGICAL_OPERATORS.includes(value.operator as string)) {
+    errors.push({
+      path: `${path}.operator`,
+      message: `논리 연산자는 AND 또는 OR이어야 합니다 (${String(value.operator)}).`,
+    });
+  }
+
+  if (!Array.isArray(value.conditions) || value.conditions.length === 0) {
+    errors.push({ path: `${path}.conditions`, message: '조건 그룹에는 최소 하나의 조건이 필요합니다.' });
+    return;
+  }
+
+  value.conditions.forEach((condition, i) =>
+    validateCondition(condition, `${path}.conditions[${i}]`, errors)
+  );
+}
+
+/**
+ * 매매 규칙 목록 검증
+ */
+function validateTradeRules(
+  value: unknown,
+  signalType: SignalType,
+  path: string,
+  errors: StrategyFileError[]
+): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push({ path, message: '최소 하나의 매매 규칙이 필요합니다.' });
+    return;
+  }
+
+  value.forEach((rule, i) => {
+    const rulePath = `${path}[${i}]`;
+
+    if (!isJsonObject(rule)) {
+      errors.push({ path: rulePath, message: '매매 규칙은 객체여야 합니다.' });
+      return;
+    }
+
+    if (rule.type !== signalType) {
+      errors.push({
+        path: `${rulePath}.type`,
+        message: `규칙 종류는 ${signalType}여야 합니다 (${String(rule.type)}).`,
+      });
+    }
+
+    if (!LOGICAL_OPERATORS.includes(rule.operator as string)) {
+      errors.push({
+        path: `${rulePath}.operator`,
+        message: `논리 연산자는 AND 또는 OR이어야 합니다 (${String(rule.operator)}).`,
+      });
+    }
+
+    if (!Array.isArray(rule.conditionGroups) || rule.conditionGroups.length === 0) {
+      errors.push({
+        path: `${rulePath}.conditionGroups`,
+        message: '매매 규칙에는 최소 하나의 조건 그룹이 필요합니다.',
+      });
+      return;
+    }
+
+    rule.conditionGroups.forEach((group, j) =>
+      validateConditionGroup(group, `${rulePath}.conditionGroups[${j}]`, errors)
+    );
+  });
+}
+
+/**
+ * 자금 관리 설정 검증
+ */
+function validateMoneyManagement(value: unknown, path: string, errors: StrategyFileError[]): void {
+  if (!isJsonObject(value)) {
+    errors.push({ path, message: '자금 관리 설정이 필요합니다.' });
+    return;
+  }
+
+  if (!isFiniteNumber(value.initialCapital) || value.initialCapital <= 0) {
+    errors.push({ path: `${path}.initialCapital`, message: '초기 자본은 0보다 커야 합니다.' });
+  }
+
+  if (!isFiniteNumber(value.positionSizing) || value.positionSizing <= 0 || value.positionSizing > 100) {
+    errors.push({ path: `${path}.positionSizing`, message: '포지션 크기는 0 초과 100 이하(%)여야 합니다.' });
+  }
+
+  if (!Number.isInteger(value.maxPositions) || (value.maxPositions as number) < 1) {
+    errors.push({ path: `${path}.maxPositions`, message: '최대 포지션 수는 1 이상의 정수여야 합니다.' });
+  }
+
+  // 선택 항목 (0 또는 미설정은 사용 안 함)
+  const optionalRanges: [string, number][] = [
+    ['stopLoss', 100],
+    ['takeProfit', 1000],
+    ['trailingStop', 100],
+  ];
+
+  optionalRanges.forEach(([field, max]) => {
+    const fieldValue = value[field];
+    if (fieldValue === undefined || fieldValue === null) return;
+
+    if (!isFiniteNumber(fieldValue) || fieldValue < 0 || fieldValue > max) {
+      errors.push({ path: `${path}.${field}`, message: `${field} 값은 0 ~ ${max}(%) 범위여야 합니다.` });
+    }
+  });
+}
+
+/**
+ * 거래 비용 모델 검증
+ * @param value 검증할 거래 비용 모델
+ * @param path 오류 위치 접두사
+ * @returns 검증 오류 목록 (비어 있으면 유효)
+ */
+export function validateCostModel(value: unknown, path = 'costModel'): StrategyFileError[] {
+  const errors: StrategyFileError[] = [];
+
+  if (!isJsonObject(value)) {
+    errors.push({ path, message: '거래 비용 설정은 객체여야 합니다.' });
+    return errors;
+  }
+
+  const ranges: [string, string, number][] = [
+    ['commissionPercent', '수수료율(%)', 10],
+    ['commissionFixed', '건당 고정 수수료', 1_000_000],
+    ['commissionMin', '최소 수수료', 1_000_000],
+    ['slippage', '슬리피지', 1000],
+  ];
+
+  ranges.forEach(([field, label, max]) => {
+    const fieldValue = value[field];
+    if (!isFiniteNumber(fieldValue) || fieldValue < 0 || fieldValue > max) {
+      errors.push({ path: `${path}.${field}`, message: `${label}은(는) 0 ~ ${max} 범위의 숫자여야 합니다.` });
+    }
+  });
+
+  const sellTax = value.sellTax;
+  if (!isJsonObject(sellTax)) {
+    errors.push({ path: `${path}.sellTax`, message: '매도 거래세는 시장별 세율 객체여야 합니다.' });
+  } else {
+    TAX_MARKETS.forEach((market) => {
+      const rate = sellTax[market];
+      if (!isFiniteNumber(rate) || rate < 0 || rate > 10) {
+        errors.push({ path: `${path}.sellTax.${market}`, message: `매도 거래세(${market}, %)는 0 ~ 10 범위의 숫자여야 합니다.` });
+      }
+    });
+  }
+
+  if (typeof value.slippageUnit !== 'string' || !(SLIPPAGE_UNITS as string[]).includes(value.slippageUnit)) {
+    errors.push({
+      path: `${path}.slippageUnit`,
+      message: `슬리피지 단위는 ${SLIPPAGE_UNITS.join(', ')} 중 하나여야 합니다 (${String(value.slippageUnit)}).`,
+    });
+  }
+
+  if (
+    value.tickSize !== undefined &&
+    value.tickSize !== null &&
+    (!isFiniteNumber(value.tickSize) || value.tickSize <= 0)
+  ) {
+    errors.push({ path: `${path}.tickSize`, message: '호가 단위는 0보다 커야 합니다.' });
+  }
+
+  return errors;
+}
+
+/**
+ * 종목 목록 검증 (비어 있지 않은 문자열 배열)
+ */
+function validateSymbolList(
+  value: unknown,
+  path: string,
+  label: string,
+  required: boolean,
+  errors: StrategyFileError[]
+): void {
+  if (!Array.isArray(value)) {
+    errors.push({ path, message: `${label}은(는) 종목 코드 배열이어야 합니다.` });
+    return;
+  }
+
+  if (required && value.length === 0) {
+    errors.push({ path, message: `${label}이(가) 최소 하나 필요합니다.` });
+  }
+
+  value.forEach((symbol, i) => {
+    if (typeof symbol !== 'string' || symbol.trim() === '') {
+      errors.push({ path: `${path}[${i}]`, message: '종목 코드는 비어 있지 않은 문자열이어야 합니다.' });
+    }
+  });
+}
+
+/**
+ * 자산 배분 설정 검증
+ * @param value 검증할 자산 배분 설정
+ * @param path 오류 위치 접두사
+ * @returns 검증 오류 목록 (비어 있으면 유효)
+ */
+export function validateAssetAllocation(value: unknown, path = 'allocation'): StrategyFileError[] {
+  const errors: StrategyFileError[] = [];
+
+  if (!isJsonObject(value)) {
+    errors.push({ path, message: '자산 배분 설정이 필요합니다.' });
+    return errors;
+  }
+
+  if (typeof value.mode !== 'string' || !(ALLOCATION_MODES as string[]).includes(value.mode)) {
+    errors.push({ path: `${path}.mode`, message: `지원하지 않는 배분 방식입니다 (${String(value.mode)}).` });
+  }
+
+  if (value.mode === 'static') {
+    if (!Array.isArray(value.assets) || value.assets.length === 0) {
+      errors.push({ path: `${path}.assets`, message: '고정 비중 자산이 최소 하나 필요합니다.' });
+    } else {
+      let totalWeight = 0;
+
+      value.assets.forEach((asset, i) => {
+        const assetPath = `${path}.assets[${i}]`;
+
+        if (!isJsonObject(asset) || typeof asset.symbol !== 'string' || asset.symbol.trim() === '') {
+          errors.push({ path: `${assetPath}.symbol`, message: '종목 코드가 필요합니다.' });
+          return;
+        }
+
+        if (!isFiniteNumber(asset.weight) || asset.weight <= 0 || asset.weight > 100) {
+          errors.push({ path: `${assetPath}.weight`, message: '목표 비중은 0 초과 100 이하(%)여야 합니다.' });
+          return;
+        }
+
+        totalWeight += asset.weight;
+      });
+
+      if (totalWeight > 100 + 1e-6) {
+        errors.push({ path: `${path}.assets`, message: `목표 비중 합계는 100%를 넘을 수 없습니다 (${totalWeight}%).` });
+      }
+    }
+  }
+
+  if (value.mode === 'momentum') {
+    validateSymbolList(value.canary, `${path}.canary`, '카나리아 자산', false, errors);
+    validateSymbolList(value.offensive, `${path}.offensive`, '공격 자산', true, errors);
+    validateSymbolList(value.defensive, `${path}.defensive`, '수비 자산', false, errors);
+    validateOptionalInteger(value.offensiveTopN, 1, 50, `${path}.offensiveTopN`, '공격 자산 보유 수', errors);
+    validateOptionalInteger(value.defensiveTopN, 1, 50, `${path}.defensiveTopN`, '수비 자산 보유 수', errors);
+
+    (['canaryScore', 'selectionScore'] as const).forEach(field => {
+      if (!(MOMENTUM_SCORE_METHODS as unknown[]).includes(value[field])) {
+        errors.push({
+          path: `${path}.${field}`,
+          message: `지원하지 않는 모멘텀 점수 방식입니다 (${String(value[field])}).`,
+        });
+      }
+    });
+
+    if (
+      value.cashSymbol !== undefined &&
+      (typeof value.cashSymbol !== 'string' || value.cashSymbol.trim() === '')
+    ) {
+      errors.push({ path: `${path}.cashSymbol`, message: '현금 대체 종목은 비어 있지 않은 문자열이어야 합니다.' });
+    }
+  }
+
+  if (typeof value.rebalancePeriod !== 'string' || !PERIOD_UNITS.includes(value.rebalancePeriod)) {
+    errors.push({
+      path: `${path}.rebalancePeriod`,
+      message: `리밸런싱 기간 단위는 ${PERIOD_UNITS.join(', ')} 중 하나여야 합니다 (${String(value.rebalancePeriod)}).`,
+    });
+  }
+
+  if (value.rebalanceInterval === undefined || value.rebalanceInterval === null) {
+    errors.push({ path: `${path}.rebalanceInterval`, message: '리밸런싱 주기가 필요합니다.' });
+  } else {
+    validateOptionalInteger(value.rebalanceInterval, 1, 120, `${path}.rebalanceInterval`, '리밸런싱 주기', errors);
+  }
+
+  if (
+    value.cashBuffer !== undefined &&
+    value.cashBuffer !== null &&
+    (!isFiniteNumber(value.cashBuffer) || value.cashBuffer < 0 || value.cashBuffer > 100)
+  ) {
+    errors.push({ path: `${path}.cashBuffer`, message: 'cashBuffer 값은 0 ~ 100(%) 범위여야 합니다.' });
+  }
+
+  return errors;
+}
+
+/**
+ * 전략 정의 검증
+ * 자산 배분 전략은 매매 규칙 대신 자산 배분 설정을 검증
+ * @param value 검증할 전략 정의 (파일의 strategy 필드)
+ * @param path 오류 위치 접두사
+ * @returns 검증 오류 목록 (비어 있으면 유효)
+ */
+export function validateStrategyDefinition(value: unknown, path = 'strategy'): StrategyFileError[] {
+  const errors: StrategyFileError[] = [];
+
+  if (!isJsonObject(value)) {
+    errors.push({ path, message: '전략 정의가 필요합니다.' });
+    return errors;
+  }
+
+  if (typeof value.name !== 'string' || value.name.trim() === '') {
+    errors.push({ path: `${path}.name`, message: '전략 이름이 필요합니다.' });
+  }
+
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    errors.push({ path: `${path}.description`, message: '설명은 문자열이어야 합니다.' });
+  }
+
+  if (
+    value.tags !== undefined &&
+    (!Array.isArray(value.tags) || value.tags.some(tag => typeof tag !== 'string'))
+  ) {
+    errors.push({ path: `${path}.tags`, message: '태그는 문자열 배열이어야 합니다.' });
+  }
+
+  if (value.kind !== undefined && !(STRATEGY_KINDS as unknown[]).includes(value.kind)) {
+    errors.push({ path: `${path}.kind`, message: `알 수 없는 전략 종류입니다 (${String(value.kind)}).` });
+  }
+
+  if (value.kind === 'allocation') {
+    errors.push(...validateAssetAllocation(value.allocation, `${path}.allocation`));
+  } else {
+    validateTradeRules(value.buyRules, SignalType.BUY, `${path}.buyRules`, errors);
+    validateTradeRules(value.sellRules, SignalType.SELL, `${path}.sellRules`, errors);
+  }
+  validateMoneyManagement(value.moneyManagement, `${path}.moneyManagement`, errors);
+
+  if (value.costModel !== undefined) {
+    errors.push(...validateCostModel(value.costModel, `${path}.costModel`));
+  }
+
+  return errors;
+}